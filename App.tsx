@@ -1,16 +1,26 @@
 
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { jsPDF } from 'jspdf';
-import { parseDxf } from './utils/dxfParser';
-import { DxfData, LayerColors, DxfEntity, EntityType, Point, Bounds, SearchResult, ViewportRegion, AnalysisDomain, ProjectFile, SemanticLayer } from './types';
+import { parseDxfInWorker, isAbortError } from './utils/dxfWorkerClient';
+import { DxfData, DxfLayer, LayerColors, DxfEntity, EntityType, Point, Bounds, SearchResult, ViewportRegion, AnalysisDomain, ProjectFile, SemanticLayer } from './types';
 import { calculateTotalBounds, getEntityBounds } from './utils/geometryUtils';
-import { extractEntities } from './utils/dxfHelpers';
-import { Viewer } from './components/Viewer';
+import { extractEntities, isLayerInitiallyVisible } from './utils/dxfHelpers';
+import { collectAttributedInserts } from './utils/attributeUtils';
+import { getLayoutBounds, getModelSpaceEntities } from './utils/layoutUtils';
+import { Viewer, ViewerViewState } from './components/Viewer';
+import { ModelViewer } from './components/ModelViewer';
 import { Button } from './components/Button';
 import { renderDxfToCanvas, aciToHex } from './utils/renderUtils';
+import { renderDxfToSvg } from './utils/svgExport';
+import { trueColorToHex, SCREEN_PX_PER_MM } from './utils/plotStyleUtils';
+import { renderDxfToPdf, renderSheetSetToPdf, PAPER_SIZES, PLOT_SCALES, PaperSize, PaperOrientation } from './utils/pdfExport';
+import { getProjectUnits } from './utils/units';
+import { ANALYSIS_RESULT_LAYERS, exportAnalysisModel } from './domains/structure/analysisPersistence';
+import { buildStructureModel } from './domains/structure/modelExportService';
+import { DEFAULT_STOREY_HEIGHT } from './domains/structure/common';
 import { AnalysisSidebar } from './components/AnalysisSidebar';
-import { Layers, Image as ImageIcon, FileText, Settings, X, RefreshCw, Search, Plus, File as FileIcon, ChevronUp, ChevronDown, Hammer } from 'lucide-react';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { Layers, Image as ImageIcon, FileText, Settings, X, RefreshCw, Search, Plus, File as FileIcon, ChevronUp, ChevronDown, Hammer, EyeOff, Snowflake, Lock, Printer, Stethoscope, Box } from 'lucide-react';
 import { getStoredConfig, saveStoredConfig } from './utils/configStorage';
 
 // Standard CAD Colors for UI Picker
@@ -29,7 +39,7 @@ const CAD_COLORS = [
   '#800080', // Purple
 ];
 
-type SidebarTab = 'LAYERS' | 'ANALYSIS';
+type SidebarTab = 'LAYERS' | 'ANALYSIS' | 'DIAGNOSTICS';
 
 const App: React.FC = () => {
   // --- STATE ---
@@ -40,6 +50,16 @@ const App: React.FC = () => {
   const [isSidebarOpen, setSidebarOpen] = useState(true);
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>('LAYERS');
   const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [showLineWeights, setShowLineWeights] = useState(false);
+  const [pdfPaperSize, setPdfPaperSize] = useState<PaperSize>('A3');
+  const [pdfOrientation, setPdfOrientation] = useState<PaperOrientation>('landscape');
+  const [pdfScale, setPdfScale] = useState(0);
+  const [sheetOverlay, setSheetOverlay] = useState(false);
+  const [svgMode, setSvgMode] = useState<'VIEW' | 'FULL'>('VIEW');
+  const [viewMode, setViewMode] = useState<'2D' | '3D'>('2D');
+  const [storeyHeight, setStoreyHeight] = useState(DEFAULT_STOREY_HEIGHT); // mm; shared by the 3D preview and the IFC export
+  const loadAbortRef = useRef<AbortController | null>(null);
   const [pickingColorLayer, setPickingColorLayer] = useState<string | null>(null);
 
   // Analysis State
@@ -55,11 +75,17 @@ const App: React.FC = () => {
   const [currentResultIdx, setCurrentResultIdx] = useState(-1);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const viewRef = useRef<ViewerViewState | null>(null);
 
   const activeProject = useMemo(() =>
     projects.find(p => p.id === activeProjectId) || null
     , [projects, activeProjectId]);
 
+  // Extruded structure for the 3D preview; only built while it is shown
+  const structureModel = useMemo(() =>
+    viewMode === '3D' && activeProject ? buildStructureModel(activeProject, { storeyHeight }) : null
+    , [viewMode, activeProject, storeyHeight]);
+
   // --- DATA LOADING ---
 
   const autoDetectLayers = (layers: string[], usedLayers: Set<string>): Record<SemanticLayer, string[]> => {
@@ -121,90 +147,38 @@ const App: React.FC = () => {
     if (!uploadedFiles || uploadedFiles.length === 0) return;
 
     setIsLoading(true);
+    setLoadProgress(0);
 
     // Process files
     const fileList = Array.from(uploadedFiles) as File[];
-
-    // Try multiple encodings and pick the one with the fewest replacement chars ()
-    const decodeBufferBestEffort = (buffer: ArrayBuffer) => {
-      const preferred = ['utf-8', 'gb18030', 'gbk', 'big5', 'shift_jis', 'windows-1252'];
-      const codepageMap: Record<string, string> = {
-        'ANSI_936': 'gb18030',
-        'ANSI_1252': 'windows-1252',
-        'UTF-8': 'utf-8',
-        'UTF8': 'utf-8'
-      };
-
-      const extractCodepage = (buf: Uint8Array): string | null => {
-        try {
-          const ascii = new TextDecoder('ascii', { fatal: false }).decode(buf);
-          const match = ascii.match(/\$DWGCODEPAGE\s*[\r\n]+\s*3\s*[\r\n]+([A-Za-z0-9_]+)/i);
-          return match ? match[1].trim() : null;
-        } catch {
-          return null;
-        }
-      };
-
-      const bufView = new Uint8Array(buffer);
-      const codepage = extractCodepage(bufView);
-      const hinted = codepage ? codepageMap[codepage.toUpperCase()] : undefined;
-      const candidates = hinted ? [hinted, ...preferred] : preferred;
-
-      const seen = new Set<string>();
-      let best = { text: '', enc: hinted || 'utf-8', quality: -Infinity, repl: Number.POSITIVE_INFINITY };
-
-      candidates.forEach(enc => {
-        if (!enc || seen.has(enc)) return;
-        seen.add(enc);
-        try {
-          const dec = new TextDecoder(enc as any, { fatal: false });
-          const text = dec.decode(bufView);
-          const replacements = (text.match(/\uFFFD/g) || []).length;
-          const cjkCount = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-          const quality = cjkCount / (1 + replacements); // prefer readable CJK while heavily penalizing replacement characters
-
-          if (
-            quality > best.quality ||
-            (quality === best.quality && replacements < best.repl)
-          ) {
-            best = { text, enc, quality, repl: replacements };
-          }
-        } catch (e) {
-          // Ignore unsupported encodings
-        }
-      });
-
-      if (best.text === '') {
-        best.text = new TextDecoder().decode(bufView);
-        best.enc = 'utf-8';
-      }
-
-      return { text: best.text, enc: best.enc };
-    };
+    const fileProgress = fileList.map(() => 0);
+    const abort = new AbortController();
+    loadAbortRef.current = abort;
 
     const processFiles = async () => {
       const newProjects: ProjectFile[] = [];
       const newColors: LayerColors = { ...layerColors };
 
       try {
-        await Promise.all(fileList.map(async (file) => {
+        await Promise.all(fileList.map(async (file, fileIdx) => {
           const reader = new FileReader();
-          const { text: content, enc: usedEnc } = await new Promise<{ text: string, enc: string }>((resolve, reject) => {
+          const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
             reader.onload = (e) => {
               const result = e.target?.result;
-              if (result instanceof ArrayBuffer) {
-                resolve(decodeBufferBestEffort(result));
-              } else if (typeof result === 'string') {
-                resolve({ text: result, enc: 'utf-8' });
-              } else {
-                resolve({ text: '', enc: 'utf-8' });
-              }
+              resolve(result instanceof ArrayBuffer ? result : new ArrayBuffer(0));
             };
             reader.onerror = reject;
             reader.readAsArrayBuffer(file);
           });
 
-          const parsed = parseDxf(content, usedEnc);
+          // ASCII and binary DXF are both handled by the worker
+          const { data: parsed } = await parseDxfInWorker(buffer, {
+            signal: abort.signal,
+            onProgress: (fraction) => {
+              fileProgress[fileIdx] = fraction;
+              setLoadProgress(fileProgress.reduce((a, b) => a + b, 0) / fileProgress.length);
+            }
+          });
 
           // Determine used layers to filter out empty ones
           const usedLayers = new Set<string>();
@@ -221,18 +195,20 @@ const App: React.FC = () => {
             if (layerDef && layerDef.color !== undefined) {
               aci = layerDef.color;
             }
-            newColors[layerName] = aciToHex(aci);
+            newColors[layerName] = layerDef?.trueColor !== undefined ? trueColorToHex(layerDef.trueColor) : aciToHex(aci);
           });
 
           // PRIORITY: Check LocalStorage for existing config for this file
           const storedConfig = getStoredConfig(file.name);
-          const detectedConfig = autoDetectLayers(parsed.layers, usedLayers);
+          // Hidden layers are left out of both the initial view and layer auto-detection
+          const visibleLayers = parsed.layers.filter(l => isLayerInitiallyVisible(parsed.layerDictionary[l]));
+          const detectedConfig = autoDetectLayers(visibleLayers, usedLayers);
 
           newProjects.push({
             id: Math.random().toString(36).substr(2, 9),
             name: file.name,
             data: parsed,
-            activeLayers: new Set(parsed.layers),
+            activeLayers: new Set(visibleLayers),
             filledLayers: new Set(),
             layerConfig: storedConfig || detectedConfig, // Prefer stored
             splitRegions: null
@@ -250,14 +226,21 @@ const App: React.FC = () => {
         });
 
       } catch (err) {
-        console.error(err);
-        alert("Failed to read files.");
+        if (isAbortError(err)) {
+          console.log("File loading cancelled.");
+        } else {
+          console.error(err);
+          alert("Failed to read files.");
+        }
       } finally {
+        loadAbortRef.current = null;
         setIsLoading(false);
       }
     };
 
     processFiles();
+    // Allow re-selecting the same file after a cancelled load
+    event.target.value = '';
   };
 
   const toggleLayer = (layer: string) => {
@@ -370,6 +353,18 @@ const App: React.FC = () => {
         }
       });
 
+      // Block attributes: "TAG=value" pairs also find tags and constant attributes, which have
+      // no ATTRIB text of their own. Values shown by an ATTRIB were already matched above.
+      collectAttributedInserts(activeProject.data).forEach(({ insert, attributes }) => {
+        if (!activeProject.activeLayers.has(insert.layer)) return;
+        const hit = Object.entries(attributes).some(([tag, value]) =>
+          `${tag}=${value}`.toLowerCase().includes(query) &&
+          !(insert.attributes?.[tag] !== undefined && value.toLowerCase().includes(query))
+        );
+        if (!hit) return;
+        matches.push({ bounds: calculateTotalBounds([insert], activeProject.data.blocks) });
+      });
+
       matches.sort((a, b) => {
         const rowA = Math.floor(a.bounds.minY / 1000);
         const rowB = Math.floor(b.bounds.minY / 1000);
@@ -413,11 +408,12 @@ const App: React.FC = () => {
 
   // --- EXPORT ---
 
-  const generateExportCanvas = (): HTMLCanvasElement | null => {
+  // Full extents at up to 8192 px, with lineweights sized as if fitted onto an A4 sheet
+  const getFullExtentsView = () => {
     if (!activeProject) return null;
 
     const bounds = calculateTotalBounds(
-      activeProject.data.entities,
+      getModelSpaceEntities(activeProject.data),
       activeProject.data.blocks,
       activeProject.activeLayers
     );
@@ -448,15 +444,8 @@ const App: React.FC = () => {
       canvasWidth = paddedWidth * scale;
     }
 
-    const offScreenCanvas = document.createElement('canvas');
-    offScreenCanvas.width = canvasWidth;
-    offScreenCanvas.height = canvasHeight;
-    const ctx = offScreenCanvas.getContext('2d');
-
-    if (!ctx) {
-      alert("Failed to initialize export canvas.");
-      return null;
-    }
+    const [sheetW, sheetH] = canvasWidth > canvasHeight ? [297, 210] : [210, 297];
+    const pxPerMm = Math.max(canvasWidth / sheetW, canvasHeight / sheetH);
 
     const midX = bounds.minX + dataWidth / 2;
     const midY = bounds.minY + dataHeight / 2;
@@ -467,21 +456,73 @@ const App: React.FC = () => {
       y: (canvasHeight / 2) - midY * scale
     };
 
+    return { transform, width: canvasWidth, height: canvasHeight, pxPerMm };
+  };
+
+  const generateExportCanvas = (): HTMLCanvasElement | null => {
+    if (!activeProject) return null;
+    const view = getFullExtentsView();
+    if (!view) return null;
+
+    const offScreenCanvas = document.createElement('canvas');
+    offScreenCanvas.width = view.width;
+    offScreenCanvas.height = view.height;
+    const ctx = offScreenCanvas.getContext('2d');
+
+    if (!ctx) {
+      alert("Failed to initialize export canvas.");
+      return null;
+    }
+
     renderDxfToCanvas({
       ctx,
       data: activeProject.data,
       activeLayers: activeProject.activeLayers,
       layerColors: layerColors,
       filledLayers: activeProject.filledLayers,
-      transform,
-      width: canvasWidth,
-      height: canvasHeight,
-      isPdfExport: true
+      transform: view.transform,
+      width: view.width,
+      height: view.height,
+      isPdfExport: true,
+      lineWeightPxPerMm: showLineWeights ? view.pxPerMm : undefined
     });
 
     return offScreenCanvas;
   };
 
+  // SVG of what the viewer shows, or of the whole drawing (also while the 3D view is open)
+  const exportSvg = () => {
+    if (!activeProject) return;
+    const current = svgMode === 'VIEW' && viewMode === '2D' ? viewRef.current : null;
+    const view = current
+      ? { ...current, pxPerMm: SCREEN_PX_PER_MM }
+      : getFullExtentsView();
+    if (!view) return;
+
+    const svg = renderDxfToSvg({
+      data: activeProject.data,
+      activeLayers: activeProject.activeLayers,
+      layerColors: layerColors,
+      filledLayers: activeProject.filledLayers,
+      transform: view.transform,
+      width: view.width,
+      height: view.height,
+      whiteBackground: true,
+      highlights: searchResults,
+      activeHighlightIndex: currentResultIdx,
+      lineWeightPxPerMm: showLineWeights ? view.pxPerMm : undefined,
+      layout: current?.layout
+    });
+
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${activeProject.name.replace('.dxf', '')}_${current ? 'view' : 'full'}.svg`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const exportPng = () => {
     setIsLoading(true);
     setTimeout(() => {
@@ -497,38 +538,90 @@ const App: React.FC = () => {
   };
 
   const exportPdf = () => {
+    if (!activeProject) return;
     setIsLoading(true);
     setTimeout(() => {
-      const canvas = generateExportCanvas();
-      if (canvas && activeProject) {
-        const imgData = canvas.toDataURL('image/png');
-        const canvasWidth = canvas.width;
-        const canvasHeight = canvas.height;
-        const isLandscape = canvasWidth > canvasHeight;
-
-        const pdf = new jsPDF({
-          orientation: isLandscape ? 'l' : 'p',
-          unit: 'mm',
-          format: 'a4'
-        });
-
-        const pdfPageWidth = pdf.internal.pageSize.getWidth();
-        const pdfPageHeight = pdf.internal.pageSize.getHeight();
-
-        const ratio = canvasWidth / canvasHeight;
-        let pdfImgWidth = pdfPageWidth;
-        let pdfImgHeight = pdfImgWidth / ratio;
+      // The layout tab shown in the viewer is plotted as its sheet; otherwise the model space extents
+      const layout = viewMode === '2D' ? viewRef.current?.layout : undefined;
+      const bounds = layout
+        ? getLayoutBounds(activeProject.data, layout)
+        : calculateTotalBounds(
+          getModelSpaceEntities(activeProject.data),
+          activeProject.data.blocks,
+          activeProject.activeLayers
+        );
+
+      if (bounds.maxX - bounds.minX <= 0 || bounds.maxY - bounds.minY <= 0) {
+        alert("Nothing to export (Drawing is empty or boundaries invalid).");
+        setIsLoading(false);
+        return;
+      }
 
-        if (pdfImgHeight > pdfPageHeight) {
-          pdfImgHeight = pdfPageHeight;
-          pdfImgWidth = pdfImgHeight * ratio;
+      const name = activeProject.name.replace('.dxf', '');
+      try {
+        const { pdf, fits } = renderDxfToPdf({
+          data: activeProject.data,
+          activeLayers: activeProject.activeLayers,
+          layerColors: layerColors,
+          filledLayers: activeProject.filledLayers,
+          bounds,
+          layout,
+          units: getProjectUnits(activeProject),
+          plot: {
+            paperSize: pdfPaperSize,
+            orientation: pdfOrientation,
+            scale: pdfScale,
+            showLineWeights,
+            title: name
+          }
+        });
+        if (!fits) {
+          alert(`The drawing does not fit on ${PAPER_SIZES[pdfPaperSize].label} at 1:${pdfScale}; the plot is centered and cropped.`);
         }
+        pdf.save(`${name}_plot.pdf`);
+      } catch (e) {
+        console.error(e);
+        alert("PDF export failed.");
+      }
+      setIsLoading(false);
+    }, 100);
+  };
 
-        const x = (pdfPageWidth - pdfImgWidth) / 2;
-        const y = (pdfPageHeight - pdfImgHeight) / 2;
+  // One sheet per split region; analysis result layers are only plotted when overlaid
+  const exportSheetSet = () => {
+    if (!activeProject || !activeProject.splitRegions || activeProject.splitRegions.length === 0) return;
+    setIsLoading(true);
+    setTimeout(() => {
+      const activeLayers = new Set<string>(activeProject.activeLayers);
+      ANALYSIS_RESULT_LAYERS.forEach(layer => {
+        if (sheetOverlay && activeProject.data.layers.includes(layer)) activeLayers.add(layer);
+        else activeLayers.delete(layer);
+      });
 
-        pdf.addImage(imgData, 'PNG', x, y, pdfImgWidth, pdfImgHeight);
-        pdf.save(`${activeProject.name.replace('.dxf', '')}_full_export.pdf`);
+      const name = activeProject.name.replace('.dxf', '');
+      try {
+        const { pdf, cropped } = renderSheetSetToPdf({
+          data: activeProject.data,
+          activeLayers,
+          layerColors: layerColors,
+          filledLayers: activeProject.filledLayers,
+          units: getProjectUnits(activeProject),
+          regions: activeProject.splitRegions!,
+          fileName: activeProject.name,
+          plot: {
+            paperSize: pdfPaperSize,
+            orientation: pdfOrientation,
+            scale: pdfScale,
+            showLineWeights
+          }
+        });
+        if (cropped.length > 0) {
+          alert(`These views do not fit on ${PAPER_SIZES[pdfPaperSize].label} at 1:${pdfScale} and are cropped:\n${cropped.join('\n')}`);
+        }
+        pdf.save(`${name}_sheets.pdf`);
+      } catch (e) {
+        console.error(e);
+        alert("Sheet set export failed.");
       }
       setIsLoading(false);
     }, 100);
@@ -545,6 +638,27 @@ const App: React.FC = () => {
     });
   };
 
+  // State flags from the DXF layer table, shown next to the layer name
+  const renderLayerBadges = (layerDef?: DxfLayer) => {
+    if (!layerDef) return null;
+    const badges = [
+      { show: layerDef.off, icon: EyeOff, title: 'Off in drawing' },
+      { show: layerDef.frozen, icon: Snowflake, title: 'Frozen' },
+      { show: layerDef.locked, icon: Lock, title: 'Locked' },
+      { show: layerDef.plot === false, icon: Printer, title: 'Not plotted' }
+    ].filter(b => b.show);
+    if (badges.length === 0) return null;
+    return (
+      <div className="flex items-center gap-1 ml-2 shrink-0 text-slate-500">
+        {badges.map(({ icon: Icon, title }) => (
+          <span key={title} title={title}>
+            <Icon className="w-3 h-3" />
+          </span>
+        ))}
+      </div>
+    );
+  };
+
   const filteredLayers = useMemo(() => {
     if (!activeProject) return [];
     if (!layerSearchTerm) return activeProject.data.layers;
@@ -593,6 +707,18 @@ const App: React.FC = () => {
               <Hammer size={14} /> Analysis
             </div>
           </button>
+          <button
+            onClick={() => setSidebarTab('DIAGNOSTICS')}
+            className={`flex-1 py-3 text-xs font-medium uppercase tracking-wider transition-colors ${sidebarTab === 'DIAGNOSTICS'
+              ? 'text-blue-400 border-b-2 border-blue-400 bg-slate-800/50'
+              : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800'
+              }`}
+            title="File Diagnostics"
+          >
+            <div className="flex items-center justify-center gap-2">
+              <Stethoscope size={14} /> Info
+            </div>
+          </button>
         </div>
 
         {/* SIDEBAR CONTENT AREA */}
@@ -641,8 +767,22 @@ const App: React.FC = () => {
 
               {/* Scrollable Layer List */}
               {isLoading ? (
-                <div className="flex items-center justify-center py-8">
-                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                <div className="flex flex-col items-center justify-center py-8 px-4 gap-2">
+                  <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-[width] duration-150"
+                      style={{ width: `${Math.round(loadProgress * 100)}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between w-full text-[10px] text-slate-500">
+                    <span>Loading... {Math.round(loadProgress * 100)}%</span>
+                    <button
+                      onClick={() => loadAbortRef.current?.abort()}
+                      className="text-slate-400 hover:text-red-400"
+                    >
+                      Cancel
+                    </button>
+                  </div>
                 </div>
               ) : !activeProject ? (
                 <div className="text-center text-slate-600 text-sm py-8 flex-1 flex flex-col items-center justify-center">
@@ -684,6 +824,7 @@ const App: React.FC = () => {
                         >
                           {layer}
                         </span>
+                        {renderLayerBadges(activeProject.data.layerDictionary[layer])}
                       </div>
 
                       {/* Color Palette Accordion */}
@@ -721,13 +862,30 @@ const App: React.FC = () => {
                 analysisDomain={analysisDomain}
                 setAnalysisDomain={setAnalysisDomain}
                 setProjects={setProjects}
+                layerColors={layerColors}
                 setLayerColors={setLayerColors}
                 pickingTarget={pickingTarget}
                 setPickingTarget={setPickingTarget}
+                storeyHeight={storeyHeight}
+                setStoreyHeight={setStoreyHeight}
               />
             </div>
           )}
 
+          {/* === TAB 3: DIAGNOSTICS === */}
+          {sidebarTab === 'DIAGNOSTICS' && (
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              {activeProject ? (
+                <DiagnosticsPanel data={activeProject.data} />
+              ) : (
+                <div className="text-center text-slate-600 text-sm py-8 flex flex-col items-center justify-center">
+                  <FileIcon className="w-8 h-8 mb-2 opacity-50" />
+                  No file selected
+                </div>
+              )}
+            </div>
+          )}
+
         </div>
 
         {/* Global Tools Footer */}
@@ -777,13 +935,44 @@ const App: React.FC = () => {
           <div className="h-px bg-slate-800 my-2"></div>
 
           <p className="text-xs text-slate-500 font-medium mb-2">EXPORT (High Res)</p>
+          <div className="flex gap-1 mb-2">
+            <select
+              value={pdfPaperSize}
+              onChange={e => setPdfPaperSize(e.target.value as PaperSize)}
+              className="flex-1 bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+              title="PDF paper size"
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(key => (
+                <option key={key} value={key}>{PAPER_SIZES[key].label}</option>
+              ))}
+            </select>
+            <select
+              value={pdfOrientation}
+              onChange={e => setPdfOrientation(e.target.value as PaperOrientation)}
+              className="flex-1 bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+              title="PDF orientation"
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+            <select
+              value={pdfScale}
+              onChange={e => setPdfScale(Number(e.target.value))}
+              className="flex-1 bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+              title="PDF plot scale"
+            >
+              {PLOT_SCALES.map(n => (
+                <option key={n} value={n}>{n > 0 ? `1:${n}` : 'Fit'}</option>
+              ))}
+            </select>
+          </div>
           <div className="flex gap-2">
             <Button
               onClick={exportPdf}
               disabled={!activeProject || isLoading}
               variant="secondary"
               className="flex-1 justify-center text-xs"
-              title="Export High-Res PDF"
+              title="Export vector PDF at the chosen paper size and scale"
             >
               <FileText size={14} className="mr-1" /> PDF
             </Button>
@@ -797,6 +986,44 @@ const App: React.FC = () => {
               <ImageIcon size={14} className="mr-1" /> PNG
             </Button>
           </div>
+          <div className="flex gap-2 mt-2">
+            <select
+              value={svgMode}
+              onChange={e => setSvgMode(e.target.value as 'VIEW' | 'FULL')}
+              className="flex-1 bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+              title="SVG extent"
+            >
+              <option value="VIEW">Current view</option>
+              <option value="FULL">Full extents</option>
+            </select>
+            <Button
+              onClick={exportSvg}
+              disabled={!activeProject || isLoading}
+              variant="secondary"
+              className="flex-1 justify-center text-xs"
+              title="Export SVG grouped by layer"
+            >
+              <ImageIcon size={14} className="mr-1" /> SVG
+            </Button>
+          </div>
+          <div className="flex gap-2 mt-2">
+            <Button
+              onClick={exportSheetSet}
+              disabled={!activeProject || isLoading || !activeProject.splitRegions?.length}
+              variant="secondary"
+              className="flex-1 justify-center text-xs"
+              title={activeProject?.splitRegions?.length ? 'Export one PDF sheet per split view' : 'Run Split Views first'}
+            >
+              <Printer size={14} className="mr-1" /> Sheet Set
+            </Button>
+            <button
+              onClick={() => setSheetOverlay(v => !v)}
+              className={`px-2 rounded border border-slate-700 hover:bg-slate-700 transition-colors ${sheetOverlay ? 'text-blue-400 hover:text-blue-300' : 'text-slate-400 hover:text-white'}`}
+              title={sheetOverlay ? 'Analysis layers are overlaid on the sheets' : 'Overlay analysis layers on the sheets'}
+            >
+              <Layers size={14} />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -838,23 +1065,50 @@ const App: React.FC = () => {
           {projects.length === 0 && (
             <div className="text-xs text-slate-600 px-4 italic">No files open</div>
           )}
+
+          {activeProject && (
+            <div className="ml-auto flex items-center bg-slate-800 border border-slate-700 rounded p-0.5">
+              {(['2D', '3D'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium transition-colors ${viewMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  title={mode === '3D' ? 'Preview the recognised structure in 3D' : 'Drawing view'}
+                >
+                  {mode === '3D' ? <Box size={12} /> : <Layers size={12} />} {mode}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Viewer Area */}
         <div className="flex-1 relative overflow-hidden">
-          <Viewer
-            data={activeProject ? activeProject.data : null}
-            activeLayers={activeProject ? activeProject.activeLayers : new Set()}
-            layerColors={layerColors}
-            filledLayers={activeProject ? activeProject.filledLayers : new Set()}
-            targetBounds={currentResultIdx >= 0 ? searchResults[currentResultIdx].bounds : null}
-            highlights={searchResults}
-            activeHighlightIndex={currentResultIdx}
-            onRef={(ref) => canvasRef.current = ref}
-            projectName={activeProject?.name}
-            pickingTarget={pickingTarget}
-            onLayerPicked={handleLayerPick}
-          />
+          {viewMode === '3D' && activeProject ? (
+            <ModelViewer
+              model={structureModel}
+              storeyHeight={storeyHeight}
+              onStoreyHeightChange={setStoreyHeight}
+              onExport={(format) => exportAnalysisModel(activeProject, storeyHeight, format)}
+            />
+          ) : (
+            <Viewer
+              data={activeProject ? activeProject.data : null}
+              activeLayers={activeProject ? activeProject.activeLayers : new Set()}
+              layerColors={layerColors}
+              filledLayers={activeProject ? activeProject.filledLayers : new Set()}
+              targetBounds={currentResultIdx >= 0 ? searchResults[currentResultIdx].bounds : null}
+              highlights={searchResults}
+              activeHighlightIndex={currentResultIdx}
+              onRef={(ref) => canvasRef.current = ref}
+              onViewChange={(view) => viewRef.current = view}
+              projectName={activeProject?.name}
+              pickingTarget={pickingTarget}
+              onLayerPicked={handleLayerPick}
+              showLineWeights={showLineWeights}
+              onToggleLineWeights={() => setShowLineWeights(v => !v)}
+            />
+          )}
         </div>
       </div>
     </div>
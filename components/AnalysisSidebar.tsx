@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { ProjectFile, AnalysisDomain, SemanticLayer } from '../types';
+import { ProjectFile, AnalysisDomain, SemanticLayer, LayerColors } from '../types';
 import { StructurePanel } from './analysis/StructurePanel';
 import { LandscapePanel } from './analysis/LandscapePanel';
 import { ElectricalPanel } from './analysis/ElectricalPanel';
@@ -13,9 +13,12 @@ interface AnalysisSidebarProps {
     analysisDomain: AnalysisDomain;
     setAnalysisDomain: (domain: AnalysisDomain) => void;
     setProjects: React.Dispatch<React.SetStateAction<ProjectFile[]>>;
+    layerColors: LayerColors;
     setLayerColors: React.Dispatch<React.SetStateAction<Record<string, string>>>;
     pickingTarget: SemanticLayer | null;
     setPickingTarget: (target: SemanticLayer | null) => void;
+    storeyHeight: number;
+    setStoreyHeight: (height: number) => void;
 }
 
 export const AnalysisSidebar: React.FC<AnalysisSidebarProps> = ({
@@ -25,9 +28,12 @@ export const AnalysisSidebar: React.FC<AnalysisSidebarProps> = ({
     analysisDomain,
     setAnalysisDomain,
     setProjects,
+    layerColors,
     setLayerColors,
     pickingTarget,
-    setPickingTarget
+    setPickingTarget,
+    storeyHeight,
+    setStoreyHeight
 }) => {
     
     return (
@@ -67,9 +73,12 @@ export const AnalysisSidebar: React.FC<AnalysisSidebarProps> = ({
                     projects={projects}
                     isLoading={isLoading}
                     setProjects={setProjects}
+                    layerColors={layerColors}
                     setLayerColors={setLayerColors}
                     pickingTarget={pickingTarget}
                     setPickingTarget={setPickingTarget}
+                    storeyHeight={storeyHeight}
+                    setStoreyHeight={setStoreyHeight}
                 />
             )}
             
@@ -0,0 +1,112 @@
+import React from 'react';
+import { DxfData } from '../types';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+    data: DxfData;
+}
+
+// Largest counts first
+const sortedCounts = (counts: Record<string, number>) =>
+    Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+const CountTable: React.FC<{ title: string, hint: string, counts: Record<string, number> }> = ({ title, hint, counts }) => {
+    const rows = sortedCounts(counts);
+    if (rows.length === 0) return null;
+    const total = rows.reduce((sum, [, n]) => sum + n, 0);
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-amber-400">{title}</h3>
+                <span className="text-[10px] text-slate-500">{total}</span>
+            </div>
+            <p className="text-[10px] text-slate-500">{hint}</p>
+            <div className="bg-slate-800/50 rounded border border-slate-700/50 divide-y divide-slate-700/50">
+                {rows.map(([name, count]) => (
+                    <div key={name} className="flex items-center justify-between px-2 py-1 text-xs">
+                        <span className="font-mono text-slate-300 truncate" title={name}>{name}</span>
+                        <span className="text-slate-400 ml-2">{count}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * What the parser could not make sense of in the active file: explains drawings that render oddly.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ data }) => {
+    const diagnostics = data.diagnostics;
+
+    if (!diagnostics) {
+        return (
+            <div className="p-4 text-xs text-slate-500 text-center">
+                No diagnostics recorded for this file.
+            </div>
+        );
+    }
+
+    const issueCount =
+        Object.keys(diagnostics.unsupportedEntityTypes).length +
+        Object.keys(diagnostics.unresolvedBlocks).length +
+        Object.keys(diagnostics.missingGeometry).length +
+        diagnostics.malformedLineCount;
+
+    return (
+        <div className="p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">File Diagnostics</h2>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs bg-slate-800/50 rounded border border-slate-700/50 p-2">
+                <span className="text-slate-500">Encoding</span>
+                <span className="text-right font-mono text-slate-200">{diagnostics.encoding}</span>
+                <span className="text-slate-500">Code page</span>
+                <span className="text-right font-mono text-slate-200">{data.header?.codePage || '-'}</span>
+                <span className="text-slate-500">Version</span>
+                <span className="text-right font-mono text-slate-200">{data.header?.acadVersion || '-'}</span>
+            </div>
+
+            {issueCount === 0 ? (
+                <div className="flex items-center gap-2 text-xs text-green-400">
+                    <CheckCircle2 size={14} /> No problems found
+                </div>
+            ) : (
+                <div className="flex items-center gap-2 text-xs text-amber-400">
+                    <AlertTriangle size={14} /> Parts of this file may not display as in CAD
+                </div>
+            )}
+
+            <CountTable
+                title="Unsupported Entity Types"
+                hint="Skipped while parsing; they are not drawn."
+                counts={diagnostics.unsupportedEntityTypes}
+            />
+            <CountTable
+                title="Unresolved Block References"
+                hint="Inserts and dimensions whose block definition is missing."
+                counts={diagnostics.unresolvedBlocks}
+            />
+            <CountTable
+                title="Missing Geometry"
+                hint="Entities without the points or sizes needed to draw them."
+                counts={diagnostics.missingGeometry}
+            />
+
+            {diagnostics.malformedLineCount > 0 && (
+                <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-xs font-semibold text-amber-400">Malformed Lines</h3>
+                        <span className="text-[10px] text-slate-500">{diagnostics.malformedLineCount}</span>
+                    </div>
+                    <p className="text-[10px] text-slate-500">Group codes that are not numbers; the pair was skipped.</p>
+                    <div className="font-mono text-[10px] text-slate-300 bg-slate-800/50 rounded border border-slate-700/50 p-2 break-words">
+                        {diagnostics.malformedLines.map(line => `L${line}`).join(', ')}
+                        {diagnostics.malformedLineCount > diagnostics.malformedLines.length && (
+                            <span className="text-slate-500 italic"> +{diagnostics.malformedLineCount - diagnostics.malformedLines.length} more</span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,359 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { ZoomIn, ZoomOut, Maximize, Box, Download } from 'lucide-react';
+import { StructureModel, StructureMemberKind, StructureMesh, Vec3, STRUCTURE_MEMBER_COLORS, getFaceNormal } from '../domains/structure/modelExportService';
+import { StructureModelFormat } from '../domains/structure/analysisPersistence';
+
+interface ModelViewerProps {
+  model: StructureModel | null;
+  storeyHeight: number;
+  onStoreyHeightChange: (height: number) => void;
+  onExport: (format: StructureModelFormat) => void;
+}
+
+interface Camera {
+  yaw: number;      // radians around Z
+  pitch: number;    // radians above the XY plane
+  distance: number; // mm from target
+  target: Vec3;
+}
+
+// A face ready to draw: world vertices plus its owning member
+interface ModelFace {
+  mesh: StructureMesh;
+  points: Vec3[];
+  normal: Vec3;
+  center: Vec3;
+  rgb: number[];
+}
+
+const FOV = Math.PI / 4;
+const LIGHT = (() => {
+  const l = { x: 0.35, y: 0.55, z: 0.75 };
+  const len = Math.hypot(l.x, l.y, l.z);
+  return { x: l.x / len, y: l.y / len, z: l.z / len };
+})();
+const KINDS: StructureMemberKind[] = ['beam', 'column', 'wall'];
+const KIND_LABELS: Record<StructureMemberKind, string> = { beam: 'Beams', column: 'Columns', wall: 'Walls' };
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+const fitCamera = (model: StructureModel | null): Camera => {
+  if (!model || model.meshes.length === 0) return { yaw: -Math.PI / 4, pitch: Math.PI / 6, distance: 10000, target: { x: 0, y: 0, z: 0 } };
+  const { min, max } = model;
+  const radius = Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z) / 2;
+  return {
+    yaw: -Math.PI / 3,
+    pitch: Math.PI / 6,
+    distance: Math.max(radius / Math.sin(FOV / 2), 1000),
+    target: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 }
+  };
+};
+
+// Point in a projected polygon (even-odd)
+const isInside = (p: { x: number, y: number }, poly: { x: number, y: number }[]) => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Orbitable preview of the extruded structure. Flat-shaded faces are depth sorted and drawn on a
+ * 2D canvas (no WebGL needed); drag to orbit, Shift or right drag to pan, wheel to zoom.
+ */
+export const ModelViewer: React.FC<ModelViewerProps> = ({ model, storeyHeight, onStoreyHeightChange, onExport }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const [camera, setCamera] = useState<Camera>(() => fitCamera(model));
+  const [drag, setDrag] = useState<{ x: number, y: number, pan: boolean } | null>(null);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<StructureMemberKind>>(new Set());
+  const [storeyFilter, setStoreyFilter] = useState(-1); // -1 = all floors
+  const [hovered, setHovered] = useState<StructureMesh | null>(null);
+
+  // Projected faces of the last frame, front to back, for hover picking
+  const pickList = useRef<{ mesh: StructureMesh, poly: { x: number, y: number }[] }[]>([]);
+
+  // Refit when a different drawing's model arrives; floor height edits keep the view
+  const modelKey = model ? `${model.meshes.length}:${model.storeys.join('|')}` : '';
+  useEffect(() => {
+    setCamera(fitCamera(model));
+    setStoreyFilter(-1);
+  }, [modelKey]);
+
+  const faces = useMemo<ModelFace[]>(() => {
+    if (!model) return [];
+    const list: ModelFace[] = [];
+    model.meshes.forEach(mesh => {
+      const rgb = hexToRgb(STRUCTURE_MEMBER_COLORS[mesh.unsized ? 'unsized' : mesh.kind]);
+      mesh.faces.forEach(face => {
+        const points = face.map(i => mesh.vertices[i]);
+        const center = {
+          x: points.reduce((s, p) => s + p.x, 0) / points.length,
+          y: points.reduce((s, p) => s + p.y, 0) / points.length,
+          z: points.reduce((s, p) => s + p.z, 0) / points.length
+        };
+        list.push({ mesh, points, normal: getFaceNormal(mesh.vertices, face), center, rgb });
+      });
+    });
+    return list;
+  }, [model]);
+
+  const counts = useMemo(() => {
+    const result: Record<StructureMemberKind, number> = { beam: 0, column: 0, wall: 0 };
+    let unsized = 0;
+    model?.meshes.forEach(m => {
+      result[m.kind]++;
+      if (m.unsized) unsized++;
+    });
+    return { ...result, unsized };
+  }, [model]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = container.getBoundingClientRect();
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    canvas.style.width = `${rect.width}px`;
+    canvas.style.height = `${rect.height}px`;
+    ctx.scale(dpr, dpr);
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, rect.width, rect.height);
+
+    // Camera basis
+    const { yaw, pitch, distance, target } = camera;
+    const eye = {
+      x: target.x + distance * Math.cos(pitch) * Math.cos(yaw),
+      y: target.y + distance * Math.cos(pitch) * Math.sin(yaw),
+      z: target.z + distance * Math.sin(pitch)
+    };
+    const forward = sub(target, eye);
+    const fLen = Math.hypot(forward.x, forward.y, forward.z);
+    forward.x /= fLen; forward.y /= fLen; forward.z /= fLen;
+    const rLen = Math.hypot(forward.y, forward.x) || 1;
+    const right = { x: forward.y / rLen, y: -forward.x / rLen, z: 0 };
+    const up = {
+      x: right.y * forward.z - right.z * forward.y,
+      y: right.z * forward.x - right.x * forward.z,
+      z: right.x * forward.y - right.y * forward.x
+    };
+    const focal = (rect.height / 2) / Math.tan(FOV / 2);
+    const near = distance / 1000;
+
+    const visible: { face: ModelFace, depth: number, poly: { x: number, y: number }[] }[] = [];
+    faces.forEach(face => {
+      if (hiddenKinds.has(face.mesh.kind)) return;
+      if (storeyFilter >= 0 && face.mesh.storey !== storeyFilter) return;
+      // Back faces are hidden by the front ones of the same closed prism
+      if (dot(face.normal, sub(eye, face.center)) <= 0) return;
+      const poly: { x: number, y: number }[] = [];
+      for (const p of face.points) {
+        const rel = sub(p, eye);
+        const z = dot(rel, forward);
+        if (z < near) return;
+        poly.push({ x: rect.width / 2 + focal * dot(rel, right) / z, y: rect.height / 2 - focal * dot(rel, up) / z });
+      }
+      visible.push({ face, depth: dot(sub(face.center, eye), forward), poly });
+    });
+
+    // Painter's order: far to near
+    visible.sort((a, b) => b.depth - a.depth);
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = 0.5;
+    visible.forEach(({ face, poly }) => {
+      const shade = 0.45 + 0.55 * Math.max(0, dot(face.normal, LIGHT));
+      const isHovered = face.mesh === hovered;
+      const [r, g, b] = face.rgb.map(c => Math.round(Math.min(255, c * shade + (isHovered ? 60 : 0))));
+      ctx.beginPath();
+      poly.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fillStyle = `rgb(${r},${g},${b})`;
+      ctx.fill();
+      ctx.strokeStyle = `rgba(15,23,42,0.6)`;
+      ctx.stroke();
+    });
+
+    pickList.current = visible.reverse().map(v => ({ mesh: v.face.mesh, poly: v.poly }));
+  }, [faces, camera, hiddenKinds, storeyFilter, hovered]);
+
+  useEffect(() => {
+    const handleResize = () => setCamera(c => ({ ...c }));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const factor = e.deltaY > 0 ? 1.1 : 0.9;
+    setCamera(c => ({ ...c, distance: c.distance * factor }));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    setDrag({ x: e.clientX, y: e.clientY, pan: e.shiftKey || e.button === 2 });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (drag) {
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      setDrag({ ...drag, x: e.clientX, y: e.clientY });
+      if (drag.pan) {
+        const rect = containerRef.current?.getBoundingClientRect();
+        const perPx = camera.distance * Math.tan(FOV / 2) / ((rect?.height || 1) / 2);
+        // Screen axes in world space; the scene follows the cursor, so the target moves against it
+        const right = { x: -Math.sin(camera.yaw), y: Math.cos(camera.yaw) };
+        const up = {
+          x: -Math.sin(camera.pitch) * Math.cos(camera.yaw),
+          y: -Math.sin(camera.pitch) * Math.sin(camera.yaw),
+          z: Math.cos(camera.pitch)
+        };
+        setCamera(c => ({
+          ...c,
+          target: {
+            x: c.target.x + (-dx * right.x + dy * up.x) * perPx,
+            y: c.target.y + (-dx * right.y + dy * up.y) * perPx,
+            z: c.target.z + dy * up.z * perPx
+          }
+        }));
+      } else {
+        const limit = Math.PI / 2 - 0.01;
+        setCamera(c => ({
+          ...c,
+          yaw: c.yaw - dx * 0.01,
+          pitch: Math.max(-limit, Math.min(limit, c.pitch + dy * 0.01))
+        }));
+      }
+      return;
+    }
+
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const p = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const hit = pickList.current.find(item => isInside(p, item.poly));
+    if ((hit?.mesh || null) !== hovered) setHovered(hit?.mesh || null);
+  };
+
+  const handleZoomBtn = (factor: number) => setCamera(c => ({ ...c, distance: c.distance / factor }));
+
+  const toggleKind = (kind: StructureMemberKind) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="w-full h-full relative bg-slate-900 overflow-hidden touch-none select-none cursor-grab active:cursor-grabbing"
+      onWheel={handleWheel}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={() => setDrag(null)}
+      onMouseLeave={() => { setDrag(null); setHovered(null); }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <canvas ref={canvasRef} className="block w-full h-full" />
+
+      {!model && (
+        <div className="absolute inset-0 flex items-center justify-center text-slate-500 pointer-events-none">
+          <div className="text-center">
+            <Box className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>Recognise columns, walls or beams to build the 3D model</p>
+          </div>
+        </div>
+      )}
+
+      {/* Top Left: Members, Floors & Export */}
+      <div
+        className="absolute top-4 left-4 bg-slate-900/90 border border-slate-700 rounded-lg p-3 text-xs text-slate-400 backdrop-blur-sm shadow-xl space-y-2 w-52 cursor-default"
+        onMouseDown={(e) => e.stopPropagation()}
+        onMouseMove={(e) => e.stopPropagation()}
+        onWheel={(e) => e.stopPropagation()}
+      >
+        {KINDS.map(kind => (
+          <label key={kind} className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={!hiddenKinds.has(kind)} onChange={() => toggleKind(kind)} className="accent-blue-500" />
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: STRUCTURE_MEMBER_COLORS[kind] }}></span>
+            <span className="flex-1 text-slate-300">{KIND_LABELS[kind]}</span>
+            <span className="font-mono text-slate-200">{counts[kind]}</span>
+          </label>
+        ))}
+        {counts.unsized > 0 && (
+          <div className="flex items-center gap-2 pl-5" title="Beams without a section depth, drawn at a nominal depth">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: STRUCTURE_MEMBER_COLORS.unsized }}></span>
+            <span className="flex-1 text-red-300">No section</span>
+            <span className="font-mono text-slate-200">{counts.unsized}</span>
+          </div>
+        )}
+        <select
+          value={storeyFilter}
+          onChange={(e) => setStoreyFilter(Number(e.target.value))}
+          className="w-full bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-2 py-1 outline-none"
+        >
+          <option value={-1}>All Floors</option>
+          {model?.storeys.map((title, i) => <option key={i} value={i}>{title || `Floor ${i + 1}`}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <span className="flex-1">Storey Height (mm)</span>
+          <input
+            type="number"
+            min={1}
+            step={100}
+            value={storeyHeight}
+            onChange={(e) => onStoreyHeightChange(Math.max(1, Number(e.target.value) || 0))}
+            className="w-20 bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-2 py-1 outline-none"
+          />
+        </div>
+        <div className="flex gap-1">
+          {(['gltf', 'obj'] as StructureModelFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              disabled={!model}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-50 transition-colors"
+            >
+              <Download size={12} /> {format === 'gltf' ? 'glTF' : 'OBJ'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Top Right: Hovered Member */}
+      {hovered && model && (
+        <div className="absolute top-4 right-4 pointer-events-none bg-slate-800/80 backdrop-blur px-3 py-2 rounded border border-slate-700 shadow-lg text-right">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">{hovered.kind}</div>
+          <div className="text-xs text-blue-300 font-mono">{hovered.name}</div>
+          <div className="text-[10px] text-slate-400">{model.storeys[hovered.storey]}</div>
+          {hovered.unsized && <div className="text-[10px] text-red-400">No section depth</div>}
+        </div>
+      )}
+
+      {/* Bottom Center Controls */}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 backdrop-blur border border-slate-700 p-1.5 rounded-full shadow-xl">
+        <button onClick={() => handleZoomBtn(0.8)} className="p-2 hover:bg-slate-700 rounded-full text-slate-300 hover:text-white transition-colors" title="Zoom Out">
+          <ZoomOut size={18} />
+        </button>
+        <div className="w-px h-4 bg-slate-600 mx-1"></div>
+        <button onClick={() => setCamera(fitCamera(model))} className="p-2 hover:bg-slate-700 rounded-full text-blue-400 hover:text-blue-300 transition-colors" title="Fit to Screen">
+          <Maximize size={18} />
+        </button>
+        <div className="w-px h-4 bg-slate-600 mx-1"></div>
+        <button onClick={() => handleZoomBtn(1.2)} className="p-2 hover:bg-slate-700 rounded-full text-slate-300 hover:text-white transition-colors" title="Zoom In">
+          <ZoomIn size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,19 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { DxfData, LayerColors, Bounds, SearchResult, SemanticLayer } from '../types';
-import { ZoomIn, ZoomOut, Maximize, MousePointer2, Crosshair } from 'lucide-react';
-import { calculateTotalBounds, findLayersAtPoint } from '../utils/geometryUtils';
+import { DxfData, DxfLayout, LayerColors, Bounds, SearchResult, SemanticLayer } from '../types';
+import { ZoomIn, ZoomOut, Maximize, MousePointer2, Crosshair, PenLine } from 'lucide-react';
+import { calculateTotalBounds, findLayersAtPoint, getHeaderExtents } from '../utils/geometryUtils';
 import { renderDxfToCanvas } from '../utils/renderUtils';
+import { SCREEN_PX_PER_MM } from '../utils/plotStyleUtils';
+import { getLayoutBounds, getLayoutEntities, getModelSpaceEntities } from '../utils/layoutUtils';
+
+// What the viewer shows right now, for exports of the current view
+export interface ViewerViewState {
+  transform: { k: number, x: number, y: number };
+  width: number;
+  height: number;
+  layout?: DxfLayout; // Layout tab shown; undefined = model space
+}
 
 interface ViewerProps {
   data: DxfData | null;
@@ -17,6 +27,9 @@ interface ViewerProps {
   projectName?: string;
   pickingTarget?: SemanticLayer | null;
   onLayerPicked?: (layer: string) => void;
+  showLineWeights?: boolean; // Draw plotted lineweights instead of hairlines
+  onToggleLineWeights?: () => void;
+  onViewChange?: (view: ViewerViewState) => void;
 }
 
 export const Viewer: React.FC<ViewerProps> = ({ 
@@ -30,7 +43,10 @@ export const Viewer: React.FC<ViewerProps> = ({
   onRef,
   projectName,
   pickingTarget,
-  onLayerPicked
+  onLayerPicked,
+  showLineWeights = false,
+  onToggleLineWeights,
+  onViewChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -47,6 +63,19 @@ export const Viewer: React.FC<ViewerProps> = ({
   const [hoveredLayers, setHoveredLayers] = useState<string[]>([]);
   const lastHitTestTime = useRef(0);
 
+  // Layout tab shown; null = model space
+  const [activeLayoutName, setActiveLayoutName] = useState<string | null>(null);
+  const layouts = data?.layouts || [];
+  const activeLayout = layouts.find(l => l.name === activeLayoutName);
+  // Set when a search result switches back to model space, so the tab change does not refit
+  const keepTransformOnTabSwitch = useRef(false);
+
+  // Entities under the cursor: paper space on a layout tab, model space otherwise
+  const getPickableEntities = () => {
+    if (!data) return [];
+    return activeLayout ? getLayoutEntities(data, activeLayout) : getModelSpaceEntities(data);
+  };
+
   useEffect(() => {
     if (onRef) onRef(canvasRef.current);
   }, [onRef]);
@@ -54,8 +83,13 @@ export const Viewer: React.FC<ViewerProps> = ({
   const fitToScreen = useCallback(() => {
     if (!data || !containerRef.current) return;
     
-    // Use the shared bound calculation, but filter by active layers for better fit
-    const bounds = calculateTotalBounds(data.entities, data.blocks, activeLayers);
+    // With everything visible the header extents are the drawing extents; otherwise
+    // use the shared bound calculation filtered by active layers for a better fit.
+    // Layouts fit their sheet.
+    const allActive = data.layers.every(l => activeLayers.has(l));
+    const bounds = activeLayout
+      ? getLayoutBounds(data, activeLayout)
+      : (allActive && getHeaderExtents(data.header)) || calculateTotalBounds(getModelSpaceEntities(data), data.blocks, activeLayers);
     const rect = containerRef.current.getBoundingClientRect();
     
     let dataWidth = bounds.maxX - bounds.minX;
@@ -81,18 +115,33 @@ export const Viewer: React.FC<ViewerProps> = ({
     const y = (rect.height / 2) - midY * k;
 
     setTransform({ k, x, y });
-  }, [data, activeLayers]);
+  }, [data, activeLayers, activeLayout]);
 
-  // Fit to screen on initial load or data change only.
+  // A new drawing opens on model space
   useEffect(() => {
+    setActiveLayoutName(null);
+  }, [data]);
+
+  // Fit to screen on initial load, data change or tab switch only.
+  useEffect(() => {
+    if (keepTransformOnTabSwitch.current) {
+      keepTransformOnTabSwitch.current = false;
+      return;
+    }
     fitToScreen();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data]);
+  }, [data, activeLayoutName]);
 
   // --- Focus on Target Bounds (Search Result) ---
   useEffect(() => {
     if (!targetBounds || !containerRef.current) return;
 
+    // Search results are in model space
+    if (activeLayoutName !== null) {
+      keepTransformOnTabSwitch.current = true;
+      setActiveLayoutName(null);
+    }
+
     const rect = containerRef.current.getBoundingClientRect();
     
     // Center of the target
@@ -173,7 +222,7 @@ export const Viewer: React.FC<ViewerProps> = ({
         const now = Date.now();
         if (now - lastHitTestTime.current > 50) { // Check every 50ms
             const tolerance = 10 / transform.k; // 10 screen pixels tolerance
-            const layers = findLayersAtPoint({x: worldX, y: worldY}, data.entities, data.blocks, data.blockBasePoints, activeLayers, tolerance);
+            const layers = findLayersAtPoint({x: worldX, y: worldY}, getPickableEntities(), data.blocks, data.blockBasePoints, activeLayers, tolerance);
             setHoveredLayers(layers);
             lastHitTestTime.current = now;
         }
@@ -192,7 +241,7 @@ export const Viewer: React.FC<ViewerProps> = ({
          
          const layers = findLayersAtPoint(
             {x: worldX, y: worldY}, 
-            data.entities, 
+            getPickableEntities(), 
             data.blocks, 
             data.blockBasePoints, 
             activeLayers, 
@@ -247,10 +296,13 @@ export const Viewer: React.FC<ViewerProps> = ({
         height: rect.height,
         isPdfExport: false,
         highlights,
-        activeHighlightIndex
+        activeHighlightIndex,
+        lineWeightPxPerMm: showLineWeights ? SCREEN_PX_PER_MM : undefined,
+        layout: activeLayout
     });
+    if (onViewChange) onViewChange({ transform, width: rect.width, height: rect.height, layout: activeLayout });
 
-  }, [data, activeLayers, transform, layerColors, filledLayers, highlights, activeHighlightIndex]);
+  }, [data, activeLayers, transform, layerColors, filledLayers, highlights, activeHighlightIndex, showLineWeights, activeLayout]);
 
   useEffect(() => {
     const handleResize = () => setTransform(t => ({...t})); 
@@ -330,6 +382,22 @@ export const Viewer: React.FC<ViewerProps> = ({
 
       </div>
 
+      {/* Bottom Left: Model / Layout Tabs */}
+      {layouts.length > 0 && (
+        <div className="absolute bottom-6 left-4 flex items-center gap-1 bg-slate-800/90 backdrop-blur border border-slate-700 p-1 rounded-lg shadow-xl max-w-[40%] overflow-x-auto">
+            {[null, ...layouts.map(l => l.name)].map(name => (
+                <button
+                    key={name ?? '*Model'}
+                    onClick={() => setActiveLayoutName(name)}
+                    className={`px-3 py-1 rounded text-xs font-medium whitespace-nowrap transition-colors ${activeLayoutName === name ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+                    title={name ? `Layout: ${name}` : 'Model Space'}
+                >
+                    {name ?? 'Model'}
+                </button>
+            ))}
+        </div>
+      )}
+
       {/* Bottom Center Controls */}
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 backdrop-blur border border-slate-700 p-1.5 rounded-full shadow-xl">
         <button onClick={() => handleZoomBtn(0.8)} className="p-2 hover:bg-slate-700 rounded-full text-slate-300 hover:text-white transition-colors" title="Zoom Out">
@@ -347,6 +415,18 @@ export const Viewer: React.FC<ViewerProps> = ({
         <button onClick={() => handleZoomBtn(1.2)} className="p-2 hover:bg-slate-700 rounded-full text-slate-300 hover:text-white transition-colors" title="Zoom In">
             <ZoomIn size={18} />
         </button>
+        {onToggleLineWeights && (
+            <>
+                <div className="w-px h-4 bg-slate-600 mx-1"></div>
+                <button
+                    onClick={onToggleLineWeights}
+                    className={`p-2 hover:bg-slate-700 rounded-full transition-colors ${showLineWeights ? 'text-blue-400 hover:text-blue-300' : 'text-slate-300 hover:text-white'}`}
+                    title={showLineWeights ? 'Hide Lineweights' : 'Show Lineweights (Print Scale)'}
+                >
+                    <PenLine size={18} />
+                </button>
+            </>
+        )}
       </div>
     </div>
   );
@@ -1,27 +1,42 @@
 
-import React, { useRef } from 'react';
-import { ProjectFile, SemanticLayer } from '../../types';
+import React, { useRef, useState } from 'react';
+import { LayerColors, ProjectFile, SemanticLayer } from '../../types';
 import { runCalculateSplitRegions, runMergeViews, runCalculateColumns, runCalculateWalls } from './structureActions';
-import { exportAnalysisState, importAnalysisState } from '../../domains/structure/analysisPersistence';
+import { exportAnalysisDxf, exportAnalysisIfc, exportAnalysisState, importAnalysisState } from '../../domains/structure/analysisPersistence';
 import { 
     runBeamRawGeneration, 
     runBeamIntersectionProcessing, 
     runBeamAttributeMounting, 
     runBeamTopologyMerge, 
-    runBeamCalculation 
+    runBeamCalculation,
+    exportBeamSchedule,
+    BeamScheduleFormat,
+    BeamReportFormat
 } from './beamActions';
+import { BEAM_SCHEDULE_COLUMNS, DEFAULT_BEAM_SCHEDULE_COLUMNS, BeamScheduleColumn } from '../../domains/structure/beams/beamScheduleService';
+import { BEAM_REPORT_FIELDS, BEAM_REPORT_TEMPLATES } from '../../domains/structure/beams/beamReportService';
+import { exportReportTemplateToJson, getStoredReportTemplates, importReportTemplateFromJson, removeStoredReportTemplate } from '../../utils/reportTemplateStorage';
+import { ReportTemplate } from '../../utils/reportEngine';
 import { Button } from '../Button';
-import { Grid, Merge, Box, ArrowRightLeft, AlignJustify, Tag, GitMerge, Spline, Calculator } from 'lucide-react';
+import { Grid, Merge, Box, ArrowRightLeft, AlignJustify, Tag, GitMerge, Spline, Calculator, FileDown, Building2, FileSpreadsheet, Upload, Download, Trash2 } from 'lucide-react';
 import { LayerConfigPanel } from './LayerConfigPanel';
+import { getDrawingUnits, INSUNITS_NAMES, ReportUnitSystem, REPORT_UNIT_SYSTEMS } from '../../utils/units';
+import { DxfWriterVersion, DXF_WRITER_VERSIONS } from '../../utils/dxfWriter';
+
+// Common $INSUNITS codes offered as overrides
+const DRAWING_UNIT_OPTIONS = [4, 5, 6, 1, 2];
 
 interface StructurePanelProps {
     activeProject: ProjectFile | null;
     projects: ProjectFile[];
     isLoading: boolean;
     setProjects: React.Dispatch<React.SetStateAction<ProjectFile[]>>;
+    layerColors: LayerColors;
     setLayerColors: React.Dispatch<React.SetStateAction<Record<string, string>>>;
     pickingTarget: SemanticLayer | null;
     setPickingTarget: (target: SemanticLayer | null) => void;
+    storeyHeight: number;
+    setStoreyHeight: (height: number) => void;
 }
 
 export const StructurePanel: React.FC<StructurePanelProps> = ({
@@ -29,11 +44,39 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
     projects,
     isLoading,
     setProjects,
+    layerColors,
     setLayerColors,
     pickingTarget,
-    setPickingTarget
+    setPickingTarget,
+    storeyHeight,
+    setStoreyHeight
 }) => {
     const importInputRef = useRef<HTMLInputElement | null>(null);
+    const [reportUnits, setReportUnits] = useState<ReportUnitSystem>('MM');
+    const [dxfVersion, setDxfVersion] = useState<DxfWriterVersion>('R2000');
+    const [scheduleFormat, setScheduleFormat] = useState<BeamScheduleFormat>('xlsx');
+    const [scheduleColumns, setScheduleColumns] = useState<BeamScheduleColumn[]>(DEFAULT_BEAM_SCHEDULE_COLUMNS);
+    const [scheduleSummary, setScheduleSummary] = useState(true);
+    const templateInputRef = useRef<HTMLInputElement | null>(null);
+    const [customTemplates, setCustomTemplates] = useState<ReportTemplate[]>(() => getStoredReportTemplates(BEAM_REPORT_FIELDS));
+    const [reportTemplateId, setReportTemplateId] = useState(BEAM_REPORT_TEMPLATES[0].id);
+    const [reportFormat, setReportFormat] = useState<BeamReportFormat>('pdf');
+
+    // Imported templates are listed after the built-in ones
+    const isCustomTemplate = customTemplates.some(t => t.id === reportTemplateId);
+    const reportTemplate = [...BEAM_REPORT_TEMPLATES, ...customTemplates].find(t => t.id === reportTemplateId) || BEAM_REPORT_TEMPLATES[0];
+
+    // Keeps the schedule columns in their canonical order
+    const toggleScheduleColumn = (column: BeamScheduleColumn) => {
+        setScheduleColumns(prev => (Object.keys(BEAM_SCHEDULE_COLUMNS) as BeamScheduleColumn[])
+            .filter(c => (c === column ? !prev.includes(c) : prev.includes(c))));
+    };
+
+    const handleDrawingUnitsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (!activeProject) return;
+        const value = e.target.value ? parseInt(e.target.value, 10) : undefined;
+        setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, drawingUnits: value } : p));
+    };
 
     const handleImportAnalysis = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -42,6 +85,21 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
         e.target.value = '';
     };
 
+    const handleImportTemplate = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        importReportTemplateFromJson(file, BEAM_REPORT_FIELDS, BEAM_REPORT_TEMPLATES.map(t => t.id), (templates, imported) => {
+            setCustomTemplates(templates);
+            setReportTemplateId(imported.id);
+        });
+        e.target.value = '';
+    };
+
+    const handleRemoveTemplate = () => {
+        setCustomTemplates(removeStoredReportTemplate(reportTemplateId, BEAM_REPORT_FIELDS));
+        setReportTemplateId(BEAM_REPORT_TEMPLATES[0].id);
+    };
+
     return (
         <div className="space-y-4 animate-in fade-in slide-in-from-left-2 duration-300">
             {/* Step 0: Layer Config */}
@@ -54,6 +112,23 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
                 />
             )}
 
+            {/* Drawing Units */}
+            {activeProject && (
+                <div className="flex items-center justify-between bg-slate-900/50 rounded-lg p-2 border border-slate-800">
+                    <span className="text-[10px] text-slate-400 font-medium">Drawing Units</span>
+                    <select
+                        value={activeProject.drawingUnits ?? ''}
+                        onChange={handleDrawingUnitsChange}
+                        className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+                    >
+                        <option value="">Auto ({INSUNITS_NAMES[getDrawingUnits(activeProject.data.header)] || 'mm'})</option>
+                        {DRAWING_UNIT_OPTIONS.map(code => (
+                            <option key={code} value={code}>{INSUNITS_NAMES[code]}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             {/* Step 1: View Setup */}
             <div className="space-y-2">
                 <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider flex items-center">
@@ -180,16 +255,177 @@ export const StructurePanel: React.FC<StructurePanelProps> = ({
                     >
                         Step 4: Topology Merge
                     </Button>
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-slate-400 font-medium">Report Units</span>
+                        <select
+                            value={reportUnits}
+                            onChange={e => setReportUnits(e.target.value as ReportUnitSystem)}
+                            className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+                        >
+                            {(Object.keys(REPORT_UNIT_SYSTEMS) as ReportUnitSystem[]).map(key => (
+                                <option key={key} value={key}>{REPORT_UNIT_SYSTEMS[key].label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-slate-400 font-medium">Report Template</span>
+                        <select
+                            value={reportTemplate.id}
+                            onChange={e => setReportTemplateId(e.target.value)}
+                            className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5 max-w-[120px]"
+                        >
+                            {BEAM_REPORT_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            {customTemplates.map(t => (
+                                <option key={t.id} value={t.id}>{t.name} (custom)</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex gap-1">
+                        <input
+                            ref={templateInputRef}
+                            type="file"
+                            accept="application/json"
+                            className="hidden"
+                            onChange={handleImportTemplate}
+                        />
+                        <Button
+                            onClick={() => templateInputRef.current?.click()}
+                            variant="secondary"
+                            className="flex-1 text-[10px] py-1"
+                            icon={<Upload size={10} className="text-emerald-400"/>}
+                        >
+                            Import
+                        </Button>
+                        <Button
+                            onClick={() => exportReportTemplateToJson(reportTemplate)}
+                            variant="secondary"
+                            className="flex-1 text-[10px] py-1"
+                            icon={<Download size={10} className="text-blue-400"/>}
+                        >
+                            Export
+                        </Button>
+                        {isCustomTemplate && (
+                            <Button
+                                onClick={handleRemoveTemplate}
+                                variant="secondary"
+                                className="text-[10px] py-1 px-2"
+                                icon={<Trash2 size={10} className="text-red-400"/>}
+                                title="Remove custom template"
+                            />
+                        )}
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] text-slate-400 font-medium">Report Format</span>
+                        <select
+                            value={reportFormat}
+                            onChange={e => setReportFormat(e.target.value as BeamReportFormat)}
+                            className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+                        >
+                            <option value="pdf">PDF</option>
+                            <option value="html">HTML</option>
+                            <option value="xlsx">XLSX</option>
+                        </select>
+                    </div>
                     <Button 
-                        onClick={() => activeProject && runBeamCalculation(activeProject, projects, setProjects, setLayerColors)}
+                        onClick={() => activeProject && runBeamCalculation(activeProject, projects, reportUnits, reportTemplate, reportFormat)}
                         disabled={!activeProject || isLoading} 
                         variant="secondary" 
                         className="w-full text-xs py-1.5 justify-start pl-3"
                         icon={<Calculator size={12} className="text-pink-500"/>}
                     >
-                        Step 5: Calculate & Export PDF
+                        Step 5: Calculate & Export Report
                     </Button>
+                    <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 pt-1">
+                        {(Object.keys(BEAM_SCHEDULE_COLUMNS) as BeamScheduleColumn[]).map(column => (
+                            <label key={column} className="flex items-center gap-1.5 text-[10px] text-slate-400 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={scheduleColumns.includes(column)}
+                                    onChange={() => toggleScheduleColumn(column)}
+                                    className="accent-blue-500"
+                                />
+                                {BEAM_SCHEDULE_COLUMNS[column].label}
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-1.5 text-[10px] text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={scheduleSummary}
+                                onChange={() => setScheduleSummary(v => !v)}
+                                className="accent-blue-500"
+                            />
+                            Summary by Code
+                        </label>
+                    </div>
+                    <div className="flex gap-1">
+                        <select
+                            value={scheduleFormat}
+                            onChange={e => setScheduleFormat(e.target.value as BeamScheduleFormat)}
+                            className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+                        >
+                            <option value="xlsx">XLSX</option>
+                            <option value="csv">CSV</option>
+                        </select>
+                        <Button
+                            onClick={() => activeProject && exportBeamSchedule(activeProject, scheduleFormat, scheduleColumns, scheduleSummary, reportUnits)}
+                            disabled={!activeProject || isLoading}
+                            variant="secondary"
+                            className="flex-1 text-xs py-1.5 justify-start pl-3"
+                            icon={<FileSpreadsheet size={12} className="text-green-500"/>}
+                        >
+                            Export Beam Schedule
+                        </Button>
+                    </div>
+                </div>
+            </div>
+
+            {/* Step 4: Back to CAD */}
+            <div className="space-y-2">
+                <h3 className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider flex items-center">
+                    <span className="w-4 h-4 rounded-full bg-slate-800 text-slate-300 flex items-center justify-center mr-2 text-[9px]">4</span>
+                    CAD Export
+                </h3>
+                <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-slate-400 font-medium">DXF Version</span>
+                    <select
+                        value={dxfVersion}
+                        onChange={e => setDxfVersion(e.target.value as DxfWriterVersion)}
+                        className="bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5"
+                    >
+                        {(Object.keys(DXF_WRITER_VERSIONS) as DxfWriterVersion[]).map(key => (
+                            <option key={key} value={key}>{DXF_WRITER_VERSIONS[key].label}</option>
+                        ))}
+                    </select>
+                </div>
+                <Button
+                    onClick={() => activeProject && exportAnalysisDxf(activeProject, layerColors, dxfVersion)}
+                    disabled={!activeProject || isLoading}
+                    variant="secondary"
+                    className="w-full text-xs py-1.5 justify-start pl-3"
+                    icon={<FileDown size={12} className="text-sky-400"/>}
+                >
+                    Export Results DXF
+                </Button>
+                <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-slate-400 font-medium">Storey Height (mm)</span>
+                    <input
+                        type="number"
+                        min={1}
+                        step={100}
+                        value={storeyHeight}
+                        onChange={e => setStoreyHeight(Math.max(1, Number(e.target.value) || 0))}
+                        className="w-20 bg-slate-950 text-slate-300 text-[10px] rounded border border-slate-700 px-1 py-0.5 text-right"
+                    />
                 </div>
+                <Button
+                    onClick={() => activeProject && exportAnalysisIfc(activeProject, storeyHeight)}
+                    disabled={!activeProject || isLoading}
+                    variant="secondary"
+                    className="w-full text-xs py-1.5 justify-start pl-3"
+                    icon={<Building2 size={12} className="text-emerald-400"/>}
+                >
+                    Export IFC4 Model
+                </Button>
             </div>
         </div>
     );
@@ -1,13 +1,16 @@
 import React from 'react';
-import { ProjectFile, EntityType, Point } from '../../types';
+import { ProjectFile } from '../../types';
 import { updateProject } from '../../domains/structure/common';
 import { calculateBeamRawGeneration } from '../../domains/structure/beams/beamRawService';
 import { calculateBeamIntersectionProcessing } from '../../domains/structure/beams/beamIntersectionService';
 import { calculateBeamAttributeMounting } from '../../domains/structure/beams/beamAttributeService';
 import { calculateBeamTopologyMerge } from '../../domains/structure/beams/beamTopologyService';
-import { jsPDF } from 'jspdf';
-import { isPointInBounds } from '../../domains/structure/common';
-import { getCenter } from '../../utils/geometryUtils';
+import { buildBeamScheduleRows, buildBeamScheduleSheets, BeamScheduleColumn } from '../../domains/structure/beams/beamScheduleService';
+import { buildBeamReportDataset, BEAM_REPORT_TEMPLATES } from '../../domains/structure/beams/beamReportService';
+import { ReportUnitSystem } from '../../utils/units';
+import { ReportTemplate, layoutReport, renderReportToPdf, renderReportToHtml, renderReportToSheets } from '../../utils/reportEngine';
+import { writeCsv, writeXlsx } from '../../utils/spreadsheetExport';
+import { downloadBlob } from '../../utils/download';
 
 export const runBeamRawGeneration = (
   activeProject: ProjectFile,
@@ -164,147 +167,63 @@ export const runBeamTopologyMerge = (
   console.log(calc.message);
 };
 
+export type BeamReportFormat = 'pdf' | 'html' | 'xlsx';
+
 export const runBeamCalculation = (
   activeProject: ProjectFile,
   projects: ProjectFile[],
+  reportUnits: ReportUnitSystem = 'MM',
+  template: ReportTemplate = BEAM_REPORT_TEMPLATES[0],
+  format: BeamReportFormat = 'pdf'
 ) => {
-  const infos = activeProject.beamStep4TopologyInfos;
-  if (!infos || infos.length === 0) {
+  const rows = buildBeamScheduleRows(activeProject);
+  if (!rows) {
     console.log("No topology data from Step 4. Run Topology Merge first.");
     return;
   }
 
-  const views = activeProject.splitRegions || [];
-
-  type BeamStat = {
-    id: string;
-    parentId: string;
-    code: string;
-    width: number;
-    height: number;
-    length: number;
-    volume: number;
-  };
-
-  const grouped: Record<string, BeamStat[]> = {};
-  const viewVolumes: Record<string, number> = {};
-  let totalProjectVolume = 0;
-
-  infos.forEach(info => {
-    if (info.volume > 0) {
-      let viewName = "Uncategorized";
-      let center: Point | null = info.center || null;
-      if (!center && info.vertices && info.vertices.length > 0) {
-        center = getCenter({ type: EntityType.LWPOLYLINE, vertices: info.vertices, layer: 'temp' });
-      }
-
-      if (center) {
-        const foundRegion = views.find(v => isPointInBounds(center!, v.bounds));
-        if (foundRegion) {
-          if (foundRegion.info) {
-            viewName = `Region ${foundRegion.info.index}`;
-          } else {
-            viewName = `Region ${views.indexOf(foundRegion) + 1}`;
-          }
-        }
-      }
-
-      if (!grouped[viewName]) {
-        grouped[viewName] = [];
-        viewVolumes[viewName] = 0;
-      }
-
-      const iLen = Math.round(info.length);
-      const iW = Math.round(info.width);
-      const iH = Math.round(info.height);
-      const iVol = iLen * iW * iH;
-
-      grouped[viewName].push({
-        id: info.beamIndex.toString(),
-        parentId: info.parentBeamIndex.toString(),
-        code: info.code,
-        width: iW,
-        height: iH,
-        length: iLen,
-        volume: iVol
-      });
-
-      viewVolumes[viewName] += iVol;
-      totalProjectVolume += iVol;
-    }
-  });
-
-  const doc = new jsPDF();
-  doc.setFontSize(16);
-  doc.text("Structural Beam Quantity Survey", 14, 20);
-
-  doc.setFontSize(12);
-  const volM3 = (totalProjectVolume / 1e9).toFixed(3);
-  doc.text(`Total Project Volume: ${volM3} m3`, 14, 30);
-
-  let y = 40;
-  const sortedViewNames = Object.keys(grouped).sort();
-
-  sortedViewNames.forEach(viewName => {
-    const stats = grouped[viewName].sort((a, b) => {
-      const cA = a.code || "";
-      const cB = b.code || "";
-      const codeDiff = cA.localeCompare(cB, undefined, { numeric: true, sensitivity: 'base' });
-      if (codeDiff !== 0) return codeDiff;
-      return parseInt(a.id, 10) - parseInt(b.id, 10);
-    });
-
-    const vVol = viewVolumes[viewName];
+  const name = activeProject.name.replace('.dxf', '');
+  const report = layoutReport(template, buildBeamReportDataset(rows), { project: name, units: reportUnits });
+  const fileName = `${name}_${template.id}`;
 
-    if (y > 260) {
-      doc.addPage();
-      y = 20;
-    }
-
-    doc.setFontSize(12);
-    doc.setFont(undefined, 'bold');
-    doc.text(`${viewName} - Vol: ${(vVol / 1e9).toFixed(3)} m3`, 14, y);
-    y += 8;
-
-    doc.setFontSize(9);
-    doc.setFont(undefined, 'normal');
-    doc.text("ID", 14, y);
-    doc.text("Code", 30, y);
-    doc.text("Len (mm)", 75, y);
-    doc.text("W (mm)", 95, y);
-    doc.text("H (mm)", 115, y);
-    doc.text("Vol (mm3)", 135, y);
-    doc.line(14, y + 2, 190, y + 2);
-    y += 8;
-
-    stats.forEach((item) => {
-      if (y > 275) {
-        doc.addPage();
-        y = 20;
-        doc.setFontSize(9);
-        doc.text("ID", 14, y);
-        doc.text("Code", 30, y);
-        doc.text("Len (mm)", 75, y);
-        doc.text("W (mm)", 95, y);
-        doc.text("H (mm)", 115, y);
-        doc.text("Vol (mm3)", 135, y);
-        doc.line(14, y + 2, 190, y + 2);
-        y += 8;
-      }
+  if (format === 'pdf') {
+    renderReportToPdf(report).save(`${fileName}.pdf`);
+  } else if (format === 'html') {
+    downloadBlob(new Blob([renderReportToHtml(report)], { type: 'text/html;charset=utf-8' }), `${fileName}.html`);
+  } else {
+    downloadBlob(new Blob([writeXlsx(renderReportToSheets(report))], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${fileName}.xlsx`);
+  }
+  console.log(`Calculation Complete. ${template.name} exported as ${format.toUpperCase()}. Total Volume: ${report.values['sum:volume']}`);
+};
 
-      doc.text(item.id, 14, y);
-      doc.text(item.code, 30, y);
-      doc.text(item.length.toString(), 75, y);
-      doc.text(item.width.toString(), 95, y);
-      doc.text(item.height.toString(), 115, y);
-      doc.text(item.volume.toLocaleString(), 135, y);
+export type BeamScheduleFormat = 'csv' | 'xlsx';
 
-      y += 5;
-    });
+export const exportBeamSchedule = (
+  activeProject: ProjectFile,
+  format: BeamScheduleFormat,
+  columns: BeamScheduleColumn[],
+  includeSummary: boolean,
+  reportUnits: ReportUnitSystem = 'MM'
+) => {
+  const rows = buildBeamScheduleRows(activeProject);
+  if (!rows) {
+    console.log("No topology data from Step 4. Run Topology Merge first.");
+    return;
+  }
+  if (columns.length === 0) {
+    alert('Select at least one schedule column.');
+    return;
+  }
 
-    y += 10;
-  });
+  const sheets = buildBeamScheduleSheets(rows, columns, reportUnits, includeSummary);
+  const name = activeProject.name.replace('.dxf', '');
 
-  doc.save(`Beam_Calculation_Report.pdf`);
-  console.log(`Calculation Complete. Total Volume: ${volM3} m3`);
+  if (format === 'xlsx') {
+    downloadBlob(new Blob([writeXlsx(sheets)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${name}_beam_schedule.xlsx`);
+  } else {
+    // CSV holds one table, so the summary goes into its own file
+    downloadBlob(new Blob([writeCsv(sheets[0])], { type: 'text/csv;charset=utf-8' }), `${name}_beam_schedule.csv`);
+    if (sheets[1]) downloadBlob(new Blob([writeCsv(sheets[1])], { type: 'text/csv;charset=utf-8' }), `${name}_beam_summary.csv`);
+  }
+  console.log(`Beam schedule: ${rows.length} beams exported as ${format.toUpperCase()}.`);
 };
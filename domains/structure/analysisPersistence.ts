@@ -1,9 +1,14 @@
-import { ProjectFile, AnalysisExportPayload, SemanticLayer } from '../../types';
+import { ProjectFile, AnalysisExportPayload, SemanticLayer, LayerColors } from '../../types';
 import { DEFAULT_BEAM_STAGE_COLORS } from './beams/common';
+import { DxfWriterVersion, writeDxf } from '../../utils/dxfWriter';
+import { downloadBlob } from '../../utils/download';
+import { buildStructureIfc } from './ifcExportService';
+import { buildStructureModel, writeStructureGltf, writeStructureObj } from './modelExportService';
 
 /**
  * Build export payload capturing analysis state (split/merge and configs).
- * Includes data needed to resume from post-merge steps without rerunning split/merge.
+ * Includes data needed to resume from post-merge steps without rerunning split/merge,
+ * plus the parser diagnostics of the source file.
  */
 export const buildAnalysisExportPayload = (project: ProjectFile): AnalysisExportPayload => {
   const step =
@@ -21,7 +26,9 @@ export const buildAnalysisExportPayload = (project: ProjectFile): AnalysisExport
     mergedViewData: project.mergedViewData,
     columns: project.columns,
     walls: project.walls,
+    drawingUnits: project.drawingUnits,
     data: project.data,
+    diagnostics: project.data.diagnostics,
     activeLayers: Array.from(project.activeLayers),
     filledLayers: Array.from(project.filledLayers),
     step
@@ -30,13 +37,53 @@ export const buildAnalysisExportPayload = (project: ProjectFile): AnalysisExport
 
 export const exportAnalysisState = (project: ProjectFile) => {
   const payload = buildAnalysisExportPayload(project);
-  const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${project.name.replace('.dxf', '')}_analysis.json`;
-  a.click();
-  URL.revokeObjectURL(url);
+  downloadBlob(new Blob([JSON.stringify(payload)], { type: 'application/json' }), `${project.name.replace('.dxf', '')}_analysis.json`);
+};
+
+// Layers the analysis adds to a drawing
+export const ANALYSIS_RESULT_LAYERS = ['VIEWPORT_CALC', 'COLU_CALC', 'WALL_CALC', ...Object.keys(DEFAULT_BEAM_STAGE_COLORS)];
+
+/**
+ * Downloads the analysis result layers as a DXF to XREF into the source drawing. Beam outlines carry
+ * their attributes as XDATA next to the text labels the steps draw.
+ */
+export const exportAnalysisDxf = (project: ProjectFile, layerColors: LayerColors, version: DxfWriterVersion) => {
+  const layers = ANALYSIS_RESULT_LAYERS.filter(l => project.data.layers.includes(l));
+  if (layers.length === 0) {
+    alert('No analysis results to export yet.');
+    return;
+  }
+  // Written in the units the analysis ran in, so the XREF lines up with the drawing
+  const data = { ...project.data, header: { ...project.data.header, insUnits: project.drawingUnits ?? project.data.header?.insUnits } };
+  const dxf = writeDxf(data, { version, layers, layerColors });
+  downloadBlob(new Blob([dxf], { type: 'application/dxf' }), `${project.name.replace('.dxf', '')}_results_${version}.dxf`);
+};
+
+/**
+ * Downloads the recognised beams, columns and walls as an IFC4 model for BIM tools.
+ */
+export const exportAnalysisIfc = (project: ProjectFile, storeyHeight: number) => {
+  const result = buildStructureIfc(project, { storeyHeight });
+  if (!result) {
+    alert('No beams, columns or walls to export yet.');
+    return;
+  }
+  downloadBlob(new Blob([result.text], { type: 'application/x-step' }), `${project.name.replace('.dxf', '')}_structure.ifc`);
+};
+
+export type StructureModelFormat = 'gltf' | 'obj';
+
+export const exportAnalysisModel = (project: ProjectFile, storeyHeight: number, format: StructureModelFormat) => {
+  const model = buildStructureModel(project, { storeyHeight });
+  if (!model) {
+    alert('No beams, columns or walls to export yet.');
+    return;
+  }
+  const name = project.name.replace('.dxf', '');
+  const blob = format === 'gltf'
+    ? new Blob([writeStructureGltf(model, name)], { type: 'model/gltf+json' })
+    : new Blob([writeStructureObj(model, name)], { type: 'text/plain' });
+  downloadBlob(blob, `${name}_structure.${format}`);
 };
 
 const ensureLayerColors = (
@@ -97,6 +144,7 @@ export const importAnalysisState = (
             mergedViewData,
             columns,
             walls,
+            drawingUnits: payload.drawingUnits ?? p.drawingUnits,
             activeLayers: newActive.size > 0 ? newActive : p.activeLayers,
             filledLayers: new Set(payload.filledLayers || p.filledLayers)
           };
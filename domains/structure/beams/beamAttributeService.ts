@@ -2,7 +2,7 @@ import { ProjectFile, DxfEntity, EntityType, Point, Bounds, BeamStep3AttrInfo }
 import { isPointInBounds } from '../common';
 import { getEntityBounds, distance, getCenter } from '../../../utils/geometryUtils';
 import { extractEntities } from '../../../utils/dxfHelpers';
-import { collectBeamSources, computeOBB, OBB } from './common';
+import { buildBeamXData, collectBeamSources, computeOBB, OBB } from './common';
 
 export interface BeamAttributeResult {
   resultLayer: string;
@@ -27,6 +27,8 @@ export const calculateBeamAttributeMounting = (
   const beamLabels = activeProject.beamLabels || [];
   const sources = collectBeamSources(activeProject, projects);
   if (!sources) return null;
+  const { units } = sources;
+  const obbSlack = units.fromMm(20);
   const obstacleBounds = sources.obstacles.map(o => getEntityBounds(o)).filter((b): b is Bounds => !!b);
 
   const beams = extractEntities([sourceLayer], activeProject.data.entities, activeProject.data.blocks, activeProject.data.blockBasePoints)
@@ -48,7 +50,7 @@ export const calculateBeamAttributeMounting = (
     const dy = pt.y - obb.center.y;
     const du = dx * obb.u.x + dy * obb.u.y;
     const dv = dx * -obb.u.y + dy * obb.u.x;
-    return Math.abs(du) <= obb.halfLen + 20 && Math.abs(dv) <= obb.halfWidth + 20;
+    return Math.abs(du) <= obb.halfLen + obbSlack && Math.abs(dv) <= obb.halfWidth + obbSlack;
   };
 
   const findBeamForPoint = (pt: Point | null): typeof beamObbs[number] | null => {
@@ -79,7 +81,7 @@ export const calculateBeamAttributeMounting = (
     const [pA, pB] = pair1 <= pair2 ? [endA1, endB2] : [endA2, endB1];
 
     const totalDist = distance(pA, pB);
-    const steps = Math.max(5, Math.ceil(totalDist / 50));
+    const steps = Math.max(5, Math.ceil(totalDist / units.fromMm(50)));
     for (let s = 0; s <= steps; s++) {
       const t = s / steps;
       const pt = { x: pA.x + (pB.x - pA.x) * t, y: pA.y + (pB.y - pA.y) * t };
@@ -98,7 +100,7 @@ export const calculateBeamAttributeMounting = (
       layer: debugLayer,
       start: pt,
       text,
-      radius: 120,
+      radius: units.fromMm(120),
       startAngle: angle ?? 0
     });
   };
@@ -165,7 +167,7 @@ export const calculateBeamAttributeMounting = (
       const perpDistA = base.obb!.center.x * -base.obb!.u.y + base.obb!.center.y * base.obb!.u.x;
       const perpDistB = curr.obb!.center.x * -curr.obb!.u.y + curr.obb!.center.y * curr.obb!.u.x;
 
-      if (Math.abs(perpDistA - perpDistB) > 200) break;
+      if (Math.abs(perpDistA - perpDistB) > units.fromMm(200)) break;
 
       const connected = isConnectedAlongAxis(base, curr);
       if (connected) {
@@ -211,9 +213,12 @@ export const calculateBeamAttributeMounting = (
     };
 
     const name = attr.code || 'UNKNOWN';
+    const id = geoInfoByIndex.get(idx) || `ATTR-${idx}`;
+    // The outline carries its attributes into CAD exports
+    attrBeams[b.index].xdata = buildBeamXData({ ID: id, CODE: name, SPAN: attr.span, WIDTH: attr.width, HEIGHT: attr.height });
 
     return {
-      id: geoInfoByIndex.get(idx) || `ATTR-${idx}`,
+      id,
       layer: resultLayer,
       shape: 'rect',
       vertices: [
@@ -241,7 +246,7 @@ export const calculateBeamAttributeMounting = (
     layer: resultLayer,
     start: info.center || info.vertices[0],
     text: `${info.id} ${info.code}`,
-    radius: 180,
+    radius: units.fromMm(180),
     startAngle: info.angle || 0
   }));
 
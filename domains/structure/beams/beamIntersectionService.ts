@@ -46,14 +46,16 @@ export const calculateBeamIntersectionProcessing = (
   const workingSet = deepCopyEntities(rawStep1);
 
   const validWidthsArr = Array.from(sources.validWidths);
-  const maxSearchWidth = validWidthsArr.length > 0 ? Math.max(...validWidthsArr) : 600;
+  const { units } = sources;
+  const unitScale = units.fromMm(1);
+  const maxSearchWidth = units.fromMm(validWidthsArr.length > 0 ? Math.max(...validWidthsArr) : 600);
   const strictViewports = activeProject.splitRegions ? activeProject.splitRegions.map(r => r.bounds) : [];
 
   const toProcess: DxfEntity[] = [];
   const completed: DxfEntity[] = [];
 
   workingSet.forEach(b => {
-    if (isBeamFullyAnchored(b, sources.obstacles)) {
+    if (isBeamFullyAnchored(b, sources.obstacles, unitScale)) {
       completed.push(b);
     } else {
       toProcess.push(b);
@@ -61,14 +63,14 @@ export const calculateBeamIntersectionProcessing = (
   });
 
   const allTargets = [...toProcess, ...completed];
-  const extended = extendBeamsToPerpendicular(toProcess, allTargets, sources.obstacles, maxSearchWidth, strictViewports);
+  const extended = extendBeamsToPerpendicular(toProcess, allTargets, sources.obstacles, maxSearchWidth, strictViewports, unitScale);
 
   let finalEntities = [...extended, ...completed].map(e => ({ ...e, layer: resultLayer }));
   if (finalEntities.length === 0) {
     finalEntities = workingSet.map(e => ({ ...e, layer: resultLayer }));
   }
 
-  const mergedBeams = mergeOverlappingBeams(finalEntities);
+  const mergedBeams = mergeOverlappingBeams(finalEntities, unitScale);
 
   const labeledEntities: DxfEntity[] = [];
   mergedBeams.forEach((ent, idx) => {
@@ -82,13 +84,13 @@ export const calculateBeamIntersectionProcessing = (
         layer: resultLayer,
         start: center,
         text: `B2-${idx}`,
-        radius: 200,
+        radius: units.fromMm(200),
         startAngle: angle
       });
     }
   });
 
-  const interMarks = detectIntersections(mergedBeams);
+  const interMarks = detectIntersections(mergedBeams, unitScale);
   const interEntities = [...interMarks.intersections, ...interMarks.labels].map(e => ({ ...e, layer: interLayer }));
 
   const geoInfos = mergedBeams.map((ent, idx) => {
@@ -22,25 +22,27 @@ export const calculateBeamRawGeneration = (
 
   const resultLayer = 'BEAM_STEP1_RAW';
   const contextLayers = ['AXIS'];
-  const { lines, obstacles, axisLines, textPool, validWidths } = sources;
+  const { units, lines, obstacles, axisLines, textPool, validWidths } = sources;
   const widthsToUse = validWidths.size > 0 ? validWidths : new Set([200, 250, 300, 350, 400, 500, 600]);
+  const unitScale = units.fromMm(1);
 
   const polys = findParallelPolygons(
     lines,
-    1200,
+    units.fromMm(1200),
     resultLayer,
     obstacles,
     axisLines,
     textPool,
     'BEAM',
-    widthsToUse
+    new Set(Array.from(widthsToUse).map(w => units.fromMm(w))),
+    unitScale
   );
 
   if (polys.length === 0) {
     return null;
   }
 
-  const mergedPolys = mergeCollinearBeams(polys, obstacles, [], 2, false);
+  const mergedPolys = mergeCollinearBeams(polys, obstacles, [], units.fromMm(2), false, unitScale);
   const widthsUsed = Array.from(widthsToUse).sort((a, b) => a - b);
   const message = `Step 1: Generated ${mergedPolys.length} raw beam segments. (Widths: ${widthsUsed.join(', ')})`;
 
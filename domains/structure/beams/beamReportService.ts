@@ -0,0 +1,171 @@
+import { ReportDataset, ReportFieldDef, ReportTemplate } from '../../../utils/reportEngine';
+import { BeamScheduleRow } from './beamScheduleService';
+
+// Fields a beam report template can use
+export const BEAM_REPORT_FIELDS: Record<string, ReportFieldDef> = {
+  id: { label: 'ID', kind: 'integer' },
+  parent: { label: 'Parent', kind: 'integer' },
+  code: { label: 'Code', kind: 'text' },
+  span: { label: 'Span', kind: 'text' },
+  section: { label: 'Section (mm)', kind: 'text' },
+  width: { label: 'W', kind: 'length' },
+  height: { label: 'H', kind: 'length' },
+  length: { label: 'Len', kind: 'length' },
+  area: { label: 'Plan Area', kind: 'area' },
+  volume: { label: 'Vol', kind: 'volume' },
+  region: { label: 'Region', kind: 'text' },
+  floor: { label: 'Floor', kind: 'text' },
+  label: { label: 'Label', kind: 'text' }
+};
+
+export const buildBeamReportDataset = (rows: BeamScheduleRow[]): ReportDataset => ({
+  fields: BEAM_REPORT_FIELDS,
+  rows: rows.map(r => ({
+    id: r.id,
+    parent: r.parentId,
+    code: r.code,
+    span: r.span,
+    section: r.width > 0 && r.height > 0 ? `${r.width}x${r.height}` : '',
+    width: r.width,
+    height: r.height,
+    length: r.length,
+    area: r.length * r.width,
+    volume: r.volume,
+    region: r.region,
+    floor: r.floor,
+    label: r.label
+  }))
+});
+
+const SIZED = { field: 'volume', op: 'gt' as const, value: 0 };
+
+export const BEAM_REPORT_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'quantity-survey',
+    name: 'Quantity Survey',
+    title: 'Structural Beam Quantity Survey',
+    subtitle: 'Total Project Volume: {sum:volume}',
+    footer: { center: 'Page {page} of {pages}' },
+    sections: [{
+      filters: [SIZED],
+      groupBy: ['region'],
+      columns: [
+        { field: 'id', width: 1.5 },
+        { field: 'code', width: 4.5 },
+        { field: 'length' },
+        { field: 'width' },
+        { field: 'height' },
+        { field: 'volume', aggregate: 'sum' }
+      ],
+      subtotals: true
+    }]
+  },
+  {
+    id: 'client-submission',
+    name: 'Client Submission',
+    title: 'Beam Quantity Schedule',
+    subtitle: '{project} - {date}',
+    header: { left: '{project}', right: '{template}' },
+    footer: { left: 'Issued {date}', right: 'Page {page} of {pages}' },
+    sections: [
+      {
+        title: 'Summary by Beam Code',
+        filters: [SIZED],
+        groupBy: ['code'],
+        summarize: true,
+        columns: [
+          { field: 'code' },
+          { field: 'id', aggregate: 'count' },
+          { field: 'section', label: 'Sections (mm)', aggregate: 'distinct', width: 4 },
+          { field: 'length', label: 'Total Length', aggregate: 'sum' },
+          { field: 'area', label: 'Total Plan Area', aggregate: 'sum' },
+          { field: 'volume', label: 'Total Volume', aggregate: 'sum' }
+        ],
+        grandTotal: true
+      },
+      {
+        title: 'Summary by Section Size',
+        filters: [SIZED],
+        groupBy: ['section'],
+        summarize: true,
+        columns: [
+          { field: 'section' },
+          { field: 'id', aggregate: 'count' },
+          { field: 'length', label: 'Total Length', aggregate: 'sum' },
+          { field: 'volume', label: 'Total Volume', aggregate: 'sum' }
+        ],
+        grandTotal: true
+      },
+      {
+        title: 'Schedule by Region',
+        pageBreakBefore: true,
+        filters: [SIZED],
+        groupBy: ['region'],
+        columns: [
+          { field: 'code' },
+          { field: 'span', width: 1.5 },
+          { field: 'section' },
+          { field: 'length', aggregate: 'sum' },
+          { field: 'volume', aggregate: 'sum' }
+        ],
+        subtotals: true,
+        grandTotal: true
+      }
+    ]
+  },
+  {
+    id: 'internal-check',
+    name: 'Internal Check',
+    title: 'Beam Recognition Check',
+    subtitle: '{project} - {count} beams, {sum:volume} - {units}',
+    paper: { size: 'A4', orientation: 'landscape' },
+    header: { left: '{project}', right: 'INTERNAL - NOT FOR SUBMISSION' },
+    footer: { left: '{date}', right: 'Page {page}/{pages}' },
+    sections: [
+      {
+        title: 'Beams Without a Section',
+        text: 'No width or height was read from the labels; these beams carry no volume.',
+        filters: [{ field: 'section', op: 'empty' }],
+        columns: [
+          { field: 'id', width: 1 },
+          { field: 'code', width: 2 },
+          { field: 'region', width: 2 },
+          { field: 'floor', width: 3 },
+          { field: 'length', width: 1.5 },
+          { field: 'label', width: 5 }
+        ],
+        grandTotal: true
+      },
+      {
+        title: 'Detail by Region and Code',
+        pageBreakBefore: true,
+        groupBy: ['region', 'code'],
+        sort: [{ field: 'id' }],
+        columns: [
+          { field: 'id', width: 1 },
+          { field: 'parent', width: 1 },
+          { field: 'span', width: 1 },
+          { field: 'section', width: 2 },
+          { field: 'length', width: 1.5, aggregate: 'sum' },
+          { field: 'volume', width: 1.5, aggregate: 'sum' },
+          { field: 'label', width: 5 }
+        ],
+        subtotals: true,
+        grandTotal: true
+      },
+      {
+        title: 'Section Sizes',
+        filters: [SIZED],
+        groupBy: ['section'],
+        summarize: true,
+        columns: [
+          { field: 'section' },
+          { field: 'id', aggregate: 'count' },
+          { field: 'code', label: 'Codes', aggregate: 'distinct', width: 6 },
+          { field: 'volume', aggregate: 'sum' }
+        ],
+        grandTotal: true
+      }
+    ]
+  }
+];
@@ -0,0 +1,139 @@
+import { EntityType, Point, ProjectFile } from '../../../types';
+import { isPointInBounds } from '../common';
+import { getCenter } from '../../../utils/geometryUtils';
+import { getProjectUnits, ReportUnitSystem, REPORT_UNIT_SYSTEMS, formatReportLength, formatReportVolume } from '../../../utils/units';
+import { SpreadsheetSheet, SpreadsheetCell } from '../../../utils/spreadsheetExport';
+
+// One Step 4 beam in report terms: lengths in mm, volume in mm3
+export interface BeamScheduleRow {
+  id: number;
+  parentId: number;
+  code: string;
+  span: string;
+  width: number;
+  height: number;
+  length: number;
+  volume: number;
+  region: string; // "Region N" as in the PDF report
+  floor: string;  // Title of the split region
+  label: string;  // Source label text
+}
+
+export type BeamScheduleColumn = 'id' | 'code' | 'span' | 'section' | 'length' | 'volume' | 'region' | 'floor' | 'parent' | 'label';
+
+interface BeamScheduleColumnDef {
+  label: string;
+  header: (units: ReportUnitSystem) => string;
+  value: (row: BeamScheduleRow, units: ReportUnitSystem) => SpreadsheetCell;
+  width: number;
+}
+
+export const BEAM_SCHEDULE_COLUMNS: Record<BeamScheduleColumn, BeamScheduleColumnDef> = {
+  id: { label: 'Beam No.', header: () => 'ID', value: r => r.id, width: 8 },
+  code: { label: 'Code', header: () => 'Code', value: r => r.code, width: 14 },
+  span: { label: 'Span', header: () => 'Span', value: r => r.span, width: 8 },
+  section: { label: 'Section', header: () => 'Section (mm)', value: r => (r.width > 0 && r.height > 0 ? `${r.width}x${r.height}` : ''), width: 12 },
+  length: { label: 'Length', header: u => `Length (${REPORT_UNIT_SYSTEMS[u].length.symbol})`, value: (r, u) => Number(formatReportLength(r.length, u)), width: 12 },
+  volume: { label: 'Volume', header: u => `Volume (${REPORT_UNIT_SYSTEMS[u].volume.symbol})`, value: (r, u) => Number(formatReportVolume(r.volume, u)), width: 12 },
+  region: { label: 'Region', header: () => 'Region', value: r => r.region, width: 14 },
+  floor: { label: 'Floor', header: () => 'Floor', value: r => r.floor, width: 24 },
+  parent: { label: 'Parent Beam', header: () => 'Parent', value: r => r.parentId, width: 8 },
+  label: { label: 'Label Text', header: () => 'Label', value: r => r.label, width: 36 }
+};
+
+export const DEFAULT_BEAM_SCHEDULE_COLUMNS: BeamScheduleColumn[] = ['id', 'code', 'span', 'section', 'length', 'volume', 'region'];
+
+const compareCodes = (a: string, b: string) => (a || '').localeCompare(b || '', undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Step 4 topology beams as schedule rows, sorted by region, code and beam number.
+ * Section sizes come from the labels in mm; lengths are converted from drawing units.
+ */
+export const buildBeamScheduleRows = (project: ProjectFile): BeamScheduleRow[] | null => {
+  const infos = project.beamStep4TopologyInfos;
+  if (!infos || infos.length === 0) return null;
+
+  const views = project.splitRegions || [];
+  const units = getProjectUnits(project);
+
+  const rows = infos.map(info => {
+    let region = 'Uncategorized';
+    let floor = '';
+    let center: Point | null = info.center || null;
+    if (!center && info.vertices && info.vertices.length > 0) {
+      center = getCenter({ type: EntityType.LWPOLYLINE, vertices: info.vertices, layer: 'temp' });
+    }
+    if (center) {
+      const foundRegion = views.find(v => isPointInBounds(center!, v.bounds));
+      if (foundRegion) {
+        region = `Region ${foundRegion.info ? foundRegion.info.index : views.indexOf(foundRegion) + 1}`;
+        floor = foundRegion.title;
+      }
+    }
+
+    const length = Math.round(units.toMm(info.length));
+    const width = Math.round(info.width);
+    const height = Math.round(info.height);
+    return {
+      id: info.beamIndex,
+      parentId: info.parentBeamIndex,
+      code: info.code || '',
+      span: info.span || '',
+      width,
+      height,
+      length,
+      volume: length * width * height,
+      region,
+      floor,
+      label: info.rawLabel || ''
+    };
+  });
+
+  return rows.sort((a, b) => compareCodes(a.region, b.region) || compareCodes(a.code, b.code) || a.id - b.id);
+};
+
+/** Detail sheet with the chosen columns; optionally a per-code summary with a total row. */
+export const buildBeamScheduleSheets = (
+  rows: BeamScheduleRow[],
+  columns: BeamScheduleColumn[],
+  units: ReportUnitSystem,
+  includeSummary: boolean
+): SpreadsheetSheet[] => {
+  const defs = columns.map(c => BEAM_SCHEDULE_COLUMNS[c]);
+  const sheets: SpreadsheetSheet[] = [{
+    name: 'Beams',
+    headers: defs.map(d => d.header(units)),
+    rows: rows.map(row => defs.map(d => d.value(row, units))),
+    widths: defs.map(d => d.width)
+  }];
+  if (!includeSummary) return sheets;
+
+  const byCode = new Map<string, { count: number, sections: Set<string>, length: number, volume: number }>();
+  rows.forEach(row => {
+    const entry = byCode.get(row.code) || { count: 0, sections: new Set<string>(), length: 0, volume: 0 };
+    entry.count++;
+    if (row.width > 0 && row.height > 0) entry.sections.add(`${row.width}x${row.height}`);
+    entry.length += row.length;
+    entry.volume += row.volume;
+    byCode.set(row.code, entry);
+  });
+
+  const report = REPORT_UNIT_SYSTEMS[units];
+  const codes = [...byCode.keys()].sort(compareCodes);
+  const totalLength = rows.reduce((sum, r) => sum + r.length, 0);
+  const totalVolume = rows.reduce((sum, r) => sum + r.volume, 0);
+  sheets.push({
+    name: 'Summary by Code',
+    headers: ['Code', 'Count', 'Sections (mm)', `Total Length (${report.length.symbol})`, `Total Volume (${report.volume.symbol})`],
+    rows: [
+      ...codes.map(code => {
+        const e = byCode.get(code)!;
+        return [code || '(no code)', e.count, [...e.sections].join('; '), Number(formatReportLength(e.length, units)), Number(formatReportVolume(e.volume, units))];
+      }),
+      ['Total', rows.length, '', Number(formatReportLength(totalLength, units)), Number(formatReportVolume(totalVolume, units))]
+    ],
+    widths: [14, 8, 24, 18, 18],
+    footerRows: 1
+  });
+  return sheets;
+};
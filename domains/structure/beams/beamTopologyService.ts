@@ -1,6 +1,7 @@
 import { ProjectFile, DxfEntity, EntityType, BeamStep3AttrInfo, BeamStep4TopologyInfo, Bounds, BeamIntersectionInfo } from '../../../types';
 import { getEntityBounds } from '../../../utils/geometryUtils';
-import { computeOBB, OBB } from './common';
+import { buildBeamXData, computeOBB, OBB } from './common';
+import { getProjectUnits } from '../../../utils/units';
 
 export interface BeamTopologyResult {
   resultLayer: string;
@@ -82,7 +83,7 @@ const fragmentOverlaps = (frag: Fragment, box: Bounds): boolean => {
   return true;
 };
 
-const cutFragment = (frag: Fragment, box: Bounds): Fragment[] => {
+const cutFragment = (frag: Fragment, box: Bounds, unitScale = 1): Fragment[] => {
   const obb = frag.obb;
   const center = obb.center;
 
@@ -114,7 +115,7 @@ const cutFragment = (frag: Fragment, box: Bounds): Fragment[] => {
 
   const results: Fragment[] = [];
   const makeFrag = (start: number, end: number, suffix: string): Fragment | null => {
-    if (end - start < 50) return null;
+    if (end - start < 50 * unitScale) return null;
 
     const midT = (start + end) / 2;
     const halfL = (end - start) / 2;
@@ -147,15 +148,16 @@ const cutFragment = (frag: Fragment, box: Bounds): Fragment[] => {
     };
   };
 
-  if (oStart > bStart + 10 && oEnd < bEnd - 10) {
+  const edgeTol = 10 * unitScale;
+  if (oStart > bStart + edgeTol && oEnd < bEnd - edgeTol) {
     const f1 = makeFrag(bStart, oStart, "-A");
     const f2 = makeFrag(oEnd, bEnd, "-B");
     if (f1) results.push(f1);
     if (f2) results.push(f2);
-  } else if (oStart <= bStart + 10 && oEnd < bEnd - 10) {
+  } else if (oStart <= bStart + edgeTol && oEnd < bEnd - edgeTol) {
     const f1 = makeFrag(oEnd, bEnd, "-T");
     if (f1) results.push(f1);
-  } else if (oStart > bStart + 10 && oEnd >= bEnd - 10) {
+  } else if (oStart > bStart + edgeTol && oEnd >= bEnd - edgeTol) {
     const f1 = makeFrag(bStart, oStart, "-H");
     if (f1) results.push(f1);
   } else {
@@ -180,6 +182,9 @@ export const calculateBeamTopologyMerge = (
     return null;
   }
 
+  const units = getProjectUnits(activeProject);
+  const unitScale = units.fromMm(1);
+
   let fragments: Fragment[] = [];
   const unknownCodeFrags: Fragment[] = [];
 
@@ -248,7 +253,7 @@ export const calculateBeamTopologyMerge = (
         res.cutIds.forEach(id => {
           const victim = fragments.find(f => f.id === id);
           if (victim) {
-            const parts = cutFragment(victim, box);
+            const parts = cutFragment(victim, box, unitScale);
             newFragments.push(...parts);
           }
         });
@@ -447,15 +452,27 @@ export const calculateBeamTopologyMerge = (
     if (finalAngle > 90 || finalAngle < -90) finalAngle += 180;
     if (finalAngle > 180) finalAngle -= 360;
 
+    // Length stays in drawing units; the label and volume use real-world mm like the section sizes
     const len = Math.round(f.obb.halfLen * 2);
-    const labelText = `${newIdx} ${f.attr.code || '?'}\n${len}x${f.attr.width}x${f.attr.height}`;
+    const lenMm = Math.round(units.toMm(f.obb.halfLen * 2));
+    const labelText = `${newIdx} ${f.attr.code || '?'}\n${lenMm}x${f.attr.width}x${f.attr.height}`;
+    const span = f.attr.span > 1 ? `(${f.attr.span})` : null;
+    newEnt.xdata = buildBeamXData({
+      ID: `TOPO-${newIdx}`,
+      CODE: f.attr.code,
+      SPAN: span,
+      WIDTH: f.attr.width,
+      HEIGHT: f.attr.height,
+      LENGTH: lenMm,
+      PARENT: f.sourceIndex
+    });
 
     labels.push({
       type: EntityType.TEXT,
       layer: resultLayer,
       text: labelText,
       start: center,
-      radius: 150,
+      radius: units.fromMm(150),
       startAngle: finalAngle
     });
 
@@ -471,12 +488,12 @@ export const calculateBeamTopologyMerge = (
       beamIndex: newIdx,
       parentBeamIndex: f.sourceIndex,
       code: f.attr.code,
-      span: f.attr.span > 1 ? `(${f.attr.span})` : null,
+      span,
       width: f.attr.width,
       height: f.attr.height,
       rawLabel: '',
       length: len,
-      volume: len * f.attr.width * f.attr.height
+      volume: lenMm * f.attr.width * f.attr.height // mm3
     });
   });
 
@@ -486,14 +503,14 @@ export const calculateBeamTopologyMerge = (
       type: EntityType.CIRCLE,
       layer: errorLayer,
       center: f.obb.center,
-      radius: 300
+      radius: units.fromMm(300)
     });
     errorMarkers.push({
       type: EntityType.TEXT,
       layer: errorLayer,
       text: "UNK",
       start: f.obb.center,
-      radius: 150,
+      radius: units.fromMm(150),
       startAngle: 0
     });
   });
@@ -512,7 +529,7 @@ export const calculateBeamTopologyMerge = (
       layer: errorLayer,
       text: "ERR-SPAN1",
       start: { x: cx, y: cy },
-      radius: 150
+      radius: units.fromMm(150)
     });
   });
 
@@ -530,7 +547,7 @@ export const calculateBeamTopologyMerge = (
       layer: errorLayer,
       text: "CHK",
       start: { x: cx, y: cy },
-      radius: 150
+      radius: units.fromMm(150)
     });
   });
 
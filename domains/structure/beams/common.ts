@@ -1,7 +1,8 @@
 
-import { DxfEntity, EntityType, Point, Bounds, ProjectFile, SemanticLayer, BeamIntersectionInfo, IntersectionShape } from '../../../types';
+import { DxfEntity, DxfXDataItem, EntityType, Point, Bounds, ProjectFile, SemanticLayer, BeamIntersectionInfo, IntersectionShape } from '../../../types';
 import { extractEntities } from '../../../utils/dxfHelpers';
 import { getMergeBaseBounds, filterEntitiesInBounds, isPointInBounds } from '../common';
+import { getProjectUnits } from '../../../utils/units';
 import {
     getCenter,
     getEntityBounds,
@@ -30,6 +31,23 @@ export const DEFAULT_BEAM_STAGE_COLORS: Record<string, string> = {
     BEAM_CALC: '#00FF00'
 };
 
+// Registered application name of the beam attributes attached to result polylines as XDATA
+export const BEAM_XDATA_APP = 'DXF_VISTA_BEAM';
+
+/**
+ * Beam attributes as XDATA name/value pairs (1000 name, then a 1000 string or 1040 real), so they
+ * survive a DXF export and CAD tools listing XDATA show them. Empty values are left out.
+ */
+export const buildBeamXData = (attrs: Record<string, string | number | null | undefined>): Record<string, DxfXDataItem[]> => {
+    const items: DxfXDataItem[] = [];
+    Object.entries(attrs).forEach(([name, value]) => {
+        if (value === null || value === undefined || value === '') return;
+        items.push({ code: 1000, value: name });
+        items.push(typeof value === 'number' ? { code: 1040, value } : { code: 1000, value });
+    });
+    return { [BEAM_XDATA_APP]: items };
+};
+
 // --- HELPERS ---
 
 // Robust Deep Copy
@@ -46,7 +64,8 @@ export const collectBeamSources = (
         return null;
     }
 
-    const baseBounds = getMergeBaseBounds(activeProject, 2500);
+    const units = getProjectUnits(activeProject);
+    const baseBounds = getMergeBaseBounds(activeProject, units.fromMm(2500));
 
     // 1. Find Annotation Layers (only merged label layers)
     const beamTextLayers = activeProject.data.layers.filter(l => l === 'MERGE_LABEL_H' || l === 'MERGE_LABEL_V');
@@ -93,7 +112,7 @@ export const collectBeamSources = (
 
     const obstacles = [...walls, ...cols];
 
-    // 3. Valid Widths (From Text)
+    // 3. Valid Widths (From Text, always mm)
     const labelLayers = activeProject.layerConfig[SemanticLayer.BEAM_LABEL];
     const validWidths = new Set<number>();
 
@@ -124,6 +143,7 @@ export const collectBeamSources = (
     }
 
     return {
+        units,
         baseBounds,
         obstacles,
         validWidths,
@@ -223,13 +243,14 @@ export const rayIntersectsAABB = (origin: Point, dir: Point, bounds: Bounds): {
 };
 
 // Check if a beam is fully "anchored" (both ends touching obstacles)
-export const isBeamFullyAnchored = (beam: DxfEntity, obstacles: DxfEntity[]): boolean => {
+export const isBeamFullyAnchored = (beam: DxfEntity, obstacles: DxfEntity[], unitScale = 1): boolean => {
     const obb = computeOBB(beam);
     if (!obb) return false;
 
     // Check both ends (projected out by a tiny tolerance of 5mm)
-    const pFront = { x: obb.center.x + obb.u.x * (obb.maxT + 5), y: obb.center.y + obb.u.y * (obb.maxT + 5) };
-    const pBack = { x: obb.center.x + obb.u.x * (obb.minT - 5), y: obb.center.y + obb.u.y * (obb.minT - 5) };
+    const reach = 5 * unitScale;
+    const pFront = { x: obb.center.x + obb.u.x * (obb.maxT + reach), y: obb.center.y + obb.u.y * (obb.maxT + reach) };
+    const pBack = { x: obb.center.x + obb.u.x * (obb.minT - reach), y: obb.center.y + obb.u.y * (obb.minT - reach) };
 
     const isBlocked = (p: Point) => {
         for (const obs of obstacles) {
@@ -250,7 +271,8 @@ export const mergeCollinearBeams = (
     obstacles: DxfEntity[],
     allBeams: DxfEntity[],
     maxGap: number,
-    strictCrossOnly: boolean
+    strictCrossOnly: boolean,
+    unitScale = 1 // Drawing units per mm; maxGap is already in drawing units
 ): DxfEntity[] => {
     const items = polys.map(p => {
         const obb = computeOBB(p);
@@ -265,7 +287,7 @@ export const mergeCollinearBeams = (
         const isVa = Math.abs(a.obb.u.y) > Math.abs(a.obb.u.x);
         const laneA = isVa ? a.obb.center.x : a.obb.center.y;
         const laneB = isVa ? b.obb.center.x : b.obb.center.y;
-        if (Math.abs(laneA - laneB) > 50) return laneA - laneB;
+        if (Math.abs(laneA - laneB) > 50 * unitScale) return laneA - laneB;
 
         const posA = isVa ? a.obb.center.y : a.obb.center.x;
         const posB = isVa ? b.obb.center.y : b.obb.center.x;
@@ -285,8 +307,9 @@ export const mergeCollinearBeams = (
             const vDist = Math.abs((mid.x - other.center.x) * other.v.x + (mid.y - other.center.y) * other.v.y);
             const uDist = Math.abs((mid.x - other.center.x) * other.u.x + (mid.y - other.center.y) * other.u.y);
 
-            if (vDist <= other.halfWidth + 10 &&
-                uDist >= other.minT - 10 && uDist <= other.maxT + 10) {
+            const slack = 10 * unitScale;
+            if (vDist <= other.halfWidth + slack &&
+                uDist >= other.minT - slack && uDist <= other.maxT + slack) {
                 return true;
             }
         }
@@ -294,10 +317,11 @@ export const mergeCollinearBeams = (
     };
 
     const isGapBlockedByObstacle = (pStart: Point, pEnd: Point, width: number): boolean => {
-        const minX = Math.min(pStart.x, pEnd.x) - 5;
-        const maxX = Math.max(pStart.x, pEnd.x) + 5;
-        const minY = Math.min(pStart.y, pEnd.y) - 5;
-        const maxY = Math.max(pStart.y, pEnd.y) + 5;
+        const pad = 5 * unitScale;
+        const minX = Math.min(pStart.x, pEnd.x) - pad;
+        const maxX = Math.max(pStart.x, pEnd.x) + pad;
+        const minY = Math.min(pStart.y, pEnd.y) - pad;
+        const maxY = Math.max(pStart.y, pEnd.y) + pad;
 
         const gapBounds: Bounds = {
             minX: minX - (width / 2), maxX: maxX + (width / 2),
@@ -354,14 +378,14 @@ export const mergeCollinearBeams = (
                 if (dot < 0.98) continue;
 
                 const perpDist = Math.abs((next.center.x - current.center.x) * current.v.x + (next.center.y - current.center.y) * current.v.y);
-                if (perpDist > 50) continue;
+                if (perpDist > 50 * unitScale) continue;
 
                 const distAlong = (next.center.x - current.center.x) * current.u.x + (next.center.y - current.center.y) * current.u.y;
                 const nextStartT = distAlong + next.minT;
                 const gap = nextStartT - current.maxT;
 
-                if (gap > maxGap + 10) continue;
-                if (Math.abs(current.halfWidth - next.halfWidth) * 2 > 100) continue;
+                if (gap > maxGap + 10 * unitScale) continue;
+                if (Math.abs(current.halfWidth - next.halfWidth) * 2 > 100 * unitScale) continue;
 
                 const pEndCurrent = {
                     x: current.center.x + current.u.x * current.maxT,
@@ -374,7 +398,7 @@ export const mergeCollinearBeams = (
 
                 if (isGapBlockedByObstacle(pEndCurrent, pStartNext, current.halfWidth * 2)) continue;
 
-                if (strictCrossOnly && gap > 5) {
+                if (strictCrossOnly && gap > 5 * unitScale) {
                     if (!isGapCrossed(pEndCurrent, pStartNext, current.halfWidth * 2, current.u)) {
                         continue;
                     }
@@ -409,7 +433,8 @@ export const extendBeamsToPerpendicular = (
     targets: DxfEntity[],
     blockers: DxfEntity[],
     maxSearchDist: number,
-    viewports: Bounds[]
+    viewports: Bounds[],
+    unitScale = 1
 ): DxfEntity[] => {
     const blockerBounds = blockers.map(b => getEntityBounds(b)).filter(b => b !== null) as Bounds[];
     const targetOBBs = targets.map(p => computeOBB(p)).filter(o => o !== null) as OBB[];
@@ -453,7 +478,7 @@ export const extendBeamsToPerpendicular = (
                 }
             }
 
-            if (barrierDist < 10) return 0;
+            if (barrierDist < 10 * unitScale) return 0;
 
             const searchLimit = Math.min(maxSearchDist, barrierDist);
             let bestExtension = 0;
@@ -480,7 +505,7 @@ export const extendBeamsToPerpendicular = (
 
                 if (hitCount > 0) {
                     const desired = targetHitMax;
-                    if (desired <= barrierDist + 10) {
+                    if (desired <= barrierDist + 10 * unitScale) {
                         if (desired > bestExtension) bestExtension = Math.min(desired, barrierDist);
                     } else {
                         if (barrierDist > bestExtension) bestExtension = barrierDist;
@@ -512,7 +537,7 @@ export const extendBeamsToPerpendicular = (
     });
 };
 
-export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEntity[], labels: DxfEntity[], info: BeamIntersectionInfo[] } => {
+export const detectIntersections = (beams: DxfEntity[], unitScale = 1): { intersections: DxfEntity[], labels: DxfEntity[], info: BeamIntersectionInfo[] } => {
     const obbs = beams.map(b => ({ obb: computeOBB(b), beam: b }));
     const boundsList = beams.map(b => getEntityBounds(b));
 
@@ -530,7 +555,7 @@ export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEnt
         const maxX = Math.min(a.maxX, b.maxX);
         const minY = Math.max(a.minY, b.minY);
         const maxY = Math.min(a.maxY, b.maxY);
-        if (minX < maxX - 10 && minY < maxY - 10) {
+        if (minX < maxX - 10 * unitScale && minY < maxY - 10 * unitScale) {
             return { minX, minY, maxX, maxY };
         }
         return null;
@@ -555,7 +580,7 @@ export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEnt
 
             const cx = (overlap.minX + overlap.maxX) / 2;
             const cy = (overlap.minY + overlap.maxY) / 2;
-            const key = `${Math.round(cx / 200)}_${Math.round(cy / 200)}`;
+            const key = `${Math.round(cx / (200 * unitScale))}_${Math.round(cy / (200 * unitScale))}`;
 
             if (!clusters.has(key)) {
                 clusters.set(key, { bounds: overlap, beams: new Set([i, j]) });
@@ -576,7 +601,7 @@ export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEnt
     clusters.forEach((val) => {
         const dirs = { right: false, up: false, left: false, down: false };
         const center = { x: (val.bounds.minX + val.bounds.maxX) / 2, y: (val.bounds.minY + val.bounds.maxY) / 2 };
-        const tol = 150;
+        const tol = 150 * unitScale;
 
         val.beams.forEach(idx => {
             const { obb } = obbs[idx];
@@ -637,7 +662,7 @@ export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEnt
             layer: 'BEAM_STEP2_INTER_SECTION',
             start: center,
             text: labelText,
-            radius: 250,
+            radius: 250 * unitScale,
             startAngle: 0
         });
         counter++;
@@ -665,7 +690,7 @@ export const detectIntersections = (beams: DxfEntity[]): { intersections: DxfEnt
     return { intersections, labels, info: infos };
 };
 
-export const mergeOverlappingBeams = (beams: DxfEntity[]): DxfEntity[] => {
+export const mergeOverlappingBeams = (beams: DxfEntity[], unitScale = 1): DxfEntity[] => {
     const items = beams.map(b => ({ obb: computeOBB(b), beam: b })).filter(i => i.obb !== null) as { obb: OBB, beam: DxfEntity }[];
     const merged: { obb: OBB, beam: DxfEntity }[] = [];
     const used = new Set<number>();
@@ -712,7 +737,7 @@ export const mergeOverlappingBeams = (beams: DxfEntity[]): DxfEntity[] => {
                 const dot = Math.abs(current.u.x * other.u.x + current.u.y * other.u.y);
                 if (dot < 0.98) continue;
                 const perpDist = Math.abs((other.center.x - current.center.x) * current.v.x + (other.center.y - current.center.y) * current.v.y);
-                if (perpDist > Math.max(current.halfWidth, other.halfWidth) + 50) continue;
+                if (perpDist > Math.max(current.halfWidth, other.halfWidth) + 50 * unitScale) continue;
 
                 const bA = getEntityBounds(current.entity);
                 const bB = getEntityBounds(other.entity);
@@ -5,3 +5,5 @@ export * from './beamIntersectionService';
 export * from './beamAttributeService';
 export * from './beamTopologyService';
 export * from './beamCalculationService';
+export * from './beamScheduleService';
+export * from './beamReportService';
@@ -1,7 +1,9 @@
 import { ProjectFile, SemanticLayer, DxfEntity, EntityType, ColumnInfo, Bounds } from '../../types';
 import { extractEntities } from '../../utils/dxfHelpers';
 import { getEntityBounds } from '../../utils/geometryUtils';
-import { getMergeBaseBounds, filterEntitiesInBounds } from './common';
+import { getMergeBaseBounds, filterEntitiesInBounds, isPointInBounds } from './common';
+import { collectAttributedInserts } from '../../utils/attributeUtils';
+import { getProjectUnits } from '../../utils/units';
 
 export interface ColumnCalculationResult {
   resultLayer: string;
@@ -16,7 +18,8 @@ export interface ColumnCalculationResult {
  * Pure column calculation. Does not mutate React state.
  */
 export const calculateColumns = (project: ProjectFile): ColumnCalculationResult | null => {
-  const baseBounds = getMergeBaseBounds(project, 2500);
+  const units = getProjectUnits(project);
+  const baseBounds = getMergeBaseBounds(project, units.fromMm(2500));
   const targetLayers = project.layerConfig[SemanticLayer.COLUMN];
   const resultLayer = 'COLU_CALC';
   const contextLayers = ['AXIS', 'WALL_CALC', 'BEAM_CALC'];
@@ -28,10 +31,24 @@ export const calculateColumns = (project: ProjectFile): ColumnCalculationResult
   let rawEntities = extractEntities(targetLayers, project.data.entities, project.data.blocks, project.data.blockBasePoints);
   rawEntities = filterEntitiesInBounds(rawEntities, baseBounds);
 
-  const entities = rawEntities
-    .filter(e => (e.type === EntityType.LWPOLYLINE && e.closed) || e.type === EntityType.CIRCLE || e.type === EntityType.INSERT)
+  const outlines = rawEntities
+    .filter(e => (e.type === EntityType.LWPOLYLINE && e.closed) || e.type === EntityType.CIRCLE || e.type === EntityType.INSERT);
+
+  // Hatched columns: take the fill region unless it just duplicates an outline already drawn
+  const outlineBounds = outlines.map(e => getEntityBounds(e)).filter((b): b is Bounds => Boolean(b));
+  const hatches = rawEntities.filter(e => {
+    if (e.type !== EntityType.HATCH) return false;
+    const b = getEntityBounds(e);
+    if (!b) return false;
+    return !outlineBounds.some(o => isSameBounds(o, b, units.fromMm(5)));
+  });
+
+  const entities = [...outlines, ...hatches]
     .map(e => ({ ...e, layer: resultLayer }));
 
+  // Column marks are block attributes; a column takes those of the attributed insert placed inside it
+  const attributed = collectAttributedInserts(project.data).filter(a => targetLayers.includes(a.insert.layer));
+
   const infos: ColumnInfo[] = entities
     .map((e, idx) => {
       const b = getEntityBounds(e);
@@ -39,13 +56,15 @@ export const calculateColumns = (project: ProjectFile): ColumnCalculationResult
       const width = b.maxX - b.minX;
       const height = b.maxY - b.minY;
       const center = { x: (b.minX + b.maxX) / 2, y: (b.minY + b.maxY) / 2 };
+      const marked = attributed.find(a => isPointInBounds(a.position, b));
       return {
         id: `COL-${idx + 1}`,
         layer: e.layer,
         bounds: b,
         width,
         height,
-        center
+        center,
+        ...(marked ? { attributes: marked.attributes } : {})
       };
     })
     .filter((c): c is ColumnInfo => Boolean(c));
@@ -59,3 +78,9 @@ export const calculateColumns = (project: ProjectFile): ColumnCalculationResult
 
   return { resultLayer, contextLayers, entities, infos, baseBounds, message };
 };
+
+const isSameBounds = (a: Bounds, b: Bounds, tol: number): boolean =>
+  Math.abs(a.minX - b.minX) <= tol &&
+  Math.abs(a.minY - b.minY) <= tol &&
+  Math.abs(a.maxX - b.maxX) <= tol &&
+  Math.abs(a.maxY - b.maxY) <= tol;
@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { DxfEntity, ProjectFile, ViewportRegion, Bounds, Point, EntityType } from '../../types';
+import { DxfEntity, ProjectFile, ViewportRegion, Bounds, Point, EntityType, WallInfo } from '../../types';
 import { extractEntities } from '../../utils/dxfHelpers';
 import { getEntityBounds, boundsOverlap } from '../../utils/geometryUtils';
+import { getProjectUnits } from '../../utils/units';
 
 export const findEntitiesInAllProjects = (
     projects: ProjectFile[], 
@@ -139,6 +140,53 @@ export const filterEntitiesInBounds = (entities: DxfEntity[], boundsList: Bounds
     return entities.filter(e => isEntityInBounds(e, boundsList));
 };
 
+// Plan outline of a wall; walls saved without one fall back to their bounds rectangle
+export const getWallOutline = (wall: WallInfo): Point[] => wall.vertices || [
+    { x: wall.bounds.minX, y: wall.bounds.minY },
+    { x: wall.bounds.maxX, y: wall.bounds.minY },
+    { x: wall.bounds.maxX, y: wall.bounds.maxY },
+    { x: wall.bounds.minX, y: wall.bounds.maxY }
+];
+
+export const DEFAULT_STOREY_HEIGHT = 3000; // mm
+export const NOMINAL_BEAM_DEPTH = 300; // mm, for beams the label step could not size
+
+export interface StoreyPlacement {
+    titles: string[];                             // Storey names in stacking order
+    findStorey: (center: Point) => number;        // Index of the storey holding a point
+    toLocal: (storey: number, p: Point) => Point; // Storey-local position in mm
+}
+
+/**
+ * Places the structure exports' elements on storeys: one per split region in region order, with the
+ * region's lower-left corner as origin so floors drawn side by side on one sheet line up. Elements
+ * outside every region (or in drawings without regions) share one extra storey, added on first use,
+ * in drawing coordinates.
+ */
+export const createStoreyPlacement = (project: ProjectFile): StoreyPlacement => {
+    const units = getProjectUnits(project);
+    const regions: ViewportRegion[] = project.splitRegions || [];
+    const titles = regions.map(r => r.title);
+    let unassigned = -1;
+
+    const findStorey = (center: Point) => {
+        const index = regions.findIndex(r => isPointInBounds(center, r.bounds));
+        if (index >= 0) return index;
+        if (unassigned < 0) {
+            unassigned = titles.length;
+            titles.push(regions.length > 0 ? 'Unassigned' : 'Level 1');
+        }
+        return unassigned;
+    };
+
+    const toLocal = (storey: number, p: Point): Point => {
+        const bounds = regions[storey]?.bounds;
+        return { x: units.toMm(p.x - (bounds?.minX ?? 0)), y: units.toMm(p.y - (bounds?.minY ?? 0)) };
+    };
+
+    return { titles, findStorey, toLocal };
+};
+
 export const getMergeBaseBounds = (project: ProjectFile, margin: number = 0): Bounds[] | null => {
     if (!project.splitRegions || project.splitRegions.length === 0) return null;
 
@@ -0,0 +1,257 @@
+import { ColumnInfo, Point, ProjectFile, WallInfo, BeamStep4TopologyInfo } from '../../types';
+import { getProjectUnits } from '../../utils/units';
+import { createStoreyPlacement, DEFAULT_STOREY_HEIGHT, getWallOutline, NOMINAL_BEAM_DEPTH } from './common';
+
+export interface IfcExportOptions {
+  storeyHeight?: number; // mm; columns and walls span one storey, beams hang from its top
+}
+
+export interface IfcExportResult {
+  text: string;
+  storeys: number;
+  beams: number;
+  columns: number;
+  walls: number;
+}
+
+// --- STEP (ISO 10303-21) encoding ---
+
+const GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+// 128 random bits in the 22 character IFC GlobalId encoding (2 bits, then 21 x 6 bits)
+const createGlobalId = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  let bits = '';
+  bytes.forEach(b => { bits += b.toString(2).padStart(8, '0'); });
+  let id = GUID_CHARS[parseInt(bits.slice(0, 2), 2)];
+  for (let i = 2; i < 128; i += 6) id += GUID_CHARS[parseInt(bits.slice(i, i + 6), 2)];
+  return id;
+};
+
+// Strings are ISO 8859-1 with quotes doubled; anything else goes in \X2\ UTF-16 hex runs
+const str = (text: string): string => {
+  let out = '';
+  let wide = '';
+  const flush = () => {
+    if (wide) out += `\\X2\\${wide}\\X0\\`;
+    wide = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const code = text.charCodeAt(i);
+    if (code >= 0x20 && code < 0x7F) {
+      flush();
+      out += ch === "'" ? "''" : ch === '\\' ? '\\\\' : ch;
+    } else {
+      wide += code.toString(16).toUpperCase().padStart(4, '0');
+    }
+  }
+  flush();
+  return `'${out}'`;
+};
+
+// Reals always carry a decimal point
+const real = (v: number): string => {
+  const r = Math.round(v * 1e6) / 1e6;
+  return Number.isInteger(r) ? `${r}.` : String(r);
+};
+
+const list = (items: string[]) => `(${items.join(',')})`;
+
+/**
+ * Writes the structure pipeline's results as an IFC4 model: IfcColumn and IfcWall extrusions of
+ * their plan rectangles and outlines over one storey, and IfcBeam extrusions of the beam footprints
+ * down from the storey top by the section depth (a nominal depth flagged Unsized when the labels gave
+ * none). Each storey of createStoreyPlacement becomes an IfcBuildingStorey. Beam code, section and
+ * span go into property sets.
+ */
+export const buildStructureIfc = (project: ProjectFile, options: IfcExportOptions = {}): IfcExportResult | null => {
+  const beams = project.beamStep4TopologyInfos || [];
+  const columns = project.columns || [];
+  const walls = project.walls || [];
+  if (beams.length === 0 && columns.length === 0 && walls.length === 0) return null;
+
+  const units = getProjectUnits(project);
+  const storeyHeight = options.storeyHeight || DEFAULT_STOREY_HEIGHT;
+  const name = project.name.replace(/\.dxf$/i, '');
+
+  const lines: string[] = [];
+  const add = (entity: string): string => {
+    lines.push(`#${lines.length + 1}=${entity};`);
+    return `#${lines.length}`;
+  };
+
+  // Shared geometry
+  const point3 = (x: number, y: number, z: number) => add(`IFCCARTESIANPOINT(${list([real(x), real(y), real(z)])})`);
+  const point2 = (x: number, y: number) => add(`IFCCARTESIANPOINT(${list([real(x), real(y)])})`);
+  const origin = point3(0, 0, 0);
+  const zAxis = add(`IFCDIRECTION(${list(['0.', '0.', '1.'])})`);
+  const xAxis = add(`IFCDIRECTION(${list(['1.', '0.', '0.'])})`);
+  const worldPlacement = add(`IFCAXIS2PLACEMENT3D(${origin},${zAxis},${xAxis})`);
+  const context = add(`IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,${worldPlacement},$)`);
+  const bodyContext = add(`IFCGEOMETRICREPRESENTATIONSUBCONTEXT('Body','Model',*,*,*,*,${context},$,.MODEL_VIEW.,$)`);
+
+  const unitAssignment = add(`IFCUNITASSIGNMENT(${list([
+    add(`IFCSIUNIT(*,.LENGTHUNIT.,.MILLI.,.METRE.)`),
+    add(`IFCSIUNIT(*,.AREAUNIT.,$,.SQUARE_METRE.)`),
+    add(`IFCSIUNIT(*,.VOLUMEUNIT.,$,.CUBIC_METRE.)`),
+    add(`IFCSIUNIT(*,.PLANEANGLEUNIT.,$,.RADIAN.)`)
+  ])})`);
+
+  const placement = (relativeTo: string | null, x: number, y: number, z: number) => {
+    const axis = x === 0 && y === 0 && z === 0 ? worldPlacement : add(`IFCAXIS2PLACEMENT3D(${point3(x, y, z)},$,$)`);
+    return add(`IFCLOCALPLACEMENT(${relativeTo || '$'},${axis})`);
+  };
+
+  // Body of an element: a profile extruded straight up from its placement
+  const extrusion = (profile: string, depth: number) => {
+    const solid = add(`IFCEXTRUDEDAREASOLID(${profile},${worldPlacement},${zAxis},${real(depth)})`);
+    const shape = add(`IFCSHAPEREPRESENTATION(${bodyContext},'Body','SweptSolid',${list([solid])})`);
+    return add(`IFCPRODUCTDEFINITIONSHAPE($,$,${list([shape])})`);
+  };
+  const rectangleProfile = (width: number, depth: number) =>
+    add(`IFCRECTANGLEPROFILEDEF(.AREA.,$,${add(`IFCAXIS2PLACEMENT2D(${point2(0, 0)},$)`)},${real(width)},${real(depth)})`);
+  const polygonProfile = (pts: Point[]) => {
+    const refs = pts.map(p => point2(p.x, p.y));
+    return add(`IFCARBITRARYCLOSEDPROFILEDEF(.AREA.,$,${add(`IFCPOLYLINE(${list([...refs, refs[0]])})`)})`);
+  };
+
+  const propertySet = (element: string, psetName: string, props: [string, string][]) => {
+    const values = props.map(([key, value]) => add(`IFCPROPERTYSINGLEVALUE(${str(key)},$,${value},$)`));
+    const pset = add(`IFCPROPERTYSET(${str(createGlobalId())},$,${str(psetName)},$,${list(values)})`);
+    add(`IFCRELDEFINESBYPROPERTIES(${str(createGlobalId())},$,$,$,${list([element])},${pset})`);
+  };
+  const label = (v: string) => `IFCLABEL(${str(v)})`;
+  const identifier = (v: string) => `IFCIDENTIFIER(${str(v)})`;
+  const length = (mm: number) => `IFCPOSITIVELENGTHMEASURE(${real(mm)})`;
+
+  // --- Spatial structure ---
+
+  const projectRef = add(`IFCPROJECT(${str(createGlobalId())},$,${str(name)},$,$,$,$,${list([context])},${unitAssignment})`);
+  const sitePlacement = placement(null, 0, 0, 0);
+  const site = add(`IFCSITE(${str(createGlobalId())},$,'Site',$,$,${sitePlacement},$,$,.ELEMENT.,$,$,$,$,$)`);
+  const buildingPlacement = placement(sitePlacement, 0, 0, 0);
+  const building = add(`IFCBUILDING(${str(createGlobalId())},$,${str(name)},$,$,${buildingPlacement},$,$,.ELEMENT.,$,$,$)`);
+  add(`IFCRELAGGREGATES(${str(createGlobalId())},$,$,$,${projectRef},${list([site])})`);
+  add(`IFCRELAGGREGATES(${str(createGlobalId())},$,$,$,${site},${list([building])})`);
+
+  // Storeys follow the shared placement, whose list grows by the fallback storey on first use
+  interface Storey { ref: string, placement: string, elements: string[] }
+  const layout = createStoreyPlacement(project);
+  const storeys: Storey[] = [];
+  const storeyAt = (index: number): Storey => {
+    while (storeys.length <= index) {
+      const elevation = storeys.length * storeyHeight;
+      const storeyPlacement = placement(buildingPlacement, 0, 0, elevation);
+      const ref = add(`IFCBUILDINGSTOREY(${str(createGlobalId())},$,${str(layout.titles[storeys.length])},$,$,${storeyPlacement},$,$,.ELEMENT.,${real(elevation)})`);
+      storeys.push({ ref, placement: storeyPlacement, elements: [] });
+    }
+    return storeys[index];
+  };
+  layout.titles.forEach((_, i) => storeyAt(i));
+
+  // --- Elements ---
+
+  columns.forEach((col: ColumnInfo) => {
+    const index = layout.findStorey(col.center);
+    const storey = storeyAt(index);
+    const at = layout.toLocal(index, col.center);
+    const width = units.toMm(col.width);
+    const depth = units.toMm(col.height);
+    const shape = extrusion(rectangleProfile(width, depth), storeyHeight);
+    const element = add(`IFCCOLUMN(${str(createGlobalId())},$,${str(col.id)},$,$,${placement(storey.placement, at.x, at.y, 0)},${shape},${str(col.id)},.COLUMN.)`);
+    storey.elements.push(element);
+    propertySet(element, 'Pset_ColumnCommon', [['Reference', identifier(col.id)], ['LoadBearing', 'IFCBOOLEAN(.T.)']]);
+    propertySet(element, 'DxfVista_Column', [
+      ['Section', label(`${Math.round(width)}x${Math.round(depth)}`)],
+      ['Width', length(width)],
+      ['Depth', length(depth)],
+      ['SourceLayer', label(col.layer)]
+    ]);
+  });
+
+  walls.forEach((wall: WallInfo) => {
+    const index = layout.findStorey(wall.center);
+    const storey = storeyAt(index);
+    const at = layout.toLocal(index, wall.center);
+    // The plan outline keeps walls at an angle to the axes their own size
+    const footprint = getWallOutline(wall).map(p => {
+      const local = layout.toLocal(index, p);
+      return { x: local.x - at.x, y: local.y - at.y };
+    });
+    const shape = extrusion(polygonProfile(footprint), storeyHeight);
+    const element = add(`IFCWALL(${str(createGlobalId())},$,${str(wall.id)},$,$,${placement(storey.placement, at.x, at.y, 0)},${shape},${str(wall.id)},.SOLIDWALL.)`);
+    storey.elements.push(element);
+    propertySet(element, 'Pset_WallCommon', [['Reference', identifier(wall.id)], ['LoadBearing', 'IFCBOOLEAN(.T.)']]);
+    propertySet(element, 'DxfVista_Wall', [
+      ['Thickness', length(units.toMm(wall.thickness))],
+      ['SourceLayer', label(wall.layer)]
+    ]);
+  });
+
+  let beamCount = 0;
+  beams.forEach((beam: BeamStep4TopologyInfo) => {
+    if (!beam.vertices || beam.vertices.length < 3) return;
+    const center = beam.center || {
+      x: beam.vertices.reduce((sum, p) => sum + p.x, 0) / beam.vertices.length,
+      y: beam.vertices.reduce((sum, p) => sum + p.y, 0) / beam.vertices.length
+    };
+    const index = layout.findStorey(center);
+    const storey = storeyAt(index);
+    // Footprint relative to the beam's placement at its center, top flush with the storey top
+    const at = layout.toLocal(index, center);
+    const footprint = beam.vertices.map(p => {
+      const local = layout.toLocal(index, p);
+      return { x: local.x - at.x, y: local.y - at.y };
+    });
+    // Beams without a section depth are still placed, as in the 3D model, so they can be checked
+    const unsized = !(beam.height > 0);
+    const depth = unsized ? NOMINAL_BEAM_DEPTH : beam.height;
+    const shape = extrusion(polygonProfile(footprint), depth);
+    const beamName = beam.code || `Beam ${beam.beamIndex}`;
+    const element = add(`IFCBEAM(${str(createGlobalId())},$,${str(beamName)},$,$,${placement(storey.placement, at.x, at.y, storeyHeight - depth)},${shape},${str(beam.id)},.BEAM.)`);
+    storey.elements.push(element);
+    beamCount++;
+
+    const spanLength = units.toMm(beam.length);
+    propertySet(element, 'Pset_BeamCommon', [
+      ['Reference', identifier(beamName)],
+      ['Span', length(spanLength)],
+      ['LoadBearing', 'IFCBOOLEAN(.T.)']
+    ]);
+    propertySet(element, 'DxfVista_Beam', [
+      ['Code', label(beam.code || '')],
+      ['Section', label(unsized ? '' : `${Math.round(beam.width)}x${Math.round(beam.height)}`)],
+      ['Width', length(beam.width || 1)],
+      ['Height', length(depth)],
+      ['Unsized', `IFCBOOLEAN(${unsized ? '.T.' : '.F.'})`],
+      ['Span', label(beam.span || '')],
+      ['Length', length(spanLength)],
+      ['Volume', `IFCVOLUMEMEASURE(${real(unsized ? 0 : spanLength * beam.width * beam.height / 1e9)})`],
+      ['Label', label(beam.rawLabel || '')]
+    ]);
+  });
+
+  add(`IFCRELAGGREGATES(${str(createGlobalId())},$,$,$,${building},${list(storeys.map(s => s.ref))})`);
+  storeys.forEach(s => {
+    if (s.elements.length > 0) add(`IFCRELCONTAINEDINSPATIALSTRUCTURE(${str(createGlobalId())},$,$,$,${list(s.elements)},${s.ref})`);
+  });
+
+  const timestamp = new Date().toISOString().slice(0, 19);
+  const text = [
+    'ISO-10303-21;',
+    'HEADER;',
+    `FILE_DESCRIPTION(('ViewDefinition [ReferenceView_V1.2]'),'2;1');`,
+    `FILE_NAME(${str(`${name}.ifc`)},'${timestamp}',(''),(''),'DXF Vista','DXF Vista','');`,
+    `FILE_SCHEMA(('IFC4'));`,
+    'ENDSEC;',
+    'DATA;',
+    ...lines,
+    'ENDSEC;',
+    'END-ISO-10303-21;',
+    ''
+  ].join('\n');
+
+  return { text, storeys: storeys.length, beams: beamCount, columns: columns.length, walls: walls.length };
+};
@@ -9,3 +9,5 @@ export * from './beams/beamTopologyService';
 export * from './beams/beamCalculationService';
 export * from './beams/beamRawService';
 export * from './analysisPersistence';
+export * from './ifcExportService';
+export * from './modelExportService';
@@ -2,6 +2,8 @@ import { Bounds, BeamLabelInfo, DxfData, DxfEntity, EntityType, Point, ProjectFi
 import { extractEntities } from '../../utils/dxfHelpers';
 import { calculateMergeVector, getEntityBounds, getGridIntersections } from '../../utils/geometryUtils';
 import { boundsOverlap, expandBounds, isPointInBounds } from './common';
+import { getProjectUnits } from '../../utils/units';
+import { getTextHeight } from '../../utils/textUtils';
 
 export const MERGE_RESULT_LAYER_H = 'MERGE_LABEL_H';
 export const MERGE_RESULT_LAYER_V = 'MERGE_LABEL_V';
@@ -54,9 +56,11 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
   const allEntities = extractEntities(project.data.layers, project.data.entities, project.data.blocks, project.data.blockBasePoints);
 
   let mergedCount = 0;
-  const LABEL_MARGIN = 2000;
+  const units = getProjectUnits(project);
+  const textStyles = project.data.textStyles;
+  const LABEL_MARGIN = units.fromMm(2000);
   const ANGLE_TOLERANCE = 15;
-  const LEADER_PROXIMITY = 1200;
+  const LEADER_PROXIMITY = units.fromMm(1200);
 
   const normalizeAngle = (deg: number) => {
     let a = deg % 360;
@@ -117,6 +121,10 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
           const b = ent.vertices[i + 1];
           if (a && b) segments.push({ start: a, end: b });
         }
+      } else if ((ent.type === EntityType.LEADER || ent.type === EntityType.MULTILEADER) && ent.leaderLines) {
+        ent.leaderLines.forEach(line => {
+          for (let i = 0; i < line.length - 1; i++) segments.push({ start: line[i], end: line[i + 1] });
+        });
       }
     });
 
@@ -125,7 +133,8 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
     const nearSegments: { start: Point; end: Point }[] = [];
     texts.forEach(t => {
       if (!t.start) return;
-      const threshold = (t.radius || 300) * 2 + LEADER_PROXIMITY;
+      const height = (t.textHeight || t.radius) ? getTextHeight(t, textStyles) : units.fromMm(300);
+      const threshold = height * 2 + LEADER_PROXIMITY;
       segments.forEach(seg => {
         if (distancePointToSegment(t.start!, seg.start, seg.end) <= threshold) {
           nearSegments.push(seg);
@@ -170,7 +179,7 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
 
   Object.entries(entitiesByLayer).forEach(([layer, ents]) => {
     if (!layerLooksLabel(layer)) return;
-    const texts = ents.filter(e => (e.type === EntityType.TEXT || e.type === EntityType.MTEXT || e.type === EntityType.ATTRIB) && e.start);
+    const texts = ents.filter(e => (e.type === EntityType.TEXT || e.type === EntityType.MTEXT || e.type === EntityType.ATTRIB || e.type === EntityType.MULTILEADER) && e.start && e.text);
     const nameHint = detectNameOrientation(layer);
     const leaderSegments = collectLeaderSegments(ents, texts);
     if (leaderSegments.length === 0) return;
@@ -236,13 +245,13 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
     });
 
     if (views.length > 1) {
-      const baseIntersections = getGridIntersections(baseView.bounds, axisLines);
+      const baseIntersections = getGridIntersections(baseView.bounds, axisLines, units.fromMm(1));
 
       for (let i = 1; i < views.length; i++) {
         const targetView = views[i];
-        const targetIntersections = getGridIntersections(targetView.bounds, axisLines);
+        const targetIntersections = getGridIntersections(targetView.bounds, axisLines, units.fromMm(1));
 
-        const vec = calculateMergeVector(baseIntersections, targetIntersections);
+        const vec = calculateMergeVector(baseIntersections, targetIntersections, units.fromMm(1));
 
         if (vec) {
           allEntities.forEach(ent => {
@@ -257,6 +266,10 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
               if (clone.vertices) clone.vertices = clone.vertices.map(v => ({ x: v.x + vec.x, y: v.y + vec.y }));
               if (clone.measureStart) clone.measureStart = { x: clone.measureStart.x + vec.x, y: clone.measureStart.y + vec.y };
               if (clone.measureEnd) clone.measureEnd = { x: clone.measureEnd.x + vec.x, y: clone.measureEnd.y + vec.y };
+              if (clone.definitionPoint) clone.definitionPoint = { x: clone.definitionPoint.x + vec.x, y: clone.definitionPoint.y + vec.y };
+              if (clone.textMidpoint) clone.textMidpoint = { x: clone.textMidpoint.x + vec.x, y: clone.textMidpoint.y + vec.y };
+              if (clone.alignPoint) clone.alignPoint = { x: clone.alignPoint.x + vec.x, y: clone.alignPoint.y + vec.y };
+              if (clone.leaderLines) clone.leaderLines = clone.leaderLines.map(line => line.map(v => ({ x: v.x + vec.x, y: v.y + vec.y })));
 
               pushMerged(targetLayer, clone);
             }
@@ -272,6 +285,35 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
     return null;
   }
 
+  const parseLabelText = (text: string): BeamLabelInfo['parsed'] => {
+    const firstLine = text.split(/\r?\n/)[0]?.trim() || '';
+    const richMatch = firstLine.match(/^([A-Z0-9\-]+)\(([^)]+)\)\s+(\d+)[xX*](\d+)/i);
+    const simpleDimMatch = firstLine.match(/^([A-Z0-9\-]+)\s+(\d+)[xX*](\d+)/i);
+    const codeSpanMatch = firstLine.match(/^([A-Z0-9\-]+)\(([^)]+)\)/i);
+    const codeOnlyMatch = firstLine.match(/^([A-Z0-9\-]+)$/i);
+
+    if (richMatch) {
+      return {
+        code: richMatch[1],
+        span: richMatch[2],
+        width: parseInt(richMatch[3]),
+        height: parseInt(richMatch[4])
+      };
+    } else if (simpleDimMatch) {
+      return {
+        code: simpleDimMatch[1],
+        span: null,
+        width: parseInt(simpleDimMatch[2]),
+        height: parseInt(simpleDimMatch[3])
+      };
+    } else if (codeSpanMatch) {
+      return { code: codeSpanMatch[1], span: codeSpanMatch[2] };
+    } else if (codeOnlyMatch) {
+      return { code: codeOnlyMatch[1], span: null };
+    }
+    return undefined;
+  };
+
   const buildBeamLabelInfos = (): BeamLabelInfo[] => {
     const infos: BeamLabelInfo[] = [];
     const targetLayers = [MERGE_RESULT_LAYER_H, MERGE_RESULT_LAYER_V];
@@ -281,12 +323,51 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
       const texts = ents.filter(e => (e.type === EntityType.TEXT || e.type === EntityType.MTEXT || e.type === EntityType.ATTRIB) && e.start);
       const leaders = ents.filter(e => e.type === EntityType.LINE || e.type === EntityType.LWPOLYLINE);
 
+      // Explicit associations first: MULTILEADER carries its own text, LEADER points at its MTEXT by handle.
+      // The leader segment next to the arrowhead plays the role of the heuristic's nearest segment.
+      const associatedTexts = new Set<DxfEntity>();
+      const pushExplicit = (id: string, text: string, insert: Point | null, line: Point[]) => {
+        const leaderEnd = line[0];
+        const leaderStart = line[1];
+        infos.push({
+          id,
+          sourceLayer: layer,
+          orientation: (Math.atan2(leaderEnd.y - leaderStart.y, leaderEnd.x - leaderStart.x) * 180) / Math.PI,
+          textRaw: text,
+          textInsert: insert,
+          leaderStart,
+          leaderEnd,
+          parsed: parseLabelText(text)
+        });
+      };
+
+      ents.forEach((ent, idx) => {
+        const line = ent.leaderLines?.find(l => l.length > 1);
+        if (!line) return;
+        if (ent.type === EntityType.MULTILEADER && ent.text) {
+          pushExplicit(`${layer}-ML${idx}`, ent.text, ent.start || null, line);
+        } else if (ent.type === EntityType.LEADER && ent.annotationHandle) {
+          // Block references and view copies can repeat a handle; take the copy at the landing
+          const landing = line[line.length - 1];
+          let txt: DxfEntity | null = null;
+          for (const t of texts) {
+            if (t.handle !== ent.annotationHandle || associatedTexts.has(t)) continue;
+            if (!txt || dist(t.start!, landing) < dist(txt.start!, landing)) txt = t;
+          }
+          if (!txt) return;
+          associatedTexts.add(txt);
+          pushExplicit(`${layer}-LD${idx}`, txt.text || '', txt.start || null, line);
+        }
+      });
+
       texts.forEach((txt, idx) => {
-        if (!txt.start) return;
+        if (!txt.start || associatedTexts.has(txt)) return;
         const rot = txt.rotation !== undefined ? txt.rotation : (txt.startAngle || 0);
         const angNorm = normalizeAngle(rot) % 180;
         const vert = isVerticalAngle(angNorm);
-        const basePoint: Point = (vert && txt.end) ? txt.end : (txt.start as Point);
+        // TEXT keeps its computed left-baseline point in 10/20 even when aligned;
+        // vertical labels are measured from the alignment point (11/21)
+        const basePoint: Point = (vert && txt.alignPoint) ? txt.alignPoint : (txt.start as Point);
 
         let bestSeg: { start: Point; end: Point } | null = null;
         let bestDist = Infinity;
@@ -322,33 +403,6 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
         }
         const bestAngle = (Math.atan2(leaderEnd.y - leaderStart.y, leaderEnd.x - leaderStart.x) * 180) / Math.PI;
 
-        const firstLine = (txt.text || '').split(/\r?\n/)[0]?.trim() || '';
-        const richMatch = firstLine.match(/^([A-Z0-9\-]+)\(([^)]+)\)\s+(\d+)[xX*](\d+)/i);
-        const simpleDimMatch = firstLine.match(/^([A-Z0-9\-]+)\s+(\d+)[xX*](\d+)/i);
-        const codeSpanMatch = firstLine.match(/^([A-Z0-9\-]+)\(([^)]+)\)/i);
-        const codeOnlyMatch = firstLine.match(/^([A-Z0-9\-]+)$/i);
-
-        let parsed: { code: string; span: string | null; width?: number; height?: number } | undefined = undefined;
-        if (richMatch) {
-          parsed = {
-            code: richMatch[1],
-            span: richMatch[2],
-            width: parseInt(richMatch[3]),
-            height: parseInt(richMatch[4])
-          };
-        } else if (simpleDimMatch) {
-          parsed = {
-            code: simpleDimMatch[1],
-            span: null,
-            width: parseInt(simpleDimMatch[2]),
-            height: parseInt(simpleDimMatch[3])
-          };
-        } else if (codeSpanMatch) {
-          parsed = { code: codeSpanMatch[1], span: codeSpanMatch[2] };
-        } else if (codeOnlyMatch) {
-          parsed = { code: codeOnlyMatch[1], span: null };
-        }
-
         infos.push({
           id: `${layer}-${idx}`,
           sourceLayer: layer,
@@ -357,7 +411,7 @@ export const calculateMergeViews = (project: ProjectFile): MergeCalculationResul
           textInsert: txt.start || null,
           leaderStart,
           leaderEnd,
-          parsed
+          parsed: parseLabelText(txt.text || '')
         });
       });
     });
@@ -0,0 +1,329 @@
+import { Point, ProjectFile } from '../../types';
+import { getProjectUnits } from '../../utils/units';
+import { createStoreyPlacement, DEFAULT_STOREY_HEIGHT, getWallOutline, NOMINAL_BEAM_DEPTH } from './common';
+
+export type StructureMemberKind = 'beam' | 'column' | 'wall';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface StructureMesh {
+  id: string;
+  name: string;
+  kind: StructureMemberKind;
+  storey: number;       // Index into StructureModel.storeys
+  unsized?: boolean;    // Beam without a section depth, extruded at a nominal depth
+  vertices: Vec3[];     // mm, Z up
+  faces: number[][];    // Planar vertex loops, counter-clockwise seen from outside
+}
+
+export interface StructureModel {
+  meshes: StructureMesh[];
+  storeys: string[];
+  storeyHeight: number;
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface StructureModelOptions {
+  storeyHeight?: number; // mm; columns and walls span one storey, beams hang from its top
+}
+
+// Same hues as the COLU_CALC, WALL_CALC and BEAM_STEP4_LOGIC result layers
+export const STRUCTURE_MEMBER_COLORS: Record<StructureMemberKind | 'unsized', string> = {
+  beam: '#8b5cf6',
+  column: '#f59e0b',
+  wall: '#94a3b8',
+  unsized: '#ef4444'
+};
+
+const signedArea = (pts: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i];
+    const b = pts[(i + 1) % pts.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+// Prism over a plan polygon: bottom, top, then one quad per edge
+const extrude = (footprint: Point[], z0: number, z1: number): Pick<StructureMesh, 'vertices' | 'faces'> => {
+  const pts = signedArea(footprint) < 0 ? [...footprint].reverse() : footprint;
+  const n = pts.length;
+  const vertices = [...pts.map(p => ({ x: p.x, y: p.y, z: z0 })), ...pts.map(p => ({ x: p.x, y: p.y, z: z1 }))];
+  const faces: number[][] = [
+    pts.map((_, i) => n - 1 - i),
+    pts.map((_, i) => n + i)
+  ];
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    faces.push([i, j, n + j, n + i]);
+  }
+  return { vertices, faces };
+};
+
+const rectangle = (center: Point, width: number, depth: number): Point[] => [
+  { x: center.x - width / 2, y: center.y - depth / 2 },
+  { x: center.x + width / 2, y: center.y - depth / 2 },
+  { x: center.x + width / 2, y: center.y + depth / 2 },
+  { x: center.x - width / 2, y: center.y + depth / 2 }
+];
+
+/**
+ * Extrudes the structure pipeline's results into a 3D frame: columns and walls rise over one storey,
+ * beam footprints hang from the storey top by their section depth. Storeys are placed as in the
+ * IFC export (see createStoreyPlacement).
+ */
+export const buildStructureModel = (project: ProjectFile, options: StructureModelOptions = {}): StructureModel | null => {
+  const beams = project.beamStep4TopologyInfos || project.beamStep3AttrInfos || [];
+  const columns = project.columns || [];
+  const walls = project.walls || [];
+  if (beams.length === 0 && columns.length === 0 && walls.length === 0) return null;
+
+  const storeyHeight = options.storeyHeight || DEFAULT_STOREY_HEIGHT;
+  const { titles: storeys, findStorey, toLocal } = createStoreyPlacement(project);
+  const units = getProjectUnits(project);
+
+  const meshes: StructureMesh[] = [];
+
+  columns.forEach(col => {
+    const storey = findStorey(col.center);
+    const base = storey * storeyHeight;
+    const footprint = rectangle(toLocal(storey, col.center), units.toMm(col.width), units.toMm(col.height));
+    meshes.push({ id: col.id, name: col.id, kind: 'column', storey, ...extrude(footprint, base, base + storeyHeight) });
+  });
+
+  walls.forEach(wall => {
+    const storey = findStorey(wall.center);
+    const base = storey * storeyHeight;
+    // The plan outline keeps walls at an angle to the axes their own size
+    const footprint = getWallOutline(wall).map(p => toLocal(storey, p));
+    meshes.push({ id: wall.id, name: wall.id, kind: 'wall', storey, ...extrude(footprint, base, base + storeyHeight) });
+  });
+
+  beams.forEach(beam => {
+    if (!beam.vertices || beam.vertices.length < 3) return;
+    const center = beam.center || {
+      x: beam.vertices.reduce((sum, p) => sum + p.x, 0) / beam.vertices.length,
+      y: beam.vertices.reduce((sum, p) => sum + p.y, 0) / beam.vertices.length
+    };
+    const storey = findStorey(center);
+    const top = (storey + 1) * storeyHeight;
+    const unsized = !(beam.height > 0);
+    const depth = unsized ? NOMINAL_BEAM_DEPTH : Math.min(beam.height, storeyHeight);
+    const footprint = beam.vertices.map(p => toLocal(storey, p));
+    meshes.push({
+      id: beam.id,
+      name: beam.code || `Beam ${beam.beamIndex}`,
+      kind: 'beam',
+      storey,
+      unsized: unsized || undefined,
+      ...extrude(footprint, top - depth, top)
+    });
+  });
+
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  meshes.forEach(m => m.vertices.forEach(v => {
+    min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+    max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+  }));
+
+  return { meshes, storeys, storeyHeight, min, max };
+};
+
+// --- Face helpers shared by the writers and the preview ---
+
+// Newell's method; unit length, zero for degenerate faces
+export const getFaceNormal = (vertices: Vec3[], face: number[]): Vec3 => {
+  const n = { x: 0, y: 0, z: 0 };
+  face.forEach((index, i) => {
+    const a = vertices[index];
+    const b = vertices[face[(i + 1) % face.length]];
+    n.x += (a.y - b.y) * (a.z + b.z);
+    n.y += (a.z - b.z) * (a.x + b.x);
+    n.z += (a.x - b.x) * (a.y + b.y);
+  });
+  const len = Math.hypot(n.x, n.y, n.z);
+  return len > 0 ? { x: n.x / len, y: n.y / len, z: n.z / len } : n;
+};
+
+/**
+ * Ear-clips a planar face into triangles of face-local indices, keeping the face's winding.
+ * The face is flattened by dropping the normal's dominant axis, so concave beam footprints work.
+ */
+export const triangulateFace = (vertices: Vec3[], face: number[]): number[][] => {
+  if (face.length === 3) return [[0, 1, 2]];
+  const normal = getFaceNormal(vertices, face);
+  const ax = Math.abs(normal.x), ay = Math.abs(normal.y), az = Math.abs(normal.z);
+  const pts: Point[] = face.map(index => {
+    const v = vertices[index];
+    if (az >= ax && az >= ay) return { x: v.x, y: v.y };
+    if (ax >= ay) return { x: v.y, y: v.z };
+    return { x: v.z, y: v.x };
+  });
+  const sign = signedArea(pts) < 0 ? -1 : 1;
+  const cross = (a: Point, b: Point, c: Point) => ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) * sign;
+
+  const remaining = face.map((_, i) => i);
+  const triangles: number[][] = [];
+  let guard = remaining.length * remaining.length;
+  let i = 0;
+  while (remaining.length > 3 && guard-- > 0) {
+    const count = remaining.length;
+    const prev = remaining[(i + count - 1) % count];
+    const cur = remaining[i % count];
+    const next = remaining[(i + 1) % count];
+    const a = pts[prev], b = pts[cur], c = pts[next];
+    const isEar = cross(a, b, c) > 0 && !remaining.some(k =>
+      k !== prev && k !== cur && k !== next &&
+      cross(a, b, pts[k]) >= 0 && cross(b, c, pts[k]) >= 0 && cross(c, a, pts[k]) >= 0
+    );
+    if (isEar) {
+      triangles.push([prev, cur, next]);
+      remaining.splice(i % count, 1);
+    } else {
+      i++;
+    }
+  }
+  // Collinear or self-touching leftovers: fan what is left
+  for (let k = 1; k < remaining.length - 1; k++) triangles.push([remaining[0], remaining[k], remaining[k + 1]]);
+  return triangles;
+};
+
+// --- Writers (metres, Y up, as glTF requires and most OBJ importers assume) ---
+
+const toYUp = (v: Vec3): [number, number, number] => [v.x / 1000, v.z / 1000, -v.y / 1000];
+
+const round = (v: number) => Math.round(v * 1e6) / 1e6;
+
+export const writeStructureObj = (model: StructureModel, name: string): string => {
+  const out: string[] = [`# ${name} - structure model exported by DXF Vista`, '# Units: metres, Y up'];
+  let vertexBase = 1;
+  let normalBase = 1;
+  model.storeys.forEach((storey, storeyIndex) => {
+    const meshes = model.meshes.filter(m => m.storey === storeyIndex);
+    if (meshes.length === 0) return;
+    out.push(`g ${storey.replace(/\s+/g, '_')}`);
+    meshes.forEach(mesh => {
+      out.push(`o ${mesh.kind}_${mesh.name.replace(/\s+/g, '_')}`);
+      mesh.vertices.forEach(v => out.push(`v ${toYUp(v).map(round).join(' ')}`));
+      mesh.faces.forEach(face => {
+        const n = getFaceNormal(mesh.vertices, face);
+        out.push(`vn ${[n.x, n.z, -n.y].map(round).join(' ')}`);
+      });
+      mesh.faces.forEach((face, f) => {
+        out.push(`f ${face.map(index => `${vertexBase + index}//${normalBase + f}`).join(' ')}`);
+      });
+      vertexBase += mesh.vertices.length;
+      normalBase += mesh.faces.length;
+    });
+  });
+  return out.join('\n') + '\n';
+};
+
+const hexToLinear = (hex: string): number[] => {
+  const channel = (i: number) => {
+    const c = parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16) / 255;
+    return round(c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  };
+  return [channel(0), channel(1), channel(2), 1];
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * glTF 2.0 with the buffer embedded as a data URI. Faces are flat shaded, so every face gets its
+ * own vertices; each storey is a node whose children are the members, named by beam code or id.
+ */
+export const writeStructureGltf = (model: StructureModel, name: string): string => {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const materialKeys: (StructureMemberKind | 'unsized')[] = ['beam', 'column', 'wall', 'unsized'];
+
+  const meshes: object[] = [];
+  const accessors: object[] = [];
+  const nodes: object[] = [];
+
+  model.meshes.forEach(mesh => {
+    const firstVertex = positions.length / 3;
+    const firstIndex = indices.length;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    let vertexCount = 0;
+    mesh.faces.forEach(face => {
+      const normal = getFaceNormal(mesh.vertices, face);
+      const n = [normal.x, normal.z, -normal.y];
+      face.forEach(index => {
+        const p = toYUp(mesh.vertices[index]);
+        // Bounds of the stored float32 values, which validators compare them against
+        p.forEach((c, k) => { min[k] = Math.min(min[k], Math.fround(c)); max[k] = Math.max(max[k], Math.fround(c)); });
+        positions.push(...p);
+        normals.push(...n);
+      });
+      // Indices count from the mesh's first vertex, where its accessors start
+      triangulateFace(mesh.vertices, face).forEach(t => indices.push(...t.map(k => vertexCount + k)));
+      vertexCount += face.length;
+    });
+
+    const accessor = accessors.length;
+    accessors.push(
+      { bufferView: 0, byteOffset: firstVertex * 12, componentType: 5126, count: vertexCount, type: 'VEC3', min, max },
+      { bufferView: 1, byteOffset: firstVertex * 12, componentType: 5126, count: vertexCount, type: 'VEC3' },
+      { bufferView: 2, byteOffset: firstIndex * 4, componentType: 5125, count: indices.length - firstIndex, type: 'SCALAR' }
+    );
+    meshes.push({
+      name: mesh.name,
+      primitives: [{
+        attributes: { POSITION: accessor, NORMAL: accessor + 1 },
+        indices: accessor + 2,
+        material: materialKeys.indexOf(mesh.unsized ? 'unsized' : mesh.kind)
+      }]
+    });
+    nodes.push({ name: mesh.name, mesh: meshes.length - 1, extras: { id: mesh.id, kind: mesh.kind } });
+  });
+
+  const storeyNodes = model.storeys.map((storey, storeyIndex) => {
+    const children = model.meshes.map((m, i) => (m.storey === storeyIndex ? i : -1)).filter(i => i >= 0);
+    nodes.push({ name: storey, children });
+    return nodes.length - 1;
+  });
+
+  const positionBytes = positions.length * 4;
+  const indexBytes = indices.length * 4;
+  const buffer = new ArrayBuffer(positionBytes * 2 + indexBytes);
+  new Float32Array(buffer, 0, positions.length).set(positions);
+  new Float32Array(buffer, positionBytes, normals.length).set(normals);
+  new Uint32Array(buffer, positionBytes * 2, indices.length).set(indices);
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'DXF Vista' },
+    scene: 0,
+    scenes: [{ name, nodes: storeyNodes.filter(i => (nodes[i] as { children: number[] }).children.length > 0) }],
+    nodes,
+    meshes,
+    materials: materialKeys.map(key => ({
+      name: key,
+      pbrMetallicRoughness: { baseColorFactor: hexToLinear(STRUCTURE_MEMBER_COLORS[key]), metallicFactor: 0, roughnessFactor: 0.9 }
+    })),
+    accessors,
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: positionBytes, target: 34962 },
+      { buffer: 0, byteOffset: positionBytes, byteLength: positionBytes, target: 34962 },
+      { buffer: 0, byteOffset: positionBytes * 2, byteLength: indexBytes, target: 34963 }
+    ],
+    buffers: [{ byteLength: buffer.byteLength, uri: `data:application/octet-stream;base64,${toBase64(new Uint8Array(buffer))}` }]
+  };
+  return JSON.stringify(gltf);
+};
@@ -2,6 +2,8 @@ import { DxfData, DxfEntity, EntityType, ProjectFile, SemanticLayer, ViewportReg
 import { extractEntities } from '../../utils/dxfHelpers';
 import { prioritizeLayers } from './common';
 import { findTitleForBounds, getEntityBounds, groupEntitiesByProximity, parseViewportTitle } from '../../utils/geometryUtils';
+import { getProjectUnits } from '../../utils/units';
+import { projectPaperSpaceToModel } from '../../utils/layoutUtils';
 
 export interface SplitCalculationResult {
   regions: ViewportRegion[];
@@ -19,6 +21,7 @@ export const calculateSplitRegions = (
 ): SplitCalculationResult | null => {
   const resultLayer = 'VIEWPORT_CALC';
   const debugLayer = 'VIEWPORT_DEBUG';
+  const units = getProjectUnits(project);
 
   const axisLayers = [
     ...project.layerConfig[SemanticLayer.AXIS],
@@ -41,24 +44,29 @@ export const calculateSplitRegions = (
   const titleLayers = project.layerConfig[SemanticLayer.VIEWPORT_TITLE];
   const useSpecificTitleLayers = titleLayers.length > 0;
 
-  const allText = extractEntities(
-    useSpecificTitleLayers ? titleLayers : project.data.layers,
-    project.data.entities,
-    project.data.blocks,
-    project.data.blockBasePoints
-  ).filter(e => e.type === EntityType.TEXT || e.type === EntityType.MTEXT);
+  const textLayers = useSpecificTitleLayers ? titleLayers : project.data.layers;
 
-  const allLines = extractEntities(project.data.layers, project.data.entities, project.data.blocks, project.data.blockBasePoints)
-    .filter(e => e.type === EntityType.LINE || e.type === EntityType.LWPOLYLINE);
+  // Titles (and their underlines) drawn in a layout are mapped next to the area their viewport shows
+  const paperSpace = projectPaperSpaceToModel(project.data, project.data.layers);
+
+  const allText = [
+    ...extractEntities(textLayers, project.data.entities, project.data.blocks, project.data.blockBasePoints),
+    ...paperSpace.filter(e => textLayers.includes(e.layer))
+  ].filter(e => e.type === EntityType.TEXT || e.type === EntityType.MTEXT);
+
+  const allLines = [
+    ...extractEntities(project.data.layers, project.data.entities, project.data.blocks, project.data.blockBasePoints),
+    ...paperSpace
+  ].filter(e => e.type === EntityType.LINE || e.type === EntityType.LWPOLYLINE);
 
-  const clusters = groupEntitiesByProximity(axisLines, 5000);
+  const clusters = groupEntitiesByProximity(axisLines, units.fromMm(5000));
 
   const newEntities: DxfEntity[] = [];
   const debugEntities: DxfEntity[] = [];
   const regions: ViewportRegion[] = [];
 
   clusters.forEach((box, i) => {
-    const { title, scannedBounds } = findTitleForBounds(box, allText, allLines, useSpecificTitleLayers ? '' : undefined);
+    const { title, scannedBounds } = findTitleForBounds(box, allText, allLines, useSpecificTitleLayers ? '' : undefined, units.fromMm(25000), units.fromMm(500));
     const label = title || `BLOCK ${i + 1}`;
 
     regions.push({
@@ -84,8 +92,8 @@ export const calculateSplitRegions = (
       type: EntityType.TEXT,
       layer: resultLayer,
       text: label,
-      start: { x: box.minX, y: box.maxY + 500 },
-      radius: 250
+      start: { x: box.minX, y: box.maxY + units.fromMm(500) },
+      radius: units.fromMm(250)
     });
 
     scannedBounds.forEach(sb => {
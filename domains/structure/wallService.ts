@@ -1,7 +1,8 @@
 import { ProjectFile, SemanticLayer, DxfEntity, EntityType, WallInfo, Bounds } from '../../types';
 import { extractEntities } from '../../utils/dxfHelpers';
-import { findParallelPolygons, getEntityBounds, distancePointToLine } from '../../utils/geometryUtils';
+import { findParallelPolygons, getEntityBounds, distance, distancePointToLine } from '../../utils/geometryUtils';
 import { getMergeBaseBounds, filterEntitiesInBounds } from './common';
+import { getProjectUnits, UnitContext } from '../../utils/units';
 
 export interface WallCalculationResult {
   resultLayer: string;
@@ -13,7 +14,8 @@ export interface WallCalculationResult {
   message: string;
 }
 
-const estimateWallThicknesses = (lines: DxfEntity[]): Set<number> => {
+// Returns thicknesses in mm
+const estimateWallThicknesses = (lines: DxfEntity[], units: UnitContext): Set<number> => {
   const thicknessCounts = new Map<number, number>();
   const VALID_THICKNESSES = [100, 120, 150, 180, 200, 240, 250, 300, 350, 370, 400, 500, 600];
   const sample = lines.length > 2000 ? lines.filter((_, i) => i % 2 === 0) : lines;
@@ -23,7 +25,7 @@ const estimateWallThicknesses = (lines: DxfEntity[]): Set<number> => {
     if (!l1.start || !l1.end) continue;
     const v1 = { x: l1.end.x - l1.start.x, y: l1.end.y - l1.start.y };
     const len1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
-    if (len1 < 100) continue;
+    if (units.toMm(len1) < 100) continue;
 
     for (let j = i + 1; j < sample.length; j++) {
       const l2 = sample[j];
@@ -35,7 +37,7 @@ const estimateWallThicknesses = (lines: DxfEntity[]): Set<number> => {
       if (Math.abs(dot) < 0.98) continue;
 
       const center = { x: (l2.start.x + l2.end.x) / 2, y: (l2.start.y + l2.end.y) / 2 };
-      const dist = distancePointToLine(center, l1.start, l1.end);
+      const dist = units.toMm(distancePointToLine(center, l1.start, l1.end));
 
       if (dist > 50 && dist < 800) {
         const rounded = Math.round(dist / 10) * 10;
@@ -171,7 +173,8 @@ const convertWallsToRectangles = (entities: DxfEntity[], layer: string): DxfEnti
  * Pure wall calculation. Does not mutate React state.
  */
 export const calculateWalls = (project: ProjectFile): WallCalculationResult | null => {
-  const baseBounds = getMergeBaseBounds(project, 2500);
+  const units = getProjectUnits(project);
+  const baseBounds = getMergeBaseBounds(project, units.fromMm(2500));
   const targetLayers = project.layerConfig[SemanticLayer.WALL];
   if (targetLayers.length === 0) {
     return null;
@@ -235,7 +238,7 @@ export const calculateWalls = (project: ProjectFile): WallCalculationResult | nu
     }
   });
 
-  const estimatedWidths = estimateWallThicknesses(candidateLines);
+  const estimatedWidths = estimateWallThicknesses(candidateLines, units);
   if (estimatedWidths.size === 0) {
     estimatedWidths.add(200);
     estimatedWidths.add(240);
@@ -243,7 +246,8 @@ export const calculateWalls = (project: ProjectFile): WallCalculationResult | nu
   }
   const widthStr = Array.from(estimatedWidths).join(', ');
 
-  const generatedWalls = findParallelPolygons(candidateLines, 600, resultLayer, columnObstacles, axisLines, [], 'WALL', estimatedWidths);
+  const drawingWidths = new Set(Array.from(estimatedWidths).map(w => units.fromMm(w)));
+  const generatedWalls = findParallelPolygons(candidateLines, units.fromMm(600), resultLayer, columnObstacles, axisLines, [], 'WALL', drawingWidths, units.fromMm(1));
   const newEntities: DxfEntity[] = [...generatedWalls, ...existingClosedPolygons];
 
   if (newEntities.length === 0) {
@@ -261,13 +265,18 @@ export const calculateWalls = (project: ProjectFile): WallCalculationResult | nu
       const b = getEntityBounds(e);
       if (!b) return null;
       const center = { x: (b.minX + b.maxX) / 2, y: (b.minY + b.maxY) / 2 };
-      const thickness = Math.min(b.maxX - b.minX, b.maxY - b.minY);
+      const vertices = e.vertices?.map(v => ({ x: v.x, y: v.y }));
+      // Drawing units; a wall kept as a rotated rectangle is as thick as its shorter side
+      const thickness = vertices && vertices.length === 4
+        ? Math.min(distance(vertices[0], vertices[1]), distance(vertices[1], vertices[2]))
+        : Math.min(b.maxX - b.minX, b.maxY - b.minY);
       return {
         id: `WALL-${idx + 1}`,
         layer: e.layer,
         bounds: b,
         thickness,
-        center
+        center,
+        ...(vertices && vertices.length > 2 ? { vertices } : {})
       };
     })
     .filter((w): w is WallInfo => Boolean(w));
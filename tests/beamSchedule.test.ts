@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { BeamScheduleRow, buildBeamScheduleSheets } from "../domains/structure/beams/beamScheduleService";
+
+const row = (id: number, code: string, width: number, height: number, length: number): BeamScheduleRow => ({
+  id,
+  parentId: id,
+  code,
+  span: "",
+  width,
+  height,
+  length,
+  volume: length * width * height,
+  region: "Region 1",
+  floor: "1F",
+  label: "",
+});
+
+const rows = [
+  row(1, "KL1", 250, 600, 6000),
+  row(2, "KL10", 300, 700, 4000),
+  row(3, "KL1", 250, 600, 3000),
+  row(4, "KL2", 200, 500, 5000),
+  row(5, "KL1", 250, 640, 1000),
+  row(6, "", 0, 0, 2000),
+];
+
+describe("buildBeamScheduleSheets", () => {
+  it("writes the chosen columns in order without a summary", () => {
+    const sheets = buildBeamScheduleSheets(rows.slice(0, 1), ["code", "section", "length"], "M", false);
+    expect(sheets).toHaveLength(1);
+    expect(sheets[0].headers).toEqual(["Code", "Section (mm)", "Length (m)"]);
+    expect(sheets[0].rows).toEqual([["KL1", "250x600", 6]]);
+  });
+
+  it("totals count, length and volume per code", () => {
+    const [, summary] = buildBeamScheduleSheets(rows, ["id"], "MM", true);
+    expect(summary.headers).toEqual(["Code", "Count", "Sections (mm)", "Total Length (mm)", "Total Volume (m3)"]);
+    expect(summary.rows).toEqual([
+      ["(no code)", 1, "", 2000, 0],
+      ["KL1", 3, "250x600; 250x640", 10000, 1.51],
+      ["KL2", 1, "200x500", 5000, 0.5],
+      ["KL10", 1, "300x700", 4000, 0.84],
+      ["Total", 6, "", 21000, 2.85],
+    ]);
+    expect(summary.footerRows).toBe(1);
+  });
+
+  it("converts the totals to the report units", () => {
+    const [, summary] = buildBeamScheduleSheets(rows, ["id"], "M", true);
+    expect(summary.headers[3]).toBe("Total Length (m)");
+    expect(summary.rows[summary.rows.length - 1]).toEqual(["Total", 6, "", 21, 2.85]);
+  });
+});
@@ -0,0 +1,25 @@
+// Builds small ASCII DXF files from group code/value pairs for the parser tests
+
+export type DxfTestPair = [number, string | number];
+
+export const dxfText = (pairs: DxfTestPair[]): string =>
+  pairs.map(([code, value]) => `${code}\n${value}`).join("\n") + "\n";
+
+export const dxfSection = (name: string, body: DxfTestPair[]): DxfTestPair[] => [
+  [0, "SECTION"],
+  [2, name],
+  ...body,
+  [0, "ENDSEC"],
+];
+
+// A file with only an ENTITIES section
+export const entitiesDxf = (body: DxfTestPair[]): string =>
+  dxfText([...dxfSection("ENTITIES", body), [0, "EOF"]]);
+
+// A file with a TABLES section holding one table
+export const tableDxf = (table: string, records: DxfTestPair[], entities: DxfTestPair[] = []): string =>
+  dxfText([
+    ...dxfSection("TABLES", [[0, "TABLE"], [2, table], [70, 1], ...records, [0, "ENDTAB"]]),
+    ...dxfSection("ENTITIES", entities),
+    [0, "EOF"],
+  ]);
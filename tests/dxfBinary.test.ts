@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { isBinaryDxf, parseBinaryDxf, readBinaryDxfPairs } from "../utils/dxfBinary";
+import { EntityType } from "../types";
+
+const SENTINEL = "AutoCAD Binary DXF\r\n\x1a\0";
+
+type BinaryPair = [number, string | number | number[]];
+
+// Value layout of the group codes used below (doubles, 16/32-bit ints, NUL-terminated strings)
+const valueBytes = (code: number, value: BinaryPair[1]): number[] => {
+  if (Array.isArray(value)) return value; // Raw bytes, e.g. a GBK string with its NUL
+  const view = new DataView(new ArrayBuffer(8));
+  if ((code >= 10 && code <= 59) || (code >= 1010 && code <= 1059)) {
+    view.setFloat64(0, Number(value), true);
+    return Array.from(new Uint8Array(view.buffer));
+  }
+  if ((code >= 60 && code <= 79) || code === 370) {
+    view.setInt16(0, Number(value), true);
+    return Array.from(new Uint8Array(view.buffer, 0, 2));
+  }
+  if ((code >= 90 && code <= 99) || code === 420) {
+    view.setInt32(0, Number(value), true);
+    return Array.from(new Uint8Array(view.buffer, 0, 4));
+  }
+  return [...Array.from(String(value), ch => ch.charCodeAt(0)), 0];
+};
+
+// R13+ files use 2-byte codes; R12 uses 1-byte codes with 255 escaping to a 2-byte code
+const binaryDxf = (pairs: BinaryPair[], wideCodes = true): Uint8Array => {
+  const bytes: number[] = Array.from(SENTINEL, ch => ch.charCodeAt(0));
+  pairs.forEach(([code, value]) => {
+    if (wideCodes) bytes.push(code & 0xFF, code >> 8);
+    else if (code < 255) bytes.push(code);
+    else bytes.push(255, code & 0xFF, code >> 8);
+    bytes.push(...valueBytes(code, value));
+  });
+  return new Uint8Array(bytes);
+};
+
+const lineFile = (wideCodes: boolean) => binaryDxf([
+  [0, "SECTION"], [2, "ENTITIES"],
+  [0, "LINE"], [8, "BEAM"], [62, -3], [370, 35], [10, 0.1], [20, -2.5], [11, 1e6 + 0.3], [21, 42],
+  [0, "ENDSEC"], [0, "EOF"],
+], wideCodes);
+
+describe("binary DXF", () => {
+  it("recognises the sentinel", () => {
+    expect(isBinaryDxf(lineFile(true))).equal(true);
+    expect(isBinaryDxf(new TextEncoder().encode("0\nSECTION\n2\nENTITIES\n"))).equal(false);
+    // Cut inside the sentinel
+    expect(isBinaryDxf(lineFile(true).subarray(0, 10))).equal(false);
+    // Same length, but the SUB/NUL tail is missing
+    expect(isBinaryDxf(new TextEncoder().encode("AutoCAD Binary DXF\r\n\n\n"))).equal(false);
+  });
+
+  it("reads 2-byte group codes with little-endian values (R13+)", () => {
+    const [line] = parseBinaryDxf(lineFile(true)).data.entities;
+    expect(line.type).equal(EntityType.LINE);
+    expect(line.layer).equal("BEAM");
+    expect(line.color).equal(-3);
+    expect(line.lineWeight).equal(35);
+    expect(line.start).toEqual({ x: 0.1, y: -2.5 });
+    expect(line.end).toEqual({ x: 1e6 + 0.3, y: 42 });
+  });
+
+  it("reads 1-byte group codes and the 255 escape (R12)", () => {
+    const pairs = [...readBinaryDxfPairs(lineFile(false))];
+    expect(pairs.find(p => p.code === 370)?.value).equal("35");
+    const [line] = parseBinaryDxf(lineFile(false)).data.entities;
+    expect(line.start).toEqual({ x: 0.1, y: -2.5 });
+    expect(line.end).toEqual({ x: 1e6 + 0.3, y: 42 });
+  });
+
+  it("stops cleanly on truncated input", () => {
+    const full = lineFile(true);
+    // Tail: 11 and 21 (2-byte code + double each), 0 ENDSEC and 0 EOF; cut 4 bytes into the 11 double
+    const tail = 2 * (2 + 8) + (2 + 7) + (2 + 4);
+    const cut = full.length - tail + 2 + 4;
+    const pairs = [...readBinaryDxfPairs(full.subarray(0, cut))];
+    expect(pairs.map(p => p.code)).toEqual([0, 2, 0, 8, 62, 370, 10, 20]);
+
+    const { data } = parseBinaryDxf(full.subarray(0, cut));
+    expect(data.entities).toHaveLength(1);
+    expect(data.entities[0].end).toBeUndefined();
+    expect(data.diagnostics?.missingGeometry[EntityType.LINE]).equal(1);
+  });
+
+  it("decodes strings with the header codepage", () => {
+    // "梁" in GBK
+    const file = binaryDxf([
+      [0, "SECTION"], [2, "HEADER"], [9, "$ACADVER"], [1, "AC1015"], [9, "$DWGCODEPAGE"], [3, "ANSI_936"], [0, "ENDSEC"],
+      [0, "SECTION"], [2, "ENTITIES"],
+      [0, "TEXT"], [8, [0xC1, 0xBA, 0]], [10, 0], [20, 0], [40, 2.5], [1, [0xC1, 0xBA, 0x31, 0]],
+      [0, "ENDSEC"], [0, "EOF"],
+    ]);
+    const { data, enc } = parseBinaryDxf(file);
+    expect(enc).equal("gb18030");
+    expect(data.entities[0].layer).equal("梁");
+    expect(data.entities[0].text).equal("梁1");
+  });
+});
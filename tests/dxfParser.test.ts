@@ -0,0 +1,520 @@
+import { describe, expect, it } from "vitest";
+import { parseDxf } from "../utils/dxfParser";
+import { getHatchPathPoints } from "../utils/geometryUtils";
+import { isLayerInitiallyVisible } from "../utils/dxfHelpers";
+import { getDimensionMeasurement, getDimensionText } from "../utils/dimensionUtils";
+import { resolveLineWeightMm, resolveTransparency, trueColorToHex } from "../utils/plotStyleUtils";
+import { collectAttributedInserts, getBlockAttributeDefinitions, isDrawnText } from "../utils/attributeUtils";
+import { EntityType } from "../types";
+import { dxfSection, dxfText, entitiesDxf, tableDxf } from "./data/dxfText";
+
+describe("HATCH", () => {
+  const hatch = parseDxf(entitiesDxf([
+    [0, "HATCH"], [5, "2A"], [8, "COLU"],
+    [100, "AcDbHatch"], [10, 0], [20, 0], [30, 0], [2, "SOLID"], [70, 1], [71, 0],
+    [91, 2],
+    // Polyline path with a bulged last segment
+    [92, 3], [72, 1], [73, 1], [93, 3],
+    [10, 0], [20, 0], [42, 0],
+    [10, 100], [20, 0], [42, 0],
+    [10, 100], [20, 100], [42, 1],
+    [97, 0],
+    // Edge path: a line and a counter-clockwise arc closing it
+    [92, 0], [93, 2],
+    [72, 1], [10, 20], [20, 20], [11, 80], [21, 20],
+    [72, 2], [10, 50], [20, 20], [40, 30], [50, 0], [51, 180], [73, 1],
+    [97, 0],
+    [75, 1], [76, 1], [98, 1], [10, 5], [20, 5],
+  ])).entities[0];
+
+  it("reads the header and both boundary paths", () => {
+    expect(hatch.type).equal(EntityType.HATCH);
+    expect(hatch.handle).equal("2A");
+    expect(hatch.layer).equal("COLU");
+    expect(hatch.patternName).equal("SOLID");
+    expect(hatch.solidFill).equal(true);
+    expect(hatch.boundaryPaths).toHaveLength(2);
+  });
+
+  it("keeps polyline vertices with their bulges", () => {
+    const [outer] = hatch.boundaryPaths!;
+    expect(outer.isOuter).equal(true);
+    expect(outer.isPolyline).equal(true);
+    expect(outer.closed).equal(true);
+    expect(outer.vertices).toEqual([{ x: 0, y: 0, bulge: 0 }, { x: 100, y: 0, bulge: 0 }, { x: 100, y: 100, bulge: 1 }]);
+  });
+
+  it("reads line and arc edges without taking the seed point", () => {
+    const island = hatch.boundaryPaths![1];
+    expect(island.isOuter).equal(false);
+    expect(island.edges).toEqual([
+      { type: "LINE", start: { x: 20, y: 20 }, end: { x: 80, y: 20 } },
+      { type: "ARC", center: { x: 50, y: 20 }, radius: 30, startAngle: 0, endAngle: 180, ccw: true },
+    ]);
+    const points = getHatchPathPoints(island);
+    expect(points[0]).toEqual({ x: 20, y: 20 });
+    expect(Math.max(...points.map(p => p.y))).toBeCloseTo(50, 6);
+  });
+});
+
+describe("ELLIPSE, SOLID, TRACE and 3DFACE", () => {
+  const [ellipse, solid, triangle, trace, face] = parseDxf(entitiesDxf([
+    [0, "ELLIPSE"], [8, "0"], [10, 10], [20, 20], [30, 0], [11, 50], [21, 0], [31, 0], [40, 0.5], [41, 0], [42, Math.PI],
+    // SOLID corners come in zig-zag order: 1, 2, 4, 3
+    [0, "SOLID"], [8, "0"], [10, 0], [20, 0], [11, 10], [21, 0], [12, 0], [22, 10], [13, 10], [23, 10],
+    [0, "SOLID"], [8, "0"], [10, 0], [20, 0], [11, 10], [21, 0], [12, 5], [22, 10], [13, 5], [23, 10],
+    [0, "TRACE"], [8, "0"], [10, 0], [20, 0], [11, 10], [21, 0], [12, 0], [22, 2], [13, 10], [23, 2],
+    [0, "3DFACE"], [8, "0"], [10, 0], [20, 0], [11, 10], [21, 0], [12, 10], [22, 10], [13, 10], [23, 10],
+  ])).entities;
+
+  it("reads the ellipse axes and parameters", () => {
+    expect(ellipse.type).equal(EntityType.ELLIPSE);
+    expect(ellipse.center).toEqual({ x: 10, y: 20 });
+    expect(ellipse.majorAxis).toEqual({ x: 50, y: 0 });
+    expect(ellipse.ratio).equal(0.5);
+    expect(ellipse.startParam).equal(0);
+    expect(ellipse.endParam).toBeCloseTo(Math.PI, 12);
+  });
+
+  it("reorders SOLID and TRACE corners into an outline", () => {
+    expect(solid.corners).toEqual([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }]);
+    expect(trace.type).equal(EntityType.TRACE);
+    expect(trace.corners).toEqual([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 2 }, { x: 0, y: 2 }]);
+  });
+
+  it("drops the repeated corner of triangles", () => {
+    expect(triangle.corners).toEqual([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 10 }]);
+    expect(face.type).equal(EntityType.FACE3D);
+    expect(face.corners).toEqual([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }]);
+  });
+});
+
+describe("LEADER and MULTILEADER", () => {
+  const [leader, mleader] = parseDxf(entitiesDxf([
+    [0, "LEADER"], [5, "3B"], [8, "LABEL"], [100, "AcDbLeader"], [3, "Standard"], [71, 1], [76, 3],
+    [10, 0], [20, 0], [30, 0], [10, 50], [20, 50], [30, 0], [10, 80], [20, 50], [30, 0],
+    [340, "3C"],
+    [0, "MULTILEADER"], [5, "4D"], [8, "LABEL"], [100, "AcDbMLeader"],
+    [300, "CONTEXT_DATA{"], [40, 1], [10, 100], [20, 100], [30, 0], [41, 2.5], [290, 1],
+    [304, "KL1(2) 300x600"], [12, 110], [22, 102], [32, 0], [42, Math.PI / 2],
+    [302, "LEADER{"], [290, 1], [10, 100], [20, 100], [30, 0],
+    [304, "LEADER_LINE{"], [10, 60], [20, 40], [30, 0], [10, 80], [20, 40], [30, 0], [91, 0], [305, "}"],
+    [304, "LEADER_LINE{"], [10, 60], [20, 160], [30, 0], [91, 1], [305, "}"],
+    [303, "}"],
+    [301, "}"],
+    [340, "11"], [90, 0], [170, 1],
+  ])).entities;
+
+  it("reads LEADER vertices from the arrowhead and the annotation link", () => {
+    expect(leader.type).equal(EntityType.LEADER);
+    expect(leader.leaderLines).toEqual([[{ x: 0, y: 0 }, { x: 50, y: 50 }, { x: 80, y: 50 }]]);
+    expect(leader.annotationHandle).equal("3C");
+  });
+
+  it("reads MULTILEADER text and ends every leader line at the landing", () => {
+    expect(mleader.type).equal(EntityType.MULTILEADER);
+    expect(mleader.handle).equal("4D");
+    expect(mleader.layer).equal("LABEL");
+    expect(mleader.text).equal("KL1(2) 300x600");
+    expect(mleader.start).toEqual({ x: 110, y: 102 });
+    expect(mleader.radius).equal(2.5);
+    expect(mleader.startAngle).toBeCloseTo(90, 9);
+    expect(mleader.leaderLines).toEqual([
+      [{ x: 60, y: 40 }, { x: 80, y: 40 }, { x: 100, y: 100 }],
+      [{ x: 60, y: 160 }, { x: 100, y: 100 }],
+    ]);
+  });
+});
+
+describe("DIMENSION", () => {
+  const [rotated, overridden] = parseDxf(entitiesDxf([
+    [0, "DIMENSION"], [8, "AXIS_DIM"], [2, "*D1"], [10, 0], [20, 500], [11, 3000], [21, 520], [70, 32], [1, ""],
+    [13, 0], [23, 0], [14, 6000], [24, 0], [50, 0],
+    [0, "DIMENSION"], [8, "AXIS_DIM"], [2, "*D2"], [10, 0], [20, 500], [11, 3000], [21, 520], [70, 33], [1, "<> TYP."],
+    [42, 7200], [13, 0], [23, 0], [14, 7200], [24, 100],
+  ])).entities;
+
+  it("reads the type, points and measurement", () => {
+    expect(rotated.blockName).equal("*D1");
+    expect(rotated.dimensionType).equal("LINEAR");
+    expect(rotated.definitionPoint).toEqual({ x: 0, y: 500 });
+    expect(rotated.textMidpoint).toEqual({ x: 3000, y: 520 });
+    expect(overridden.dimensionType).equal("ALIGNED");
+    expect(overridden.actualMeasurement).equal(7200);
+  });
+
+  it("measures from the definition points when group 42 is missing", () => {
+    expect(getDimensionMeasurement(rotated)).equal(6000);
+    expect(getDimensionText(rotated)).equal("6000");
+    expect(getDimensionText(overridden)).equal("7200 TYP.");
+  });
+});
+
+describe("LTYPE table", () => {
+  const data = parseDxf(tableDxf("LTYPE", [
+    [0, "LTYPE"], [2, "CONTINUOUS"], [70, 0], [3, "Solid line"], [72, 65], [73, 0], [40, 0],
+    [0, "LTYPE"], [2, "Center"], [70, 0], [3, "____ _ ____"], [72, 65], [73, 4], [40, 50],
+    [49, 31.75], [74, 0], [49, -6.35], [74, 0], [49, 6.35], [74, 0], [49, -6.35], [74, 0],
+  ], [
+    [0, "LINE"], [8, "AXIS"], [6, "CENTER"], [48, 2], [10, 0], [20, 0], [11, 100], [21, 0],
+  ]));
+
+  it("keys linetypes by upper-case name with their dash pattern", () => {
+    expect(Object.keys(data.lineTypes!).sort()).toEqual(["CENTER", "CONTINUOUS"]);
+    expect(data.lineTypes!.CONTINUOUS.pattern).toEqual([]);
+    expect(data.lineTypes!.CENTER).toEqual({
+      name: "Center",
+      description: "____ _ ____",
+      pattern: [31.75, -6.35, 6.35, -6.35],
+      patternLength: 50,
+    });
+  });
+
+  it("reads the entity linetype and its scale", () => {
+    const [line] = data.entities;
+    expect(line.lineType).equal("CENTER");
+    expect(line.lineTypeScale).equal(2);
+  });
+});
+
+describe("STYLE table and text placement", () => {
+  const data = parseDxf(tableDxf("STYLE", [
+    [0, "STYLE"], [2, "HZ"], [70, 0], [40, 0], [41, 0.7], [50, 15], [71, 0], [42, 3.5], [3, "txt.shx"], [4, "hztxt.shx"],
+  ], [
+    [0, "TEXT"], [8, "0"], [7, "HZ"], [10, 0], [20, 0], [40, 350], [1, "KL1"], [41, 0.8], [51, 10],
+    [72, 1], [11, 500], [21, 10], [73, 2],
+    [0, "ATTRIB"], [8, "0"], [10, 0], [20, 0], [40, 250], [1, "B1"], [2, "MARK"], [72, 2], [11, 5], [21, 6], [73, 12], [74, 3],
+    [0, "MTEXT"], [8, "0"], [7, "HZ"], [10, 10], [20, 20], [40, 300], [41, 4000], [71, 5], [44, 1.2], [1, "{\\fSimSun|b0;KL2}\\P300x600"],
+  ]));
+
+  it("keys text styles by upper-case name", () => {
+    expect(data.textStyles!.HZ).toEqual({
+      name: "HZ", fixedHeight: 0, widthFactor: 0.7, obliqueAngle: 15, fontFile: "txt.shx", bigFontFile: "hztxt.shx",
+    });
+  });
+
+  it("reads TEXT style, height, width, oblique and alignment", () => {
+    const [text] = data.entities;
+    expect(text.textStyle).equal("HZ");
+    expect(text.textHeight).equal(350);
+    expect(text.radius).equal(350);
+    expect(text.widthFactor).equal(0.8);
+    expect(text.obliqueAngle).equal(10);
+    expect(text.hAlign).equal(1);
+    expect(text.vAlign).equal(2);
+    expect(text.alignPoint).toEqual({ x: 500, y: 10 });
+  });
+
+  it("takes the ATTRIB vertical alignment from group 74, not the field length", () => {
+    const attrib = data.entities[1];
+    expect(attrib.attributeTag).equal("MARK");
+    expect(attrib.hAlign).equal(2);
+    expect(attrib.vAlign).equal(3);
+  });
+
+  it("reads MTEXT attachment, wrapping width and line spacing", () => {
+    const mtext = data.entities[2];
+    expect(mtext.textHeight).equal(300);
+    expect(mtext.attachmentPoint).equal(5);
+    expect(mtext.referenceWidth).equal(4000);
+    expect(mtext.lineSpacing).equal(1.2);
+    expect(mtext.text).equal("KL2\n300x600");
+  });
+});
+
+describe("true color, transparency and lineweight", () => {
+  // 0x02000000 marks an explicit alpha; 0x4C of 255 is ~70% transparent
+  const data = parseDxf(tableDxf("LAYER", [
+    [0, "LAYER"], [2, "BEAM"], [70, 0], [62, 5], [6, "CONTINUOUS"], [420, 0x10A0FF], [370, 50],
+    [1001, "AcCmTransparency"], [1071, 0x0200004C],
+  ], [
+    [0, "LINE"], [8, "BEAM"], [62, 1], [420, 0x12345678], [440, 0x020000FF], [370, 18], [10, 0], [20, 0], [11, 1], [21, 0],
+    [0, "LINE"], [8, "BEAM"], [440, 0], [370, -2], [10, 0], [20, 0], [11, 1], [21, 0],
+    [0, "LINE"], [8, "BEAM"], [10, 0], [20, 0], [11, 1], [21, 0],
+  ]));
+  const [own, byBlock, byLayer] = data.entities;
+
+  it("reads the layer's true color, lineweight and transparency XDATA", () => {
+    const layer = data.layerDictionary.BEAM;
+    expect(layer.color).equal(5);
+    expect(layer.trueColor).equal(0x10A0FF);
+    expect(layer.lineWeight).equal(50);
+    expect(layer.transparency).toBeCloseTo(1 - 0x4C / 255, 9);
+  });
+
+  it("reads entity values, keeping only the 24-bit color", () => {
+    expect(own.trueColor).equal(0x345678);
+    expect(trueColorToHex(own.trueColor!)).equal("#345678");
+    expect(own.transparency).equal(0);
+    expect(own.lineWeight).equal(18);
+    // No alpha flag: BYLAYER
+    expect(byBlock.transparency).toBeUndefined();
+  });
+
+  it("resolves BYLAYER and BYBLOCK through the layer, the insert and the default", () => {
+    expect(resolveLineWeightMm(own, data, "BEAM")).equal(0.18);
+    expect(resolveLineWeightMm(byBlock, data, "BEAM", 35)).equal(0.35);
+    expect(resolveLineWeightMm(byBlock, data, "BEAM")).equal(0.25);
+    expect(resolveLineWeightMm(byLayer, data, "BEAM")).equal(0.5);
+    expect(resolveTransparency(byLayer, data, "BEAM")).toBeCloseTo(1 - 0x4C / 255, 9);
+  });
+});
+
+describe("LAYER state flags", () => {
+  const { layers, layerDictionary } = parseDxf(tableDxf("LAYER", [
+    [0, "LAYER"], [5, "10"], [2, "AXIS"], [70, 0], [62, -1], [6, "CENTER"],
+    [0, "LAYER"], [5, "11"], [2, "OLD"], [70, 1], [62, 8], [6, "CONTINUOUS"],
+    [0, "LAYER"], [5, "12"], [2, "TITLE"], [70, 4], [62, 7], [6, "CONTINUOUS"], [290, 0],
+    [0, "LAYER"], [5, "13"], [2, "BEAM"], [70, 0], [62, 3], [6, "CONTINUOUS"], [290, 1],
+  ]));
+
+  it("reads off from a negative color, frozen and locked from group 70 and plot from 290", () => {
+    expect(layerDictionary.AXIS).toMatchObject({ handle: "10", color: 1, lineType: "CENTER", off: true, frozen: false, locked: false });
+    expect(layerDictionary.OLD).toMatchObject({ off: false, frozen: true, locked: false });
+    expect(layerDictionary.TITLE).toMatchObject({ frozen: false, locked: true, plot: false });
+    expect(layerDictionary.BEAM).toMatchObject({ off: false, frozen: false, locked: false, plot: true });
+  });
+
+  it("lists the layer records but not the table name", () => {
+    expect(layers).toEqual(["AXIS", "BEAM", "OLD", "TITLE"]);
+    expect(layerDictionary.LAYER).toBeUndefined();
+  });
+
+  it("keeps reading layers after records named like other tables", () => {
+    const { layers, layerDictionary } = parseDxf(tableDxf("LAYER", [
+      [0, "LAYER"], [5, "20"], [2, "STYLE"], [70, 0], [62, 2], [6, "CONTINUOUS"],
+      [0, "LAYER"], [5, "21"], [2, "LTYPE"], [70, 0], [62, 3], [6, "CONTINUOUS"],
+      [0, "LAYER"], [5, "22"], [2, "BLOCK_RECORD"], [70, 0], [62, 4], [6, "CONTINUOUS"],
+      [0, "LAYER"], [5, "23"], [2, "HIDDEN"], [70, 5], [62, -6], [6, "CONTINUOUS"], [290, 0],
+    ]));
+
+    expect(layers).toEqual(["BLOCK_RECORD", "HIDDEN", "LTYPE", "STYLE"]);
+    expect(layerDictionary.STYLE).toMatchObject({ handle: "20", color: 2 });
+    expect(layerDictionary.HIDDEN).toMatchObject({ handle: "23", color: 6, off: true, frozen: true, locked: true, plot: false });
+  });
+
+  it("starts off and frozen layers hidden", () => {
+    expect(isLayerInitiallyVisible(layerDictionary.AXIS)).equal(false);
+    expect(isLayerInitiallyVisible(layerDictionary.OLD)).equal(false);
+    expect(isLayerInitiallyVisible(layerDictionary.TITLE)).equal(true);
+    expect(isLayerInitiallyVisible(undefined)).equal(true);
+  });
+});
+
+describe("block attributes", () => {
+  const attributedDxf = dxfText([
+    ...dxfSection("BLOCKS", [
+      [0, "BLOCK"], [8, "0"], [2, "COLTAG"], [70, 2], [10, 0], [20, 0],
+      [0, "ATTDEF"], [8, "0"], [10, 0], [20, 0], [40, 250], [1, "C1"], [3, "Mark"], [2, "MARK"], [70, 0],
+      [0, "ATTDEF"], [8, "0"], [10, 0], [20, -300], [40, 250], [1, "C30"], [3, "Grade"], [2, "GRADE"], [70, 2],
+      [0, "ATTDEF"], [8, "0"], [10, 0], [20, -600], [40, 250], [1, ""], [3, "Note"], [2, "NOTE"], [70, 1],
+      [0, "ENDBLK"], [8, "0"],
+    ]),
+    ...dxfSection("ENTITIES", [
+      [0, "INSERT"], [8, "COLU"], [2, "COLTAG"], [10, 1000], [20, 2000], [66, 1],
+      [0, "ATTRIB"], [8, "COLU"], [10, 1000], [20, 2000], [40, 250], [1, "KZ-3"], [2, "MARK"], [70, 0],
+      [0, "ATTRIB"], [8, "COLU"], [10, 1000], [20, 1400], [40, 250], [1, "hidden"], [2, "NOTE"], [70, 1],
+      [0, "SEQEND"], [8, "COLU"],
+      [0, "INSERT"], [8, "COLU"], [2, "COLTAG"], [10, 5000], [20, 2000],
+      [0, "ATTRIB"], [8, "COLU"], [10, 5000], [20, 2000], [40, 250], [1, "stray"], [2, "MARK"], [70, 0],
+      [0, "LINE"], [8, "0"], [10, 0], [20, 0], [11, 1], [21, 0],
+      [0, "ATTRIB"], [8, "COLU"], [10, 0], [20, 0], [40, 250], [1, "orphan"], [2, "MARK"], [70, 0],
+    ]),
+    [0, "EOF"],
+  ]);
+
+  it("attaches the ATTRIBs that follow an INSERT with 66=1 to that INSERT", () => {
+    const data = parseDxf(attributedDxf);
+    const inserts = data.entities.filter(e => e.type === EntityType.INSERT);
+    expect(inserts[0].attributes).toEqual({ MARK: "KZ-3", NOTE: "hidden" });
+    expect(inserts[1].attributes).toBeUndefined();
+    expect(data.entities.filter(e => e.type === EntityType.ATTRIB).map(e => e.text)).toEqual(["KZ-3", "hidden", "stray", "orphan"]);
+  });
+
+  it("reads ATTDEF tags, defaults and flags in block definitions", () => {
+    const defs = getBlockAttributeDefinitions(parseDxf(attributedDxf), "COLTAG");
+    expect(defs.map(d => [d.attributeTag, d.text, d.attributePrompt, !!d.constant, !!d.invisible])).toEqual([
+      ["MARK", "C1", "Mark", false, false],
+      ["GRADE", "C30", "Grade", true, false],
+      ["NOTE", "", "Note", false, true],
+    ]);
+  });
+
+  it("resolves ATTDEF defaults under the INSERT's own values", () => {
+    const data = parseDxf(attributedDxf);
+    expect(collectAttributedInserts(data, "grade").map(a => [a.position, a.attributes])).toEqual([
+      [{ x: 1000, y: 2000 }, { MARK: "KZ-3", GRADE: "C30", NOTE: "hidden" }],
+      [{ x: 5000, y: 2000 }, { MARK: "C1", GRADE: "C30", NOTE: "" }],
+    ]);
+  });
+
+  it("draws constant ATTDEFs and visible ATTRIBs only", () => {
+    const data = parseDxf(attributedDxf);
+    expect(data.blocks["COLTAG"].map(isDrawnText)).toEqual([false, true, false]);
+    expect(data.entities.filter(e => e.type === EntityType.ATTRIB).map(isDrawnText)).toEqual([true, false, true, true]);
+  });
+});
+
+describe("XDATA and the OBJECTS tree", () => {
+  const dxf = dxfText([
+    ...dxfSection("ENTITIES", [
+      [0, "LINE"], [5, "2A"],
+      [102, "{ACAD_XDICTIONARY"], [360, "3B"], [102, "}"],
+      [102, "{ACAD_REACTORS"], [330, "D"], [102, "}"],
+      [330, "1F"], [100, "AcDbEntity"], [8, "BEAM"], [100, "AcDbLine"],
+      [10, 0], [20, 0], [11, 6000], [21, 0],
+      [1001, "DXFVISTA"], [1000, "KL1"], [1002, "{"], [1010, 1.5], [1020, 2.5], [1030, 0],
+      [1040, 3.25], [1070, 2], [1071, 100000], [1005, "2B"], [1002, "}"],
+      [1001, "OtherApp"], [1000, "x"],
+    ]),
+    ...dxfSection("OBJECTS", [
+      [0, "DICTIONARY"], [5, "C"], [330, "0"], [100, "AcDbDictionary"], [281, 1],
+      [3, "ACAD_GROUP"], [350, "D"], [3, "APP_DATA"], [350, "E"],
+      [0, "DICTIONARY"], [5, "D"], [102, "{ACAD_REACTORS"], [330, "C"], [102, "}"], [330, "C"], [100, "AcDbDictionary"],
+      [3, "*A1"], [350, "F"], [3, "FLOOR 1"], [350, "10"],
+      [0, "GROUP"], [5, "F"], [330, "D"], [100, "AcDbGroup"], [300, ""], [70, 1], [71, 1], [340, "2A"],
+      [0, "GROUP"], [5, "10"], [330, "D"], [100, "AcDbGroup"], [300, "Level 1 beams"], [70, 0], [71, 1], [340, "2A"], [340, "2B"],
+      [0, "XRECORD"], [5, "E"], [330, "C"], [100, "AcDbXrecord"], [280, 1], [1, "hello"], [10, 1], [20, 2],
+      [0, "DICTIONARY"], [5, "3B"], [330, "2A"], [100, "AcDbDictionary"], [3, "PROPS"], [360, "3D"],
+    ]),
+    [0, "EOF"],
+  ]);
+  const data = parseDxf(dxf);
+
+  it("keeps XDATA per application, with points, numbers and control strings", () => {
+    const line = data.entities[0];
+    expect(line.xdata).toEqual({
+      DXFVISTA: [
+        { code: 1000, value: "KL1" },
+        { code: 1002, value: "{" },
+        { code: 1010, value: { x: 1.5, y: 2.5 } },
+        { code: 1040, value: 3.25 },
+        { code: 1070, value: 2 },
+        { code: 1071, value: 100000 },
+        { code: 1005, value: "2B" },
+        { code: 1002, value: "}" },
+      ],
+      OtherApp: [{ code: 1000, value: "x" }],
+    });
+  });
+
+  it("reads the owner, reactors and extension dictionary of an entity", () => {
+    const line = data.entities[0];
+    expect([line.handle, line.ownerHandle, line.reactors, line.extensionDictionary]).toEqual(["2A", "1F", ["D"], "3B"]);
+    expect([line.start, line.end]).toEqual([{ x: 0, y: 0 }, { x: 6000, y: 0 }]);
+  });
+
+  it("links dictionaries, groups and XRECORDs by handle from the named object dictionary", () => {
+    const objects = data.objects!;
+    expect(data.namedObjectDictionary).equal("C");
+    expect(objects["C"].entries).toEqual({ ACAD_GROUP: "D", APP_DATA: "E" });
+    expect(objects["D"]).toMatchObject({ type: "DICTIONARY", ownerHandle: "C", reactors: ["C"], entries: { "*A1": "F", "FLOOR 1": "10" } });
+    expect(objects["10"]).toMatchObject({ type: "GROUP", description: "Level 1 beams", entityHandles: ["2A", "2B"] });
+    expect(objects["F"].entityHandles).toEqual(["2A"]);
+    expect(objects["E"]).toMatchObject({ type: "XRECORD", ownerHandle: "C" });
+    expect(objects["E"].data).toEqual([{ code: 280, value: "1" }, { code: 1, value: "hello" }, { code: 10, value: "1" }, { code: 20, value: "2" }]);
+    expect(objects[data.entities[0].extensionDictionary!]).toMatchObject({ ownerHandle: "2A", entries: { PROPS: "3D" } });
+  });
+});
+
+describe("diagnostics", () => {
+  it("skips and reports group codes that are not numbers, by 1-based line", () => {
+    const text = ["0", "SECTION", "2", "ENTITIES", "x8", "BAD", "0", "LINE", "8", "WALL", "??", "junk",
+      "10", "0", "20", "0", "11", "5", "21", "0", "0", "ENDSEC", "0", "EOF", ""].join("\n");
+    const data = parseDxf(text);
+    expect(data.diagnostics?.malformedLines).toEqual([5, 11]);
+    expect(data.diagnostics?.malformedLineCount).equal(2);
+    expect(data.entities[0]).toMatchObject({ type: EntityType.LINE, layer: "WALL", end: { x: 5, y: 0 } });
+  });
+
+  it("keeps the first 100 malformed line numbers but counts them all", () => {
+    const junk = Array.from({ length: 150 }, () => "bad\nvalue").join("\n");
+    const data = parseDxf(`${junk}\n0\nEOF\n`);
+    expect(data.diagnostics?.malformedLineCount).equal(150);
+    expect(data.diagnostics?.malformedLines.length).equal(100);
+    expect(data.diagnostics?.malformedLines.slice(0, 3)).toEqual([1, 3, 5]);
+  });
+
+  it("counts entities that lack the geometry needed to draw them", () => {
+    const data = parseDxf(entitiesDxf([
+      [0, "LINE"], [8, "0"], [10, 0], [20, 0],
+      [0, "LINE"], [8, "0"], [10, 0], [20, 0], [11, 1], [21, 1],
+      [0, "CIRCLE"], [8, "0"], [10, 0], [20, 0],
+      [0, "LWPOLYLINE"], [8, "0"], [90, 1], [10, 0], [20, 0],
+      [0, "TEXT"], [8, "0"], [1, "no position"],
+      [0, "INSERT"], [8, "0"], [10, 0], [20, 0],
+      [0, "POINT"], [8, "0"],
+    ]));
+    expect(data.diagnostics?.missingGeometry).toEqual({
+      [EntityType.LINE]: 1,
+      [EntityType.CIRCLE]: 1,
+      [EntityType.LWPOLYLINE]: 1,
+      [EntityType.TEXT]: 1,
+      [EntityType.INSERT]: 1,
+    });
+  });
+
+  it("counts unsupported entity types and references to missing blocks", () => {
+    const data = parseDxf(entitiesDxf([
+      [0, "WIPEOUT"], [8, "0"],
+      [0, "WIPEOUT"], [8, "0"],
+      [0, "INSERT"], [8, "0"], [2, "MISSING"], [10, 0], [20, 0],
+    ]));
+    expect(data.diagnostics?.unsupportedEntityTypes).toEqual({ WIPEOUT: 2 });
+    expect(data.diagnostics?.unresolvedBlocks).toEqual({ MISSING: 1 });
+  });
+});
+
+describe("round-trip parser fixes", () => {
+  it("keeps the last entity of ENTITIES when another section follows", () => {
+    const data = parseDxf(dxfText([
+      ...dxfSection("ENTITIES", [
+        [0, "LINE"], [8, "A"], [10, 0], [20, 0], [11, 1], [21, 0],
+        [0, "CIRCLE"], [8, "B"], [10, 5], [20, 5], [40, 2],
+      ]),
+      ...dxfSection("OBJECTS", [[0, "DICTIONARY"], [5, "C"], [330, "0"], [100, "AcDbDictionary"]]),
+      [0, "EOF"],
+    ]));
+    expect(data.entities.map(e => e.type)).toEqual([EntityType.LINE, EntityType.CIRCLE]);
+    expect(data.entities[1]).toMatchObject({ layer: "B", center: { x: 5, y: 5 }, radius: 2 });
+  });
+
+  it("reads LWPOLYLINE group 42 as the bulge of the vertex before it", () => {
+    const [pline] = parseDxf(entitiesDxf([
+      [0, "LWPOLYLINE"], [8, "0"], [90, 3], [70, 0],
+      [10, 0], [20, 0], [42, 1],
+      [10, 10], [20, 0],
+      [10, 10], [20, 10], [42, -0.5],
+    ])).entities;
+    expect(pline.vertices).toEqual([{ x: 0, y: 0, bulge: 1 }, { x: 10, y: 0 }, { x: 10, y: 10, bulge: -0.5 }]);
+    expect(pline.scale).toBeUndefined();
+  });
+
+  it("decodes escaped block names in BLOCK, INSERT and BLOCK_RECORD", () => {
+    const data = parseDxf(dxfText([
+      ...dxfSection("TABLES", [
+        [0, "TABLE"], [2, "BLOCK_RECORD"], [70, 1],
+        [0, "BLOCK_RECORD"], [5, "1A"], [100, "AcDbSymbolTableRecord"], [100, "AcDbBlockTableRecord"], [2, "*Paper_Space"],
+        [0, "BLOCK_RECORD"], [5, "1B"], [100, "AcDbSymbolTableRecord"], [100, "AcDbBlockTableRecord"], [2, "\\U+67F1A"],
+        [0, "ENDTAB"],
+      ]),
+      ...dxfSection("BLOCKS", [
+        [0, "BLOCK"], [8, "0"], [2, "\\U+67F1A"], [70, 0], [10, 1], [20, 2],
+        [0, "CIRCLE"], [8, "0"], [10, 0], [20, 0], [40, 300],
+        [0, "ENDBLK"], [8, "0"],
+      ]),
+      ...dxfSection("ENTITIES", [
+        [0, "INSERT"], [8, "COLU"], [2, "\\U+67F1A"], [10, 100], [20, 100],
+      ]),
+      ...dxfSection("OBJECTS", [
+        [0, "LAYOUT"], [5, "30"], [100, "AcDbPlotSettings"], [100, "AcDbLayout"], [1, "\\U+67F1"], [71, 1], [330, "1B"],
+      ]),
+      [0, "EOF"],
+    ]));
+    expect(Object.keys(data.blocks)).toEqual(["柱A"]);
+    expect(data.blockBasePoints["柱A"]).toEqual({ x: 1, y: 2 });
+    expect(data.entities[0].blockName).equal("柱A");
+    expect(data.layouts?.map(l => [l.name, l.blockName])).toEqual([["柱", "柱A"]]);
+    expect(data.diagnostics?.unresolvedBlocks).toEqual({});
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { parseDxf } from "../utils/dxfParser";
+import { decodeDxfBuffer } from "../utils/dxfEncoding";
+import { checkDxfRoundTrip, compareRoundTrip, formatDxfComparison, isSameDxf } from "../utils/dxfCompare";
+import { DXF_WRITER_VERSIONS, DxfWriterVersion, writeDxf } from "../utils/dxfWriter";
+import { DxfData, DxfEntity, EntityType } from "../types";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const testDir = path.dirname(fileURLToPath(import.meta.url));
+const corpusDir = path.join(testDir, "data", "corpus");
+
+// The structure fixture plus every sample drawing in the corpus folder
+const fixtures = [
+  path.join(testDir, "data", "test_beam1.dxf"),
+  ...fs.readdirSync(corpusDir)
+    .filter((name) => name.toLowerCase().endsWith(".dxf"))
+    .sort()
+    .map((name) => path.join(corpusDir, name)),
+];
+
+const versions = Object.keys(DXF_WRITER_VERSIONS) as DxfWriterVersion[];
+
+describe("DXF parse/write round trip", () => {
+  fixtures.forEach((fixturePath) => {
+    const name = path.relative(path.join(testDir, "data"), fixturePath);
+
+    versions.forEach((version) => {
+      it(`keeps ${name} when written as ${version}`, () => {
+        const { text, enc } = decodeDxfBuffer(fs.readFileSync(fixturePath));
+        const parsed = parseDxf(text, enc);
+        expect(parsed.entities.length).toBeGreaterThan(0);
+
+        const { reread, comparison } = checkDxfRoundTrip(parsed, version);
+        expect(reread.header?.acadVersion).equal(DXF_WRITER_VERSIONS[version].acadVersion);
+        expect(reread.diagnostics?.malformedLineCount ?? 0).equal(0);
+        expect(isSameDxf(comparison), formatDxfComparison(comparison)).equal(true);
+      });
+    });
+  });
+});
+
+const drawing = (entities: DxfEntity[], extra: Partial<DxfData> = {}): DxfData => ({
+  entities,
+  layers: Array.from(new Set(entities.map((e) => e.layer))),
+  layerDictionary: {},
+  blocks: {},
+  blockBasePoints: {},
+  ...extra,
+});
+
+// Writes and re-reads, then takes out the first entity `drop` matches, as if the writer had left it out
+const rereadWithout = (data: DxfData, version: DxfWriterVersion, drop: (ent: DxfEntity) => boolean) => {
+  const reread = parseDxf(writeDxf(data, { version }));
+  const index = reread.entities.findIndex(drop);
+  expect(index).toBeGreaterThanOrEqual(0);
+  return { ...reread, entities: reread.entities.filter((_, i) => i !== index) };
+};
+
+describe("round trip comparison", () => {
+  const line: DxfEntity = { type: EntityType.LINE, layer: "WALL", start: { x: 0, y: 0 }, end: { x: 10, y: 0 } };
+  const mtext: DxfEntity = { type: EntityType.MTEXT, layer: "NOTE", text: "FIRST\nSECOND", start: { x: 0, y: 20 }, textHeight: 2.5 };
+  const hatch: DxfEntity = {
+    type: EntityType.HATCH,
+    layer: "FILL",
+    solidFill: false,
+    boundaryPaths: [
+      { flags: 1, isOuter: true, isPolyline: true, vertices: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }] },
+      { flags: 0, isOuter: false, isPolyline: true, vertices: [{ x: 2, y: 2 }, { x: 4, y: 2 }, { x: 4, y: 4 }] },
+    ],
+  };
+
+  it("reports an entity the writer does not write", () => {
+    const data = drawing([line, { type: EntityType.TEXT, layer: "NOTE", text: "no position" }]);
+    versions.forEach((version) => {
+      const { comparison } = checkDxfRoundTrip(data, version);
+      expect(comparison.counts).toEqual([{ scope: "ENTITIES", layer: "NOTE", type: EntityType.TEXT, expected: 1, actual: 0 }]);
+    });
+  });
+
+  it("reports an entity missing from the file", () => {
+    const data = drawing([line, { ...line, start: { x: 0, y: 5 } }]);
+    versions.forEach((version) => {
+      const comparison = compareRoundTrip(data, rereadWithout(data, version, (e) => e.type === EntityType.LINE), version);
+      expect(isSameDxf(comparison)).equal(false);
+      expect(comparison.counts).toEqual([{ scope: "ENTITIES", layer: "WALL", type: EntityType.LINE, expected: 2, actual: 1 }]);
+    });
+  });
+
+  it("reports a missing part of a converted entity", () => {
+    const data = drawing([mtext, hatch]);
+    expect(isSameDxf(checkDxfRoundTrip(data, "R12").comparison)).equal(true);
+
+    const withoutLine = compareRoundTrip(data, rereadWithout(data, "R12", (e) => e.type === EntityType.TEXT), "R12");
+    expect(withoutLine.counts).toEqual([{ scope: "ENTITIES", layer: "NOTE", type: EntityType.TEXT, expected: 2, actual: 1 }]);
+
+    const withoutLoop = compareRoundTrip(data, rereadWithout(data, "R2000", (e) => e.layer === "FILL"), "R2000");
+    expect(withoutLoop.counts).toEqual([{ scope: "ENTITIES", layer: "FILL", type: EntityType.LWPOLYLINE, expected: 2, actual: 1 }]);
+  });
+
+  it("only allows the listed conversions", () => {
+    const dimension: DxfEntity = { type: EntityType.DIMENSION, layer: "DIM", blockName: "*D1" };
+    const data = drawing([dimension, mtext], {
+      blocks: { "*D1": [{ ...line, layer: "0" }] },
+      blockBasePoints: { "*D1": { x: 0, y: 0 } },
+    });
+    const { reread, comparison } = checkDxfRoundTrip(data, "R2000");
+    expect(isSameDxf(comparison), formatDxfComparison(comparison)).equal(true);
+    expect(reread.entities.map((e) => e.type)).toEqual([EntityType.INSERT, EntityType.MTEXT]);
+
+    // An R2000 MTEXT must stay MTEXT
+    const asText = { ...reread, entities: parseDxf(writeDxf(data, { version: "R12" })).entities };
+    expect(compareRoundTrip(data, asText, "R2000").counts).toEqual(expect.arrayContaining([
+      { scope: "ENTITIES", layer: "NOTE", type: EntityType.MTEXT, expected: 1, actual: 0 },
+    ]));
+  });
+
+  it("compares INSERT attribute values instead of the ATTRIBs", () => {
+    const data = drawing([{ type: EntityType.INSERT, layer: "COLU", blockName: "TAG", start: { x: 0, y: 0 }, attributes: { MARK: "KZ-1" } }], {
+      blocks: { TAG: [{ type: EntityType.ATTDEF, layer: "0", attributeTag: "MARK", text: "", start: { x: 0, y: 0 }, textHeight: 2 }] },
+      blockBasePoints: { TAG: { x: 0, y: 0 } },
+    });
+    const reread = parseDxf(writeDxf(data));
+    const changed = { ...reread, entities: reread.entities.map((e) => (e.attributes ? { ...e, attributes: { MARK: "KZ-2" } } : e)) };
+    expect(compareRoundTrip(data, changed, "R2000").values).toEqual([
+      { scope: "ENTITIES", subject: "COLU INSERT #1", field: "attributes.MARK", expected: "KZ-1", actual: "KZ-2" },
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseDxf, readAsciiDxfPairs } from "../utils/dxfParser";
+import { decodeDxfBuffer, detectDxfEncoding } from "../utils/dxfEncoding";
+import { createAsciiPairReader, streamParseDxf } from "../utils/dxfStream";
+import { isAbortError, parseDxfInWorker } from "../utils/dxfWorkerClient";
+import type { DxfWorkerResponse } from "../utils/dxfParse.worker";
+import { DxfGroupPair } from "../types";
+import { dxfSection, dxfText, entitiesDxf } from "./data/dxfText";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const corpusDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "data", "corpus");
+const corpus = fs.readdirSync(corpusDir).filter(name => name.endsWith(".dxf")).sort();
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe("streamed ASCII pairs", () => {
+  const text = "0\r\nSECTION\r\n2\r\nENTITIES\r\nX\r\nbad code\r\n0\r\nLINE\r\n8\r\n0\r\n10\r\n1.5\r\n0\r\nENDSEC\r\n0\r\nEOF\r\n";
+
+  const readWhole = () => {
+    const malformed: number[] = [];
+    const pairs = [...readAsciiDxfPairs(text, line => malformed.push(line))];
+    return { pairs, malformed };
+  };
+
+  it("pairs lines the same way wherever the chunks are cut, including inside CRLF", () => {
+    const expected = readWhole();
+    expect(expected.malformed).toEqual([5]);
+
+    for (let cut = 0; cut <= text.length; cut++) {
+      const pairs: DxfGroupPair[] = [];
+      const malformed: number[] = [];
+      const reader = createAsciiPairReader((code, value) => pairs.push({ code, value }), line => malformed.push(line));
+      reader.push(text.slice(0, cut));
+      reader.push(text.slice(cut));
+      reader.end();
+      expect(pairs, `cut at ${cut}`).toEqual(expected.pairs);
+      expect(malformed, `cut at ${cut}`).toEqual(expected.malformed);
+    }
+  });
+
+  it("reads a file without a trailing line break", () => {
+    const pairs: DxfGroupPair[] = [];
+    const reader = createAsciiPairReader((code, value) => pairs.push({ code, value }));
+    reader.push("0\nEOF");
+    reader.end();
+    expect(pairs).toEqual([{ code: 0, value: "EOF" }]);
+  });
+});
+
+describe("streamParseDxf", () => {
+  corpus.forEach(name => {
+    it(`matches parseDxf on ${name}`, () => {
+      const bytes = fs.readFileSync(path.join(corpusDir, name));
+      const { text, enc } = decodeDxfBuffer(bytes);
+      const progress: number[] = [];
+      const streamed = streamParseDxf(toArrayBuffer(bytes), fraction => progress.push(fraction));
+      expect(streamed.enc).equal(enc);
+      expect(streamed.data).toEqual(parseDxf(text, enc));
+      expect(progress[progress.length - 1]).equal(1);
+    });
+  });
+
+  it("finds CJK text that comes after a long ASCII run", () => {
+    // More than any leading sample: 6 MB of comments, then a GBK label ("梁" = C1 BA)
+    const padding = new TextEncoder().encode("999\n" + "x".repeat(6 << 20) + "\n");
+    const label = new Uint8Array([...new TextEncoder().encode(entitiesDxf([[0, "TEXT"], [8, "0"], [10, 0], [20, 0], [40, 1], [1, "@"]]))]);
+    const at = label.indexOf(0x40);
+    const bytes = new Uint8Array(padding.length + label.length + 1);
+    bytes.set(padding);
+    bytes.set(label.subarray(0, at), padding.length);
+    bytes.set([0xC1, 0xBA], padding.length + at);
+    bytes.set(label.subarray(at + 1), padding.length + at + 2);
+
+    expect(detectDxfEncoding(bytes)).equal(decodeDxfBuffer(bytes).enc);
+    const { data, enc } = streamParseDxf(toArrayBuffer(bytes));
+    expect(enc).equal("gb18030");
+    expect(data.entities[0].text).equal("梁");
+  });
+
+  it("decodes a bounded sample, not the whole file, to pick the encoding", () => {
+    const padding = "999\n" + "x".repeat(6 << 20) + "\n";
+    const bytes = new Uint8Array([
+      ...new TextEncoder().encode(padding),
+      ...new TextEncoder().encode(entitiesDxf([[0, "TEXT"], [8, "0"], [10, 0], [20, 0], [40, 1], [1, "梁"]])),
+      ...new TextEncoder().encode(padding),
+    ]);
+    const decode = vi.spyOn(TextDecoder.prototype, "decode");
+    try {
+      expect(detectDxfEncoding(bytes)).equal("utf-8");
+      const decoded = decode.mock.calls.reduce((sum, [input]) => sum + ((input as Uint8Array | undefined)?.byteLength ?? 0), 0);
+      // The header sniff plus one 4 MB sample
+      expect(decoded).toBeLessThanOrEqual(5 << 20);
+    } finally {
+      decode.mockRestore();
+    }
+  });
+
+  it("uses a recognised $DWGCODEPAGE without scoring", () => {
+    const header = dxfText([...dxfSection("HEADER", [[9, "$DWGCODEPAGE"], [3, "ANSI_1252"]]), ...dxfSection("ENTITIES", [[0, "TEXT"], [8, "0"], [1, "@"]]), [0, "EOF"]]);
+    const bytes = new TextEncoder().encode(header);
+    // "梁" in GBK; the header says code page 1252, which wins
+    bytes[bytes.indexOf(0x40)] = 0xC1;
+    expect(detectDxfEncoding(bytes)).equal("windows-1252");
+    expect(decodeDxfBuffer(bytes).text).toContain("\u00C1");
+  });
+
+  it("reports progress while picking the encoding, then while parsing", () => {
+    const bytes = new TextEncoder().encode("999\n" + "x".repeat(3 << 20) + "\n" + entitiesDxf([[0, "LINE"], [8, "0"]]));
+    const progress: number[] = [];
+    streamParseDxf(toArrayBuffer(bytes), fraction => progress.push(fraction));
+
+    const detecting = progress.filter(f => f < 0.1);
+    expect(detecting.length).toBeGreaterThanOrEqual(3);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).equal(1);
+  });
+
+  it("stops between chunks once aborted", () => {
+    const bytes = new TextEncoder().encode("999\n" + "x".repeat(3 << 20) + "\n" + entitiesDxf([[0, "LINE"], [8, "0"]]));
+    const controller = new AbortController();
+    const progress: number[] = [];
+    let error: unknown;
+    try {
+      streamParseDxf(toArrayBuffer(bytes), fraction => {
+        progress.push(fraction);
+        controller.abort();
+      }, controller.signal);
+    } catch (err) {
+      error = err;
+    }
+    expect(isAbortError(error)).toBe(true);
+    // Still picking the encoding
+    expect(progress).toHaveLength(1);
+    expect(progress[0]).toBeLessThan(0.1);
+  });
+});
+
+describe("parse worker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it("posts progress and then the parsed drawing", async () => {
+    const messages: DxfWorkerResponse[] = [];
+    const ctx: { postMessage: (msg: DxfWorkerResponse) => void, onmessage?: (e: { data: { buffer: ArrayBuffer } }) => void } = {
+      postMessage: msg => messages.push(msg),
+    };
+    vi.stubGlobal("self", ctx);
+    await import("../utils/dxfParse.worker");
+
+    const bytes = fs.readFileSync(path.join(corpusDir, corpus[0]));
+    ctx.onmessage!({ data: { buffer: toArrayBuffer(bytes) } });
+
+    const done = messages[messages.length - 1];
+    expect(done.type).equal("done");
+    const { text, enc } = decodeDxfBuffer(bytes);
+    if (done.type === "done") expect(done.data).toEqual(parseDxf(text, enc));
+    const fractions = messages.flatMap(m => (m.type === "progress" ? [m.fraction] : []));
+    expect(fractions.length).toBeGreaterThan(0);
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+  });
+
+  it("reports parse failures as an error message", async () => {
+    const messages: DxfWorkerResponse[] = [];
+    const ctx: { postMessage: (msg: DxfWorkerResponse) => void, onmessage?: (e: { data: { buffer: unknown } }) => void } = {
+      postMessage: msg => messages.push(msg),
+    };
+    vi.stubGlobal("self", ctx);
+    await import("../utils/dxfParse.worker");
+
+    ctx.onmessage!({ data: { buffer: Symbol("not a buffer") } });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].type).equal("error");
+  });
+});
+
+describe("parseDxfInWorker", () => {
+  // Stands in for the browser Worker; the test plays the worker side
+  class FakeWorker {
+    static last: FakeWorker | null = null;
+    onmessage: ((e: { data: DxfWorkerResponse }) => void) | null = null;
+    onerror: ((e: { message: string }) => void) | null = null;
+    posted: unknown[] = [];
+    terminated = false;
+    constructor() { FakeWorker.last = this; }
+    postMessage(message: unknown) { this.posted.push(message); }
+    terminate() { this.terminated = true; }
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.last = null;
+  });
+
+  it("forwards progress and resolves with the parsed drawing", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const progress: number[] = [];
+    const promise = parseDxfInWorker(new ArrayBuffer(8), { onProgress: f => progress.push(f) });
+    const worker = FakeWorker.last!;
+    expect(worker.posted).toHaveLength(1);
+
+    const data = parseDxf(entitiesDxf([[0, "LINE"], [8, "0"], [10, 0], [20, 0], [11, 1], [21, 1]]));
+    worker.onmessage!({ data: { type: "progress", fraction: 0.5 } });
+    worker.onmessage!({ data: { type: "done", data, enc: "utf-8" } });
+    await expect(promise).resolves.toEqual({ data, enc: "utf-8" });
+    expect(progress).toEqual([0.5]);
+    expect(worker.terminated).equal(true);
+  });
+
+  it("rejects with the worker's error", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const promise = parseDxfInWorker(new ArrayBuffer(8));
+    FakeWorker.last!.onmessage!({ data: { type: "error", message: "boom" } });
+    await expect(promise).rejects.toThrow("boom");
+  });
+
+  it("terminates the worker and rejects with an AbortError when cancelled", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const controller = new AbortController();
+    const promise = parseDxfInWorker(new ArrayBuffer(8), { signal: controller.signal });
+    controller.abort();
+    const err = await promise.catch(e => e);
+    expect(isAbortError(err)).equal(true);
+    expect(FakeWorker.last!.terminated).equal(true);
+  });
+
+  it("does not start a worker when already cancelled", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const controller = new AbortController();
+    controller.abort();
+    const err = await parseDxfInWorker(new ArrayBuffer(8), { signal: controller.signal }).catch(e => e);
+    expect(isAbortError(err)).equal(true);
+    expect(FakeWorker.last).equal(null);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import { parseDxf, readAsciiDxfPairs } from "../utils/dxfParser";
+import { writeDxf, DxfWriterVersion } from "../utils/dxfWriter";
+import { aciToHex, hexToAci } from "../utils/renderUtils";
+import { BEAM_XDATA_APP, buildBeamXData } from "../domains/structure/beams/common";
+import { DxfData, DxfEntity, DxfGroupPair, EntityType } from "../types";
+
+const drawing = (entities: DxfEntity[], extra: Partial<DxfData> = {}): DxfData => ({
+  entities,
+  layers: Array.from(new Set(entities.map((e) => e.layer))),
+  layerDictionary: {},
+  blocks: {},
+  blockBasePoints: {},
+  ...extra,
+});
+
+// readAsciiDxfPairs as an array
+const readAsciiDxfPairsOf = (text: string): DxfGroupPair[] => Array.from(readAsciiDxfPairs(text));
+
+// Written pairs grouped by section name
+const sections = (text: string): Record<string, DxfGroupPair[]> => {
+  const result: Record<string, DxfGroupPair[]> = {};
+  let current: DxfGroupPair[] | null = null;
+  let awaitingName = false;
+  for (const pair of readAsciiDxfPairs(text)) {
+    if (awaitingName) {
+      current = result[pair.value] = [];
+      awaitingName = false;
+    } else if (pair.code === 0 && pair.value === "SECTION") {
+      awaitingName = true;
+    } else if (pair.code === 0 && pair.value === "ENDSEC") {
+      current = null;
+    } else if (current) {
+      current.push(pair);
+    }
+  }
+  return result;
+};
+
+const headerValue = (header: DxfGroupPair[], name: string): string | undefined => {
+  const i = header.findIndex((p) => p.code === 9 && p.value === name);
+  return i < 0 ? undefined : header[i + 1].value;
+};
+
+// Names (group 2) of the records of one table
+const tableRecordNames = (tables: DxfGroupPair[], table: string): string[] => {
+  const start = tables.findIndex((p, i) => p.code === 2 && p.value === table && tables[i - 1]?.value === "TABLE");
+  const end = tables.findIndex((p, i) => i > start && p.code === 0 && p.value === "ENDTAB");
+  return tables.slice(start + 1, end).filter((p) => p.code === 2).map((p) => p.value);
+};
+
+const entityTypes = (pairs: DxfGroupPair[]) => pairs.filter((p) => p.code === 0).map((p) => p.value);
+
+const line: DxfEntity = { type: EntityType.LINE, layer: "WALL", start: { x: 0, y: 0 }, end: { x: 100, y: 50 } };
+
+describe("writeDxf header and tables", () => {
+  it("writes an R2000 header with handles and the OBJECTS dictionary tree", () => {
+    const text = writeDxf(drawing([line], { header: { insUnits: 4 } }), { version: "R2000" });
+    const s = sections(text);
+    expect(Object.keys(s)).toEqual(["HEADER", "TABLES", "BLOCKS", "ENTITIES", "OBJECTS"]);
+    expect(headerValue(s.HEADER, "$ACADVER")).equal("AC1015");
+    expect(headerValue(s.HEADER, "$INSUNITS")).equal("4");
+    expect(headerValue(s.HEADER, "$EXTMAX")).equal("100.0");
+
+    const handles = [s.TABLES, s.BLOCKS, s.ENTITIES, s.OBJECTS].flat()
+      .filter((p) => p.code === 5 || p.code === 105)
+      .map((p) => parseInt(p.value, 16));
+    expect(new Set(handles).size).equal(handles.length);
+    expect(parseInt(headerValue(s.HEADER, "$HANDSEED")!, 16)).toBeGreaterThan(Math.max(...handles));
+    expect(s.ENTITIES.slice(0, 4)).toEqual([
+      { code: 0, value: "LINE" },
+      { code: 5, value: expect.any(String) },
+      { code: 330, value: expect.any(String) },
+      { code: 100, value: "AcDbEntity" },
+    ]);
+    expect(text.endsWith("0\nEOF\n")).equal(true);
+  });
+
+  it("writes an R12 header without handles, subclass markers or OBJECTS", () => {
+    const text = writeDxf(drawing([line]), { version: "R12" });
+    const s = sections(text);
+    expect(Object.keys(s)).toEqual(["HEADER", "TABLES", "BLOCKS", "ENTITIES"]);
+    expect(headerValue(s.HEADER, "$ACADVER")).equal("AC1009");
+    expect(headerValue(s.HEADER, "$HANDLING")).equal("0");
+    expect(headerValue(s.HEADER, "$HANDSEED")).toBeUndefined();
+    expect(readAsciiDxfPairsOf(text).some((p) => p.code === 5 || p.code === 100 || p.code === 330)).equal(false);
+  });
+
+  it("writes the layers the entities use, with viewer colors, state and linetype", () => {
+    const data = drawing([line, { ...line, layer: "梁" }], {
+      layerDictionary: {
+        WALL: { name: "WALL", color: 1, off: true, frozen: true, locked: true, lineType: "DASHED" },
+      },
+      lineTypes: { DASHED: { name: "DASHED", description: "__ __", pattern: [5, -2.5], patternLength: 7.5 } },
+    });
+    (["R12", "R2000"] as DxfWriterVersion[]).forEach((version) => {
+      const reread = parseDxf(writeDxf(data, { version, layerColors: { "梁": "#00FF00" } }));
+      expect(reread.layers).toEqual(["0", "WALL", "梁"]);
+      expect(reread.layerDictionary["WALL"]).toMatchObject({ color: 1, off: true, frozen: true, locked: true, lineType: "DASHED" });
+      expect(reread.layerDictionary["梁"]).toMatchObject({ color: 3, off: false });
+      expect(reread.lineTypes?.["DASHED"]?.pattern).toEqual([5, -2.5]);
+    });
+  });
+
+  it("writes only the filtered layers and the blocks their inserts reference", () => {
+    const data = drawing(
+      [
+        { type: EntityType.INSERT, layer: "COLU", blockName: "COL", start: { x: 10, y: 10 } },
+        line,
+      ],
+      {
+        blocks: {
+          COL: [{ type: EntityType.INSERT, layer: "0", blockName: "INNER", start: { x: 0, y: 0 } }],
+          INNER: [{ type: EntityType.CIRCLE, layer: "0", center: { x: 0, y: 0 }, radius: 5 }],
+          UNUSED: [line],
+        },
+        blockBasePoints: { COL: { x: 0, y: 0 }, INNER: { x: 0, y: 0 }, UNUSED: { x: 0, y: 0 } },
+      }
+    );
+    const reread = parseDxf(writeDxf(data, { layers: ["COLU"] }));
+    expect(reread.entities.map((e) => e.type)).toEqual([EntityType.INSERT]);
+    expect(Object.keys(reread.blocks).filter((name) => !name.startsWith("*")).sort()).toEqual(["COL", "INNER"]);
+  });
+});
+
+describe("writeDxf entities per version", () => {
+  const polyline: DxfEntity = {
+    type: EntityType.LWPOLYLINE,
+    layer: "BEAM",
+    closed: true,
+    vertices: [{ x: 0, y: 0, bulge: 0.5 }, { x: 100, y: 0 }, { x: 100, y: 50 }],
+  };
+  const mtext: DxfEntity = { type: EntityType.MTEXT, layer: "TEXT", text: "FIRST\nSECOND", start: { x: 0, y: 0 }, textHeight: 2.5 };
+  const ellipse: DxfEntity = {
+    type: EntityType.ELLIPSE, layer: "0", center: { x: 0, y: 0 }, majorAxis: { x: 10, y: 0 }, ratio: 0.5, startParam: 0, endParam: 2 * Math.PI,
+  };
+
+  it("keeps LWPOLYLINE, MTEXT and ELLIPSE in R2000", () => {
+    const s = sections(writeDxf(drawing([polyline, mtext, ellipse]), { version: "R2000" }));
+    expect(entityTypes(s.ENTITIES)).toEqual(["LWPOLYLINE", "MTEXT", "ELLIPSE"]);
+    expect(s.ENTITIES.find((p) => p.code === 1)?.value).equal("FIRST\\PSECOND");
+  });
+
+  it("writes R12 polylines as POLYLINE/VERTEX/SEQEND and MTEXT as one TEXT per line", () => {
+    const text = writeDxf(drawing([polyline, mtext, ellipse]), { version: "R12" });
+    const types = entityTypes(sections(text).ENTITIES);
+    expect(types.slice(0, 5)).toEqual(["POLYLINE", "VERTEX", "VERTEX", "VERTEX", "SEQEND"]);
+    expect(types.slice(5, 7)).toEqual(["TEXT", "TEXT"]);
+    expect(types[7]).equal("POLYLINE");
+
+    const reread = parseDxf(text);
+    expect(reread.entities[0]).toMatchObject({ type: EntityType.LWPOLYLINE, closed: true, vertices: polyline.vertices });
+    expect(reread.entities.filter((e) => e.type === EntityType.TEXT).map((e) => e.text)).toEqual(["FIRST", "SECOND"]);
+  });
+
+  it("writes an INSERT's attributes as ATTRIBs placed by the block's ATTDEFs", () => {
+    const data = drawing(
+      [{ type: EntityType.INSERT, layer: "COLU", blockName: "TAG", start: { x: 100, y: 200 }, attributes: { MARK: "KZ-1", GRADE: "C40" } }],
+      {
+        blocks: {
+          TAG: [
+            { type: EntityType.ATTDEF, layer: "0", attributeTag: "MARK", text: "", start: { x: 5, y: 0 }, textHeight: 2 },
+            { type: EntityType.ATTDEF, layer: "0", attributeTag: "GRADE", text: "C30", start: { x: 5, y: -3 }, textHeight: 2, constant: true },
+          ],
+        },
+        blockBasePoints: { TAG: { x: 0, y: 0 } },
+      }
+    );
+    (["R12", "R2000"] as DxfWriterVersion[]).forEach((version) => {
+      const reread = parseDxf(writeDxf(data, { version }));
+      const attribs = reread.entities.filter((e) => e.type === EntityType.ATTRIB);
+      expect(attribs.map((e) => [e.attributeTag, e.text, e.start])).toEqual([["MARK", "KZ-1", { x: 105, y: 200 }]]);
+      expect(reread.entities[0].attributes).toEqual({ MARK: "KZ-1" });
+    });
+  });
+});
+
+describe("hexToAci", () => {
+  it("maps the standard colors back to their index", () => {
+    expect(["#FF0000", "#FFFF00", "#00FF00", "#00FFFF", "#0000FF", "#FF00FF", "#FFFFFF"].map(hexToAci)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("picks the nearest index for colors off the palette", () => {
+    expect(hexToAci("#F00808")).equal(1);
+    expect(hexToAci("0000F0")).equal(5);
+    for (let aci = 1; aci < 256; aci++) expect(aciToHex(hexToAci(aciToHex(aci)))).equal(aciToHex(aci));
+  });
+
+  it("falls back to 7 for unreadable colors", () => {
+    expect(hexToAci("not a color")).equal(7);
+  });
+});
+
+describe("XDATA", () => {
+  it("builds beam XDATA as name/value pairs and leaves out empty values", () => {
+    expect(buildBeamXData({ ID: "B-1", CODE: "KL1", SPAN: 2, WIDTH: 300, HEIGHT: null, NOTE: "" })).toEqual({
+      [BEAM_XDATA_APP]: [
+        { code: 1000, value: "ID" }, { code: 1000, value: "B-1" },
+        { code: 1000, value: "CODE" }, { code: 1000, value: "KL1" },
+        { code: 1000, value: "SPAN" }, { code: 1040, value: 2 },
+        { code: 1000, value: "WIDTH" }, { code: 1040, value: 300 },
+      ],
+    });
+  });
+
+  it("writes XDATA and registers its application in both versions", () => {
+    const beam: DxfEntity = {
+      type: EntityType.LWPOLYLINE,
+      layer: "BEAM_CALC",
+      vertices: [{ x: 0, y: 0 }, { x: 6000, y: 0 }],
+      xdata: {
+        ...buildBeamXData({ CODE: "KL1", NAME: "框架梁", WIDTH: 300 }),
+        OTHER: [{ code: 1010, value: { x: 1, y: 2 } }, { code: 1070, value: 3 }, { code: 1005, value: "1F" }],
+      },
+    };
+    (["R12", "R2000"] as DxfWriterVersion[]).forEach((version) => {
+      const text = writeDxf(drawing([beam]), { version });
+      expect(text).toContain("\\U+6846\\U+67B6\\U+6881");
+
+      expect(tableRecordNames(sections(text).TABLES, "APPID")).toEqual(["ACAD", BEAM_XDATA_APP, "OTHER"]);
+
+      const reread = parseDxf(text);
+      expect(reread.entities[0].xdata).toEqual({
+        [BEAM_XDATA_APP]: beam.xdata![BEAM_XDATA_APP],
+        OTHER: [{ code: 1010, value: { x: 1, y: 2 } }, { code: 1070, value: 3 }],
+      });
+    });
+  });
+});
+
+describe("text escapes", () => {
+  it("keeps literal backslashes and braces of MTEXT through a write and re-read", () => {
+    const text = "{ID} C:\\beams\\KL1";
+    const written = writeDxf(drawing([{ type: EntityType.MTEXT, layer: "0", text, start: { x: 0, y: 0 }, textHeight: 2.5 }]));
+    expect(sections(written).ENTITIES.find((p) => p.code === 1)?.value).equal("\\{ID\\} C:\\\\beams\\\\KL1");
+    expect(parseDxf(written).entities[0].text).equal(text);
+  });
+
+  it("strips MTEXT formatting but not escaped characters or private use text", () => {
+    const data = parseDxf([
+      "0", "SECTION", "2", "ENTITIES",
+      "0", "MTEXT", "8", "0", "10", "0", "20", "0", "40", "2.5",
+      "1", "{\\W0.8;\\{A\\}}\\P\\\\S1^2;%%d\uE001",
+      "0", "ENDSEC", "0", "EOF", "",
+    ].join("\n"));
+    expect(data.entities[0].text).equal("{A}\n\\S1^2;°{");
+  });
+
+  it("writes special characters as %% codes and other non-ASCII as \\U+ escapes", () => {
+    const written = writeDxf(drawing([{ type: EntityType.TEXT, layer: "0", text: "90° ±5 ø12 梁", start: { x: 0, y: 0 }, textHeight: 2.5 }]));
+    expect(sections(written).ENTITIES.find((p) => p.code === 1)?.value).equal("90%%d %%p5 %%c12 \\U+6881");
+    expect(parseDxf(written).entities[0].text).equal("90° ±5 ø12 梁");
+  });
+});
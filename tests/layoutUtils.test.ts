@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLayoutViewports,
+  getViewportModelBounds,
+  getViewportTransform,
+  modelToPaper,
+  paperToModel,
+  projectPaperSpaceToModel,
+} from "../utils/layoutUtils";
+import { calculateSplitRegions } from "../domains/structure/splitService";
+import { DxfData, DxfEntity, EntityType, ProjectFile, SemanticLayer } from "../types";
+
+const viewport = (overrides: Partial<DxfEntity>): DxfEntity => ({
+  type: EntityType.VIEWPORT,
+  layer: "VPORTS",
+  paperSpace: 1,
+  viewportId: 2,
+  viewportStatus: 1,
+  viewportWidth: 200,
+  viewportHeight: 100,
+  ...overrides,
+});
+
+// Viewport at (200, 150) on the sheet showing 10000 model units high around (5000, 5000), twisted 90°
+const twisted = viewport({
+  center: { x: 200, y: 150 },
+  viewHeight: 10000,
+  viewTarget: { x: 1000, y: 0 },
+  viewCenter: { x: 4000, y: 5000 },
+  twistAngle: 90,
+});
+
+// Viewport at (600, 150) at 1:1 around the origin
+const plain = viewport({ center: { x: 600, y: 150 }, viewHeight: 100, viewportId: 3 });
+
+const paperData = (entities: DxfEntity[], layers: string[]): DxfData => ({
+  entities,
+  layers,
+  layerDictionary: {},
+  blocks: {},
+  blockBasePoints: {},
+  layouts: [{ name: "Layout1", tabOrder: 1, blockName: "*Paper_Space" }],
+});
+
+const expectPoint = (actual: { x: number; y: number } | undefined, x: number, y: number) => {
+  expect(actual?.x).toBeCloseTo(x, 6);
+  expect(actual?.y).toBeCloseTo(y, 6);
+};
+
+describe("viewport transform", () => {
+  it("takes the scale from the viewport and view heights and the center relative to the target", () => {
+    expect(getViewportTransform(twisted)).toEqual({
+      paperCenter: { x: 200, y: 150 },
+      modelCenter: { x: 5000, y: 5000 },
+      scale: 0.01,
+      rotation: 90,
+    });
+  });
+
+  it("applies the view twist between model and paper, both ways", () => {
+    const t = getViewportTransform(twisted)!;
+    expectPoint(modelToPaper({ x: 5100, y: 5000 }, t), 200, 151);
+    expectPoint(modelToPaper({ x: 5000, y: 5100 }, t), 199, 150);
+    expectPoint(paperToModel({ x: 200, y: 151 }, t), 5100, 5000);
+    expectPoint(paperToModel(modelToPaper({ x: 1234, y: -567 }, t), t), 1234, -567);
+  });
+
+  it("bounds the model area of a twisted viewport", () => {
+    const b = getViewportModelBounds(twisted)!;
+    expectPoint({ x: b.minX, y: b.minY }, 0, -5000);
+    expectPoint({ x: b.maxX, y: b.maxY }, 10000, 15000);
+  });
+
+  it("leaves out the layout's own paper space viewport and switched off viewports", () => {
+    const data = paperData(
+      [twisted, plain, viewport({ center: { x: 0, y: 0 }, viewHeight: 1, viewportId: 1 }), viewport({ center: { x: 0, y: 0 }, viewHeight: 1, viewportStatus: 0 })],
+      ["VPORTS"]
+    );
+    expect(getLayoutViewports(data, data.layouts![0])).toEqual([twisted, plain]);
+  });
+});
+
+describe("projectPaperSpaceToModel", () => {
+  const data = paperData(
+    [
+      twisted,
+      plain,
+      { type: EntityType.TEXT, layer: "TITLE", paperSpace: 1, text: "PLAN", start: { x: 200, y: 95 }, textHeight: 3.5, radius: 3.5, startAngle: 0 },
+      { type: EntityType.LINE, layer: "TITLE", paperSpace: 1, start: { x: 190, y: 94 }, end: { x: 210, y: 94 } },
+      { type: EntityType.TEXT, layer: "TITLE", paperSpace: 1, text: "SECTION", start: { x: 600, y: 95 }, textHeight: 3.5, startAngle: 0 },
+      { type: EntityType.CIRCLE, layer: "TITLE", paperSpace: 1, center: { x: 200, y: 95 }, radius: 2 },
+      { type: EntityType.TEXT, layer: "NOTES", paperSpace: 1, text: "NOTE", start: { x: 200, y: 95 } },
+      { type: EntityType.TEXT, layer: "TITLE", text: "MODEL", start: { x: 0, y: 0 } },
+    ],
+    ["VPORTS", "TITLE", "NOTES"]
+  );
+  const projected = projectPaperSpaceToModel(data, ["TITLE"]);
+
+  it("maps text and lines of the target layers through the nearest viewport", () => {
+    expect(projected.map((e) => e.text ?? e.type)).toEqual(["PLAN", EntityType.LINE, "SECTION"]);
+    expect(projected.every((e) => e.paperSpace === 0)).equal(true);
+    expectPoint(projected[0].start, -500, 5000);
+    expectPoint(projected[1].start, -600, 6000);
+    expectPoint(projected[1].end, -600, 4000);
+    expectPoint(projected[2].start, 0, -55);
+  });
+
+  it("scales text height and takes the twist off the text angle", () => {
+    expect(projected[0].textHeight).toBeCloseTo(350, 6);
+    expect(projected[0].radius).toBeCloseTo(350, 6);
+    expect(projected[0].startAngle).equal(-90);
+    expect(projected[2].textHeight).equal(3.5);
+    expect(projected[2].startAngle).equal(0);
+  });
+});
+
+describe("split regions with layout titles", () => {
+  const emptyConfig = Object.fromEntries(Object.values(SemanticLayer).map((l) => [l, [] as string[]])) as unknown as Record<SemanticLayer, string[]>;
+
+  const project = (entities: DxfEntity[]): ProjectFile => {
+    const data = paperData(entities, ["AXIS", "TITLE", "VPORTS"]);
+    return {
+      id: "layout-titles",
+      name: "layout-titles.dxf",
+      data,
+      activeLayers: new Set(data.layers),
+      filledLayers: new Set(),
+      layerConfig: { ...emptyConfig, [SemanticLayer.AXIS]: ["AXIS"], [SemanticLayer.VIEWPORT_TITLE]: ["TITLE"] },
+      splitRegions: null,
+    };
+  };
+
+  const axes: DxfEntity[] = [
+    { type: EntityType.LINE, layer: "AXIS", start: { x: 0, y: 0 }, end: { x: 10000, y: 0 } },
+    { type: EntityType.LINE, layer: "AXIS", start: { x: 0, y: 0 }, end: { x: 0, y: 10000 } },
+  ];
+  // 1:100 viewport centred on the axes; the underlined title sits just below it on the sheet
+  const sheet: DxfEntity[] = [
+    viewport({ center: { x: 200, y: 150 }, viewHeight: 10000, viewCenter: { x: 5000, y: 5000 } }),
+    { type: EntityType.TEXT, layer: "TITLE", paperSpace: 1, text: "PLAN", start: { x: 150, y: 90 }, radius: 5 },
+    { type: EntityType.LINE, layer: "TITLE", paperSpace: 1, start: { x: 148, y: 88 }, end: { x: 200, y: 88 } },
+  ];
+
+  it("finds a title drawn under the viewport on the sheet", () => {
+    const result = calculateSplitRegions(project([...axes, ...sheet]), true);
+    expect(result?.regions.map((r) => r.title)).toEqual(["PLAN"]);
+  });
+
+  it("falls back to a numbered block without the layout title", () => {
+    const result = calculateSplitRegions(project([...axes, sheet[0]]), true);
+    expect(result?.regions.map((r) => r.title)).toEqual(["BLOCK 1"]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { jsPDF } from "jspdf";
+import { fitSheetText, getSheetTextWidth, renderSheetSetToPdf } from "../utils/pdfExport";
+import { createUnitContext } from "../utils/units";
+import { DxfData, EntityType } from "../types";
+
+describe("sheet text fitting", () => {
+  const pdf = new jsPDF({ unit: "mm" });
+
+  it("keeps text that fits", () => {
+    expect(fitSheetText(pdf, "PLAN", 50, 8)).toBe("PLAN");
+  });
+
+  it("cuts long text to the width and marks the cut", () => {
+    const title = "GROUND FLOOR FRAMING PLAN, GRIDS A TO K";
+    const fitted = fitSheetText(pdf, title, 30, 12, true);
+    expect(fitted.endsWith("...")).toBe(true);
+    expect(title.startsWith(fitted.slice(0, -3))).toBe(true);
+    expect(getSheetTextWidth(pdf, fitted, 12, true)).toBeLessThanOrEqual(30);
+    // One more character would not fit
+    expect(getSheetTextWidth(pdf, `${title.slice(0, fitted.length - 2)}...`, 12, true)).toBeGreaterThan(30);
+  });
+
+  it("returns nothing when not even the mark fits", () => {
+    expect(fitSheetText(pdf, "PLAN", 0.5, 8)).toBe("");
+  });
+});
+
+describe("renderSheetSetToPdf", () => {
+  it("cuts a long region title to its title strip cell", () => {
+    const data: DxfData = {
+      entities: [{ type: EntityType.LINE, layer: "WALL", start: { x: 0, y: 0 }, end: { x: 10000, y: 5000 } }],
+      layers: ["WALL"],
+      layerDictionary: {},
+      blocks: {},
+      blockBasePoints: {},
+    };
+    const title = "GROUND FLOOR FRAMING PLAN BETWEEN GRIDS A AND K, WITH THE STAIR CORE AND THE LIFT SHAFT OPENINGS";
+    const { pdf } = renderSheetSetToPdf({
+      data,
+      activeLayers: new Set(["WALL"]),
+      layerColors: { WALL: "#FF0000" },
+      units: createUnitContext(4),
+      regions: [{ title, bounds: { minX: 0, minY: 0, maxX: 10000, maxY: 5000 }, info: null }],
+      fileName: "plan.dxf",
+      plot: { paperSize: "A4", orientation: "landscape", scale: 0 },
+    });
+    const output = pdf.output();
+    expect(output).not.toContain(title);
+    expect(output).toMatch(/\(GROUND FLOOR FRAMING PLAN[^)]*\.\.\.\) Tj/);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+  layoutReport,
+  renderReportToHtml,
+  renderReportToPdf,
+  ReportDataset,
+  ReportDocument,
+  ReportSection,
+  ReportTemplate,
+  validateReportTemplate,
+} from "../utils/reportEngine";
+
+const dataset: ReportDataset = {
+  fields: {
+    id: { label: "ID", kind: "integer" },
+    region: { label: "Region", kind: "text" },
+    code: { label: "Code", kind: "text" },
+    section: { label: "Section", kind: "text" },
+    length: { label: "Len", kind: "length" },
+    area: { label: "Area", kind: "area" },
+    volume: { label: "Vol", kind: "volume" },
+  },
+  rows: [
+    { id: 1, region: "Region 1", code: "KL1", section: "250x600", length: 6000, area: 1.5e6, volume: 9e8 },
+    { id: 2, region: "Region 2", code: "KL1", section: "250x600", length: 3000, area: 7.5e5, volume: 4.5e8 },
+    { id: 3, region: "Region 1", code: "KL2", section: "200x500", length: 5000, area: 1e6, volume: 5e8 },
+    { id: 4, region: "Region 1", code: "KL1", section: "250x640", length: 1000, area: 2.5e5, volume: 1.6e8 },
+  ],
+};
+
+const template = (sections: ReportSection[], extra: Partial<ReportTemplate> = {}): ReportTemplate => ({
+  id: "test",
+  name: "Test Report",
+  title: "Beams",
+  sections,
+  ...extra,
+});
+
+const layout = (sections: ReportSection[], extra: Partial<ReportTemplate> = {}) =>
+  layoutReport(template(sections, extra), dataset, { project: "tower.dxf", units: "MM", date: "2026-01-02" });
+
+// Rows as [kind, level, ...cell texts]
+const rowTexts = (doc: ReportDocument, block = 0) =>
+  doc.blocks[block].rows.map((r) => [r.kind, r.level, ...r.cells.map((c) => c.text)]);
+
+describe("layoutReport", () => {
+  it("nests groups with subtotals and a grand total", () => {
+    const doc = layout([{
+      groupBy: ["region", "code"],
+      columns: [{ field: "id" }, { field: "code" }, { field: "length", aggregate: "sum" }],
+      subtotals: true,
+      grandTotal: true,
+    }]);
+
+    expect(doc.blocks[0].columns.map((c) => [c.label, c.align])).toEqual([
+      ["ID", "right"],
+      ["Code", "left"],
+      ["Len (mm)", "right"],
+    ]);
+    expect(rowTexts(doc)).toEqual([
+      ["group", 0, "Region 1"],
+      ["group", 1, "KL1"],
+      ["row", 2, "1", "KL1", "6000"],
+      ["row", 2, "4", "KL1", "1000"],
+      ["subtotal", 1, "KL1 Subtotal", "", "7000"],
+      ["group", 1, "KL2"],
+      ["row", 2, "3", "KL2", "5000"],
+      ["subtotal", 1, "KL2 Subtotal", "", "5000"],
+      ["subtotal", 0, "Region 1 Subtotal", "", "12000"],
+      ["group", 0, "Region 2"],
+      ["group", 1, "KL1"],
+      ["row", 2, "2", "KL1", "3000"],
+      ["subtotal", 1, "KL1 Subtotal", "", "3000"],
+      ["subtotal", 0, "Region 2 Subtotal", "", "3000"],
+      ["total", 0, "Total", "", "15000"],
+    ]);
+    const total = doc.blocks[0].rows[doc.blocks[0].rows.length - 1];
+    expect(total.labelIndex).toBe(0);
+    expect(total.cells[2].value).toBe(15000);
+  });
+
+  it("orders groups by the section sort and filters rows first", () => {
+    const doc = layout([{
+      filters: [{ field: "length", op: "gte", value: 3000 }],
+      groupBy: ["region"],
+      sort: [{ field: "region", desc: true }, { field: "length" }],
+      columns: [{ field: "id" }],
+    }]);
+
+    expect(rowTexts(doc)).toEqual([
+      ["group", 0, "Region 2"],
+      ["row", 1, "2"],
+      ["group", 0, "Region 1"],
+      ["row", 1, "3"],
+      ["row", 1, "1"],
+    ]);
+  });
+
+  it("summarizes the innermost groups, keeping only values the whole group shares", () => {
+    const doc = layout([{
+      groupBy: ["code"],
+      summarize: true,
+      columns: [
+        { field: "code" },
+        { field: "section" },
+        { field: "id", aggregate: "count" },
+        { field: "section", label: "Sections", aggregate: "distinct" },
+        { field: "length", aggregate: "max" },
+        { field: "volume", aggregate: "sum" },
+      ],
+      grandTotal: true,
+    }]);
+
+    expect(doc.blocks[0].columns.map((c) => c.label)).toEqual(["Code", "Section", "Count", "Sections", "Len (mm)", "Vol (m3)"]);
+    expect(rowTexts(doc)).toEqual([
+      ["row", 0, "KL1", "", "3", "250x600; 250x640", "6000", "1.510"],
+      ["row", 0, "KL2", "200x500", "1", "200x500", "5000", "0.500"],
+      ["total", 0, "Total", "", "4", "250x600; 250x640; 200x500", "6000", "2.010"],
+    ]);
+  });
+
+  it("fills placeholders, with {sum:field} in report units", () => {
+    const doc = layout([{ title: "{template} for {project}", text: "{count} beams, {nope}", columns: [{ field: "id" }] }], {
+      title: "{sum:length} of beams",
+      subtitle: "Volume {sum:volume} ({units}, {date})",
+    });
+
+    expect(doc.title).toBe("15000 mm of beams");
+    expect(doc.subtitle).toBe("Volume 2.010 m3 (Metric (mm / m3), 2026-01-02)");
+    expect(doc.blocks[0].title).toBe("Test Report for tower.dxf");
+    expect(doc.blocks[0].text).toBe("4 beams, {nope}");
+    expect(layoutReport(template([{ columns: [{ field: "id" }] }], { title: "{sum:length}" }), dataset, {
+      project: "tower.dxf",
+      units: "M",
+    }).title).toBe("15.000 m");
+  });
+
+  it("prints areas in square report units", () => {
+    const doc = layout([{ groupBy: ["code"], summarize: true, columns: [{ field: "code" }, { field: "area", aggregate: "sum" }] }], {
+      subtitle: "{sum:area}",
+    });
+
+    expect(doc.subtitle).toBe("3.500 m2");
+    expect(doc.blocks[0].columns[1].label).toBe("Area (m2)");
+    expect(rowTexts(doc)).toEqual([
+      ["row", 0, "KL1", "2.500"],
+      ["row", 0, "KL2", "1.000"],
+    ]);
+    expect(layoutReport(template([{ columns: [{ field: "area" }] }]), dataset, { project: "tower.dxf", units: "FT" })
+      .blocks[0].columns[0].label).toBe("Area (ft2)");
+  });
+
+  it("numbers pages in PDF headers and footers", () => {
+    const doc = layout([
+      { title: "First", columns: [{ field: "id" }] },
+      { title: "Second", columns: [{ field: "id" }], pageBreakBefore: true },
+    ], { header: { right: "{project}" }, footer: { center: "Page {page} of {pages}" } });
+
+    const output = renderReportToPdf(doc).output();
+    expect(output).toContain("(Page 1 of 2) Tj");
+    expect(output).toContain("(Page 2 of 2) Tj");
+    expect(output).toContain("(tower.dxf) Tj");
+
+    // Browsers number printed pages themselves
+    const html = renderReportToHtml(doc);
+    expect(html).not.toContain("{page}");
+    expect(html).not.toContain("Page ");
+    expect(html).toContain('<span class="right">tower.dxf</span>');
+  });
+});
+
+describe("validateReportTemplate", () => {
+  const valid = template([{ groupBy: ["code"], summarize: true, columns: [{ field: "code" }, { field: "length", aggregate: "sum" }] }]);
+
+  it("accepts a valid template", () => {
+    expect(validateReportTemplate(valid, dataset.fields)).toEqual([]);
+  });
+
+  it("rejects values that are not templates", () => {
+    expect(validateReportTemplate(null, dataset.fields)).toEqual(["Template must be a JSON object."]);
+    expect(validateReportTemplate("report", dataset.fields)).toEqual(["Template must be a JSON object."]);
+    expect(validateReportTemplate({}, dataset.fields)).toEqual([
+      'Missing "id".',
+      'Missing "name".',
+      'Missing "title".',
+      "Template needs at least one section.",
+    ]);
+  });
+
+  it("reports unknown fields, aggregates, filters and paper", () => {
+    const errors = validateReportTemplate({
+      ...valid,
+      paper: { size: "B7", orientation: "portrait" },
+      sections: [{
+        groupBy: ["floor"],
+        sort: [{ field: "weight" }],
+        filters: [{ field: "code", op: "like", value: "KL" }],
+        columns: [{ field: "code", aggregate: "median" }, { field: "mass" }],
+      }],
+    }, dataset.fields);
+
+    expect(errors).toEqual([
+      'Unknown paper size "B7".',
+      'Section 1: unknown aggregate "median".',
+      'Section 1: unknown field "mass".',
+      'Section 1 groupBy: unknown field "floor".',
+      'Section 1 sort: unknown field "weight".',
+      'Section 1: unknown filter "like".',
+    ]);
+  });
+
+  it("rejects summarize without a group", () => {
+    const summarize = { summarize: true, columns: [{ field: "code" }] };
+    expect(validateReportTemplate(template([summarize]), dataset.fields)).toEqual([
+      'Section 1: "summarize" needs at least one groupBy field.',
+    ]);
+    expect(validateReportTemplate(template([{ ...summarize, groupBy: [] }]), dataset.fields)).toEqual([
+      'Section 1: "summarize" needs at least one groupBy field.',
+    ]);
+  });
+
+  it("reports malformed sections instead of throwing", () => {
+    const errors = validateReportTemplate({
+      ...valid,
+      sections: [null, { columns: [] }, { columns: [null, { field: "code" }], groupBy: "code", sort: 5, filters: [7] }],
+    }, dataset.fields);
+
+    expect(errors).toEqual([
+      "Section 1: must be an object.",
+      "Section 2: needs at least one column.",
+      "Section 3 columns entries must be objects.",
+      "Section 3 groupBy must be a list.",
+      "Section 3 sort must be a list.",
+      "Section 3 filters entries must be objects.",
+    ]);
+  });
+});
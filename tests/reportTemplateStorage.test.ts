@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ReportFieldDef, ReportTemplate } from "../utils/reportEngine";
+import { getStoredReportTemplates, removeStoredReportTemplate } from "../utils/reportTemplateStorage";
+
+const STORAGE_KEY = "DXF_VISTA_REPORT_TEMPLATES";
+
+const fields: Record<string, ReportFieldDef> = {
+  code: { label: "Code", kind: "text" },
+  length: { label: "Len", kind: "length" },
+};
+
+const template = (id: string, field = "code"): ReportTemplate => ({
+  id,
+  name: id,
+  title: id,
+  sections: [{ columns: [{ field }] }],
+});
+
+describe("stored report templates", () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("offers only templates that validate against the report's fields", () => {
+    store.set(STORAGE_KEY, JSON.stringify([template("ok"), template("renamed", "span"), { id: "broken" }, null]));
+    expect(getStoredReportTemplates(fields).map((t) => t.id)).toEqual(["ok"]);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores storage that is not a template list", () => {
+    store.set(STORAGE_KEY, JSON.stringify({ id: "ok" }));
+    expect(getStoredReportTemplates(fields)).toEqual([]);
+    store.set(STORAGE_KEY, "{not json");
+    expect(getStoredReportTemplates(fields)).toEqual([]);
+  });
+
+  it("keeps templates it does not offer when one is removed", () => {
+    store.set(STORAGE_KEY, JSON.stringify([template("a"), template("b"), template("other", "span")]));
+    expect(removeStoredReportTemplate("a", fields).map((t) => t.id)).toEqual(["b"]);
+    expect(JSON.parse(store.get(STORAGE_KEY)!).map((t: ReportTemplate) => t.id)).toEqual(["b", "other"]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "zlib";
+import { SpreadsheetSheet, writeCsv, writeXlsx } from "../utils/spreadsheetExport";
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// Reads a stored ZIP through its central directory, checking every header against the other
+const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralStart = view.getUint32(end + 16, true);
+  expect(view.getUint16(end + 8, true)).toBe(count);
+  expect(centralStart + centralSize).toBe(end);
+
+  const entries: ZipEntry[] = [];
+  let pos = centralStart;
+  let expectedOffset = 0;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    expect(flags & 0x0800).toBe(0x0800);
+    expect(method).toBe(0);
+    expect(view.getUint32(pos + 24, true)).toBe(size);
+
+    // Local headers follow each other in central directory order
+    expect(offset).toBe(expectedOffset);
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+    expect(decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength))).toBe(name);
+
+    const dataStart = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+    entries.push({ name, data });
+
+    expectedOffset = dataStart + size;
+    pos += 46 + nameLength;
+  }
+  expect(expectedOffset).toBe(centralStart);
+  return entries;
+};
+
+const xlsxParts = (sheets: SpreadsheetSheet[]): Record<string, string> => {
+  const decoder = new TextDecoder();
+  return Object.fromEntries(readZip(writeXlsx(sheets)).map((e) => [e.name, decoder.decode(e.data)]));
+};
+
+const sheet = (name: string, rows: SpreadsheetSheet["rows"] = [["KL1", 2]]): SpreadsheetSheet => ({
+  name,
+  headers: ["Code", "Count"],
+  rows,
+});
+
+describe("writeCsv", () => {
+  it("starts with a BOM and ends every row with CRLF", () => {
+    const csv = writeCsv({ name: "Beams", headers: ["Code", "Length"], rows: [["KL1", 6000], ["框梁", null]] });
+    expect(csv).toBe("\uFEFFCode,Length\r\nKL1,6000\r\n框梁,\r\n");
+  });
+
+  it("quotes fields with commas, quotes or line breaks", () => {
+    const csv = writeCsv({
+      name: "Beams",
+      headers: ["Label"],
+      rows: [["KL1(2) 250x600"], ["a,b"], ['say "hi"'], ["two\nlines"], ["cr\rhere"]],
+    });
+    expect(csv.slice(1).split("\r\n")).toEqual([
+      "Label",
+      "KL1(2) 250x600",
+      '"a,b"',
+      '"say ""hi"""',
+      '"two\nlines"',
+      '"cr\rhere"',
+      "",
+    ]);
+  });
+});
+
+describe("writeXlsx", () => {
+  it("writes a valid stored ZIP with one worksheet per sheet", () => {
+    const parts = xlsxParts([sheet("Beams"), sheet("Summary")]);
+    expect(Object.keys(parts)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(parts["[Content_Types].xml"]).toContain('PartName="/xl/worksheets/sheet2.xml"');
+    expect(parts["xl/_rels/workbook.xml.rels"]).toContain('Target="worksheets/sheet2.xml"');
+  });
+
+  it("writes numbers as values and text inline, escaped", () => {
+    const parts = xlsxParts([sheet("Beams", [["A&B <x>", 3], [null, Infinity]])]);
+    const xml = parts["xl/worksheets/sheet1.xml"];
+    expect(xml).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Code</t></is></c>');
+    expect(xml).toContain('<t xml:space="preserve">A&amp;B &lt;x&gt;</t>');
+    expect(xml).toContain('<c r="B2"><v>3</v></c>');
+    expect(xml).toContain('<row r="3"></row>');
+  });
+
+  it("makes sheet names valid and unique", () => {
+    const parts = xlsxParts([
+      sheet("Beams [1/2]: *draft?*"),
+      sheet("A sheet name well over thirty-one characters"),
+      sheet("beams [1/2]: *DRAFT?*"),
+      sheet(" :? "),
+    ]);
+    const names = [...parts["xl/workbook.xml"].matchAll(/<sheet name="([^"]*)"/g)].map((m) => m[1]);
+    expect(names).toEqual([
+      "Beams  1 2    draft",
+      "A sheet name well over thirty-o",
+      "beams  1 2    DRAFT~2",
+      "Sheet4",
+    ]);
+    names.forEach((name) => expect(name.length).toBeLessThanOrEqual(31));
+  });
+
+  it("keeps footer rows out of the filter range", () => {
+    const parts = xlsxParts([
+      sheet("Detail", [["KL1", 2], ["KL2", 1]]),
+      { ...sheet("Summary", [["KL1", 2], ["KL2", 1], ["Total", 3]]), footerRows: 1 },
+    ]);
+    expect(parts["xl/worksheets/sheet1.xml"]).toContain('<autoFilter ref="A1:B3"/>');
+    expect(parts["xl/worksheets/sheet2.xml"]).toContain('<autoFilter ref="A1:B3"/>');
+    expect(parts["xl/worksheets/sheet2.xml"]).toContain('<row r="4">');
+    expect(parts["xl/workbook.xml"]).toContain("'Summary'!$A$1:$B$3</definedName>");
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, expect, it } from "vitest";
+import { BeamStep4TopologyInfo, Bounds, ColumnInfo, Point, ProjectFile, SemanticLayer, ViewportRegion, WallInfo } from "../types";
+import { buildStructureIfc } from "../domains/structure/ifcExportService";
+import {
+  buildStructureModel,
+  getFaceNormal,
+  StructureMesh,
+  triangulateFace,
+  Vec3,
+  writeStructureGltf,
+  writeStructureObj,
+} from "../domains/structure/modelExportService";
+
+const layerConfig = (): Record<SemanticLayer, string[]> => ({
+  [SemanticLayer.AXIS]: [],
+  [SemanticLayer.AXIS_OTHER]: [],
+  [SemanticLayer.COLUMN]: [],
+  [SemanticLayer.WALL]: [],
+  [SemanticLayer.BEAM]: [],
+  [SemanticLayer.BEAM_LABEL]: [],
+  [SemanticLayer.BEAM_IN_SITU_LABEL]: [],
+  [SemanticLayer.VIEWPORT_TITLE]: [],
+});
+
+const project = (parts: Partial<ProjectFile>): ProjectFile => ({
+  id: "structure",
+  name: "structure.dxf",
+  data: { entities: [], layers: [], layerDictionary: {}, blocks: {}, blockBasePoints: {} },
+  activeLayers: new Set(),
+  filledLayers: new Set(),
+  layerConfig: layerConfig(),
+  splitRegions: null,
+  drawingUnits: 4,
+  ...parts,
+});
+
+const region = (title: string, minX: number): ViewportRegion => ({
+  title,
+  bounds: { minX, minY: 0, maxX: minX + 10000, maxY: 10000 },
+  info: null,
+});
+
+const boundsOf = (pts: Point[]): Bounds => ({
+  minX: Math.min(...pts.map((p) => p.x)),
+  minY: Math.min(...pts.map((p) => p.y)),
+  maxX: Math.max(...pts.map((p) => p.x)),
+  maxY: Math.max(...pts.map((p) => p.y)),
+});
+
+const column = (id: string, x: number, y: number): ColumnInfo => ({
+  id,
+  layer: "COLU",
+  bounds: { minX: x - 250, minY: y - 250, maxX: x + 250, maxY: y + 250 },
+  width: 500,
+  height: 500,
+  center: { x, y },
+});
+
+const wall = (id: string, vertices: Point[], thickness: number): WallInfo => {
+  const bounds = boundsOf(vertices);
+  return {
+    id,
+    layer: "WALL",
+    bounds,
+    thickness,
+    center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+    vertices,
+  };
+};
+
+const beam = (id: string, x: number, y: number, height: number): BeamStep4TopologyInfo => ({
+  id,
+  layer: "BEAM",
+  shape: "rect",
+  vertices: [{ x, y }, { x: x + 4000, y }, { x: x + 4000, y: y + 250 }, { x, y: y + 250 }],
+  bounds: { startX: x, startY: y, endX: x + 4000, endY: y + 250 },
+  beamIndex: 1,
+  code: "KL1",
+  span: "2",
+  width: 250,
+  height,
+  rawLabel: "KL1(2) 250x600",
+  length: 4000,
+  volume: 4000 * 250 * height,
+  parentBeamIndex: 1,
+});
+
+// STEP instances keyed by their #id
+const parseInstances = (text: string): Map<string, string> => {
+  const instances = new Map<string, string>();
+  text.split("\n").forEach((line) => {
+    const match = /^(#\d+)=(.*);$/.exec(line);
+    if (match) instances.set(match[1], match[2]);
+  });
+  return instances;
+};
+
+const countOf = (text: string, type: string) => text.split("\n").filter((line) => line.includes(`=${type}(`)).length;
+
+// Element types contained in each storey, keyed by storey name
+const containment = (text: string): Record<string, string[]> => {
+  const instances = parseInstances(text);
+  const result: Record<string, string[]> = {};
+  instances.forEach((body) => {
+    const match = /^IFCRELCONTAINEDINSPATIALSTRUCTURE\(.*,\(([^)]*)\),(#\d+)\)$/.exec(body);
+    if (!match) return;
+    const storey = /^IFCBUILDINGSTOREY\('[^']*',\$,'([^']*)'/.exec(instances.get(match[2]) || "");
+    result[storey![1]] = match[1].split(",").map((ref) => instances.get(ref)!.split("(")[0]).sort();
+  });
+  return result;
+};
+
+describe("buildStructureIfc", () => {
+  it("returns null without any structure", () => {
+    expect(buildStructureIfc(project({}))).toBeNull();
+  });
+
+  it("writes one element per column, wall and beam", () => {
+    const result = buildStructureIfc(project({
+      columns: [column("C1", 0, 0), column("C2", 6000, 0)],
+      walls: [wall("W1", [{ x: 0, y: 0 }, { x: 6000, y: 0 }, { x: 6000, y: 200 }, { x: 0, y: 200 }], 200)],
+      beamStep4TopologyInfos: [beam("B1", 0, 3000, 600), beam("B2", 0, 6000, 0)],
+    }))!;
+
+    expect(result).toMatchObject({ storeys: 1, beams: 2, columns: 2, walls: 1 });
+    expect(countOf(result.text, "IFCCOLUMN")).toBe(2);
+    expect(countOf(result.text, "IFCWALL")).toBe(1);
+    expect(countOf(result.text, "IFCBEAM")).toBe(2);
+    expect(result.text.startsWith("ISO-10303-21;\n")).toBe(true);
+    expect(result.text).toContain("FILE_SCHEMA(('IFC4'));");
+  });
+
+  it("puts elements without regions on a single storey", () => {
+    const result = buildStructureIfc(project({
+      columns: [column("C1", 0, 0)],
+      beamStep4TopologyInfos: [beam("B1", 0, 3000, 600)],
+    }))!;
+
+    expect(containment(result.text)).toEqual({ "Level 1": ["IFCBEAM", "IFCCOLUMN"] });
+  });
+
+  it("contains each element in the storey of the region holding it", () => {
+    const result = buildStructureIfc(project({
+      splitRegions: [region("1F", 0), region("2F", 20000)],
+      columns: [column("C1", 1000, 1000), column("C2", 21000, 1000), column("C3", 50000, 1000)],
+      walls: [wall("W1", [{ x: 20500, y: 500 }, { x: 25000, y: 500 }, { x: 25000, y: 700 }, { x: 20500, y: 700 }], 200)],
+      beamStep4TopologyInfos: [beam("B1", 1000, 3000, 600)],
+    }))!;
+
+    expect(result.storeys).toBe(3);
+    expect(containment(result.text)).toEqual({
+      "1F": ["IFCBEAM", "IFCCOLUMN"],
+      "2F": ["IFCCOLUMN", "IFCWALL"],
+      Unassigned: ["IFCCOLUMN"],
+    });
+    // Storeys stack in region order
+    expect(result.text).toMatch(/IFCBUILDINGSTOREY\([^)]*'2F'.*,3000\.\)/);
+  });
+
+  it("writes beams without a section depth at the nominal depth, flagged unsized", () => {
+    const result = buildStructureIfc(project({ beamStep4TopologyInfos: [beam("B1", 0, 3000, 600), beam("B2", 0, 6000, 0)] }))!;
+
+    const solids = result.text.split("\n").filter((line) => line.includes("=IFCEXTRUDEDAREASOLID("));
+    expect(solids.map((line) => /,([\d.]+)\);$/.exec(line)![1])).toEqual(["600.", "300."]);
+    expect(result.text.match(/IFCPROPERTYSINGLEVALUE\('Unsized',\$,IFCBOOLEAN\((\.[TF]\.)\)/g)).toEqual([
+      "IFCPROPERTYSINGLEVALUE('Unsized',$,IFCBOOLEAN(.F.)",
+      "IFCPROPERTYSINGLEVALUE('Unsized',$,IFCBOOLEAN(.T.)",
+    ]);
+    expect(result.text).toContain("IFCPROPERTYSINGLEVALUE('Height',$,IFCPOSITIVELENGTHMEASURE(300.),$)");
+  });
+
+  it("extrudes walls at an angle from their outline rather than their bounds", () => {
+    // A 200 thick wall at 45 degrees; its bounds box is several metres wide
+    const c = Math.SQRT1_2 * 200;
+    const outline = [{ x: 0, y: 0 }, { x: 3000, y: 3000 }, { x: 3000 - c, y: 3000 + c }, { x: -c, y: c }];
+    const result = buildStructureIfc(project({ walls: [wall("W1", outline, 200)] }))!;
+
+    const instances = parseInstances(result.text);
+    const profile = [...instances.values()].find((body) => body.startsWith("IFCARBITRARYCLOSEDPROFILEDEF"))!;
+    const polyline = instances.get(/(#\d+)\)$/.exec(profile)![1])!;
+    const refs = /^IFCPOLYLINE\(\((.*)\)\)$/.exec(polyline)![1].split(",");
+    const points = refs.map((ref) => {
+      const coords = /^IFCCARTESIANPOINT\(\((.*)\)\)$/.exec(instances.get(ref)!)![1].split(",");
+      return { x: parseFloat(coords[0]), y: parseFloat(coords[1]) };
+    });
+
+    // Closed, four corners, relative to the wall center
+    expect(points).toHaveLength(5);
+    expect(points[4]).toEqual(points[0]);
+    const center = { x: (3000 - c) / 2, y: (3000 + c) / 2 };
+    points.slice(0, 4).forEach((p, i) => {
+      expect(p.x).toBeCloseTo(outline[i].x - center.x, 3);
+      expect(p.y).toBeCloseTo(outline[i].y - center.y, 3);
+    });
+    expect(result.text).not.toContain("IFCRECTANGLEPROFILEDEF(.AREA.,$,#");
+  });
+});
+
+const centroid = (vertices: Vec3[], indices: number[]): Vec3 => ({
+  x: indices.reduce((sum, i) => sum + vertices[i].x, 0) / indices.length,
+  y: indices.reduce((sum, i) => sum + vertices[i].y, 0) / indices.length,
+  z: indices.reduce((sum, i) => sum + vertices[i].z, 0) / indices.length,
+});
+
+// Every face of a convex prism points away from its center
+const expectOutward = (mesh: StructureMesh) => {
+  const center = centroid(mesh.vertices, mesh.vertices.map((_, i) => i));
+  mesh.faces.forEach((face) => {
+    const n = getFaceNormal(mesh.vertices, face);
+    const c = centroid(mesh.vertices, face);
+    expect(n.x * (c.x - center.x) + n.y * (c.y - center.y) + n.z * (c.z - center.z)).toBeGreaterThan(0);
+  });
+};
+
+const area2d = (pts: { x: number; y: number }[]) =>
+  pts.reduce((sum, a, i) => {
+    const b = pts[(i + 1) % pts.length];
+    return sum + (a.x * b.y - b.x * a.y) / 2;
+  }, 0);
+
+describe("buildStructureModel", () => {
+  it("winds faces outward whichever way the footprint runs", () => {
+    const ccw = [{ x: 0, y: 0 }, { x: 3000, y: 0 }, { x: 3000, y: 200 }, { x: 0, y: 200 }];
+    const model = buildStructureModel(project({
+      walls: [wall("CCW", ccw, 200), wall("CW", [...ccw].reverse(), 200)],
+    }), { storeyHeight: 2800 })!;
+
+    expect(model.meshes).toHaveLength(2);
+    model.meshes.forEach((mesh) => {
+      expect(mesh.faces).toHaveLength(6);
+      expectOutward(mesh);
+      const bottom = getFaceNormal(mesh.vertices, mesh.faces[0]);
+      const top = getFaceNormal(mesh.vertices, mesh.faces[1]);
+      expect(bottom.z).toBeCloseTo(-1);
+      expect(top.z).toBeCloseTo(1);
+    });
+    expect(model.min).toEqual({ x: 0, y: 0, z: 0 });
+    expect(model.max).toEqual({ x: 3000, y: 200, z: 2800 });
+  });
+
+  it("stacks storeys and hangs beams from the storey top", () => {
+    const model = buildStructureModel(project({
+      splitRegions: [region("1F", 0), region("2F", 20000)],
+      columns: [column("C1", 1000, 1000)],
+      beamStep4TopologyInfos: [beam("B1", 21000, 3000, 600)],
+    }), { storeyHeight: 3000 })!;
+
+    expect(model.storeys).toEqual(["1F", "2F"]);
+    const [col, bm] = model.meshes;
+    expect(col.storey).toBe(0);
+    expect(Math.min(...col.vertices.map((v) => v.z))).toBe(0);
+    expect(bm.storey).toBe(1);
+    expect(bm.vertices.map((v) => v.z).sort((a, b) => a - b)[0]).toBe(5400);
+    expect(Math.max(...bm.vertices.map((v) => v.z))).toBe(6000);
+    // Storey-local plan position
+    expect(Math.min(...bm.vertices.map((v) => v.x))).toBe(1000);
+  });
+});
+
+describe("triangulateFace", () => {
+  it("keeps concave footprints inside their outline", () => {
+    // An L whose reflex corner breaks a plain fan from vertex 0
+    const plan = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 4 }, { x: 0, y: 4 }];
+    const vertices = plan.map((p) => ({ ...p, z: 0 }));
+    const face = [2, 3, 4, 5, 0, 1];
+
+    const triangles = triangulateFace(vertices, face);
+    expect(triangles).toHaveLength(face.length - 2);
+    let total = 0;
+    triangles.forEach((t) => {
+      const pts = t.map((k) => vertices[face[k]]);
+      const area = area2d(pts);
+      // Same winding as the face, so no triangle flips
+      expect(area).toBeGreaterThan(0);
+      total += area;
+    });
+    expect(total).toBeCloseTo(area2d(plan));
+  });
+
+  it("keeps the winding of clockwise faces", () => {
+    const vertices = [{ x: 0, y: 0 }, { x: 0, y: 4 }, { x: 1, y: 4 }, { x: 1, y: 1 }, { x: 4, y: 1 }, { x: 4, y: 0 }]
+      .map((p) => ({ ...p, z: 5 }));
+    const face = vertices.map((_, i) => i);
+
+    const triangles = triangulateFace(vertices, face);
+    expect(triangles).toHaveLength(4);
+    triangles.forEach((t) => expect(area2d(t.map((k) => vertices[k]))).toBeLessThan(0));
+  });
+
+  it("triangulates vertical faces", () => {
+    const vertices = [{ x: 0, y: 0, z: 0 }, { x: 2, y: 0, z: 0 }, { x: 2, y: 0, z: 3 }, { x: 0, y: 0, z: 3 }];
+    const triangles = triangulateFace(vertices, [0, 1, 2, 3]);
+    expect(triangles).toHaveLength(2);
+    triangles.forEach((t) => {
+      const n = getFaceNormal(vertices, t);
+      expect(n.y).toBeCloseTo(-1);
+    });
+  });
+});
+
+describe("structure model writers", () => {
+  const model = () => buildStructureModel(project({
+    columns: [column("C1", 1234.567, 0), column("C2", 6000, 0)],
+    beamStep4TopologyInfos: [beam("B1", 0, 3000, 600)],
+  }))!;
+
+  it("numbers OBJ vertices and normals from 1 across all objects", () => {
+    const text = writeStructureObj(model(), "frame");
+    const lines = text.trim().split("\n");
+    const objects: { v: number; vn: number; f: string[] }[] = [];
+    lines.forEach((line) => {
+      if (line.startsWith("o ")) objects.push({ v: 0, vn: 0, f: [] });
+      else if (line.startsWith("v ")) objects[objects.length - 1].v++;
+      else if (line.startsWith("vn ")) objects[objects.length - 1].vn++;
+      else if (line.startsWith("f ")) objects[objects.length - 1].f.push(line);
+    });
+
+    expect(objects).toHaveLength(3);
+    let vertexBase = 1;
+    let normalBase = 1;
+    objects.forEach((obj) => {
+      const refs = obj.f.flatMap((line) => line.slice(2).split(" ").map((ref) => ref.split("//").map(Number)));
+      expect(Math.min(...refs.map(([v]) => v))).toBe(vertexBase);
+      expect(Math.max(...refs.map(([v]) => v))).toBe(vertexBase + obj.v - 1);
+      expect(refs.map(([, n]) => n)).toEqual(obj.f.flatMap((line, i) => line.slice(2).split(" ").map(() => normalBase + i)));
+      vertexBase += obj.v;
+      normalBase += obj.vn;
+    });
+  });
+
+  it("indexes each glTF mesh from its own first vertex with float32 bounds", () => {
+    const gltf = JSON.parse(writeStructureGltf(model(), "frame"));
+    const bytes = Buffer.from(gltf.buffers[0].uri.split(",")[1], "base64");
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    expect(buffer.byteLength).toBe(gltf.buffers[0].byteLength);
+
+    expect(gltf.meshes).toHaveLength(3);
+    gltf.meshes.forEach((mesh: { primitives: { attributes: { POSITION: number }; indices: number }[] }) => {
+      const position = gltf.accessors[mesh.primitives[0].attributes.POSITION];
+      const index = gltf.accessors[mesh.primitives[0].indices];
+      const positionView = gltf.bufferViews[position.bufferView];
+      const indexView = gltf.bufferViews[index.bufferView];
+
+      const indices = new Uint32Array(buffer, indexView.byteOffset + index.byteOffset, index.count);
+      expect(Math.min(...indices)).toBe(0);
+      expect(Math.max(...indices)).toBe(position.count - 1);
+      expect(index.count % 3).toBe(0);
+
+      const positions = new Float32Array(buffer, positionView.byteOffset + position.byteOffset, position.count * 3);
+      [0, 1, 2].forEach((k) => {
+        const values = Array.from(positions.filter((_, i) => i % 3 === k));
+        expect(position.min[k]).toBe(Math.min(...values));
+        expect(position.max[k]).toBe(Math.max(...values));
+      });
+    });
+  });
+});
@@ -1,5 +1,7 @@
 ﻿import { describe, expect, it } from "vitest";
 import { parseDxf } from "../utils/dxfParser";
+import { decodeDxfBuffer } from "../utils/dxfEncoding";
+import { dxfSection, dxfText } from "./data/dxfText";
 import { ProjectFile, DxfEntity, SemanticLayer } from "../types";
 import { calculateSplitRegions } from "../domains/structure/splitService";
 import { calculateMergeViews } from "../domains/structure/mergeService";
@@ -299,58 +301,17 @@ describe("structure integration suite", () => {
     const testDir = path.dirname(fileURLToPath(import.meta.url));
     const fixturePath = path.join(testDir, "data", "test_beam1.dxf");
     const buffer = fs.readFileSync(fixturePath);
-    const decodeBufferBestEffort = (buf: Buffer) => {
-      const preferred = ["utf-8", "gb18030", "gbk", "big5", "shift_jis", "windows-1252"];
-      const codepageMap: Record<string, string> = {
-        ANSI_936: "gb18030",
-        ANSI_1252: "windows-1252",
-        UTF8: "utf-8",
-        "UTF-8": "utf-8",
-      };
-      const extractCodepage = (raw: Buffer): string | null => {
-        try {
-          const ascii = new TextDecoder("ascii", { fatal: false }).decode(raw);
-          const match = ascii.match(/\$DWGCODEPAGE\s*[\r\n]+\s*3\s*[\r\n]+([A-Za-z0-9_]+)/i);
-          return match ? match[1].trim() : null;
-        } catch {
-          return null;
-        }
-      };
-      const codepage = extractCodepage(buf);
-      const hinted = codepage ? codepageMap[codepage.toUpperCase()] : undefined;
-      const candidates = hinted ? [hinted, ...preferred] : preferred;
-      const seen = new Set<string>();
-      let best = { text: "", enc: "utf-8", quality: -Infinity, repl: Number.POSITIVE_INFINITY };
-      candidates.forEach((enc) => {
-        if (!enc || seen.has(enc)) return;
-        seen.add(enc);
-        try {
-          const dec = new TextDecoder(enc as any, { fatal: false });
-          const text = dec.decode(buf);
-          const replacements = (text.match(/\uFFFD/g) || []).length;
-          const cjkCount = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-          const quality = cjkCount / (1 + replacements);
-          if (quality > best.quality || (quality === best.quality && replacements < best.repl)) {
-            best = { text, enc, quality, repl: replacements };
-          }
-        } catch {
-          // ignore unsupported enc
-        }
-      });
-      if (best.text === "") {
-        best.text = new TextDecoder().decode(buf);
-        best.enc = "utf-8";
-      }
-      return best;
-    };
-
-    const { text: decoded, enc: usedEnc } = decodeBufferBestEffort(buffer);
+    const { text: decoded, enc: usedEnc } = decodeDxfBuffer(buffer);
     const parsed = parseDxf(decoded, usedEnc);
     const harness = createHarness(parsed, "test_beam1.dxf");
     const { getActive, getProjects, setProjects, setLayerColors } = harness;
 
     expect(parsed.layers.length).toBeGreaterThan(0);
     expect(parsed.entities.length).toBeGreaterThan(0);
+    expect(usedEnc).equal("gb18030");
+    expect(parsed.header?.insUnits).equal(4);
+    expect(parsed.header?.codePage).equal("ANSI_936");
+    expect(parsed.header?.acadVersion).equal("AC1018");
 
     const regions = applySplit(getActive(), setProjects, setLayerColors, true);
     expect(regions?.length ?? 0).equal(3);
@@ -418,3 +379,31 @@ describe("structure integration suite", () => {
     expect(l13Lengths).deep.equal([2760, 3120]);
   });
 });
+
+describe("column attributes", () => {
+  it("attaches the attributes of the column block inserted inside each column", () => {
+    const dxf = dxfText([
+      ...dxfSection("BLOCKS", [
+        [0, "BLOCK"], [8, "0"], [2, "COL600"], [70, 2], [10, 0], [20, 0],
+        [0, "LWPOLYLINE"], [8, "0"], [90, 4], [70, 1],
+        [10, -300], [20, -300], [10, 300], [20, -300], [10, 300], [20, 300], [10, -300], [20, 300],
+        [0, "ATTDEF"], [8, "0"], [10, 0], [20, 0], [40, 250], [1, "KZ"], [3, "Mark"], [2, "MARK"], [70, 0],
+        [0, "ENDBLK"], [8, "0"],
+      ]),
+      ...dxfSection("ENTITIES", [
+        [0, "INSERT"], [8, "COLU"], [2, "COL600"], [10, 0], [20, 0], [66, 1],
+        [0, "ATTRIB"], [8, "COLU"], [10, 0], [20, 0], [40, 250], [1, "KZ-1"], [2, "MARK"], [70, 0],
+        [0, "SEQEND"], [8, "COLU"],
+        [0, "INSERT"], [8, "COLU"], [2, "COL600"], [10, 6000], [20, 0],
+        [0, "LWPOLYLINE"], [8, "COLU"], [90, 4], [70, 1],
+        [10, 11700], [20, -300], [10, 12300], [20, -300], [10, 12300], [20, 300], [10, 11700], [20, 300],
+      ]),
+      [0, "EOF"],
+    ]);
+    const { getActive } = createHarness(parseDxf(dxf), "column_attributes.dxf");
+    const result = calculateColumns(getActive());
+
+    const byX = [...(result?.infos || [])].sort((a, b) => a.center.x - b.center.x);
+    expect(byX.map((c) => c.attributes)).toEqual([{ MARK: "KZ-1" }, { MARK: "KZ" }, undefined]);
+  });
+});
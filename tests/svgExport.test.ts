@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import { renderDxfToSvg } from "../utils/svgExport";
+import { DxfData, DxfEntity, DxfLayer, EntityType, HatchBoundaryPath } from "../types";
+
+const layer = (name: string, extra: Partial<DxfLayer> = {}): DxfLayer => ({ name, color: 7, lineType: "CONTINUOUS", ...extra });
+
+const drawing = (entities: DxfEntity[], extra: Partial<DxfData> = {}): DxfData => {
+  const layers = Array.from(new Set(entities.map((e) => e.layer)));
+  return {
+    entities,
+    layers,
+    layerDictionary: Object.fromEntries(layers.map((name) => [name, layer(name)])),
+    blocks: {},
+    blockBasePoints: {},
+    ...extra,
+  };
+};
+
+const render = (data: DxfData, options: Partial<Parameters<typeof renderDxfToSvg>[0]> = {}) =>
+  renderDxfToSvg({
+    data,
+    activeLayers: new Set(data.layers),
+    layerColors: Object.fromEntries(data.layers.map((name) => [name, "#FF0000"])),
+    transform: { k: 1, x: 0, y: 0 },
+    width: 800,
+    height: 600,
+    whiteBackground: true,
+    ...options,
+  });
+
+// Contents of the layer group labelled `name`
+const layerGroup = (svg: string, name: string): string | undefined => {
+  const start = svg.indexOf(`inkscape:label="${name}"`);
+  if (start < 0) return undefined;
+  const open = svg.indexOf(">", start) + 1;
+  // Layer groups are siblings, so the group ends where the next one (or the view group) closes
+  const next = svg.indexOf('inkscape:groupmode="layer"', open);
+  const end = next < 0 ? svg.lastIndexOf("</g>\n</svg>") : svg.lastIndexOf("<g ", next);
+  return svg.slice(open, end).replace(/<\/g>\s*$/, "");
+};
+
+const line = (layerName: string, extra: Partial<DxfEntity> = {}): DxfEntity => ({
+  type: EntityType.LINE,
+  layer: layerName,
+  start: { x: 0, y: 0 },
+  end: { x: 100, y: 50 },
+  ...extra,
+});
+
+describe("renderDxfToSvg layers", () => {
+  it("groups the output by layer, in layer order, with XML-safe ids", () => {
+    const svg = render(drawing([line("2 WALL"), line("A&B")], { layers: ["A&B", "2 WALL"] }));
+    expect(svg).toContain('<g id="A_B" inkscape:groupmode="layer" inkscape:label="A&amp;B"');
+    expect(svg).toContain('<g id="_2_WALL" inkscape:groupmode="layer" inkscape:label="2 WALL"');
+    expect(svg.indexOf('id="A_B"')).toBeLessThan(svg.indexOf('id="_2_WALL"'));
+    expect(layerGroup(svg, "2 WALL")).toBe('<line x1="0" y1="0" x2="100" y2="50" fill="none" stroke="#FF0000" stroke-width="2" vector-effect="non-scaling-stroke"/>');
+  });
+
+  it("leaves out hidden layers and paper space entities", () => {
+    const svg = render(drawing([line("WALL"), line("HIDDEN"), line("SHEET", { paperSpace: 1 })]), {
+      activeLayers: new Set(["WALL", "SHEET"]),
+    });
+    expect(layerGroup(svg, "WALL")).toBeDefined();
+    expect(layerGroup(svg, "HIDDEN")).toBeUndefined();
+    expect(layerGroup(svg, "SHEET")).toBeUndefined();
+  });
+
+  it("flips white to black on a white background only", () => {
+    const data = drawing([line("WALL", { color: 7 })]);
+    expect(render(data)).toContain('stroke="#000000"');
+    expect(render(data, { whiteBackground: false })).toContain('stroke="#FFFFFF"');
+  });
+});
+
+describe("renderDxfToSvg blocks", () => {
+  const door: DxfEntity[] = [line("0"), { type: EntityType.CIRCLE, layer: "FIXED", center: { x: 5, y: 0 }, radius: 2 }];
+  const insert = (extra: Partial<DxfEntity> = {}): DxfEntity => ({
+    type: EntityType.INSERT,
+    layer: "DOORS",
+    blockName: "DOOR",
+    start: { x: 100, y: 200 },
+    rotation: 90,
+    scale: { x: 2, y: 2 },
+    ...extra,
+  });
+  const withDoor = (entities: DxfEntity[]) =>
+    drawing(entities, { layers: ["DOORS", "FIXED"], blocks: { DOOR: door }, blockBasePoints: { DOOR: { x: 5, y: 0 } } });
+
+  it("keeps the placement as a nested transform and draws layer 0 on the insert's layer", () => {
+    const svg = render(withDoor([insert()]));
+    expect(layerGroup(svg, "DOORS")).toBe(
+      '<g transform="translate(100 200) rotate(90) scale(2 2) translate(-5 0)">' +
+      '<line x1="0" y1="0" x2="100" y2="50" fill="none" stroke="#FF0000" stroke-width="2" vector-effect="non-scaling-stroke"/></g>'
+    );
+    // Block content on its own layer goes to that layer's group, still inside the placement
+    expect(layerGroup(svg, "FIXED")).toContain('<g transform="translate(100 200) rotate(90) scale(2 2) translate(-5 0)"><circle cx="5" cy="0" r="2"');
+  });
+
+  it("repeats MINSERT grids", () => {
+    const svg = render(withDoor([insert({ rotation: 0, scale: undefined, columnCount: 2, columnSpacing: 50, rowCount: 2, rowSpacing: 30 })]));
+    const placements = layerGroup(svg, "DOORS")!.match(/<g transform="translate\([^)]*\)/g);
+    expect(placements).toEqual([
+      '<g transform="translate(100 200)',
+      '<g transform="translate(150 200)',
+      '<g transform="translate(100 230)',
+      '<g transform="translate(150 230)',
+    ]);
+  });
+
+  it("hides a block's own-layer content with that layer, but not with the insert's", () => {
+    const svg = render(withDoor([insert()]), { activeLayers: new Set(["FIXED"]) });
+    expect(layerGroup(svg, "DOORS")).toBeUndefined();
+    expect(layerGroup(svg, "FIXED")).toContain("<circle");
+  });
+});
+
+describe("renderDxfToSvg styles", () => {
+  it("dashes LTYPE patterns in screen pixels and stretches patterns too fine to see", () => {
+    const data = drawing([line("WALL", { lineType: "DASHED" }), line("WALL", { lineType: "DASHED", lineTypeScale: 0.1 })], {
+      lineTypes: { DASHED: { name: "DASHED", pattern: [10, -5], patternLength: 15 } },
+    });
+    const svg = render(data, { transform: { k: 2, x: 0, y: 0 } });
+    const dashes = svg.match(/stroke-dasharray="[^"]*"/g);
+    // 15 units at 2 px per unit is 30 px; at a tenth it is 3 px, stretched to 12 px
+    expect(dashes).toEqual(['stroke-dasharray="20 10"', 'stroke-dasharray="8 4"']);
+  });
+
+  it("draws plotted lineweights in pixels per mm", () => {
+    const svg = render(drawing([line("WALL", { lineWeight: 50 })]), { lineWeightPxPerMm: 4 });
+    expect(layerGroup(svg, "WALL")).toContain('stroke-width="2"');
+    const thin = render(drawing([line("WALL", { lineWeight: 5 })]), { lineWeightPxPerMm: 4 });
+    expect(layerGroup(thin, "WALL")).toContain('stroke-width="1"');
+  });
+
+  it("fills pattern hatches as an even-odd tint and solid hatches at full strength", () => {
+    const boundaryPaths: HatchBoundaryPath[] = [
+      { flags: 2, isOuter: true, isPolyline: true, vertices: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }] },
+    ];
+    const svg = render(drawing([
+      { type: EntityType.HATCH, layer: "PATTERN", boundaryPaths, solidFill: false },
+      { type: EntityType.HATCH, layer: "SOLID", boundaryPaths, solidFill: true, transparency: 0.5 },
+    ]));
+    expect(layerGroup(svg, "PATTERN")).toBe('<path d="M0 0L10 0L10 10L0 0Z" fill="#FF0000" fill-rule="evenodd" opacity="0.25"/>');
+    expect(layerGroup(svg, "SOLID")).toBe('<path d="M0 0L10 0L10 10L0 0Z" fill="#FF0000" fill-rule="evenodd" opacity="0.5"/>');
+  });
+
+  it("composites filled layer stencils at 40%", () => {
+    const square: DxfEntity = {
+      type: EntityType.LWPOLYLINE,
+      layer: "COLUMNS",
+      closed: true,
+      vertices: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+    };
+    const svg = render(drawing([square]), { filledLayers: new Set(["COLUMNS"]) });
+    expect(layerGroup(svg, "COLUMNS")).toBe(
+      '<g opacity="0.4"><path d="M0 0L10 0L10 10L0 10Z" fill="#FF0000"/></g>' +
+      '<path d="M0 0L10 0L10 10L0 10Z" fill="none" stroke="#FF0000" stroke-width="2" vector-effect="non-scaling-stroke"/>'
+    );
+  });
+
+  it("draws bulges as arcs", () => {
+    const svg = render(drawing([{
+      type: EntityType.LWPOLYLINE,
+      layer: "WALL",
+      vertices: [{ x: 0, y: 0, bulge: 1 }, { x: 10, y: 0 }],
+    }]));
+    expect(layerGroup(svg, "WALL")).toContain('d="M0 0A5 5 0 0 1 10 0"');
+  });
+});
+
+describe("renderDxfToSvg text", () => {
+  it("escapes text and places it flipped back to y down", () => {
+    const svg = render(drawing([{ type: EntityType.TEXT, layer: "NOTES", start: { x: 10, y: 20 }, textHeight: 5, text: "a < b & c" }]));
+    expect(layerGroup(svg, "NOTES")).toMatch(/^<text transform="translate\(10 20\) scale\(1 -1\)" font-size="5" /);
+    expect(svg).toContain(">a &lt; b &amp; c</tspan>");
+  });
+
+  it("draws multileader text with its leader and arrowhead", () => {
+    const svg = render(drawing([{
+      type: EntityType.MULTILEADER,
+      layer: "NOTES",
+      start: { x: 50, y: 50 },
+      textHeight: 2.5,
+      radius: 10,
+      text: "B1",
+      leaderLines: [[{ x: 0, y: 0 }, { x: 50, y: 50 }]],
+    }]));
+    const group = layerGroup(svg, "NOTES")!;
+    expect(group).toContain('<line x1="0" y1="0" x2="50" y2="50"');
+    expect(group).toContain('<circle cx="0" cy="0" r="3" fill="#FF0000"/>');
+    expect(group).toContain(">B1</tspan>");
+  });
+});
+
+describe("renderDxfToSvg layouts", () => {
+  const data = drawing([
+    line("KEEP"),
+    line("FROZEN"),
+    {
+      type: EntityType.VIEWPORT,
+      layer: "VPORTS",
+      paperSpace: 1,
+      viewportId: 2,
+      viewportStatus: 1,
+      center: { x: 100, y: 75 },
+      viewportWidth: 100,
+      viewportHeight: 50,
+      viewHeight: 500,
+      viewCenter: { x: 50, y: 25 },
+      frozenLayerHandles: ["1F"],
+    },
+    { type: EntityType.TEXT, layer: "TITLE", paperSpace: 1, start: { x: 10, y: 10 }, textHeight: 5, text: "PLAN" },
+  ], { layouts: [{ name: "Layout1", tabOrder: 1, blockName: "*Paper_Space", limitsMin: { x: 0, y: 0 }, limitsMax: { x: 297, y: 210 } }] });
+  data.layerDictionary.FROZEN.handle = "1F";
+
+  it("clips each viewport, leaves out its frozen layers and draws paper space on top", () => {
+    const svg = render(data, { layout: data.layouts![0] });
+    expect(svg).toContain('<defs><clipPath id="viewport-clip-1" clipPathUnits="userSpaceOnUse"><path d="M50 50L150 50L150 100L50 100Z"/></clipPath></defs>');
+    expect(svg).toContain('<rect x="0" y="0" width="297" height="210" fill="#FFFFFF"/>');
+    expect(layerGroup(svg, "KEEP")).toBe(
+      '<g clip-path="url(#viewport-clip-1)"><g transform="translate(100 75) rotate(0) scale(0.1) translate(-50 -25)">' +
+      '<line x1="0" y1="0" x2="100" y2="50" fill="none" stroke="#FF0000" stroke-width="2" vector-effect="non-scaling-stroke"/></g></g>'
+    );
+    expect(layerGroup(svg, "FROZEN")).toBeUndefined();
+    expect(layerGroup(svg, "VPORTS")).toBe('<path d="M50 50L150 50L150 100L50 100Z" fill="none" stroke="#FF0000" stroke-width="2" vector-effect="non-scaling-stroke"/>');
+    expect(layerGroup(svg, "TITLE")).toContain(">PLAN</tspan>");
+  });
+
+  it("draws frozen layers in model space", () => {
+    const svg = render(data);
+    expect(layerGroup(svg, "FROZEN")).toBeDefined();
+    expect(layerGroup(svg, "TITLE")).toBeUndefined();
+  });
+});
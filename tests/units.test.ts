@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  createUnitContext,
+  formatReportArea,
+  formatReportLength,
+  formatReportVolume,
+  getDrawingUnits,
+  getProjectUnits,
+  toReportArea,
+  toReportLength,
+  toReportVolume,
+} from "../utils/units";
+import { ProjectFile } from "../types";
+
+describe("drawing units", () => {
+  it("resolves $INSUNITS, then $MEASUREMENT, then millimetres", () => {
+    expect(getDrawingUnits({ insUnits: 6 })).equal(6);
+    expect(getDrawingUnits({ insUnits: 0, measurement: 0 })).equal(1);
+    expect(getDrawingUnits({ insUnits: 0, measurement: 1 })).equal(4);
+    expect(getDrawingUnits({ insUnits: 99 })).equal(4);
+    expect(getDrawingUnits()).equal(4);
+  });
+
+  it("converts millimetre tolerances to drawing units and back", () => {
+    const metres = createUnitContext(6);
+    expect(metres.fromMm(250)).toBeCloseTo(0.25, 12);
+    expect(metres.toMm(3.2)).toBeCloseTo(3200, 9);
+
+    const inches = createUnitContext(1);
+    expect(inches.fromMm(25.4)).toBeCloseTo(1, 12);
+    expect(inches.name).equal("in");
+
+    const mm = createUnitContext(4);
+    expect(mm.fromMm(300)).equal(300);
+    expect(mm.toMm(300)).equal(300);
+  });
+
+  it("lets the project override win over the header", () => {
+    const project = { drawingUnits: 5, data: { header: { insUnits: 6 } } } as unknown as ProjectFile;
+    expect(getProjectUnits(project).insUnits).equal(5);
+    expect(getProjectUnits({ ...project, drawingUnits: undefined }).insUnits).equal(6);
+  });
+});
+
+describe("report units", () => {
+  it("converts lengths, areas and volumes from millimetres", () => {
+    expect(toReportLength(4500, "M")).equal(4.5);
+    expect(toReportLength(304.8, "FT")).toBeCloseTo(1, 12);
+    expect(toReportArea(300 * 5000, "MM")).toBeCloseTo(1.5, 12);
+    expect(toReportArea(300 * 5000, "M")).toBeCloseTo(1.5, 12);
+    expect(toReportArea(304.8 ** 2, "FT")).toBeCloseTo(1, 12);
+    expect(toReportVolume(300 * 600 * 5000, "MM")).toBeCloseTo(0.9, 12);
+    expect(toReportVolume(304.8 ** 3, "FT")).toBeCloseTo(1, 12);
+  });
+
+  it("formats millimetres as integers and everything else to three decimals", () => {
+    expect(formatReportLength(4500.4, "MM")).equal("4500");
+    expect(formatReportLength(4500.4, "M")).equal("4.500");
+    expect(formatReportArea(300 * 5000, "MM")).equal("1.500");
+    expect(formatReportVolume(300 * 600 * 5000, "MM")).equal("0.900");
+  });
+});
@@ -11,6 +11,15 @@ export enum EntityType {
   DIMENSION = 'DIMENSION',
   INSERT = 'INSERT',
   ATTRIB = 'ATTRIB',
+  ATTDEF = 'ATTDEF',
+  HATCH = 'HATCH',
+  ELLIPSE = 'ELLIPSE',
+  SOLID = 'SOLID',
+  TRACE = 'TRACE',
+  FACE3D = '3DFACE',
+  LEADER = 'LEADER',
+  MULTILEADER = 'MULTILEADER',
+  VIEWPORT = 'VIEWPORT',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -34,6 +43,37 @@ export interface PolylineVertex extends Point {
   bulge?: number; // DXF group code 42 for arc segments between vertices
 }
 
+export type HatchEdgeType = 'LINE' | 'ARC' | 'ELLIPSE' | 'SPLINE';
+
+export interface HatchEdge {
+  type: HatchEdgeType; // DXF group code 72 (1 = line, 2 = arc, 3 = ellipse, 4 = spline)
+  start?: Point; // Line start (10/20)
+  end?: Point;   // Line end (11/21)
+  center?: Point; // Arc / ellipse center (10/20)
+  radius?: number; // Arc radius (40)
+  majorAxis?: Point; // Ellipse major axis endpoint, relative to center (11/21)
+  ratio?: number; // Ellipse minor/major ratio (40)
+  startAngle?: number; // In Degrees (50)
+  endAngle?: number;   // In Degrees (51)
+  ccw?: boolean; // Counter-clockwise flag (73)
+  degree?: number; // Spline degree (94)
+  knots?: number[];
+  controlPoints?: Point[];
+  weights?: number[];
+  fitPoints?: Point[];
+}
+
+export interface HatchBoundaryPath {
+  flags: number; // DXF group code 92
+  isOuter: boolean; // External (bit 1) or outermost (bit 16) loop; islands have neither
+  isPolyline: boolean; // Bit 2: path is stored as polyline vertices instead of edges
+  closed?: boolean;
+  vertices?: PolylineVertex[]; // Polyline paths
+  edges?: HatchEdge[];         // Edge paths
+}
+
+export type DimensionType = 'LINEAR' | 'ALIGNED' | 'ANGULAR' | 'DIAMETER' | 'RADIUS' | 'ANGULAR_3POINT' | 'ORDINATE';
+
 export interface DxfEntity {
   handle?: string; // DXF entity handle (group code 5)
   type: EntityType;
@@ -54,14 +94,34 @@ export interface DxfEntity {
   weights?: number[]; // Spline weights (group 42 in SPLINE context)
   degree?: number; // Spline degree (group 71)
 
+  // For Text / MText / Attrib (radius still mirrors the height for older consumers)
+  textHeight?: number;      // Group 40
+  textStyle?: string;       // Group 7, STYLE table name
+  widthFactor?: number;     // TEXT/ATTRIB group 41
+  obliqueAngle?: number;    // TEXT/ATTRIB group 51, in degrees
+  hAlign?: number;          // TEXT/ATTRIB group 72: 0 left, 1 center, 2 right, 3 aligned, 4 middle, 5 fit
+  vAlign?: number;          // TEXT group 73 / ATTRIB group 74: 0 baseline, 1 bottom, 2 middle, 3 top
+  alignPoint?: Point;       // TEXT/ATTRIB group 11/21, the anchor unless both alignments are 0
+  attachmentPoint?: number; // MTEXT group 71: 1-9 = top/middle/bottom rows of left/center/right
+  referenceWidth?: number;  // MTEXT group 41, wrapping width (0 = no wrapping)
+  lineSpacing?: number;     // MTEXT group 44, line spacing factor
+
   // Explicit Visual Properties
   color?: number; // ACI Color (Group 62)
   lineType?: string; // Linetype Name (Group 6)
   lineTypeScale?: number;
+  trueColor?: number;    // 24-bit RGB (Group 420), takes precedence over the ACI color
+  transparency?: number; // 0 = opaque .. 1 = clear (Group 440); unset = BYLAYER
+  lineWeight?: number;   // Hundredths of mm (Group 370); -1 BYLAYER, -2 BYBLOCK, -3 default
 
-  // For Dimensions
+  // For Dimensions (blockName holds the anonymous *D block with the drawn graphics)
   measureStart?: Point; // Code 13, 23
   measureEnd?: Point;   // Code 14, 24
+  dimensionType?: DimensionType; // Code 70, low 3 bits
+  definitionPoint?: Point;       // Code 10, 20 (dimension line location)
+  textMidpoint?: Point;          // Code 11, 21
+  actualMeasurement?: number;    // Code 42, in drawing units (or degrees for angular)
+  textOverride?: string;         // Code 1; "<>" stands for the measured value
 
   // For Insert/Block
   blockName?: string;
@@ -77,6 +137,41 @@ export interface DxfEntity {
   // For attributes
   invisible?: boolean;
   hasAttributes?: boolean;
+  attributes?: Record<string, string>; // INSERT: tag -> value of the ATTRIBs that follow it
+  attributeTag?: string;               // ATTRIB/ATTDEF group 2
+  attributePrompt?: string;            // ATTDEF group 3
+  constant?: boolean;                  // ATTDEF group 70 bit 2: no ATTRIB is written, the default applies
+
+  // For Hatch
+  boundaryPaths?: HatchBoundaryPath[];
+  patternName?: string; // Group 2
+  solidFill?: boolean;  // Group 70
+
+  // For Ellipse (center uses 10/20)
+  majorAxis?: Point;   // Major axis endpoint relative to center (11/21)
+  ratio?: number;      // Minor/major axis ratio (40)
+  startParam?: number; // In Radians (41)
+  endParam?: number;   // In Radians (42)
+
+  // For Solid / Trace / 3DFace: 3 or 4 corners in outline order
+  // (SOLID/TRACE store corners 3 and 4 swapped in the file; the parser reorders them)
+  corners?: Point[];
+
+  // For Leader / MultiLeader (MULTILEADER text uses text/start/radius like MTEXT)
+  leaderLines?: Point[][];   // Each line runs from its arrowhead (first point) to the text landing
+  annotationHandle?: string; // LEADER: handle of the associated MTEXT/INSERT (340)
+
+  // For Viewport: a paper space window (center 10/20, size 40/41 in paper units) onto model space
+  viewportId?: number;           // Group 69; 1 is the layout's own paper space view, not a window
+  viewportStatus?: number;       // Group 68; 0 = off
+  viewportWidth?: number;        // Group 40
+  viewportHeight?: number;       // Group 41
+  viewCenter?: Point;            // Group 12/22, model point shown at the viewport center (relative to the target)
+  viewTarget?: Point;            // Group 17/27
+  viewHeight?: number;           // Group 45, model space height shown; paper/model scale = 41 / 45
+  twistAngle?: number;           // Group 51, in degrees
+  clipBoundaryHandle?: string;   // Group 340, entity clipping a non-rectangular viewport
+  frozenLayerHandles?: string[]; // Group 331, layers frozen in this viewport only
 
   // Metadata
   _originalType?: string;
@@ -84,20 +179,122 @@ export interface DxfEntity {
 
   // Space flag: 0 or undefined = model space, 1 = paper space (group code 67)
   paperSpace?: number;
+
+  // Ownership and application data (see DxfObject)
+  ownerHandle?: string;                    // Group 330 before the first subclass marker
+  reactors?: string[];                     // {ACAD_REACTORS group: objects notified of changes
+  extensionDictionary?: string;            // {ACAD_XDICTIONARY group: handle of the DICTIONARY
+  xdata?: Record<string, DxfXDataItem[]>;  // XDATA by registered application name (1001)
+}
+
+// XDATA value (groups 1000-1071). Points (1010-1013) combine their X and Y groups.
+export type DxfXDataValue = string | number | Point;
+
+export interface DxfXDataItem {
+  code: number;
+  value: DxfXDataValue;
+}
+
+// Non-graphical object from the OBJECTS section. Dictionaries link the objects into a tree
+// that starts at the named object dictionary (DxfData.namedObjectDictionary).
+export interface DxfObject {
+  handle: string;
+  type: string;                           // e.g. DICTIONARY, GROUP, XRECORD, LAYOUT
+  ownerHandle?: string;
+  reactors?: string[];
+  extensionDictionary?: string;
+  xdata?: Record<string, DxfXDataItem[]>;
+  entries?: Record<string, string>;       // DICTIONARY: entry name (3) -> object handle (350/360)
+  description?: string;                   // GROUP: group 300
+  entityHandles?: string[];               // GROUP: member entities (340)
+  data?: DxfGroupPair[];                  // XRECORD: payload after the AcDbXrecord marker
 }
 
 export interface DxfLayer {
   name: string;
+  handle?: string;       // Group 5, referenced by viewport layer overrides
   color: number; // ACI 1-255
   lineType: string;
+  trueColor?: number;    // Group 420
+  lineWeight?: number;   // Group 370, hundredths of mm (-3 = default)
+  transparency?: number; // AcCmTransparency XDATA, 0 = opaque .. 1 = clear
+  off?: boolean;         // Stored as a negative color (62); `color` keeps the absolute value
+  frozen?: boolean;      // Group 70 bit 1
+  locked?: boolean;      // Group 70 bit 4
+  plot?: boolean;        // Group 290; false = not plotted (defaults to true)
+}
+
+// One group code/value pair as read from the file; binary values are stringified
+export interface DxfGroupPair {
+  code: number;
+  value: string;
+}
+
+// LTYPE table entry. Pattern elements (group 49) are in drawing units:
+// > 0 dash, < 0 gap, 0 dot. An empty pattern is continuous.
+export interface DxfLineType {
+  name: string;
+  description?: string;  // Group 3, ASCII preview like "__ . __ . __"
+  pattern: number[];
+  patternLength: number; // Group 40
+}
+
+// STYLE table entry
+export interface DxfTextStyle {
+  name: string;
+  fontFile?: string;     // Group 3, e.g. txt.shx or simsun.ttf
+  bigFontFile?: string;  // Group 4, SHX big font for CJK text
+  fixedHeight: number;   // Group 40, 0 = height set per entity
+  widthFactor: number;   // Group 41
+  obliqueAngle: number;  // Group 50, in degrees
+}
+
+// LAYOUT object of a paper space sheet. The active layout's entities are in ENTITIES with
+// paperSpace = 1, the others in their *Paper_SpaceN block.
+export interface DxfLayout {
+  name: string;          // Group 1, the tab name
+  tabOrder: number;      // Group 71
+  blockName?: string;    // Paper space block, resolved from the block record handle (330)
+  limitsMin?: Point;     // Group 10/20, sheet limits in paper units
+  limitsMax?: Point;     // Group 11/21
+}
+
+// HEADER section variables (group 9 names, e.g. $INSUNITS)
+export interface DxfHeader {
+  acadVersion?: string;  // $ACADVER, e.g. AC1018
+  codePage?: string;     // $DWGCODEPAGE, e.g. ANSI_936
+  insUnits?: number;     // $INSUNITS (0 = unitless, 1 = in, 4 = mm, 5 = cm, 6 = m ...)
+  measurement?: number;  // $MEASUREMENT (0 = imperial, 1 = metric)
+  extMin?: Point;        // $EXTMIN
+  extMax?: Point;        // $EXTMAX
+  ltScale?: number;      // $LTSCALE
+  textStyle?: string;    // $TEXTSTYLE
+  lineWeightDefault?: number; // $LWDEFAULT, hundredths of mm
+}
+
+// Where a file deviates from what the parser understands; explains drawings that render oddly
+export interface DxfDiagnostics {
+  encoding: string;                               // Text encoding the file was decoded with
+  unsupportedEntityTypes: Record<string, number>; // Entity type -> count, skipped by the parser
+  malformedLines: number[];                       // 1-based line numbers of unreadable group codes (the first 100)
+  malformedLineCount: number;
+  unresolvedBlocks: Record<string, number>;       // Block name -> INSERT/DIMENSION references without a definition
+  missingGeometry: Record<string, number>;        // Entity type -> count lacking the points/sizes needed to draw it
 }
 
 export interface DxfData {
   entities: DxfEntity[];
   layers: string[];
   layerDictionary: Record<string, DxfLayer>;
+  lineTypes?: Record<string, DxfLineType>; // Keyed by upper-case name
+  textStyles?: Record<string, DxfTextStyle>; // Keyed by upper-case name
   blocks: Record<string, DxfEntity[]>;
   blockBasePoints: Record<string, Point>;
+  layouts?: DxfLayout[]; // Paper space layouts in tab order (the Model layout is not included)
+  objects?: Record<string, DxfObject>; // OBJECTS section keyed by handle
+  namedObjectDictionary?: string;      // Handle of the root DICTIONARY
+  diagnostics?: DxfDiagnostics;
+  header?: DxfHeader;
 }
 
 export type LayerColors = Record<string, string>;
@@ -110,7 +307,9 @@ export interface AnalysisExportPayload {
   mergedViewData?: MergedViewData;
   columns?: ColumnInfo[];
   walls?: WallInfo[];
+  drawingUnits?: number;
   data: DxfData;
+  diagnostics?: DxfDiagnostics;
   activeLayers: string[];
   filledLayers: string[];
   step: 'raw' | 'split' | 'merge';
@@ -181,8 +380,8 @@ export interface BeamStep3AttrInfo {
 }
 
 export interface BeamStep4TopologyInfo extends BeamStep3AttrInfo {
-  length: number;
-  volume: number;
+  length: number; // Drawing units
+  volume: number; // mm3
   parentBeamIndex: number;
 }
 
@@ -209,6 +408,7 @@ export interface ColumnInfo {
   width: number;
   height: number;
   center: Point;
+  attributes?: Record<string, string>; // Attributes of the column block inserted here (column mark, size)
 }
 
 export interface WallInfo {
@@ -217,6 +417,7 @@ export interface WallInfo {
   bounds: Bounds;
   thickness: number;
   center: Point;
+  vertices?: Point[]; // Plan outline; walls saved before it was kept are their bounds rectangle
 }
 
 export interface ViewMergeMapping {
@@ -249,6 +450,7 @@ export interface ProjectFile {
   beamStep2InterInfos?: BeamIntersectionInfo[];
   beamStep3AttrInfos?: BeamStep3AttrInfo[];
   beamStep4TopologyInfos?: BeamStep4TopologyInfo[];
+  drawingUnits?: number; // $INSUNITS override chosen by the user; falls back to the header
 }
 
 export type AnalysisDomain = 'STRUCTURE' | 'LANDSCAPE' | 'ELECTRICAL';
@@ -0,0 +1,62 @@
+
+import { DxfData, DxfEntity, EntityType, Point } from '../types';
+
+export interface AttributedInsert {
+  insert: DxfEntity;
+  blockName: string;
+  position: Point;
+  attributes: Record<string, string>; // Tag -> value, defaults resolved
+}
+
+/**
+ * Whether a text entity is drawn: TEXT and MTEXT always, ATTRIBs unless invisible, and constant
+ * ATTDEFs, which have no ATTRIB of their own and are drawn as part of their block.
+ */
+export const isDrawnText = (ent: DxfEntity): boolean => {
+  switch (ent.type) {
+    case EntityType.TEXT:
+    case EntityType.MTEXT: return true;
+    case EntityType.ATTRIB: return !ent.invisible;
+    case EntityType.ATTDEF: return !!ent.constant && !ent.invisible;
+    default: return false;
+  }
+};
+
+// ATTDEFs of a block definition, in definition order
+export const getBlockAttributeDefinitions = (data: DxfData, blockName: string): DxfEntity[] =>
+  (data.blocks[blockName] || []).filter(e => e.type === EntityType.ATTDEF && !!e.attributeTag);
+
+/**
+ * Attribute values of an INSERT: the ATTDEF defaults of its block (constant attributes are never
+ * written as ATTRIBs, so they only exist there), overridden by the INSERT's own ATTRIB values.
+ */
+export const getInsertAttributes = (insert: DxfEntity, data: DxfData): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (insert.blockName) {
+    getBlockAttributeDefinitions(data, insert.blockName).forEach(def => {
+      result[def.attributeTag!] = def.text ?? '';
+    });
+  }
+  return { ...result, ...insert.attributes };
+};
+
+/**
+ * Model space block references that carry attributes (door/window tags, column marks, equipment tags).
+ * With `tag`, only inserts defining that tag are returned (case-insensitive).
+ * Nested references inside other blocks are not included.
+ */
+export const collectAttributedInserts = (data: DxfData, tag?: string): AttributedInsert[] => {
+  const wanted = tag?.toUpperCase();
+  const result: AttributedInsert[] = [];
+
+  data.entities.forEach(ent => {
+    if (ent.type !== EntityType.INSERT || !ent.blockName || !ent.start || ent.paperSpace === 1) return;
+    const attributes = getInsertAttributes(ent, data);
+    const tags = Object.keys(attributes);
+    if (tags.length === 0) return;
+    if (wanted && !tags.some(t => t.toUpperCase() === wanted)) return;
+    result.push({ insert: ent, blockName: ent.blockName, position: ent.start, attributes });
+  });
+
+  return result;
+};
@@ -0,0 +1,29 @@
+
+import { DxfEntity, Point } from '../types';
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Measured value of a dimension in drawing units (degrees for angular types).
+ * Group 42 wins; files that omit it fall back to the definition points for linear/aligned types.
+ */
+export const getDimensionMeasurement = (ent: DxfEntity): number | null => {
+  if (ent.actualMeasurement !== undefined) return ent.actualMeasurement;
+  if (!ent.measureStart || !ent.measureEnd) return null;
+
+  if (ent.dimensionType === 'ALIGNED') return distance(ent.measureStart, ent.measureEnd);
+  if (ent.dimensionType === 'LINEAR' || ent.dimensionType === undefined) {
+    // Rotated dimensions measure along their dimension line angle (group 50)
+    const rad = (ent.startAngle || 0) * Math.PI / 180;
+    return Math.abs((ent.measureEnd.x - ent.measureStart.x) * Math.cos(rad) + (ent.measureEnd.y - ent.measureStart.y) * Math.sin(rad));
+  }
+  return null;
+};
+
+// Text as displayed: the override with "<>" replaced by the measurement
+export const getDimensionText = (ent: DxfEntity, precision: number = 0): string => {
+  const value = getDimensionMeasurement(ent);
+  const measured = value === null ? '' : value.toFixed(precision);
+  if (!ent.textOverride) return measured;
+  return ent.textOverride.replace('<>', measured);
+};
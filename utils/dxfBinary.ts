@@ -0,0 +1,152 @@
+
+import { DxfData, DxfGroupPair } from '../types';
+import { parseDxfPairs, parseDxfHeaderPairs } from './dxfParser';
+import { codepageToEncoding } from './dxfEncoding';
+
+// "AutoCAD Binary DXF\r\n" + SUB + NUL
+const BINARY_DXF_SENTINEL = 'AutoCAD Binary DXF\r\n\x1a\0';
+
+// Pairs between progress callbacks
+const PROGRESS_INTERVAL = 1 << 16;
+
+type BinaryValueType = 'string' | 'double' | 'int16' | 'int32' | 'int64' | 'bool' | 'chunk';
+
+/**
+ * Value type of a group code, per the DXF reference group code ranges.
+ */
+const getValueType = (code: number): BinaryValueType => {
+  if (code >= 10 && code <= 59) return 'double';
+  if (code >= 60 && code <= 79) return 'int16';
+  if (code >= 90 && code <= 99) return 'int32';
+  if (code >= 110 && code <= 149) return 'double';
+  if (code >= 160 && code <= 169) return 'int64';
+  if (code >= 170 && code <= 179) return 'int16';
+  if (code >= 210 && code <= 239) return 'double';
+  if (code >= 270 && code <= 289) return 'int16';
+  if (code >= 290 && code <= 299) return 'bool';
+  if (code >= 310 && code <= 319) return 'chunk';
+  if (code >= 370 && code <= 389) return 'int16';
+  if (code >= 400 && code <= 409) return 'int16';
+  if (code >= 420 && code <= 429) return 'int32';
+  if (code >= 440 && code <= 459) return 'int32';
+  if (code >= 460 && code <= 469) return 'double';
+  if (code === 1004) return 'chunk';
+  if (code >= 1010 && code <= 1059) return 'double';
+  if (code >= 1060 && code <= 1070) return 'int16';
+  if (code === 1071) return 'int32';
+  // 0-9, 100-109, 300-369, 390-399, 410-419, 430-439, 470-481, 999, 1000-1009
+  return 'string';
+};
+
+const toBytes = (buffer: ArrayBuffer | Uint8Array): Uint8Array =>
+  buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+export const isBinaryDxf = (buffer: ArrayBuffer | Uint8Array): boolean => {
+  const bytes = toBytes(buffer);
+  if (bytes.length < BINARY_DXF_SENTINEL.length) return false;
+  for (let i = 0; i < BINARY_DXF_SENTINEL.length; i++) {
+    if (bytes[i] !== BINARY_DXF_SENTINEL.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/**
+ * Tokenizes a binary DXF file into group code/value pairs.
+ * R12 files use 1-byte group codes (255 escapes to a 2-byte code); R13+ always use 2-byte codes.
+ * The first group is always `0 SECTION`, so the byte after the first code tells them apart.
+ */
+export function* readBinaryDxfPairs(
+  buffer: ArrayBuffer | Uint8Array,
+  encoding: string = 'utf-8',
+  onProgress?: (offset: number) => void
+): Generator<DxfGroupPair> {
+  const bytes = toBytes(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder(encoding, { fatal: false });
+
+  let pos = BINARY_DXF_SENTINEL.length;
+  const wideCodes = bytes[pos + 1] === 0;
+  let pairCount = 0;
+
+  const readString = (): string => {
+    let end = pos;
+    while (end < bytes.length && bytes[end] !== 0) end++;
+    const str = decoder.decode(bytes.subarray(pos, end));
+    pos = end + 1;
+    return str;
+  };
+
+  while (pos < bytes.length) {
+    let code: number;
+    if (wideCodes) {
+      if (pos + 2 > bytes.length) return;
+      code = view.getInt16(pos, true);
+      pos += 2;
+    } else {
+      code = bytes[pos++];
+      if (code === 255) {
+        if (pos + 2 > bytes.length) return;
+        code = view.getInt16(pos, true);
+        pos += 2;
+      }
+    }
+
+    let value: string;
+    switch (getValueType(code)) {
+      case 'double':
+        if (pos + 8 > bytes.length) return;
+        value = view.getFloat64(pos, true).toString();
+        pos += 8;
+        break;
+      case 'int16':
+        if (pos + 2 > bytes.length) return;
+        value = view.getInt16(pos, true).toString();
+        pos += 2;
+        break;
+      case 'int32':
+        if (pos + 4 > bytes.length) return;
+        value = view.getInt32(pos, true).toString();
+        pos += 4;
+        break;
+      case 'int64':
+        if (pos + 8 > bytes.length) return;
+        value = view.getBigInt64(pos, true).toString();
+        pos += 8;
+        break;
+      case 'bool':
+        value = bytes[pos++].toString();
+        break;
+      case 'chunk': {
+        // Length-prefixed binary data, kept as hex like the ASCII format
+        const len = bytes[pos++];
+        value = Array.from(bytes.subarray(pos, pos + len), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+        pos += len;
+        break;
+      }
+      default:
+        value = readString();
+    }
+
+    yield { code, value };
+    if (code === 0 && value === 'EOF') return;
+    if (onProgress && ++pairCount % PROGRESS_INTERVAL === 0) onProgress(pos);
+  }
+}
+
+/**
+ * Binary counterpart of `parseDxf`. Strings are decoded with the header's $DWGCODEPAGE
+ * (R2007+ files are always UTF-8), so a first pass only reads the header.
+ */
+export const parseBinaryDxf = (
+  buffer: ArrayBuffer | Uint8Array,
+  onProgress?: (fraction: number) => void
+): { data: DxfData, enc: string } => {
+  // Header variables are plain ASCII, so any single-byte decode is good enough here
+  const header = parseDxfHeaderPairs(readBinaryDxfPairs(buffer, 'latin1'));
+  const isUnicode = !!header.acadVersion && header.acadVersion >= 'AC1021';
+  const enc = isUnicode ? 'utf-8' : codepageToEncoding(header.codePage) || 'utf-8';
+
+  const total = buffer.byteLength || 1;
+  const pairs = readBinaryDxfPairs(buffer, enc, onProgress && (offset => onProgress(offset / total)));
+  return { data: parseDxfPairs(pairs, enc), enc };
+};
@@ -0,0 +1,406 @@
+
+import { DxfData, DxfEntity, EntityType, Point, PolylineVertex } from '../types';
+import { getEllipseEntityPoints, getEntityBounds, getHatchPathPoints, getPolylinePoints } from './geometryUtils';
+import { getTextHeight, getTextLayout } from './textUtils';
+import { hexToAci } from './renderUtils';
+import { trueColorToHex } from './plotStyleUtils';
+import { parseDxf } from './dxfParser';
+import { DxfWriterVersion, writeDxf } from './dxfWriter';
+
+// An entity the actual drawing should hold, and which of its values are checked
+export interface ExpectedEntity {
+  entity: DxfEntity;
+  // 'outline': only the drawn extent (curves approximated by polylines); 'text': only the text and its height (re-flowed text)
+  compare?: 'outline' | 'text';
+}
+
+export interface DxfCompareOptions {
+  tolerance?: number; // Coordinates, sizes and angles (degrees); defaults to 1e-6
+  // What the actual side is expected to hold for an expected entity (e.g. allowed conversions)
+  expectAs?: (ent: DxfEntity) => ExpectedEntity[];
+  modelSpaceOnly?: boolean; // Leave out paper space entities on both sides
+  skip?: (ent: DxfEntity) => boolean; // Entities left out on both sides
+}
+
+// Where a difference is: 'ENTITIES' or 'BLOCK <name>'
+export interface DxfCountDifference {
+  scope: string;
+  layer: string;
+  type: string;
+  expected: number;
+  actual: number;
+}
+
+export interface DxfValueDifference {
+  scope: string;   // 'ENTITIES', 'BLOCK <name>' or 'LAYERS'
+  subject: string; // Entity as '<layer> <type> #<n>' (n-th of that layer and type), 'base point' or the layer name
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+export interface DxfComparison {
+  counts: DxfCountDifference[];  // Entities per layer and type
+  values: DxfValueDifference[];  // Per entity geometry, block base points and layer properties
+  missingBlocks: string[];       // Referenced by the expected entities but not defined in the actual data
+  missingLayers: string[];       // Used by the expected entities but not in the actual layer table
+}
+
+type GeometryValue = number | string | boolean;
+
+const isAngleField = (field: string) => /angle$|rotation$/i.test(field);
+
+const sameValue = (field: string, a: GeometryValue | undefined, b: GeometryValue | undefined, tolerance: number): boolean => {
+  if (typeof a !== 'number' || typeof b !== 'number') return a === b;
+  if (isAngleField(field)) {
+    const d = Math.abs(a - b) % 360;
+    return Math.min(d, 360 - d) <= tolerance;
+  }
+  return Math.abs(a - b) <= tolerance;
+};
+
+const formatValue = (v: GeometryValue | undefined) => v === undefined ? '(none)' : String(v);
+
+/**
+ * The parts of an entity that make up its drawn geometry, as flat named values
+ * ('start.x', 'vertices[2].bulge', ...). Unset values are filled with what the parser assumes.
+ */
+const describeGeometry = (ent: DxfEntity, data: DxfData): Record<string, GeometryValue> => {
+  const g: Record<string, GeometryValue> = {};
+  const point = (name: string, p?: Point) => {
+    if (!p) return;
+    g[`${name}.x`] = p.x;
+    g[`${name}.y`] = p.y;
+  };
+  const points = (name: string, list?: (Point | PolylineVertex)[]) => {
+    if (!list) return;
+    g[`${name}.length`] = list.length;
+    list.forEach((p, i) => {
+      point(`${name}[${i}]`, p);
+      if ('bulge' in p || name === 'vertices') g[`${name}[${i}].bulge`] = (p as PolylineVertex).bulge || 0;
+    });
+  };
+  const bounds = (name: string, e: DxfEntity) => {
+    const b = getEntityBounds(e);
+    if (!b) return;
+    point(`${name}.min`, { x: b.minX, y: b.minY });
+    point(`${name}.max`, { x: b.maxX, y: b.maxY });
+  };
+
+  switch (ent.type) {
+    case EntityType.LINE:
+      point('start', ent.start);
+      point('end', ent.end);
+      break;
+    case EntityType.CIRCLE:
+    case EntityType.ARC:
+      point('center', ent.center);
+      g.radius = ent.radius ?? 0;
+      if (ent.type === EntityType.ARC) {
+        g.startAngle = ent.startAngle ?? 0;
+        g.endAngle = ent.endAngle ?? 0;
+      }
+      break;
+    case EntityType.LWPOLYLINE:
+      g.closed = !!ent.closed;
+      points('vertices', ent.vertices);
+      break;
+    case EntityType.TEXT:
+    case EntityType.ATTRIB:
+    case EntityType.ATTDEF:
+      g.text = ent.text ?? '';
+      if (ent.attributeTag !== undefined) g.attributeTag = ent.attributeTag;
+      point('start', ent.start);
+      g.height = getTextHeight(ent, data.textStyles);
+      g.startAngle = ent.startAngle ?? 0;
+      g.widthFactor = ent.widthFactor ?? 1;
+      g.hAlign = ent.hAlign ?? 0;
+      g.vAlign = ent.vAlign ?? 0;
+      if (ent.hAlign || ent.vAlign) point('alignPoint', ent.alignPoint);
+      break;
+    case EntityType.MTEXT:
+      g.text = ent.text ?? '';
+      point('start', ent.start);
+      g.height = getTextHeight(ent, data.textStyles);
+      g.startAngle = ent.startAngle ?? 0;
+      g.attachmentPoint = ent.attachmentPoint ?? 1;
+      g.referenceWidth = ent.referenceWidth ?? 0;
+      break;
+    case EntityType.INSERT:
+      g.blockName = ent.blockName ?? '';
+      point('start', ent.start);
+      point('scale', ent.scale || { x: 1, y: 1 });
+      g.rotation = ent.rotation ?? 0;
+      g.columnCount = ent.columnCount ?? 1;
+      g.rowCount = ent.rowCount ?? 1;
+      Object.entries(ent.attributes || {}).forEach(([tag, value]) => { g[`attributes.${tag}`] = value; });
+      break;
+    case EntityType.ELLIPSE:
+      point('center', ent.center);
+      point('majorAxis', ent.majorAxis);
+      g.ratio = ent.ratio ?? 1;
+      g.startParam = ent.startParam ?? 0;
+      g.endParam = ent.endParam ?? 2 * Math.PI;
+      break;
+    case EntityType.SOLID:
+    case EntityType.TRACE:
+    case EntityType.FACE3D:
+      points('corners', ent.corners);
+      break;
+    case EntityType.SPLINE:
+      g.degree = ent.degree ?? 3;
+      // The curve is defined by its control points when it has them; fit points are only kept otherwise
+      if (ent.controlPoints?.length) points('controlPoints', ent.controlPoints);
+      else points('fitPoints', ent.fitPoints);
+      break;
+    case EntityType.HATCH:
+      g.solidFill = !!ent.solidFill;
+      g['boundaryPaths.length'] = ent.boundaryPaths?.length ?? 0;
+      bounds('bounds', ent);
+      break;
+    default:
+      bounds('bounds', ent);
+  }
+  return g;
+};
+
+// Extent of what is drawn for an entity; polylines include their arcs
+const describeOutline = (ent: DxfEntity): Record<string, GeometryValue> => {
+  const outline = ent.type === EntityType.LWPOLYLINE
+    ? getPolylinePoints(ent.vertices || [], !!ent.closed)
+    : [];
+  const b = outline.length > 0
+    ? {
+        minX: Math.min(...outline.map(p => p.x)), minY: Math.min(...outline.map(p => p.y)),
+        maxX: Math.max(...outline.map(p => p.x)), maxY: Math.max(...outline.map(p => p.y))
+      }
+    : getEntityBounds(ent);
+  if (!b) return {};
+  return { 'bounds.min.x': b.minX, 'bounds.min.y': b.minY, 'bounds.max.x': b.maxX, 'bounds.max.y': b.maxY };
+};
+
+const describeText = (ent: DxfEntity, data: DxfData): Record<string, GeometryValue> => ({
+  text: (ent.text ?? '').trim(),
+  height: getTextHeight(ent, data.textStyles)
+});
+
+// Entities of one space or block, by layer and type in drawing order
+const groupByLayerAndType = <T>(items: T[], entityOf: (item: T) => DxfEntity): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const ent = entityOf(item);
+    const key = `${ent.layer}\u0000${ent.type}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  });
+  return groups;
+};
+
+// Layer color as an ACI; true colors are compared by their nearest ACI
+const getLayerAci = (data: DxfData, name: string): number => {
+  const def = data.layerDictionary[name];
+  return def.trueColor !== undefined ? hexToAci(trueColorToHex(def.trueColor)) : def.color;
+};
+
+/**
+ * Differences between two drawings: entity counts per layer and type, the geometry of each entity
+ * (paired in drawing order within its layer and type), the blocks the entities use and their layers.
+ * Blocks and layers nothing refers to are not compared, so a drawing written with only what it uses
+ * still matches its source.
+ */
+export const compareDxfData = (expected: DxfData, actual: DxfData, options: DxfCompareOptions = {}): DxfComparison => {
+  const tolerance = options.tolerance ?? 1e-6;
+  const expectAs = options.expectAs || ((ent: DxfEntity): ExpectedEntity[] => [{ entity: ent }]);
+  const isCompared = (ent: DxfEntity) => (!options.modelSpaceOnly || ent.paperSpace !== 1) && !options.skip?.(ent);
+  const expectAll = (entities: DxfEntity[]) => entities.filter(isCompared).flatMap(expectAs).filter(e => isCompared(e.entity));
+
+  const result: DxfComparison = { counts: [], values: [], missingBlocks: [], missingLayers: [] };
+  const usedLayers = new Set<string>();
+  const blockQueue: string[] = [];
+  const seenBlocks = new Set<string>();
+
+  const describe = (ent: DxfEntity, data: DxfData, compare: ExpectedEntity['compare']) =>
+    compare === 'outline' ? describeOutline(ent) : compare === 'text' ? describeText(ent, data) : describeGeometry(ent, data);
+
+  const compareEntities = (scope: string, expectedEntities: ExpectedEntity[], actualEntities: DxfEntity[]) => {
+    const expectedGroups = groupByLayerAndType(expectedEntities, e => e.entity);
+    const actualGroups = groupByLayerAndType(actualEntities.filter(isCompared), ent => ent);
+    const keys = new Set([...expectedGroups.keys(), ...actualGroups.keys()]);
+
+    keys.forEach(key => {
+      const [layer, type] = key.split('\u0000');
+      const exp = expectedGroups.get(key) || [];
+      const act = actualGroups.get(key) || [];
+      if (exp.length !== act.length) result.counts.push({ scope, layer, type, expected: exp.length, actual: act.length });
+
+      for (let i = 0; i < Math.min(exp.length, act.length); i++) {
+        const a = describe(exp[i].entity, expected, exp[i].compare);
+        const b = describe(act[i], actual, exp[i].compare);
+        new Set([...Object.keys(a), ...Object.keys(b)]).forEach(field => {
+          if (sameValue(field, a[field], b[field], tolerance)) return;
+          result.values.push({
+            scope,
+            subject: `${layer} ${type} #${i + 1}`,
+            field,
+            expected: formatValue(a[field]),
+            actual: formatValue(b[field])
+          });
+        });
+      }
+    });
+
+    expectedEntities.forEach(({ entity: ent }) => {
+      usedLayers.add(ent.layer);
+      if (ent.type === EntityType.INSERT && ent.blockName && !seenBlocks.has(ent.blockName)) {
+        seenBlocks.add(ent.blockName);
+        blockQueue.push(ent.blockName);
+      }
+    });
+  };
+
+  compareEntities('ENTITIES', expectAll(expected.entities), actual.entities);
+
+  // Blocks used by the compared entities, including nested ones
+  while (blockQueue.length > 0) {
+    const name = blockQueue.shift()!;
+    const expectedBlock = expected.blocks[name];
+    if (!expectedBlock) continue;
+    const actualBlock = actual.blocks[name];
+    if (!actualBlock) {
+      result.missingBlocks.push(name);
+      continue;
+    }
+    const scope = `BLOCK ${name}`;
+    const expectedBase = expected.blockBasePoints[name] || { x: 0, y: 0 };
+    const actualBase = actual.blockBasePoints[name] || { x: 0, y: 0 };
+    (['x', 'y'] as const).forEach(axis => {
+      if (sameValue('base', expectedBase[axis], actualBase[axis], tolerance)) return;
+      result.values.push({ scope, subject: 'base point', field: axis, expected: String(expectedBase[axis]), actual: String(actualBase[axis]) });
+    });
+    compareEntities(scope, expectAll(expectedBlock), actualBlock);
+  }
+
+  // Layer table entries of the layers in use
+  usedLayers.forEach(name => {
+    if (!expected.layerDictionary[name]) return;
+    if (!actual.layerDictionary[name]) {
+      result.missingLayers.push(name);
+      return;
+    }
+    const e = expected.layerDictionary[name];
+    const a = actual.layerDictionary[name];
+    const fields: [string, GeometryValue, GeometryValue][] = [
+      ['color', getLayerAci(expected, name), getLayerAci(actual, name)],
+      ['lineType', (e.lineType || 'CONTINUOUS').toUpperCase(), (a.lineType || 'CONTINUOUS').toUpperCase()],
+      ['off', !!e.off, !!a.off],
+      ['frozen', !!e.frozen, !!a.frozen],
+      ['locked', !!e.locked, !!a.locked]
+    ];
+    fields.forEach(([field, ev, av]) => {
+      if (ev === av) return;
+      result.values.push({ scope: 'LAYERS', subject: name, field, expected: formatValue(ev), actual: formatValue(av) });
+    });
+  });
+
+  return result;
+};
+
+export const isSameDxf = (comparison: DxfComparison): boolean =>
+  comparison.counts.length === 0 &&
+  comparison.values.length === 0 &&
+  comparison.missingBlocks.length === 0 &&
+  comparison.missingLayers.length === 0;
+
+// Readable summary for logs and test failures, at most `limit` lines per kind of difference
+export const formatDxfComparison = (comparison: DxfComparison, limit = 20): string => {
+  const lines: string[] = [];
+  const section = <T>(title: string, items: T[], format: (item: T) => string) => {
+    if (items.length === 0) return;
+    lines.push(`${title} (${items.length}):`);
+    items.slice(0, limit).forEach(item => lines.push(`  ${format(item)}`));
+    if (items.length > limit) lines.push(`  ... ${items.length - limit} more`);
+  };
+  section('Entity counts', comparison.counts, c => `${c.scope} ${c.layer} ${c.type}: ${c.expected} -> ${c.actual}`);
+  section('Values', comparison.values, v => `${v.scope} ${v.subject} ${v.field}: ${v.expected} -> ${v.actual}`);
+  section('Missing blocks', comparison.missingBlocks, name => name);
+  section('Missing layers', comparison.missingLayers, name => name);
+  return lines.length > 0 ? lines.join('\n') : 'No differences';
+};
+
+// Polyline standing in for a curve or boundary the writer approximates
+const outlineOf = (ent: DxfEntity, vertices: Point[]): ExpectedEntity[] =>
+  vertices.length < 2 ? [] : [{ entity: { ...ent, type: EntityType.LWPOLYLINE, vertices, closed: false }, compare: 'outline' }];
+
+// Single-line TEXTs an MTEXT is written as where there is no MTEXT, one per drawn line
+const textLinesOf = (ent: DxfEntity, data: DxfData): ExpectedEntity[] => {
+  const layout = getTextLayout(ent, data.textStyles);
+  if (!layout) return [];
+  return layout.lines.map(line => ({
+    entity: { ...ent, type: EntityType.TEXT, text: line, textHeight: layout.height, textStyle: undefined },
+    compare: 'text'
+  }));
+};
+
+type RoundTripConversion = (ent: DxfEntity, data: DxfData, version: DxfWriterVersion) => ExpectedEntity[] | undefined;
+
+/**
+ * The changes a parse/write/parse round trip is allowed to make, by entity type. `undefined` means
+ * the entity must come back as it was; anything not listed here that is missing or changed in the
+ * file is reported. ATTRIBs are not listed: they are rewritten from their INSERT's attribute values,
+ * which are compared on the INSERT.
+ */
+const ROUND_TRIP_CONVERSIONS: Partial<Record<EntityType, RoundTripConversion>> = {
+  // Layout windows live in paper space, which is not written
+  [EntityType.VIEWPORT]: () => [],
+  // Types the parser does not read cannot be written
+  [EntityType.UNKNOWN]: () => [],
+  // The dimension's graphics are in its anonymous block, drawn in place; without the block there is nothing to draw
+  [EntityType.DIMENSION]: (ent, data) => ent.blockName && data.blocks[ent.blockName]
+    ? [{ entity: { ...ent, type: EntityType.INSERT, start: { x: 0, y: 0 }, scale: undefined, rotation: 0, attributes: undefined } }]
+    : [],
+  // R12 has no MTEXT: one TEXT per line, placed by the writer
+  [EntityType.MTEXT]: (ent, data, version) => version === 'R12' ? textLinesOf(ent, data) : undefined,
+  // Pattern lines are not kept, so pattern hatches (and every hatch in R12) become their boundary loops
+  [EntityType.HATCH]: (ent, _data, version) => version !== 'R12' && ent.solidFill
+    ? undefined
+    : (ent.boundaryPaths || []).map(getHatchPathPoints).filter(points => points.length > 2).flatMap(points => outlineOf(ent, points)),
+  // R12 has no ELLIPSE
+  [EntityType.ELLIPSE]: (ent, _data, version) => version === 'R12' ? outlineOf(ent, getEllipseEntityPoints(ent)) : undefined,
+  // R12 has no SPLINE, and one known only by its fit points needs end tangents that are not kept
+  [EntityType.SPLINE]: (ent, _data, version) => {
+    const fit = ent.fitPoints || [];
+    if (version !== 'R12' && (ent.controlPoints?.length || 0) > (ent.degree || 3)) return undefined;
+    return outlineOf(ent, fit.length > 1 ? fit : ent.controlPoints || []);
+  },
+  // Leader lines and the multileader text; arrowheads need a dimension style
+  [EntityType.LEADER]: ent => (ent.leaderLines || []).flatMap(line => outlineOf(ent, line)),
+  [EntityType.MULTILEADER]: (ent, data, version) => {
+    const lines = (ent.leaderLines || []).flatMap(line => outlineOf(ent, line));
+    if (!ent.text || !ent.start) return lines;
+    const label: DxfEntity = { ...ent, type: EntityType.MTEXT, attachmentPoint: 1 };
+    return [...lines, ...(version === 'R12' ? textLinesOf(label, data) : [{ entity: label, compare: 'text' as const }])];
+  }
+};
+
+// What reading back an entity written as `version` should give
+export const expectRoundTrip = (ent: DxfEntity, data: DxfData, version: DxfWriterVersion): ExpectedEntity[] =>
+  ROUND_TRIP_CONVERSIONS[ent.type]?.(ent, data, version) ?? [{ entity: ent }];
+
+// Compares a drawing with what was read back from it written as `version`
+export const compareRoundTrip = (data: DxfData, reread: DxfData, version: DxfWriterVersion, tolerance?: number): DxfComparison =>
+  compareDxfData(data, reread, {
+    tolerance,
+    modelSpaceOnly: true,
+    skip: ent => ent.type === EntityType.ATTRIB,
+    expectAs: ent => expectRoundTrip(ent, data, version)
+  });
+
+/**
+ * Writes the drawing's model space, reads the file back and compares the result with the source,
+ * allowing only the conversions in ROUND_TRIP_CONVERSIONS.
+ */
+export const checkDxfRoundTrip = (data: DxfData, version: DxfWriterVersion = 'R2000', tolerance?: number) => {
+  const text = writeDxf(data, { version });
+  const reread = parseDxf(text);
+  return { text, reread, comparison: compareRoundTrip(data, reread, version, tolerance) };
+};
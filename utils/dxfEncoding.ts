@@ -0,0 +1,95 @@
+
+import { parseDxfHeader } from './dxfParser';
+
+// $DWGCODEPAGE values mapped to TextDecoder labels
+const CODEPAGE_ENCODINGS: Record<string, string> = {
+  'ANSI_936': 'gb18030',
+  'ANSI_1252': 'windows-1252',
+  'UTF-8': 'utf-8',
+  'UTF8': 'utf-8'
+};
+
+export const codepageToEncoding = (codepage?: string): string | undefined =>
+  codepage ? CODEPAGE_ENCODINGS[codepage.toUpperCase()] : undefined;
+
+const PREFERRED_ENCODINGS = ['utf-8', 'gb18030', 'gbk', 'big5', 'shift_jis', 'windows-1252'];
+
+// Enough for the whole HEADER section of any real drawing
+const HEADER_SNIFF_BYTES = 1 << 20;
+// Bytes checked per step while looking for the first non-ASCII byte
+const SCAN_CHUNK_BYTES = 1 << 20;
+// Sample scored from the first non-ASCII byte on, when the header carries no usable codepage
+const ENCODING_SAMPLE_BYTES = 4 << 20;
+
+const readCodepageEncoding = (bytes: Uint8Array): string | undefined => {
+  try {
+    // Header variables are plain ASCII, so any single-byte decode is good enough here
+    return codepageToEncoding(parseDxfHeader(new TextDecoder('ascii', { fatal: false }).decode(bytes)).codePage);
+  } catch {
+    return undefined;
+  }
+};
+
+// Prefer readable CJK while heavily penalizing replacement characters (\uFFFD)
+const scoreText = (text: string): { cjk: number, replacements: number } => ({
+  cjk: (text.match(/[\u4e00-\u9fff]/g) || []).length,
+  replacements: (text.match(/\uFFFD/g) || []).length
+});
+
+/**
+ * Offset of the first byte outside 7-bit ASCII, or -1. Every candidate reads the bytes before
+ * it the same way, so only what follows tells the encodings apart.
+ */
+const findFirstNonAscii = (bytes: Uint8Array, onChunk?: (fraction: number) => void): number => {
+  for (let start = 0; start < bytes.length; start += SCAN_CHUNK_BYTES) {
+    const end = Math.min(bytes.length, start + SCAN_CHUNK_BYTES);
+    for (let i = start; i < end; i++) {
+      if (bytes[i] >= 0x80) return i;
+    }
+    onChunk?.(end / bytes.length);
+  }
+  return -1;
+};
+
+/**
+ * Scores the candidates on a sample. UTF-8 without replacement chars is taken at once; the
+ * legacy code pages decode almost any bytes, so those are compared by readable CJK.
+ */
+const pickSampleEncoding = (sample: Uint8Array): string => {
+  let best = { enc: 'utf-8', quality: -Infinity, replacements: Number.POSITIVE_INFINITY };
+  for (const enc of PREFERRED_ENCODINGS) {
+    try {
+      // Streaming leaves out a character cut at the end of the sample
+      const { cjk, replacements } = scoreText(new TextDecoder(enc, { fatal: false }).decode(sample, { stream: true }));
+      if (enc === 'utf-8' && replacements === 0) return enc;
+      const quality = cjk / (1 + replacements);
+      if (quality > best.quality || (quality === best.quality && replacements < best.replacements)) {
+        best = { enc, quality, replacements };
+      }
+    } catch (e) {
+      // Ignore unsupported encodings
+    }
+  }
+  return best.enc;
+};
+
+/**
+ * Picks the text encoding of a DXF file buffer without decoding all of it: a recognised
+ * $DWGCODEPAGE is used as is, otherwise the candidates are scored on a sample starting at the
+ * first non-ASCII byte, and an all-ASCII file is UTF-8. `onChunk` follows the scan for that byte.
+ */
+export const detectDxfEncoding = (buffer: ArrayBuffer | Uint8Array, onChunk?: (fraction: number) => void): string => {
+  const bufView = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const hinted = readCodepageEncoding(bufView.subarray(0, HEADER_SNIFF_BYTES));
+  if (hinted) return hinted;
+  const first = findFirstNonAscii(bufView, onChunk);
+  if (first < 0) return 'utf-8';
+  return pickSampleEncoding(bufView.subarray(first, first + ENCODING_SAMPLE_BYTES));
+};
+
+/** Decodes a DXF file buffer to text in the encoding `detectDxfEncoding` picks. */
+export const decodeDxfBuffer = (buffer: ArrayBuffer | Uint8Array): { text: string, enc: string } => {
+  const bufView = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const enc = detectDxfEncoding(bufView);
+  return { text: new TextDecoder(enc, { fatal: false }).decode(bufView), enc };
+};
@@ -1,20 +1,57 @@
 
-import { DxfEntity, EntityType, Point } from '../types';
+import { DxfEntity, DxfLayer, EntityType, Point, HatchBoundaryPath } from '../types';
 import { transformPoint } from './geometryUtils';
 
-// Recursively extract entities from layers, transforming block coordinates to world space
+type EntityTransform = { scale: Point, rotation: number, translation: Point };
+
+// Layers the designer switched off or froze start hidden, as they would in CAD
+export const isLayerInitiallyVisible = (layer?: DxfLayer): boolean => !layer || (!layer.off && !layer.frozen);
+
+// Transforms hatch boundary loops (polyline vertices and edge geometry) into the target space
+const transformHatchPaths = (paths: HatchBoundaryPath[], transform: EntityTransform): HatchBoundaryPath[] => {
+    const t = (p: Point) => transformPoint(p, transform.scale, transform.rotation, transform.translation);
+    const tVec = (p: Point) => transformPoint(p, transform.scale, transform.rotation, { x: 0, y: 0 });
+    const uniformScale = Math.abs(transform.scale.x || 1);
+    // A mirrored block flips the winding of arcs
+    const mirrored = (transform.scale.x || 1) * (transform.scale.y || 1) < 0;
+
+    return paths.map(path => ({
+        ...path,
+        vertices: path.vertices?.map(v => ({ ...t(v), bulge: v.bulge !== undefined && mirrored ? -v.bulge : v.bulge })),
+        edges: path.edges?.map(edge => ({
+            ...edge,
+            start: edge.start && t(edge.start),
+            end: edge.end && t(edge.end),
+            center: edge.center && t(edge.center),
+            radius: edge.radius !== undefined ? edge.radius * uniformScale : undefined,
+            majorAxis: edge.majorAxis && tVec(edge.majorAxis),
+            // Ellipse angles are parameters relative to the (already rotated) major axis;
+            // clockwise arcs store mirrored angles, so the rotation applies negated.
+            startAngle: edge.startAngle !== undefined && edge.type === 'ARC' ? edge.startAngle + (edge.ccw === false ? -1 : 1) * transform.rotation : edge.startAngle,
+            endAngle: edge.endAngle !== undefined && edge.type === 'ARC' ? edge.endAngle + (edge.ccw === false ? -1 : 1) * transform.rotation : edge.endAngle,
+            controlPoints: edge.controlPoints?.map(t),
+            fitPoints: edge.fitPoints?.map(t)
+        }))
+    }));
+};
+
+// Recursively extract entities from layers, transforming block coordinates to world space.
+// Top-level paper space entities are skipped unless `includePaperSpace` is set.
 export const extractEntities = (
     targetLayers: string[], 
     rootEntities: DxfEntity[], 
     blocks: Record<string, DxfEntity[]>, 
-    blockBasePoints: Record<string, Point>
+    blockBasePoints: Record<string, Point>,
+    includePaperSpace = false
 ): DxfEntity[] => {
     const extracted: DxfEntity[] = [];
     
-    const recurse = (entities: DxfEntity[], transform: { scale: Point, rotation: number, translation: Point }, parentLayer: string | null) => {
+    const recurse = (entities: DxfEntity[], transform: EntityTransform, parentLayer: string | null, parentLineType?: string) => {
         entities.forEach(ent => {
            // Layer Inheritance: If entity is on Layer 0, use parent layer (if inside a block)
            const effectiveLayer = (ent.layer === '0' && parentLayer) ? parentLayer : ent.layer;
+           // Linetype Inheritance: BYBLOCK takes the enclosing INSERT's linetype
+           const effectiveLineType = ent.lineType?.toUpperCase() === 'BYBLOCK' ? parentLineType : ent.lineType;
 
            // 1. Recursion into Blocks
            if (ent.type === EntityType.INSERT && ent.blockName && blocks[ent.blockName]) {
@@ -57,14 +94,14 @@ export const extractEntities = (
                           scale: { x: baseScaleX, y: baseScaleY },
                           rotation: baseRotation,
                           translation: finalTrans
-                       }, effectiveLayer);
+                       }, effectiveLayer, effectiveLineType);
                    }
                }
                return;
            }
            // 2. Collection of Target Entities
            if (targetLayers.includes(effectiveLayer)) {
-               const worldEnt = { ...ent, layer: effectiveLayer };
+               const worldEnt = { ...ent, layer: effectiveLayer, lineType: effectiveLineType };
                if (worldEnt.start) worldEnt.start = transformPoint(worldEnt.start, transform.scale, transform.rotation, transform.translation);
                if (worldEnt.end) worldEnt.end = transformPoint(worldEnt.end, transform.scale, transform.rotation, transform.translation);
                if (worldEnt.center) worldEnt.center = transformPoint(worldEnt.center, transform.scale, transform.rotation, transform.translation);
@@ -75,11 +112,33 @@ export const extractEntities = (
                if (worldEnt.endAngle !== undefined) worldEnt.endAngle += transform.rotation;
                if (worldEnt.measureStart) worldEnt.measureStart = transformPoint(worldEnt.measureStart, transform.scale, transform.rotation, transform.translation);
                if (worldEnt.measureEnd) worldEnt.measureEnd = transformPoint(worldEnt.measureEnd, transform.scale, transform.rotation, transform.translation);
+               if (worldEnt.definitionPoint) worldEnt.definitionPoint = transformPoint(worldEnt.definitionPoint, transform.scale, transform.rotation, transform.translation);
+               if (worldEnt.textMidpoint) worldEnt.textMidpoint = transformPoint(worldEnt.textMidpoint, transform.scale, transform.rotation, transform.translation);
+               if (worldEnt.alignPoint) worldEnt.alignPoint = transformPoint(worldEnt.alignPoint, transform.scale, transform.rotation, transform.translation);
+               // Text height follows the block's Y scale, the wrapping width its X scale
+               if (worldEnt.textHeight !== undefined) worldEnt.textHeight *= Math.abs(transform.scale.y);
+               if (worldEnt.referenceWidth !== undefined) worldEnt.referenceWidth *= Math.abs(transform.scale.x);
+               if (worldEnt.boundaryPaths) worldEnt.boundaryPaths = transformHatchPaths(worldEnt.boundaryPaths, transform);
+               if (worldEnt.corners) worldEnt.corners = worldEnt.corners.map(c => transformPoint(c, transform.scale, transform.rotation, transform.translation));
+               if (worldEnt.leaderLines) {
+                   worldEnt.leaderLines = worldEnt.leaderLines.map(line => line.map(v => transformPoint(v, transform.scale, transform.rotation, transform.translation)));
+               }
+               if (worldEnt.majorAxis) {
+                   worldEnt.majorAxis = transformPoint(worldEnt.majorAxis, transform.scale, transform.rotation, { x: 0, y: 0 });
+                   // Mirroring reverses the sweep direction of the ellipse parameter
+                   if ((transform.scale.x || 1) * (transform.scale.y || 1) < 0 && (worldEnt.startParam !== undefined || worldEnt.endParam !== undefined)) {
+                       const start = worldEnt.startParam ?? 0;
+                       const end = worldEnt.endParam ?? 2 * Math.PI;
+                       worldEnt.startParam = -end;
+                       worldEnt.endParam = -start;
+                   }
+               }
 
                extracted.push(worldEnt);
            }
         });
     };
-    recurse(rootEntities, { scale: {x:1, y:1}, rotation: 0, translation: {x:0, y:0} }, null);
+    const roots = includePaperSpace ? rootEntities : rootEntities.filter(e => e.paperSpace !== 1);
+    recurse(roots, { scale: {x:1, y:1}, rotation: 0, translation: {x:0, y:0} }, null);
     return extracted;
 };
@@ -0,0 +1,33 @@
+
+import { DxfData } from '../types';
+import { streamParseDxf } from './dxfStream';
+
+export type DxfWorkerRequest = { buffer: ArrayBuffer };
+
+export type DxfWorkerResponse =
+  | { type: 'progress', fraction: number }
+  | { type: 'done', data: DxfData, enc: string }
+  | { type: 'error', message: string };
+
+const ctx = self as unknown as Worker;
+
+// Throttle progress messages to whole percents
+let lastPercent = -1;
+const reportProgress = (fraction: number) => {
+  const percent = Math.floor(fraction * 100);
+  if (percent === lastPercent) return;
+  lastPercent = percent;
+  ctx.postMessage({ type: 'progress', fraction } as DxfWorkerResponse);
+};
+
+ctx.onmessage = (e: MessageEvent<DxfWorkerRequest>) => {
+  try {
+    lastPercent = -1;
+    const { data, enc } = streamParseDxf(e.data.buffer, reportProgress);
+    // Structured clone: the receiving side rebuilds the objects natively, without a JSON string
+    // to decode and parse on the main thread
+    ctx.postMessage({ type: 'done', data, enc } as DxfWorkerResponse);
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as DxfWorkerResponse);
+  }
+};
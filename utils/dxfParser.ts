@@ -1,12 +1,11 @@
 
-import { DxfData, DxfEntity, EntityType, Point, DxfLayer } from '../types';
+import { DxfData, DxfEntity, EntityType, Point, DxfLayer, DxfLayout, DxfLineType, DxfObject, DxfXDataItem, DxfDiagnostics, DxfTextStyle, DxfHeader, DxfGroupPair, DimensionType, HatchBoundaryPath, HatchEdge, HatchEdgeType } from '../types';
 
 /**
- * Helper to decode DXF string format.
- * Handles \U+XXXX unicode, MTEXT formatting {\W...;}, and standard symbols like %%d.
- * NOW SUPPORTS: \M+1XXXX multibyte sequences using provided encoding (e.g. GBK).
+ * Decodes the character escapes of a DXF string: \M+1XXXX multibyte sequences (in the
+ * provided encoding, e.g. GBK) and \U+XXXX unicode. Plain data strings need nothing else.
  */
-const decodeDxfString = (str: string, encoding: string = 'utf-8'): string => {
+const decodeDxfEscapes = (str: string, encoding: string = 'utf-8'): string => {
   let s = str;
 
   // 1. Multibyte Decoding (\M+1XXXX) - Must be done before other replacements
@@ -26,7 +25,22 @@ const decodeDxfString = (str: string, encoding: string = 'utf-8'): string => {
   });
 
   // 2. Unicode Decoding (\U+XXXX)
-  s = s.replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return s.replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+// Private use characters standing in for \\, \{ and \} during decoding
+const LITERAL_CHARS = ['\\', '{', '}'];
+const LITERAL_PLACEHOLDERS: Record<string, string> = { '\\': '\uE000', '{': '\uE001', '}': '\uE002' };
+
+/**
+ * Helper to decode DXF string format.
+ * Handles character escapes (see decodeDxfEscapes), MTEXT formatting {\W...;}, and standard symbols like %%d.
+ */
+const decodeDxfString = (str: string, encoding: string = 'utf-8'): string => {
+  let s = decodeDxfEscapes(str, encoding);
+
+  // Escaped backslashes and braces are literal text; park them while the formatting is stripped
+  s = s.replace(/\\([\\{}])/g, (_, ch) => LITERAL_PLACEHOLDERS[ch]);
 
   // 3. MTEXT Formatting Stripping
   s = s.replace(/\\P/gi, '\n'); // New Paragraph
@@ -42,24 +56,72 @@ const decodeDxfString = (str: string, encoding: string = 'utf-8'): string => {
   s = s.replace(/%%u/gi, '');
   s = s.replace(/%%o/gi, '');
 
+  s = s.replace(/[\uE000-\uE002]/g, ch => LITERAL_CHARS[ch.charCodeAt(0) - 0xE000]);
+
   return s.trim();
 };
 
+export interface DxfPairConsumer {
+  push: (code: number, value: string) => void;
+  // Called by the text readers for a group code line that is not an integer (1-based line number)
+  reportMalformedLine: (line: number) => void;
+  finish: () => DxfData;
+}
+
+// Line numbers kept in the diagnostics; the total is always counted
+const MAX_MALFORMED_LINES = 100;
+
 /**
- * A streamlined DXF parser.
- * Supports TABLES (Layers), BLOCKS (Definitions), and ENTITIES (Geometry).
+ * Incremental DXF reader: feed it group code/value pairs in file order, then call `finish`.
+ * The ASCII and binary front-ends only differ in how they tokenize the file into pairs.
+ * Supports TABLES (Layers), BLOCKS (Definitions), ENTITIES (Geometry) and the LAYOUT objects.
  */
-export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfData => {
-  const lines = dxfContent.split(/\r\n|\r|\n/);
+export const createDxfPairConsumer = (encoding: string = 'utf-8'): DxfPairConsumer => {
   const entities: DxfEntity[] = [];
   const blocks: Record<string, DxfEntity[]> = {};
   const blockBasePoints: Record<string, Point> = {};
   const layers = new Set<string>();
   const layerDictionary: Record<string, DxfLayer> = {};
+  const lineTypes: Record<string, DxfLineType> = {};
+  const textStyles: Record<string, DxfTextStyle> = {};
+  const header: DxfHeader = {};
+  let headerVar: string | null = null;
+  const diagnostics: DxfDiagnostics = {
+    encoding,
+    unsupportedEntityTypes: {},
+    malformedLines: [],
+    malformedLineCount: 0,
+    unresolvedBlocks: {},
+    missingGeometry: {}
+  };
 
   let section = 'NONE';
+  let awaitingSectionName = false;
   let tableType = 'NONE';
+  let awaitingTableName = false;
   let currentLayerObj: DxfLayer | null = null;
+  let currentLineType: DxfLineType | null = null;
+  let currentTextStyle: DxfTextStyle | null = null;
+  let layerXDataApp: string | null = null;
+  let inLayerRecord = false;
+  let layerRecordHandle: string | undefined;
+
+  // Block record handle -> block name, to resolve which block holds a layout's paper space
+  const blockRecordNames: Record<string, string> = {};
+  let blockRecordHandle: string | null = null;
+
+  // Generic object tree (OBJECTS section)
+  const objects: Record<string, DxfObject> = {};
+  let namedObjectDictionary: string | undefined;
+  let currentObject: DxfObject | null = null;
+  let objectExtension = createExtensionState();
+  let inXRecordData = false;
+  let dictionaryEntryName: string | null = null;
+
+  // For Layout Parsing (OBJECTS section); the layout fields follow the AcDbLayout subclass marker
+  const layoutRecords: { layout: DxfLayout, blockRecord?: string }[] = [];
+  let currentLayout: { layout: DxfLayout, blockRecord?: string } | null = null;
+  let inLayoutSubclass = false;
 
   // For Block Parsing
   let activeBlockName: string | null = null;
@@ -70,61 +132,232 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
   let inPolylineVertex = false;
   let currentPolylineHandle: string | undefined;
 
-  let i = 0;
+  // INSERT (66 = 1) whose ATTRIB sequence is being read; reset by the next non-ATTRIB entity
+  let attributeOwner: Partial<DxfEntity> | null = null;
 
-  while (i < lines.length) {
-    const codeStr = lines[i].trim();
-    const value = lines[i + 1]?.trim();
-    i += 2;
+  // Extension data read position of the current entity; starts over with each new entity
+  let extensionTarget: Partial<DxfEntity> | null = null;
+  let entityExtension = createExtensionState();
 
-    if (!codeStr || value === undefined) continue;
-    const code = parseInt(codeStr, 10);
-    if (isNaN(code)) continue;
+  const parseEntityExtension = (code: number, value: string, ent: Partial<DxfEntity>): boolean => {
+    if (ent !== extensionTarget) {
+      extensionTarget = ent;
+      entityExtension = createExtensionState();
+    }
+    return parseExtensionData(code, value, ent, entityExtension, encoding);
+  };
 
-    // Handle Section Start
-    if (code === 0 && value === 'SECTION') {
-      const nextCode = parseInt(lines[i]?.trim(), 10);
-      const nextValue = lines[i + 1]?.trim();
-      if (nextCode === 2) {
-        section = nextValue;
-        i += 2;
+  const collectEntity = (ent: Partial<DxfEntity>, list: DxfEntity[]) => {
+    if (ent.type === EntityType.UNKNOWN) {
+      const typeName = ent._originalType || 'UNKNOWN';
+      diagnostics.unsupportedEntityTypes[typeName] = (diagnostics.unsupportedEntityTypes[typeName] || 0) + 1;
+    }
+    if (ent.type === EntityType.ATTRIB) {
+      if (attributeOwner && ent.attributeTag) attributeOwner.attributes![ent.attributeTag] = ent.text ?? '';
+    } else {
+      attributeOwner = ent.type === EntityType.INSERT && ent.hasAttributes ? ent : null;
+      if (attributeOwner) attributeOwner.attributes = {};
+    }
+    finalizeEntity(ent, list, layers);
+  };
+
+  // OBJECTS section: every object goes into the handle map, LAYOUTs are also read into `layouts`
+  const pushObject = (code: number, value: string) => {
+    if (code === 0) {
+      currentObject = { handle: '', type: value };
+      objectExtension = createExtensionState();
+      inXRecordData = false;
+      dictionaryEntryName = null;
+      currentLayout = null;
+      inLayoutSubclass = false;
+      if (value === 'LAYOUT') {
+        currentLayout = { layout: { name: '', tabOrder: 0 } };
+        layoutRecords.push(currentLayout);
       }
-      continue;
+      return;
+    }
+    if (!currentObject) return;
+
+    if (code === 5 || code === 105) {
+      currentObject.handle = value;
+      objects[value] = currentObject;
+      // The named object dictionary is always the first object
+      if (namedObjectDictionary === undefined) namedObjectDictionary = value;
+      return;
+    }
+    // XRECORD data may use any group code, so it is taken verbatim
+    if (inXRecordData) {
+      if (!currentObject.data) currentObject.data = [];
+      currentObject.data.push({ code, value });
+      return;
+    }
+    if (parseExtensionData(code, value, currentObject, objectExtension, encoding)) return;
+    if (code === 100) {
+      inLayoutSubclass = value === 'AcDbLayout';
+      inXRecordData = value === 'AcDbXrecord';
+      return;
+    }
+
+    switch (currentObject.type) {
+      case 'DICTIONARY':
+      case 'ACDBDICTIONARYWDFLT':
+        if (code === 3) {
+          dictionaryEntryName = decodeDxfEscapes(value, encoding);
+        } else if ((code === 350 || code === 360) && dictionaryEntryName !== null) {
+          if (!currentObject.entries) currentObject.entries = {};
+          currentObject.entries[dictionaryEntryName] = value;
+          dictionaryEntryName = null;
+        }
+        break;
+      case 'GROUP':
+        if (code === 300) currentObject.description = decodeDxfEscapes(value, encoding);
+        else if (code === 340) {
+          if (!currentObject.entityHandles) currentObject.entityHandles = [];
+          currentObject.entityHandles.push(value);
+        }
+        break;
+    }
+
+    // The plot settings subclass reuses codes 1 and 10-21; only the layout's own values count
+    if (!currentLayout || !inLayoutSubclass) return;
+
+    const { layout } = currentLayout;
+    const valNum = parseFloat(value);
+    switch (code) {
+      case 1: layout.name = decodeDxfString(value, encoding); break;
+      case 71: layout.tabOrder = parseInt(value, 10); break;
+      case 10: layout.limitsMin = { x: valNum, y: layout.limitsMin?.y ?? 0 }; break;
+      case 20: layout.limitsMin = { x: layout.limitsMin?.x ?? 0, y: valNum }; break;
+      case 11: layout.limitsMax = { x: valNum, y: layout.limitsMax?.y ?? 0 }; break;
+      case 21: layout.limitsMax = { x: layout.limitsMax?.x ?? 0, y: valNum }; break;
+      case 330: currentLayout.blockRecord = value; break;
+    }
+  };
+
+  const push = (code: number, value: string) => {
+    // Handle Section Start (the name follows as the next code 2 pair)
+    if (awaitingSectionName) {
+      awaitingSectionName = false;
+      if (code === 2) {
+        section = value;
+        return;
+      }
+    }
+    if (code === 0 && value === 'SECTION') {
+      awaitingSectionName = true;
+      return;
     }
 
     // Handle Section End
     if (code === 0 && value === 'ENDSEC') {
+      // The last entity has no following entity to close it
+      if (currentEntity && section === 'ENTITIES') {
+        collectEntity(currentEntity, entities);
+        currentEntity = null;
+      }
       section = 'NONE';
       tableType = 'NONE';
-      continue;
+      return;
+    }
+
+    // --- HEADER SECTION ---
+    if (section === 'HEADER') {
+      if (code === 9) headerVar = value;
+      else if (headerVar) applyHeaderValue(header, headerVar, code, value);
+      return;
     }
 
     // --- TABLES SECTION ---
     if (section === 'TABLES') {
+      // Only the name right after TABLE picks the table; a record may be named LAYER, STYLE, ...
+      if (awaitingTableName) {
+        awaitingTableName = false;
+        if (code === 2) {
+          tableType = value;
+          currentLineType = null;
+          currentTextStyle = null;
+          blockRecordHandle = null;
+          return;
+        }
+      }
       if (code === 0 && value === 'TABLE') {
+        tableType = 'NONE';
+        awaitingTableName = true;
         currentLayerObj = null;
-        continue;
+        return;
       }
       if (code === 0 && value === 'ENDTAB') {
         tableType = 'NONE';
         currentLayerObj = null;
-        continue;
+        return;
       }
 
-      if (code === 2 && value === 'LAYER') {
-        tableType = 'LAYER';
+      if (tableType === 'LTYPE') {
+        if (code === 0) {
+          currentLineType = value === 'LTYPE' ? { name: '', pattern: [], patternLength: 0 } : null;
+        } else if (currentLineType) {
+          if (code === 2) {
+            currentLineType.name = value;
+            lineTypes[value.toUpperCase()] = currentLineType;
+          } else if (code === 3) currentLineType.description = decodeDxfString(value, encoding);
+          else if (code === 40) currentLineType.patternLength = parseFloat(value);
+          else if (code === 49) currentLineType.pattern.push(parseFloat(value));
+        }
+      }
+
+      if (tableType === 'STYLE') {
+        if (code === 0) {
+          currentTextStyle = value === 'STYLE' ? { name: '', fixedHeight: 0, widthFactor: 1, obliqueAngle: 0 } : null;
+        } else if (currentTextStyle) {
+          if (code === 2) {
+            currentTextStyle.name = decodeDxfString(value, encoding);
+            textStyles[currentTextStyle.name.toUpperCase()] = currentTextStyle;
+          } else if (code === 3) currentTextStyle.fontFile = value;
+          else if (code === 4) currentTextStyle.bigFontFile = value;
+          else if (code === 40) currentTextStyle.fixedHeight = parseFloat(value);
+          else if (code === 41) currentTextStyle.widthFactor = parseFloat(value);
+          else if (code === 50) currentTextStyle.obliqueAngle = parseFloat(value);
+        }
+      }
+
+      if (tableType === 'BLOCK_RECORD') {
+        if (code === 0) blockRecordHandle = null;
+        else if (code === 5) blockRecordHandle = value;
+        else if (code === 2 && blockRecordHandle) blockRecordNames[blockRecordHandle] = decodeDxfEscapes(value, encoding);
       }
 
       if (tableType === 'LAYER') {
+        if (code === 0) {
+          layerXDataApp = null;
+          inLayerRecord = value === 'LAYER';
+          layerRecordHandle = undefined;
+        }
+        // The handle comes before the name
+        if (code === 5 && inLayerRecord) layerRecordHandle = value;
         if (code === 2) {
           const name = decodeDxfString(value, encoding);
           // Initialize with defaults (Color 7 = White/Black, Continuous)
-          currentLayerObj = { name, color: 7, lineType: 'CONTINUOUS' };
+          currentLayerObj = { name, handle: layerRecordHandle, color: 7, lineType: 'CONTINUOUS' };
           layers.add(name);
           layerDictionary[name] = currentLayerObj;
         } else if (currentLayerObj) {
-          if (code === 62) currentLayerObj.color = parseInt(value, 10);
-          else if (code === 6) currentLayerObj.lineType = value;
+          if (code === 62) {
+            const color = parseInt(value, 10);
+            currentLayerObj.color = Math.abs(color);
+            currentLayerObj.off = color < 0;
+          } else if (code === 6) currentLayerObj.lineType = value;
+          // The table header also carries a 70 (entry count); flags only apply to records
+          else if (code === 70 && inLayerRecord) {
+            const flags = parseInt(value, 10);
+            currentLayerObj.frozen = (flags & 1) === 1;
+            currentLayerObj.locked = (flags & 4) === 4;
+          } else if (code === 290) currentLayerObj.plot = value.trim() !== '0';
+          else if (code === 420) currentLayerObj.trueColor = parseInt(value, 10) & 0xFFFFFF;
+          else if (code === 370) currentLayerObj.lineWeight = parseInt(value, 10);
+          else if (code === 1001) layerXDataApp = value;
+          else if (code === 1071 && layerXDataApp === 'AcCmTransparency') {
+            currentLayerObj.transparency = parseTransparency(parseInt(value, 10));
+          }
         }
       }
     }
@@ -136,7 +369,7 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
           activeBlockName = null;
         } else if (value === 'ENDBLK') {
           if (currentEntity && activeBlockName && blocks[activeBlockName]) {
-            finalizeEntity(currentEntity, blocks[activeBlockName], layers);
+            collectEntity(currentEntity, blocks[activeBlockName]);
             currentEntity = null;
           }
           activeBlockName = null;
@@ -145,7 +378,7 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
             handleEntityStart(value,
               (ent) => {
                 if (!blocks[activeBlockName!]) blocks[activeBlockName!] = [];
-                finalizeEntity(ent, blocks[activeBlockName!], layers);
+                collectEntity(ent, blocks[activeBlockName!]);
               },
               () => currentEntity,
               (e) => currentEntity = e,
@@ -160,8 +393,14 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
         }
       } else if (activeBlockName) {
         if (currentEntity) {
+          // Vertex records keep their own extension data out of the polyline's
+          if (!inPolylineVertex && parseEntityExtension(code, value, currentEntity)) return;
           if (inPolyline && currentEntity._originalType === 'POLYLINE') {
             parsePolylineProperty(code, value, currentEntity, encoding, inPolylineVertex, () => currentPolylineHandle, (h) => currentPolylineHandle = h);
+          } else if (currentEntity.type === EntityType.HATCH) {
+            parseHatchProperty(code, value, currentEntity, encoding);
+          } else if (currentEntity.type === EntityType.MULTILEADER) {
+            parseMLeaderProperty(code, value, currentEntity, encoding);
           } else {
             parseProperty(code, value, currentEntity, encoding);
           }
@@ -178,7 +417,7 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
         }
       } else {
         if (code === 2) {
-          activeBlockName = value;
+          activeBlockName = decodeDxfEscapes(value, encoding);
           blocks[activeBlockName] = [];
           blockBasePoints[activeBlockName] = { x: 0, y: 0 };
         }
@@ -189,7 +428,7 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
     if (section === 'ENTITIES') {
       if (code === 0) {
         handleEntityStart(value,
-          (ent) => finalizeEntity(ent, entities, layers),
+          (ent) => collectEntity(ent, entities),
           () => currentEntity,
           (e) => currentEntity = e,
           () => inPolyline,
@@ -200,26 +439,152 @@ export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfDat
           (h) => currentPolylineHandle = h
         );
       } else if (currentEntity) {
+        if (!inPolylineVertex && parseEntityExtension(code, value, currentEntity)) return;
         if (inPolyline && currentEntity._originalType === 'POLYLINE') {
           parsePolylineProperty(code, value, currentEntity, encoding, inPolylineVertex, () => currentPolylineHandle, (h) => currentPolylineHandle = h);
+        } else if (currentEntity.type === EntityType.HATCH) {
+          parseHatchProperty(code, value, currentEntity, encoding);
+        } else if (currentEntity.type === EntityType.MULTILEADER) {
+          parseMLeaderProperty(code, value, currentEntity, encoding);
         } else {
           parseProperty(code, value, currentEntity, encoding);
         }
       }
     }
-  }
 
-  if (currentEntity && section === 'ENTITIES') {
-    finalizeEntity(currentEntity, entities, layers);
+    // --- OBJECTS SECTION ---
+    if (section === 'OBJECTS') pushObject(code, value);
+  };
+
+  const reportMalformedLine = (line: number) => {
+    diagnostics.malformedLineCount++;
+    if (diagnostics.malformedLines.length < MAX_MALFORMED_LINES) diagnostics.malformedLines.push(line);
+  };
+
+  const finish = (): DxfData => {
+    if (currentEntity && section === 'ENTITIES') {
+      collectEntity(currentEntity, entities);
+    }
+
+    const checkEntity = (ent: DxfEntity) => {
+      if (ent.blockName && (ent.type === EntityType.INSERT || ent.type === EntityType.DIMENSION) && !blocks[ent.blockName]) {
+        diagnostics.unresolvedBlocks[ent.blockName] = (diagnostics.unresolvedBlocks[ent.blockName] || 0) + 1;
+      }
+      if (isMissingGeometry(ent)) {
+        diagnostics.missingGeometry[ent.type] = (diagnostics.missingGeometry[ent.type] || 0) + 1;
+      }
+    };
+    entities.forEach(checkEntity);
+    Object.values(blocks).forEach(list => list.forEach(checkEntity));
+
+    const layouts = layoutRecords
+      .map(({ layout, blockRecord }) => ({ ...layout, blockName: blockRecord ? blockRecordNames[blockRecord] : undefined }))
+      .filter(l => l.blockName?.toUpperCase() !== '*MODEL_SPACE' && l.name.toUpperCase() !== 'MODEL')
+      .sort((a, b) => a.tabOrder - b.tabOrder);
+
+    return {
+      entities,
+      layers: Array.from(layers).sort(),
+      layerDictionary,
+      lineTypes,
+      textStyles,
+      blocks,
+      blockBasePoints,
+      layouts,
+      objects,
+      namedObjectDictionary,
+      diagnostics,
+      header
+    };
+  };
+
+  return { push, reportMalformedLine, finish };
+};
+
+/**
+ * Splits ASCII DXF text into group code/value pairs. Malformed codes are skipped and
+ * reported to `onMalformed` with their 1-based line number.
+ */
+export function* readAsciiDxfPairs(dxfContent: string, onMalformed?: (line: number) => void): Generator<DxfGroupPair> {
+  const lines = dxfContent.split(/\r\n|\r|\n/);
+  for (let i = 0; i < lines.length; i += 2) {
+    const codeStr = lines[i].trim();
+    const value = lines[i + 1]?.trim();
+    // A code line without a value is the trailing line break
+    if (value === undefined) continue;
+    const code = parseInt(codeStr, 10);
+    if (isNaN(code)) {
+      onMalformed?.(i + 1);
+      continue;
+    }
+    yield { code, value };
   }
+}
+
+export const parseDxfPairs = (pairs: Iterable<DxfGroupPair>, encoding: string = 'utf-8'): DxfData => {
+  const consumer = createDxfPairConsumer(encoding);
+  for (const { code, value } of pairs) consumer.push(code, value);
+  return consumer.finish();
+};
 
-  return {
-    entities,
-    layers: Array.from(layers).sort(),
-    layerDictionary,
-    blocks,
-    blockBasePoints
+/**
+ * A streamlined DXF parser for ASCII files. See `parseBinaryDxf` for binary DXF.
+ */
+export const parseDxf = (dxfContent: string, encoding: string = 'utf-8'): DxfData => {
+  const consumer = createDxfPairConsumer(encoding);
+  for (const { code, value } of readAsciiDxfPairs(dxfContent, consumer.reportMalformedLine)) consumer.push(code, value);
+  return consumer.finish();
+};
+
+const applyHeaderValue = (header: DxfHeader, variable: string, code: number, value: string) => {
+  const setPoint = (key: 'extMin' | 'extMax') => {
+    if (code !== 10 && code !== 20) return;
+    if (!header[key]) header[key] = { x: 0, y: 0 };
+    if (code === 10) header[key]!.x = parseFloat(value);
+    else header[key]!.y = parseFloat(value);
   };
+
+  switch (variable) {
+    case '$ACADVER': if (code === 1) header.acadVersion = value; break;
+    case '$DWGCODEPAGE': if (code === 3) header.codePage = value; break;
+    case '$INSUNITS': if (code === 70) header.insUnits = parseInt(value, 10); break;
+    case '$MEASUREMENT': if (code === 70) header.measurement = parseInt(value, 10); break;
+    case '$EXTMIN': setPoint('extMin'); break;
+    case '$EXTMAX': setPoint('extMax'); break;
+    case '$LTSCALE': if (code === 40) header.ltScale = parseFloat(value); break;
+    case '$TEXTSTYLE': if (code === 7) header.textStyle = value; break;
+    case '$LWDEFAULT': if (code === 370) header.lineWeightDefault = parseInt(value, 10); break;
+  }
+};
+
+/**
+ * Reads only the HEADER section. Cheap enough to run on a raw (not yet properly decoded)
+ * buffer, e.g. to pick the text encoding from $DWGCODEPAGE before the full parse.
+ */
+export const parseDxfHeader = (dxfContent: string): DxfHeader => {
+  // The first ENDSEC closes the header section; no need to split the whole file
+  const end = dxfContent.indexOf('ENDSEC');
+  return parseDxfHeaderPairs(readAsciiDxfPairs(end >= 0 ? dxfContent.slice(0, end + 6) : dxfContent));
+};
+
+// Stops at the end of the header, so lazy pair sources are only read that far
+export const parseDxfHeaderPairs = (pairs: Iterable<DxfGroupPair>): DxfHeader => {
+  const header: DxfHeader = {};
+  let inHeader = false;
+  let headerVar: string | null = null;
+
+  for (const { code, value } of pairs) {
+    if (!inHeader) {
+      if (code === 2 && value === 'HEADER') inHeader = true;
+      // Header is always the first section; anything else means there is none
+      else if (code === 2 && value !== 'HEADER') break;
+      continue;
+    }
+    if (code === 0 && value === 'ENDSEC') break;
+    if (code === 9) headerVar = value;
+    else if (headerVar) applyHeaderValue(header, headerVar, code, value);
+  }
+  return header;
 };
 
 const handleEntityStart = (
@@ -295,10 +660,111 @@ const mapType = (typeStr: string): EntityType => {
     case 'DIMENSION': return EntityType.DIMENSION;
     case 'INSERT': return EntityType.INSERT;
     case 'ATTRIB': return EntityType.ATTRIB;
+    case 'ATTDEF': return EntityType.ATTDEF;
+    case 'HATCH': return EntityType.HATCH;
+    case 'ELLIPSE': return EntityType.ELLIPSE;
+    case 'SOLID': return EntityType.SOLID;
+    case 'TRACE': return EntityType.TRACE;
+    case '3DFACE': return EntityType.FACE3D;
+    case 'LEADER': return EntityType.LEADER;
+    case 'VIEWPORT': return EntityType.VIEWPORT;
+    case 'MULTILEADER':
+    case 'MLEADER': return EntityType.MULTILEADER;
     default: return EntityType.UNKNOWN;
   }
 };
 
+// Group 440 / AcCmTransparency: flag 0x02000000 marks an explicit alpha in the low byte (255 = opaque).
+// BYLAYER/BYBLOCK values carry no alpha and yield undefined.
+const parseTransparency = (raw: number): number | undefined =>
+  (raw & 0x02000000) ? 1 - (raw & 0xFF) / 255 : undefined;
+
+// Common entity data (space and plot properties), shared by all entity parsers
+const parseCommonProperty = (code: number, value: string, entity: Partial<DxfEntity>): boolean => {
+  switch (code) {
+    case 67: entity.paperSpace = parseInt(value, 10); return true;
+    case 420: entity.trueColor = parseInt(value, 10) & 0xFFFFFF; return true;
+    case 440: entity.transparency = parseTransparency(parseInt(value, 10)); return true;
+    case 370: entity.lineWeight = parseInt(value, 10); return true;
+  }
+  return false;
+};
+
+// Read position inside one entity/object for the data that every record may carry
+interface ExtensionState {
+  group: string | null;     // Open 102 "{NAME" group
+  seenSubclass: boolean;    // The owner (330) precedes the first subclass marker (100)
+  xdataApp: string | null;  // Application of the XDATA being read (1001)
+}
+
+const createExtensionState = (): ExtensionState => ({ group: null, seenSubclass: false, xdataApp: null });
+
+type ExtensionTarget = Pick<DxfEntity, 'ownerHandle' | 'reactors' | 'extensionDictionary' | 'xdata'>;
+
+const parseXData = (code: number, value: string, target: ExtensionTarget, state: ExtensionState, encoding: string) => {
+  if (code === 1001) {
+    state.xdataApp = value;
+    if (!target.xdata) target.xdata = {};
+    if (!target.xdata[value]) target.xdata[value] = [];
+    return;
+  }
+  const items = state.xdataApp ? target.xdata?.[state.xdataApp] : undefined;
+  if (!items) return;
+
+  if (code >= 1010 && code <= 1013) {
+    items.push({ code, value: { x: parseFloat(value), y: 0 } });
+  } else if (code >= 1020 && code <= 1023) {
+    const last: DxfXDataItem | undefined = items[items.length - 1];
+    if (last && last.code === code - 10 && typeof last.value === 'object') last.value.y = parseFloat(value);
+  } else if (code >= 1030 && code <= 1033) {
+    // Z is dropped like everywhere else
+  } else if ((code >= 1040 && code <= 1042) || code === 1070 || code === 1071) {
+    items.push({ code, value: parseFloat(value) });
+  } else if (code === 1000) {
+    items.push({ code, value: decodeDxfEscapes(value, encoding) });
+  } else {
+    // 1002 control strings ("{" / "}"), 1003 layer names, 1004 binary chunks, 1005 handles
+    items.push({ code, value });
+  }
+};
+
+/**
+ * Application-defined groups (102), the owner handle (330) and XDATA (1000+), which any entity or
+ * object may carry. Returns true when the pair was consumed; subclass markers are passed on.
+ */
+const parseExtensionData = (code: number, value: string, target: ExtensionTarget, state: ExtensionState, encoding: string): boolean => {
+  if (code >= 1000) {
+    parseXData(code, value, target, state, encoding);
+    return true;
+  }
+  if (code === 102 && value.startsWith('{')) {
+    state.group = value.slice(1).toUpperCase();
+    return true;
+  }
+  if (code === 102 && value === '}') {
+    state.group = null;
+    return true;
+  }
+  if (state.group) {
+    if (state.group === 'ACAD_REACTORS' && code === 330) {
+      if (!target.reactors) target.reactors = [];
+      target.reactors.push(value);
+    } else if (state.group === 'ACAD_XDICTIONARY' && code === 360) {
+      target.extensionDictionary = value;
+    }
+    return true;
+  }
+  if (code === 100) {
+    state.seenSubclass = true;
+    return false;
+  }
+  if (code === 330 && !state.seenSubclass) {
+    target.ownerHandle = value;
+    return true;
+  }
+  return false;
+};
+
 const parsePolylineProperty = (
   code: number,
   value: string,
@@ -309,6 +775,7 @@ const parsePolylineProperty = (
   setPolylineHandle: (h: string | undefined) => void
 ) => {
   const valNum = parseFloat(value);
+  if (parseCommonProperty(code, value, entity)) return;
   if (code === 5) {
     setPolylineHandle(value);
     entity.handle = value;
@@ -339,14 +806,341 @@ const parsePolylineProperty = (
   }
 };
 
+// HATCH group codes are positional: the same code (10, 40, 72, 73...) means different things
+// depending on whether we are in the header, a boundary path, an edge, or the pattern/seed data.
+interface HatchParseState {
+  phase: 'HEADER' | 'PATHS' | 'PATTERN' | 'SEEDS';
+  path: HatchBoundaryPath | null;
+  edge: HatchEdge | null;
+  pathDone: boolean; // Group 97 (source boundary objects) closes the geometry of the current path
+  splineFitCountSeen: boolean; // Spline edges reuse group 97 for their fit point count
+}
+
+const hatchStates = new WeakMap<Partial<DxfEntity>, HatchParseState>();
+
+const HATCH_EDGE_TYPES: Record<number, HatchEdgeType> = { 1: 'LINE', 2: 'ARC', 3: 'ELLIPSE', 4: 'SPLINE' };
+
+const parseHatchProperty = (code: number, value: string, entity: Partial<DxfEntity>, encoding: string) => {
+  let state = hatchStates.get(entity);
+  if (!state) {
+    state = { phase: 'HEADER', path: null, edge: null, pathDone: false, splineFitCountSeen: false };
+    hatchStates.set(entity, state);
+    entity.boundaryPaths = [];
+  }
+
+  const valNum = parseFloat(value);
+  const valInt = parseInt(value, 10);
+
+  // Common entity properties only appear before the hatch data
+  if (code === 5) { entity.handle = value; return; }
+  if (code === 8) { entity.layer = decodeDxfString(value, encoding); return; }
+  if (code === 62) { entity.color = valInt; return; }
+  if (code === 6) { entity.lineType = value; return; }
+  if (state.phase === 'HEADER' && parseCommonProperty(code, value, entity)) return;
+
+  if (state.phase === 'HEADER') {
+    if (code === 2) entity.patternName = value;
+    else if (code === 70) entity.solidFill = (valInt & 1) === 1;
+    else if (code === 91) state.phase = 'PATHS';
+    return;
+  }
+
+  if (state.phase === 'PATHS') {
+    if (code === 75) {
+      // Hatch style follows the last boundary path
+      state.phase = 'PATTERN';
+      return;
+    }
+    if (code === 92) {
+      const path: HatchBoundaryPath = {
+        flags: valInt,
+        isOuter: (valInt & 1) === 1 || (valInt & 16) === 16,
+        isPolyline: (valInt & 2) === 2
+      };
+      if (path.isPolyline) path.vertices = [];
+      else path.edges = [];
+      entity.boundaryPaths!.push(path);
+      state.path = path;
+      state.edge = null;
+      state.pathDone = false;
+      return;
+    }
+
+    const path = state.path;
+    if (!path || state.pathDone) return;
+
+    if (path.isPolyline) {
+      const verts = path.vertices!;
+      if (code === 73) path.closed = valInt === 1;
+      else if (code === 10) verts.push({ x: valNum, y: 0 });
+      else if (code === 20 && verts.length > 0) verts[verts.length - 1].y = valNum;
+      else if (code === 42 && verts.length > 0) verts[verts.length - 1].bulge = valNum;
+      else if (code === 97) state.pathDone = true;
+      return;
+    }
+
+    if (code === 72) {
+      const edge: HatchEdge = { type: HATCH_EDGE_TYPES[valInt] || 'LINE' };
+      if (edge.type === 'SPLINE') {
+        edge.knots = [];
+        edge.controlPoints = [];
+      }
+      path.edges!.push(edge);
+      state.edge = edge;
+      state.splineFitCountSeen = false;
+      return;
+    }
+
+    const edge = state.edge;
+    if (code === 97) {
+      if (edge && edge.type === 'SPLINE' && !state.splineFitCountSeen) {
+        state.splineFitCountSeen = true;
+        edge.fitPoints = [];
+      } else {
+        state.pathDone = true;
+      }
+      return;
+    }
+    if (!edge) return;
+
+    switch (edge.type) {
+      case 'LINE':
+        if (code === 10) edge.start = { x: valNum, y: 0 };
+        else if (code === 20 && edge.start) edge.start.y = valNum;
+        else if (code === 11) edge.end = { x: valNum, y: 0 };
+        else if (code === 21 && edge.end) edge.end.y = valNum;
+        break;
+      case 'ARC':
+      case 'ELLIPSE':
+        if (code === 10) edge.center = { x: valNum, y: 0 };
+        else if (code === 20 && edge.center) edge.center.y = valNum;
+        else if (code === 11) edge.majorAxis = { x: valNum, y: 0 };
+        else if (code === 21 && edge.majorAxis) edge.majorAxis.y = valNum;
+        else if (code === 40) {
+          if (edge.type === 'ARC') edge.radius = valNum;
+          else edge.ratio = valNum;
+        }
+        else if (code === 50) edge.startAngle = valNum;
+        else if (code === 51) edge.endAngle = valNum;
+        else if (code === 73) edge.ccw = valInt === 1;
+        break;
+      case 'SPLINE':
+        if (code === 94) edge.degree = valInt;
+        else if (code === 40) edge.knots!.push(valNum);
+        else if (code === 10) edge.controlPoints!.push({ x: valNum, y: 0 });
+        else if (code === 20 && edge.controlPoints!.length > 0) edge.controlPoints![edge.controlPoints!.length - 1].y = valNum;
+        else if (code === 42) {
+          if (!edge.weights) edge.weights = [];
+          edge.weights.push(valNum);
+        }
+        else if (code === 11) {
+          if (!edge.fitPoints) edge.fitPoints = [];
+          edge.fitPoints.push({ x: valNum, y: 0 });
+        }
+        else if (code === 21 && edge.fitPoints && edge.fitPoints.length > 0) edge.fitPoints[edge.fitPoints.length - 1].y = valNum;
+        break;
+    }
+    return;
+  }
+
+  if (state.phase === 'PATTERN') {
+    // Pattern definition lines are not needed for display; skip to seed points
+    if (code === 98) state.phase = 'SEEDS';
+  }
+};
+
+// MULTILEADER nests its geometry in brace-delimited blocks:
+//   300 CONTEXT_DATA{ ... 302 LEADER{ ... 304 LEADER_LINE{ ... 305 } ... 303 } ... 301 }
+interface MLeaderParseState {
+  scope: 'ROOT' | 'CONTEXT' | 'LEADER' | 'LINE';
+  landing: Point | null;  // LEADER{ 10/20: where the leader lines meet the text
+  lines: Point[][];       // Lines of the current LEADER{ block
+  line: Point[] | null;
+}
+
+const mleaderStates = new WeakMap<Partial<DxfEntity>, MLeaderParseState>();
+
+const parseMLeaderProperty = (code: number, value: string, entity: Partial<DxfEntity>, encoding: string) => {
+  let state = mleaderStates.get(entity);
+  if (!state) {
+    state = { scope: 'ROOT', landing: null, lines: [], line: null };
+    mleaderStates.set(entity, state);
+  }
+  const valNum = parseFloat(value);
+
+  // Scope changes
+  if (code === 300 && value === 'CONTEXT_DATA{') { state.scope = 'CONTEXT'; return; }
+  if (code === 301) { state.scope = 'ROOT'; return; }
+  if (code === 302 && value === 'LEADER{') {
+    state.scope = 'LEADER';
+    state.landing = null;
+    state.lines = [];
+    return;
+  }
+  if (code === 303) {
+    const landing = state.landing;
+    if (!entity.leaderLines) entity.leaderLines = [];
+    state.lines.forEach(line => {
+      const pts = landing ? [...line, landing] : line;
+      if (pts.length > 1) entity.leaderLines!.push(pts);
+    });
+    state.scope = 'CONTEXT';
+    return;
+  }
+  if (code === 304 && value === 'LEADER_LINE{') {
+    state.scope = 'LINE';
+    state.line = [];
+    return;
+  }
+  if (code === 305) {
+    if (state.line) state.lines.push(state.line);
+    state.line = null;
+    state.scope = 'LEADER';
+    return;
+  }
+
+  switch (state.scope) {
+    case 'ROOT':
+      if (code === 5) entity.handle = value;
+      else if (code === 8) entity.layer = decodeDxfString(value, encoding);
+      else if (code === 62) entity.color = parseInt(value, 10);
+      else if (code === 6) entity.lineType = value;
+      else parseCommonProperty(code, value, entity);
+      return;
+    case 'CONTEXT':
+      if (code === 304) entity.text = decodeDxfString(value, encoding);
+      else if (code === 12) entity.start = { x: valNum, y: entity.start?.y ?? 0 };
+      else if (code === 22) entity.start = { x: entity.start?.x ?? 0, y: valNum };
+      else if (code === 41) entity.radius = valNum;
+      else if (code === 42) entity.startAngle = valNum * (180 / Math.PI);
+      return;
+    case 'LEADER':
+      if (code === 10) state.landing = { x: valNum, y: 0 };
+      else if (code === 20 && state.landing) state.landing.y = valNum;
+      return;
+    case 'LINE':
+      if (code === 10) state.line!.push({ x: valNum, y: 0 });
+      else if (code === 20 && state.line!.length > 0) state.line![state.line!.length - 1].y = valNum;
+      return;
+  }
+};
+
+// DIMENSION group 70 & 7
+const DIMENSION_TYPES: DimensionType[] = ['LINEAR', 'ALIGNED', 'ANGULAR', 'DIAMETER', 'RADIUS', 'ANGULAR_3POINT', 'ORDINATE'];
+
+const isCornerEntity = (type?: EntityType) =>
+  type === EntityType.SOLID || type === EntityType.TRACE || type === EntityType.FACE3D;
+
 const parseProperty = (code: number, value: string, entity: Partial<DxfEntity>, encoding: string) => {
   const valNum = parseFloat(value);
 
+  // SOLID/TRACE/3DFACE: corners 1-4 use 10-13 (X) and 20-23 (Y)
+  if (isCornerEntity(entity.type) && ((code >= 10 && code <= 13) || (code >= 20 && code <= 23))) {
+    if (!entity.corners) entity.corners = [];
+    const idx = code % 10;
+    while (entity.corners.length <= idx) entity.corners.push({ x: 0, y: 0 });
+    if (code < 20) entity.corners[idx].x = valNum;
+    else entity.corners[idx].y = valNum;
+    return;
+  }
+
+  // ELLIPSE: 11/21 major axis, 40 ratio, 41/42 start/end parameter
+  if (entity.type === EntityType.ELLIPSE) {
+    if (code === 11 || code === 21) {
+      if (!entity.majorAxis) entity.majorAxis = { x: 0, y: 0 };
+      if (code === 11) entity.majorAxis.x = valNum;
+      else entity.majorAxis.y = valNum;
+      return;
+    }
+    if (code === 40) { entity.ratio = valNum; return; }
+    if (code === 41) { entity.startParam = valNum; return; }
+    if (code === 42) { entity.endParam = valNum; return; }
+  }
+
+  // DIMENSION: keep the semantic points next to the legacy start/end/text fields
+  if (entity.type === EntityType.DIMENSION) {
+    switch (code) {
+      case 10: entity.definitionPoint = { x: valNum, y: entity.definitionPoint?.y ?? 0 }; break;
+      case 20: entity.definitionPoint = { x: entity.definitionPoint?.x ?? 0, y: valNum }; break;
+      case 11: entity.textMidpoint = { x: valNum, y: entity.textMidpoint?.y ?? 0 }; break;
+      case 21: entity.textMidpoint = { x: entity.textMidpoint?.x ?? 0, y: valNum }; break;
+      case 1: entity.textOverride = decodeDxfString(value, encoding); break;
+      case 42: entity.actualMeasurement = valNum; return;
+      case 70: entity.dimensionType = DIMENSION_TYPES[parseInt(value, 10) & 7]; return;
+    }
+  }
+
+  // LEADER: 10/20 repeat per vertex (the first one carries the arrowhead), 340 links the annotation
+  if (entity.type === EntityType.LEADER) {
+    if (code === 10) {
+      if (!entity.leaderLines) entity.leaderLines = [[]];
+      entity.leaderLines[0].push({ x: valNum, y: 0 });
+      return;
+    }
+    if (code === 20) {
+      const line = entity.leaderLines?.[0];
+      if (line && line.length > 0) line[line.length - 1].y = valNum;
+      return;
+    }
+    if (code === 340) { entity.annotationHandle = value; return; }
+  }
+
+  // VIEWPORT: the center (10/20) goes through the generic start/center handling below
+  if (entity.type === EntityType.VIEWPORT) {
+    switch (code) {
+      case 40: entity.viewportWidth = valNum; return;
+      case 41: entity.viewportHeight = valNum; return;
+      case 12: entity.viewCenter = { x: valNum, y: entity.viewCenter?.y ?? 0 }; return;
+      case 22: entity.viewCenter = { x: entity.viewCenter?.x ?? 0, y: valNum }; return;
+      case 17: entity.viewTarget = { x: valNum, y: entity.viewTarget?.y ?? 0 }; return;
+      case 27: entity.viewTarget = { x: entity.viewTarget?.x ?? 0, y: valNum }; return;
+      case 45: entity.viewHeight = valNum; return;
+      case 51: entity.twistAngle = valNum; return;
+      case 68: entity.viewportStatus = parseInt(value, 10); return;
+      case 69: entity.viewportId = parseInt(value, 10); return;
+      case 340: entity.clipBoundaryHandle = value; return;
+      case 331:
+        if (!entity.frozenLayerHandles) entity.frozenLayerHandles = [];
+        entity.frozenLayerHandles.push(value);
+        return;
+    }
+  }
+
+  // TEXT/ATTRIB/ATTDEF/MTEXT: explicit text geometry (40 and 11/21 also fill the legacy radius/end below)
+  if (entity.type === EntityType.TEXT || entity.type === EntityType.ATTRIB || entity.type === EntityType.ATTDEF) {
+    const isAttribute = entity.type !== EntityType.TEXT;
+    switch (code) {
+      case 2: if (isAttribute) entity.attributeTag = decodeDxfString(value, encoding); return;
+      case 3: if (entity.type === EntityType.ATTDEF) entity.attributePrompt = decodeDxfString(value, encoding); return;
+      case 7: entity.textStyle = decodeDxfString(value, encoding); return;
+      case 40: entity.textHeight = valNum; break;
+      case 41: entity.widthFactor = valNum; return;
+      case 51: entity.obliqueAngle = valNum; return;
+      case 72: entity.hAlign = parseInt(value, 10); return;
+      // Attributes use 73 for the field length and 74 for the vertical alignment
+      case 73: if (!isAttribute) entity.vAlign = parseInt(value, 10); return;
+      case 74: if (isAttribute) entity.vAlign = parseInt(value, 10); return;
+      case 11: entity.alignPoint = { x: valNum, y: entity.alignPoint?.y ?? 0 }; break;
+      case 21: entity.alignPoint = { x: entity.alignPoint?.x ?? 0, y: valNum }; break;
+    }
+  } else if (entity.type === EntityType.MTEXT) {
+    switch (code) {
+      case 7: entity.textStyle = decodeDxfString(value, encoding); return;
+      case 40: if (entity.textHeight === undefined) entity.textHeight = valNum; break;
+      case 41: entity.referenceWidth = valNum; return;
+      case 44: entity.lineSpacing = valNum; return;
+      case 71: entity.attachmentPoint = parseInt(value, 10); return;
+    }
+  }
+
+  if (parseCommonProperty(code, value, entity)) return;
+
   switch (code) {
     case 5: entity.handle = value; break;
     case 8: entity.layer = decodeDxfString(value, encoding); break;
     case 62: entity.color = parseInt(value, 10); break;
     case 6: entity.lineType = value; break;
+    case 48: entity.lineTypeScale = valNum; break;
 
     case 10:
       if (!entity.start) entity.start = { x: 0, y: 0 };
@@ -431,6 +1225,10 @@ const parseProperty = (code: number, value: string, entity: Partial<DxfEntity>,
       if (entity.type === EntityType.SPLINE) {
         if (!entity.weights) entity.weights = [];
         entity.weights.push(valNum);
+      } else if (entity.type === EntityType.LWPOLYLINE) {
+        // Bulge of the vertex it follows
+        const lastV = entity.vertices ? entity.vertices[entity.vertices.length - 1] : null;
+        if (lastV) lastV.bulge = valNum;
       } else {
         if (!entity.scale) entity.scale = { x: 1, y: 1 };
         entity.scale.y = valNum;
@@ -461,18 +1259,44 @@ const parseProperty = (code: number, value: string, entity: Partial<DxfEntity>,
     case 70:
       const valInt = parseInt(value);
       if (entity.type === EntityType.LWPOLYLINE && (valInt & 1) === 1) entity.closed = true;
-      if (entity.type === EntityType.ATTRIB && (valInt & 1) === 1) entity.invisible = true;
+      if ((entity.type === EntityType.ATTRIB || entity.type === EntityType.ATTDEF) && (valInt & 1) === 1) entity.invisible = true;
+      if (entity.type === EntityType.ATTDEF && (valInt & 2) === 2) entity.constant = true;
       if (entity.type === EntityType.SPLINE) entity.degree = valInt;
       break;
     case 1: entity.text = decodeDxfString(value, encoding); break;
     case 2:
       if (entity.type === EntityType.INSERT || entity.type === EntityType.DIMENSION) {
-        entity.blockName = value;
+        entity.blockName = decodeDxfEscapes(value, encoding);
       }
       break;
   }
 };
 
+/**
+ * True when an entity lacks what the renderer needs to draw it (e.g. a LINE without its end point,
+ * a CIRCLE without a radius). Types that are not drawn directly are never reported.
+ */
+const isMissingGeometry = (ent: DxfEntity): boolean => {
+  switch (ent.type) {
+    case EntityType.LINE: return !ent.start || !ent.end;
+    case EntityType.LWPOLYLINE: return !ent.vertices || ent.vertices.length < 2;
+    case EntityType.CIRCLE:
+    case EntityType.ARC: return !ent.center || !ent.radius;
+    case EntityType.TEXT:
+    case EntityType.MTEXT:
+    case EntityType.ATTRIB: return !ent.start;
+    case EntityType.INSERT: return !ent.start || !ent.blockName;
+    case EntityType.HATCH: return !ent.boundaryPaths || ent.boundaryPaths.length === 0;
+    case EntityType.ELLIPSE: return !ent.center || !ent.majorAxis;
+    case EntityType.SOLID:
+    case EntityType.TRACE:
+    case EntityType.FACE3D: return !ent.corners || ent.corners.length < 3;
+    case EntityType.SPLINE: return (ent.controlPoints?.length || 0) < 2 && (ent.fitPoints?.length || 0) < 2;
+    case EntityType.LEADER: return !ent.leaderLines?.some(line => line.length >= 2);
+    default: return false;
+  }
+};
+
 const finalizeEntity = (raw: Partial<DxfEntity>, list: DxfEntity[], layers: Set<string>) => {
   if (raw.type === EntityType.UNKNOWN) return;
 
@@ -480,6 +1304,19 @@ const finalizeEntity = (raw: Partial<DxfEntity>, list: DxfEntity[], layers: Set<
     raw.startAngle = Math.atan2(raw.xAxis.y, raw.xAxis.x) * (180 / Math.PI);
   }
 
+  if (raw.corners && raw.corners.length === 4) {
+    // SOLID/TRACE list corners in zig-zag order (1,2,4,3); store them as an outline
+    if (raw.type === EntityType.SOLID || raw.type === EntityType.TRACE) {
+      raw.corners = [raw.corners[0], raw.corners[1], raw.corners[3], raw.corners[2]];
+      // Triangles repeat the third corner as the fourth
+      const [, , c3, c4] = raw.corners;
+      if (c3.x === c4.x && c3.y === c4.y) raw.corners.splice(2, 1);
+    } else {
+      const [, , c3, c4] = raw.corners;
+      if (c3.x === c4.x && c3.y === c4.y) raw.corners.pop();
+    }
+  }
+
   if (raw.layer) layers.add(raw.layer);
   list.push(raw as DxfEntity);
 };
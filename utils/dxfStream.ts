@@ -0,0 +1,108 @@
+
+import { DxfData } from '../types';
+import { createDxfPairConsumer } from './dxfParser';
+import { detectDxfEncoding } from './dxfEncoding';
+import { isBinaryDxf, parseBinaryDxf } from './dxfBinary';
+
+// Bytes decoded per step; bounds the transient string size on huge files
+const CHUNK_BYTES = 1 << 20;
+
+/**
+ * Splits streamed ASCII DXF text into lines and pairs them up as code/value.
+ * Same pairing rules as `readAsciiDxfPairs`, but chunk boundaries may fall anywhere,
+ * including between the CR and LF of a line break.
+ */
+export const createAsciiPairReader = (
+  onPair: (code: number, value: string) => void,
+  onMalformed?: (line: number) => void
+) => {
+  let carry = '';
+  let codeLine: string | null = null;
+  let lineNumber = 0;
+
+  const handleLine = (line: string) => {
+    lineNumber++;
+    if (codeLine === null) {
+      codeLine = line;
+      return;
+    }
+    const code = parseInt(codeLine.trim(), 10);
+    codeLine = null;
+    if (isNaN(code)) {
+      // The code was on the previous line
+      onMalformed?.(lineNumber - 1);
+      return;
+    }
+    onPair(code, line.trim());
+  };
+
+  const push = (text: string) => {
+    let buffered = carry + text;
+    // A trailing CR may be the first half of a CRLF
+    carry = '';
+    if (buffered.endsWith('\r')) {
+      carry = '\r';
+      buffered = buffered.slice(0, -1);
+    }
+    const lines = buffered.split(/\r\n|\r|\n/);
+    carry = lines.pop()! + carry;
+    lines.forEach(handleLine);
+  };
+
+  const end = () => {
+    handleLine(carry.replace(/\r$/, ''));
+    carry = '';
+  };
+
+  return { push, end };
+};
+
+// Share of the progress bar given to picking the encoding, before the parse pass
+const DETECT_PROGRESS = 0.1;
+
+/**
+ * Parses a DXF file buffer (ASCII or binary) without materializing the whole text:
+ * the encoding is picked once, then the bytes are decoded and parsed chunk by chunk.
+ * `signal` is checked between chunks; aborting throws an AbortError.
+ */
+export const streamParseDxf = (
+  buffer: ArrayBuffer,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): { data: DxfData, enc: string } => {
+  const checkAborted = () => {
+    if (signal?.aborted) throw new DOMException('DXF parsing cancelled', 'AbortError');
+  };
+
+  if (isBinaryDxf(buffer)) {
+    const result = parseBinaryDxf(buffer, fraction => {
+      checkAborted();
+      onProgress?.(fraction);
+    });
+    onProgress?.(1);
+    return result;
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const enc = detectDxfEncoding(bytes, fraction => {
+    checkAborted();
+    onProgress?.(fraction * DETECT_PROGRESS);
+  });
+  checkAborted();
+  onProgress?.(DETECT_PROGRESS);
+
+  const decoder = new TextDecoder(enc, { fatal: false });
+  const consumer = createDxfPairConsumer(enc);
+  const reader = createAsciiPairReader(consumer.push, consumer.reportMalformedLine);
+
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_BYTES) {
+    checkAborted();
+    const chunk = bytes.subarray(offset, offset + CHUNK_BYTES);
+    reader.push(decoder.decode(chunk, { stream: true }));
+    onProgress?.(DETECT_PROGRESS + (1 - DETECT_PROGRESS) * Math.min(1, (offset + chunk.length) / bytes.length));
+  }
+  reader.push(decoder.decode());
+  reader.end();
+
+  return { data: consumer.finish(), enc };
+};
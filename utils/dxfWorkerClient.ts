@@ -0,0 +1,57 @@
+
+import { DxfData } from '../types';
+import type { DxfWorkerRequest, DxfWorkerResponse } from './dxfParse.worker';
+
+export interface DxfParseOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Parses a DXF file buffer in a dedicated worker. The buffer is transferred, so it is
+ * unusable by the caller afterwards. Aborting terminates the worker and rejects with an AbortError.
+ */
+export const parseDxfInWorker = (buffer: ArrayBuffer, options: DxfParseOptions = {}): Promise<{ data: DxfData, enc: string }> => {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('DXF parsing cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./dxfParse.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('DXF parsing cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<DxfWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.fraction);
+      } else if (msg.type === 'done') {
+        cleanup();
+        resolve({ data: msg.data, enc: msg.enc });
+      } else {
+        cleanup();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || 'DXF worker failed'));
+    };
+
+    worker.postMessage({ buffer } as DxfWorkerRequest, [buffer]);
+  });
+};
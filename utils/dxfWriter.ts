@@ -0,0 +1,874 @@
+
+import { DxfData, DxfEntity, DxfXDataItem, EntityType, LayerColors, Point, PolylineVertex } from '../types';
+import { calculateTotalBounds, getEllipseEntityPoints, getHatchPathPoints, transformPoint } from './geometryUtils';
+import { getTextBlockTop, getTextHeight, getTextLayout } from './textUtils';
+import { aciToHex, hexToAci } from './renderUtils';
+import { LINEWEIGHT_BYLAYER, LINEWEIGHT_DEFAULT, trueColorToHex } from './plotStyleUtils';
+
+export type DxfWriterVersion = 'R12' | 'R2000';
+
+export const DXF_WRITER_VERSIONS: Record<DxfWriterVersion, { label: string, acadVersion: string }> = {
+  R2000: { label: 'AutoCAD 2000 (AC1015)', acadVersion: 'AC1015' },
+  R12: { label: 'AutoCAD R12 (AC1009)', acadVersion: 'AC1009' }
+};
+
+export interface DxfWriteOptions {
+  version?: DxfWriterVersion; // Defaults to R2000
+  // Only model space entities on these layers are written; blocks they reference are written whole
+  layers?: Iterable<string>;
+  // Viewer colors by layer (hex), written to the layer table as the nearest ACI
+  layerColors?: LayerColors;
+}
+
+// Longest string per MTEXT group; longer text is split over 3 groups with the rest in group 1
+const MTEXT_CHUNK = 250;
+
+// Characters the parser decodes from %% control codes
+const SPECIAL_CHARS: Record<string, string> = { '°': '%%d', '±': '%%p', 'ø': '%%c' };
+
+const isRealCode = (code: number) =>
+  (code >= 10 && code <= 59) || (code >= 110 && code <= 149) || (code >= 210 && code <= 239) ||
+  (code >= 460 && code <= 469) || (code >= 1010 && code <= 1059);
+
+const formatNumber = (code: number, value: number): string => {
+  const n = Number.isFinite(value) ? value : 0;
+  if (!isRealCode(code)) return String(Math.round(n));
+  const s = n.toFixed(10).replace(/0+$/, '').replace(/\.$/, '.0');
+  return s === '-0.0' ? '0.0' : s;
+};
+
+/**
+ * Text as stored in a DXF: everything outside printable ASCII becomes a \U+XXXX escape, so the file
+ * is independent of the reader's code page. MTEXT keeps line breaks as \P and escapes its control characters.
+ */
+const encodeText = (text: string, mtext = false): string => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const code = text.charCodeAt(i);
+    if (SPECIAL_CHARS[ch]) result += SPECIAL_CHARS[ch];
+    else if (ch === '\n') result += mtext ? '\\P' : ' ';
+    else if (mtext && (ch === '\\' || ch === '{' || ch === '}')) result += `\\${ch}`;
+    else if (code < 32) continue;
+    else if (code > 126) result += `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    else result += ch;
+  }
+  return result;
+};
+
+const layerOf = (ent: DxfEntity) => ent.layer || '0';
+
+interface DxfOutput {
+  version: DxfWriterVersion;
+  isR12: boolean;
+  lines: string[];
+  pair: (code: number, value: string | number) => void;
+  point: (code: number, p: Point) => void; // X, Y and a zero Z (code + 10, code + 20)
+  nextHandle: () => string;
+  handleSeed: () => string;
+}
+
+const createDxfOutput = (version: DxfWriterVersion): DxfOutput => {
+  const lines: string[] = [];
+  let handle = 1;
+  const pair = (code: number, value: string | number) => {
+    lines.push(String(code), typeof value === 'number' ? formatNumber(code, value) : value);
+  };
+  return {
+    version,
+    isR12: version === 'R12',
+    lines,
+    pair,
+    point: (code, p) => {
+      pair(code, p.x);
+      pair(code + 10, p.y);
+      pair(code + 20, 0);
+    },
+    nextHandle: () => (handle++).toString(16).toUpperCase(),
+    handleSeed: () => handle.toString(16).toUpperCase()
+  };
+};
+
+interface WriteContext {
+  data: DxfData;
+  owner: string; // Block record handle of the containing block (R2000)
+}
+
+// Group 0, handle, owner, layer and the optional visual properties. Returns the entity handle ('' for R12).
+const writeEntityStart = (out: DxfOutput, type: string, ent: DxfEntity, owner: string): string => {
+  out.pair(0, type);
+  let handle = '';
+  if (!out.isR12) {
+    handle = out.nextHandle();
+    out.pair(5, handle);
+    out.pair(330, owner);
+    out.pair(100, 'AcDbEntity');
+  }
+  out.pair(8, encodeText(layerOf(ent)));
+  if (ent.lineType) out.pair(6, encodeText(ent.lineType));
+  // Neither version has true color (420), so it falls back to the nearest ACI
+  if (ent.color !== undefined) out.pair(62, ent.color);
+  else if (ent.trueColor !== undefined) out.pair(62, hexToAci(trueColorToHex(ent.trueColor)));
+  if (!out.isR12 && ent.lineWeight !== undefined && ent.lineWeight !== LINEWEIGHT_BYLAYER) out.pair(370, ent.lineWeight);
+  if (ent.lineTypeScale !== undefined && ent.lineTypeScale !== 1) out.pair(48, ent.lineTypeScale);
+  return handle;
+};
+
+const writeXData = (out: DxfOutput, xdata?: Record<string, DxfXDataItem[]>) => {
+  if (!xdata) return;
+  Object.entries(xdata).forEach(([app, items]) => {
+    out.pair(1001, app);
+    items.forEach(({ code, value }) => {
+      if (typeof value === 'object') {
+        out.pair(code, value.x);
+        out.pair(code + 10, value.y);
+        out.pair(code + 20, 0);
+      } else if (code === 1005) {
+        // Handles are renumbered on write, so the reference would point at an unrelated object
+      } else if (code === 1000) {
+        out.pair(code, encodeText(String(value)).slice(0, 255));
+      } else {
+        out.pair(code, value);
+      }
+    });
+  });
+};
+
+// LWPOLYLINE, or POLYLINE/VERTEX/SEQEND for R12. Also carries curves the target version cannot store.
+const writePolyline = (out: DxfOutput, ent: DxfEntity, vertices: PolylineVertex[], closed: boolean, ctx: WriteContext) => {
+  if (vertices.length < 2) return;
+  if (out.isR12) {
+    writeEntityStart(out, 'POLYLINE', ent, ctx.owner);
+    out.pair(66, 1);
+    out.point(10, { x: 0, y: 0 });
+    out.pair(70, closed ? 1 : 0);
+    writeXData(out, ent.xdata);
+    vertices.forEach(v => {
+      out.pair(0, 'VERTEX');
+      out.pair(8, encodeText(layerOf(ent)));
+      out.point(10, v);
+      if (v.bulge) out.pair(42, v.bulge);
+    });
+    out.pair(0, 'SEQEND');
+    out.pair(8, encodeText(layerOf(ent)));
+    return;
+  }
+  writeEntityStart(out, 'LWPOLYLINE', ent, ctx.owner);
+  out.pair(100, 'AcDbPolyline');
+  out.pair(90, vertices.length);
+  out.pair(70, closed ? 1 : 0);
+  vertices.forEach(v => {
+    out.pair(10, v.x);
+    out.pair(20, v.y);
+    if (v.bulge) out.pair(42, v.bulge);
+  });
+  writeXData(out, ent.xdata);
+};
+
+// TEXT, ATTRIB or ATTDEF (single line)
+const writeText = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext, ownerOverride?: string) => {
+  if (!ent.start) return;
+  writeEntityStart(out, ent.type, ent, ownerOverride || ctx.owner);
+  if (!out.isR12) out.pair(100, 'AcDbText');
+  out.point(10, ent.start);
+  out.pair(40, getTextHeight(ent, ctx.data.textStyles));
+  out.pair(1, encodeText(ent.text || ''));
+  if (ent.startAngle) out.pair(50, ent.startAngle);
+  if (ent.widthFactor && ent.widthFactor !== 1) out.pair(41, ent.widthFactor);
+  if (ent.obliqueAngle) out.pair(51, ent.obliqueAngle);
+  if (ent.textStyle) out.pair(7, encodeText(ent.textStyle));
+  if (ent.hAlign) out.pair(72, ent.hAlign);
+  if ((ent.hAlign || ent.vAlign) && ent.alignPoint) out.point(11, ent.alignPoint);
+
+  const flags = (ent.invisible ? 1 : 0) | (ent.constant ? 2 : 0);
+  if (ent.type === EntityType.TEXT) {
+    if (!out.isR12) out.pair(100, 'AcDbText');
+    if (ent.vAlign) out.pair(73, ent.vAlign);
+  } else if (ent.type === EntityType.ATTDEF) {
+    if (!out.isR12) out.pair(100, 'AcDbAttributeDefinition');
+    out.pair(3, encodeText(ent.attributePrompt || ''));
+    out.pair(2, encodeText(ent.attributeTag || ''));
+    out.pair(70, flags);
+    if (ent.vAlign) out.pair(74, ent.vAlign);
+  } else {
+    if (!out.isR12) out.pair(100, 'AcDbAttribute');
+    out.pair(2, encodeText(ent.attributeTag || ''));
+    out.pair(70, flags);
+    if (ent.vAlign) out.pair(74, ent.vAlign);
+  }
+  writeXData(out, ent.xdata);
+};
+
+/**
+ * One left/center/right aligned TEXT per line of an MTEXT, placed where the viewer draws the lines
+ * (R12 has no MTEXT).
+ */
+const splitTextLines = (ent: DxfEntity, data: DxfData): DxfEntity[] => {
+  const layout = getTextLayout(ent, data.textStyles);
+  if (!layout) return [];
+  const rad = layout.rotation * Math.PI / 180;
+  const down = { x: Math.sin(rad), y: -Math.cos(rad) };
+  const firstBaseline = getTextBlockTop(layout) + layout.height;
+  const hAlign = layout.hAlign === 'center' ? 1 : layout.hAlign === 'right' ? 2 : 0;
+
+  return layout.lines.map((line, i) => {
+    const offset = firstBaseline + i * layout.lineHeight;
+    const p = { x: layout.anchor.x + down.x * offset, y: layout.anchor.y + down.y * offset };
+    return {
+      type: EntityType.TEXT,
+      layer: ent.layer,
+      color: ent.color,
+      trueColor: ent.trueColor,
+      lineWeight: ent.lineWeight,
+      textStyle: ent.textStyle,
+      text: line,
+      start: p,
+      alignPoint: hAlign ? p : undefined,
+      hAlign,
+      textHeight: layout.height,
+      startAngle: layout.rotation,
+      widthFactor: layout.widthFactor,
+      obliqueAngle: layout.obliqueAngle,
+      xdata: i === 0 ? ent.xdata : undefined
+    };
+  });
+};
+
+const writeMText = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext) => {
+  if (!ent.start) return;
+  writeEntityStart(out, 'MTEXT', ent, ctx.owner);
+  out.pair(100, 'AcDbMText');
+  out.point(10, ent.start);
+  out.pair(40, getTextHeight(ent, ctx.data.textStyles));
+  out.pair(41, ent.referenceWidth || 0);
+  out.pair(71, ent.attachmentPoint || 1);
+  out.pair(72, 1);
+  const text = encodeText(ent.text || '', true);
+  let rest = text;
+  while (rest.length > MTEXT_CHUNK) {
+    out.pair(3, rest.slice(0, MTEXT_CHUNK));
+    rest = rest.slice(MTEXT_CHUNK);
+  }
+  out.pair(1, rest);
+  if (ent.textStyle) out.pair(7, encodeText(ent.textStyle));
+  if (ent.startAngle) {
+    const rad = ent.startAngle * Math.PI / 180;
+    out.point(11, { x: Math.cos(rad), y: Math.sin(rad) });
+  }
+  if (ent.lineSpacing && ent.lineSpacing !== 1) out.pair(44, ent.lineSpacing);
+  writeXData(out, ent.xdata);
+};
+
+/**
+ * ATTRIBs for an INSERT's attribute values, placed where the block's ATTDEFs put them.
+ * Constant attributes are skipped (they live in the block); values without an ATTDEF are written invisible.
+ */
+const getInsertAttribs = (insert: DxfEntity, data: DxfData): DxfEntity[] => {
+  if (!insert.attributes || !insert.start || !insert.blockName) return [];
+  const defs = (data.blocks[insert.blockName] || []).filter(e => e.type === EntityType.ATTDEF);
+  const base = data.blockBasePoints[insert.blockName] || { x: 0, y: 0 };
+  const scale = insert.scale || { x: 1, y: 1 };
+  const rotation = insert.rotation || 0;
+  const place = (p: Point) => transformPoint({ x: p.x - base.x, y: p.y - base.y }, scale, rotation, insert.start!);
+
+  return Object.entries(insert.attributes).flatMap(([tag, value]): DxfEntity[] => {
+    const def = defs.find(d => d.attributeTag === tag);
+    if (def?.constant) return [];
+    if (!def?.start) {
+      return [{ type: EntityType.ATTRIB, layer: insert.layer, attributeTag: tag, text: value, start: insert.start!, invisible: true }];
+    }
+    return [{
+      ...def,
+      type: EntityType.ATTRIB,
+      handle: undefined,
+      xdata: undefined,
+      text: value,
+      start: place(def.start),
+      alignPoint: def.alignPoint && place(def.alignPoint),
+      textHeight: getTextHeight(def, data.textStyles) * Math.abs(scale.y || 1),
+      startAngle: (def.startAngle || 0) + rotation
+    }];
+  });
+};
+
+const writeInsert = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext) => {
+  if (!ent.start || !ent.blockName) return;
+  const attribs = getInsertAttribs(ent, ctx.data);
+  const handle = writeEntityStart(out, 'INSERT', ent, ctx.owner);
+  if (!out.isR12) out.pair(100, 'AcDbBlockReference');
+  if (attribs.length > 0) out.pair(66, 1);
+  out.pair(2, encodeText(ent.blockName));
+  out.point(10, ent.start);
+  const scale = ent.scale || { x: 1, y: 1 };
+  if (scale.x !== 1) out.pair(41, scale.x);
+  if (scale.y !== 1) out.pair(42, scale.y);
+  if (ent.rotation) out.pair(50, ent.rotation);
+  if ((ent.columnCount || 1) > 1 || (ent.rowCount || 1) > 1) {
+    out.pair(70, ent.columnCount || 1);
+    out.pair(71, ent.rowCount || 1);
+    out.pair(44, ent.columnSpacing || 0);
+    out.pair(45, ent.rowSpacing || 0);
+  }
+  writeXData(out, ent.xdata);
+
+  if (attribs.length === 0) return;
+  attribs.forEach(attrib => writeText(out, attrib, ctx, handle));
+  const seqEnd: DxfEntity = { type: EntityType.UNKNOWN, layer: ent.layer };
+  writeEntityStart(out, 'SEQEND', seqEnd, handle || ctx.owner);
+};
+
+// SOLID/TRACE store corners 3 and 4 swapped; the parser keeps them in outline order
+const getFileCorners = (ent: DxfEntity): Point[] => {
+  const c = ent.corners || [];
+  if (c.length === 3) return [c[0], c[1], c[2], c[2]];
+  if (ent.type === EntityType.FACE3D) return c.slice(0, 4);
+  return [c[0], c[1], c[3], c[2]];
+};
+
+// Boundary loops of a hatch as vertex lists (edge paths flattened), with their outer/external flags
+const getHatchOutlines = (ent: DxfEntity) => (ent.boundaryPaths || [])
+  .map(path => ({
+    flags: (path.flags & 17) || (path.isOuter ? 1 : 0),
+    vertices: path.isPolyline ? (path.vertices || []) : getHatchPathPoints(path)
+  }))
+  .filter(path => path.vertices.length > 2);
+
+const writeHatch = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext) => {
+  const paths = getHatchOutlines(ent);
+  if (paths.length === 0) return;
+
+  writeEntityStart(out, 'HATCH', ent, ctx.owner);
+  out.pair(100, 'AcDbHatch');
+  out.point(10, { x: 0, y: 0 });
+  out.pair(210, 0);
+  out.pair(220, 0);
+  out.pair(230, 1);
+  out.pair(2, 'SOLID');
+  out.pair(70, 1);
+  out.pair(71, 0);
+  out.pair(91, paths.length);
+  paths.forEach(path => {
+    const hasBulge = path.vertices.some((v: PolylineVertex) => !!v.bulge);
+    out.pair(92, path.flags | 2);
+    out.pair(72, hasBulge ? 1 : 0);
+    out.pair(73, 1);
+    out.pair(93, path.vertices.length);
+    path.vertices.forEach((v: PolylineVertex) => {
+      out.pair(10, v.x);
+      out.pair(20, v.y);
+      if (hasBulge) out.pair(42, v.bulge || 0);
+    });
+    out.pair(97, 0);
+  });
+  out.pair(75, 0);
+  out.pair(76, 1);
+  out.pair(98, 0);
+  writeXData(out, ent.xdata);
+};
+
+// Clamped uniform knot vector for control points that came without usable knots
+const getClampedKnots = (count: number, degree: number): number[] => {
+  const knots: number[] = [];
+  const spans = count - degree;
+  for (let i = 0; i < count + degree + 1; i++) {
+    knots.push(Math.min(Math.max(i - degree, 0), spans) / spans);
+  }
+  return knots;
+};
+
+const writeSpline = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext) => {
+  const control = ent.controlPoints || [];
+  const degree = ent.degree || 3;
+  const knots = ent.knots?.length === control.length + degree + 1 ? ent.knots : getClampedKnots(control.length, degree);
+  const weights = ent.weights?.length === control.length ? ent.weights : [];
+
+  writeEntityStart(out, 'SPLINE', ent, ctx.owner);
+  out.pair(100, 'AcDbSpline');
+  out.pair(210, 0);
+  out.pair(220, 0);
+  out.pair(230, 1);
+  out.pair(70, 8 | (weights.length > 0 ? 4 : 0));
+  out.pair(71, degree);
+  out.pair(72, knots.length);
+  out.pair(73, control.length);
+  out.pair(74, 0);
+  knots.forEach(k => out.pair(40, k));
+  weights.forEach(w => out.pair(41, w));
+  control.forEach(p => out.point(10, p));
+  writeXData(out, ent.xdata);
+};
+
+// Polyline standing in for an entity the version cannot store
+const toPolyline = (ent: DxfEntity, vertices: PolylineVertex[], closed: boolean, xdata = ent.xdata): DxfEntity[] =>
+  vertices.length < 2 ? [] : [{ ...ent, type: EntityType.LWPOLYLINE, vertices, closed, xdata }];
+
+const isFullEllipse = (ent: DxfEntity) =>
+  ent.startParam === undefined || ent.endParam === undefined || Math.abs(ent.endParam - ent.startParam - 2 * Math.PI) < 1e-9;
+
+/**
+ * What an entity is written as, i.e. what reading the file back gives. Entities the version has no
+ * record for are converted to simpler ones; unsupported types (VIEWPORT, unknown) give nothing.
+ */
+const getWrittenEntities = (ent: DxfEntity, data: DxfData, version: DxfWriterVersion = 'R2000'): DxfEntity[] => {
+  const isR12 = version === 'R12';
+  switch (ent.type) {
+    case EntityType.DIMENSION:
+      // The dimension's graphics are in its block, drawn in place
+      if (!ent.blockName || !data.blocks[ent.blockName]) return [];
+      return [{ ...ent, type: EntityType.INSERT, start: { x: 0, y: 0 }, scale: undefined, rotation: 0 }];
+
+    case EntityType.HATCH:
+      // Pattern hatches need their pattern definition lines, which are not kept; their boundaries are written instead
+      if (!isR12 && ent.solidFill) return [ent];
+      return getHatchOutlines(ent).flatMap((path, i) => toPolyline(ent, path.vertices, true, i === 0 ? ent.xdata : undefined));
+
+    case EntityType.ELLIPSE:
+      if (!isR12 || !ent.center || !ent.majorAxis) return [ent];
+      return toPolyline(ent, getEllipseEntityPoints(ent), isFullEllipse(ent));
+
+    case EntityType.SPLINE: {
+      const control = ent.controlPoints || [];
+      const fit = ent.fitPoints || [];
+      // R12 has no SPLINE, and a spline known only by fit points cannot be rebuilt without its tangents
+      if (!isR12 && control.length > (ent.degree || 3)) return [ent];
+      return toPolyline(ent, fit.length > 1 ? fit : control, false);
+    }
+
+    case EntityType.MTEXT:
+      return isR12 && ent.start ? splitTextLines(ent, data) : [ent];
+
+    case EntityType.LEADER:
+    case EntityType.MULTILEADER: {
+      // Written as their lines and text; arrowheads and landing styles need a dimension/leader style
+      const lines = (ent.leaderLines || []).flatMap((line, i) => toPolyline(ent, line, false, i === 0 ? ent.xdata : undefined));
+      if (ent.type !== EntityType.MULTILEADER || !ent.text || !ent.start) return lines;
+      const label: DxfEntity = { ...ent, type: EntityType.MTEXT, attachmentPoint: 1, xdata: ent.leaderLines?.length ? undefined : ent.xdata };
+      return [...lines, ...getWrittenEntities(label, data, version)];
+    }
+
+    case EntityType.INSERT:
+      return [ent, ...getInsertAttribs(ent, data)];
+
+    // ATTRIBs are written from their INSERT's values
+    case EntityType.ATTRIB:
+    case EntityType.VIEWPORT:
+    case EntityType.UNKNOWN:
+      return [];
+
+    default:
+      return [ent];
+  }
+};
+
+const writeEntity = (out: DxfOutput, ent: DxfEntity, ctx: WriteContext) => {
+  const written = getWrittenEntities(ent, ctx.data, out.version);
+  if (written[0] !== ent) {
+    written.forEach(e => writeEntity(out, e, ctx));
+    return;
+  }
+  switch (ent.type) {
+    case EntityType.LINE:
+      if (!ent.start || !ent.end) return;
+      writeEntityStart(out, 'LINE', ent, ctx.owner);
+      if (!out.isR12) out.pair(100, 'AcDbLine');
+      out.point(10, ent.start);
+      out.point(11, ent.end);
+      writeXData(out, ent.xdata);
+      return;
+
+    case EntityType.CIRCLE:
+    case EntityType.ARC:
+      if (!ent.center || !ent.radius) return;
+      writeEntityStart(out, ent.type, ent, ctx.owner);
+      if (!out.isR12) out.pair(100, 'AcDbCircle');
+      out.point(10, ent.center);
+      out.pair(40, ent.radius);
+      if (ent.type === EntityType.ARC) {
+        if (!out.isR12) out.pair(100, 'AcDbArc');
+        out.pair(50, ent.startAngle || 0);
+        out.pair(51, ent.endAngle || 0);
+      }
+      writeXData(out, ent.xdata);
+      return;
+
+    case EntityType.LWPOLYLINE:
+      writePolyline(out, ent, ent.vertices || [], !!ent.closed, ctx);
+      return;
+
+    case EntityType.TEXT:
+    case EntityType.ATTDEF:
+      writeText(out, ent, ctx);
+      return;
+
+    case EntityType.MTEXT:
+      writeMText(out, ent, ctx);
+      return;
+
+    case EntityType.INSERT:
+      writeInsert(out, ent, ctx);
+      return;
+
+    case EntityType.HATCH:
+      writeHatch(out, ent, ctx);
+      return;
+
+    case EntityType.ELLIPSE: {
+      if (!ent.center || !ent.majorAxis) return;
+      writeEntityStart(out, 'ELLIPSE', ent, ctx.owner);
+      out.pair(100, 'AcDbEllipse');
+      out.point(10, ent.center);
+      out.point(11, ent.majorAxis);
+      out.pair(210, 0);
+      out.pair(220, 0);
+      out.pair(230, 1);
+      out.pair(40, ent.ratio ?? 1);
+      out.pair(41, ent.startParam ?? 0);
+      out.pair(42, ent.endParam ?? 2 * Math.PI);
+      writeXData(out, ent.xdata);
+      return;
+    }
+
+    case EntityType.SOLID:
+    case EntityType.TRACE:
+    case EntityType.FACE3D: {
+      if (!ent.corners || ent.corners.length < 3) return;
+      writeEntityStart(out, ent.type, ent, ctx.owner);
+      if (!out.isR12) out.pair(100, ent.type === EntityType.FACE3D ? 'AcDbFace' : 'AcDbTrace');
+      getFileCorners(ent).forEach((p, i) => out.point(10 + i, p));
+      writeXData(out, ent.xdata);
+      return;
+    }
+
+    case EntityType.SPLINE:
+      writeSpline(out, ent, ctx);
+      return;
+
+    default:
+      return;
+  }
+};
+
+const isLayoutBlock = (name: string) => /^\*(model|paper)_space/i.test(name);
+
+// Blocks referenced (directly or nested) by the entities, each after the blocks it uses
+const collectBlockNames = (entities: DxfEntity[], data: DxfData): string[] => {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  const visit = (list: DxfEntity[]) => list.forEach(ent => {
+    if (ent.type !== EntityType.INSERT && ent.type !== EntityType.DIMENSION) return;
+    const name = ent.blockName;
+    if (!name || seen.has(name) || isLayoutBlock(name) || !data.blocks[name]) return;
+    seen.add(name);
+    visit(data.blocks[name]);
+    result.push(name);
+  });
+  visit(entities);
+  return result;
+};
+
+// Layer color for the table: the viewer color when it was changed, otherwise the layer's own ACI
+const getLayerAci = (name: string, data: DxfData, layerColors?: LayerColors): number => {
+  const def = data.layerDictionary[name];
+  const own = def ? (def.trueColor !== undefined ? hexToAci(trueColorToHex(def.trueColor)) : def.color) : 7;
+  const viewerColor = layerColors?.[name];
+  if (!viewerColor || (def && aciToHex(def.color) === viewerColor.toUpperCase())) return own || 7;
+  return hexToAci(viewerColor);
+};
+
+const writeTable = (out: DxfOutput, name: string, handle: string, count: number, writeEntries: () => void, subclass?: string) => {
+  out.pair(0, 'TABLE');
+  out.pair(2, name);
+  if (!out.isR12) {
+    out.pair(5, handle);
+    out.pair(330, '0');
+    out.pair(100, 'AcDbSymbolTable');
+  }
+  out.pair(70, count);
+  if (!out.isR12 && subclass) out.pair(100, subclass);
+  writeEntries();
+  out.pair(0, 'ENDTAB');
+};
+
+const writeTableRecordStart = (out: DxfOutput, type: string, tableHandle: string, subclass: string, handleCode = 5) => {
+  out.pair(0, type);
+  if (out.isR12) return;
+  out.pair(handleCode, out.nextHandle());
+  out.pair(330, tableHandle);
+  out.pair(100, 'AcDbSymbolTableRecord');
+  out.pair(100, subclass);
+};
+
+const writeLayout = (out: DxfOutput, handle: string, owner: string, name: string, tabOrder: number, blockRecord: string) => {
+  out.pair(0, 'LAYOUT');
+  out.pair(5, handle);
+  out.pair(330, owner);
+  out.pair(100, 'AcDbPlotSettings');
+  out.pair(1, '');
+  out.pair(4, '');
+  out.pair(6, '');
+  [40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 140, 141].forEach(code => out.pair(code, 0));
+  out.pair(142, 1);
+  out.pair(143, 1);
+  out.pair(70, 688);
+  out.pair(72, 1);
+  out.pair(73, 0);
+  out.pair(74, 5);
+  out.pair(7, '');
+  out.pair(75, 16);
+  out.pair(147, 1);
+  out.pair(148, 0);
+  out.pair(149, 0);
+  out.pair(100, 'AcDbLayout');
+  out.pair(1, name);
+  out.pair(70, 1);
+  out.pair(71, tabOrder);
+  out.pair(10, 0);
+  out.pair(20, 0);
+  out.pair(11, 420);
+  out.pair(21, 297);
+  out.point(12, { x: 0, y: 0 });
+  out.point(14, { x: 0, y: 0 });
+  out.point(15, { x: 0, y: 0 });
+  out.pair(146, 0);
+  out.point(13, { x: 0, y: 0 });
+  out.point(16, { x: 1, y: 0 });
+  out.point(17, { x: 0, y: 1 });
+  out.pair(76, 0);
+  out.pair(330, blockRecord);
+};
+
+/**
+ * Serializes a drawing as an ASCII DXF (R12 or R2000) that CAD programs open directly or attach as an XREF.
+ * Writes model space only, with the layers, linetypes, text styles and blocks the written entities use.
+ * Entity handles are renumbered; XDATA is kept except for handle references (1005). Curves and text the target version has no entity for
+ * (R12 ELLIPSE/SPLINE/MTEXT, pattern hatches) are written as polylines and single-line text.
+ */
+export const writeDxf = (data: DxfData, options: DxfWriteOptions = {}): string => {
+  const version = options.version || 'R2000';
+  const out = createDxfOutput(version);
+  const isR12 = out.isR12;
+  const layerFilter = options.layers ? new Set(options.layers) : null;
+
+  const entities = data.entities.filter(e => e.paperSpace !== 1 && (!layerFilter || layerFilter.has(e.layer)));
+  const blockNames = collectBlockNames(entities, data);
+  const written = [...entities, ...blockNames.flatMap(name => data.blocks[name])];
+
+  // Table contents used by the written entities
+  const layerNames = Array.from(new Set(['0', ...written.map(layerOf)]));
+  const lineTypeNames = Array.from(new Set([
+    ...layerNames.map(name => data.layerDictionary[name]?.lineType),
+    ...written.map(e => e.lineType)
+  ].filter((name): name is string => !!name && !/^(BYLAYER|BYBLOCK|CONTINUOUS)$/i.test(name))));
+  const styleNames = Array.from(new Set(written.map(e => e.textStyle)
+    .filter((name): name is string => !!name && name.toUpperCase() !== 'STANDARD')));
+  const appNames = Array.from(new Set(['ACAD', ...written.flatMap(e => Object.keys(e.xdata || {}))]));
+
+  // R2000 objects referenced before they are written
+  const h = isR12 ? null : {
+    vport: out.nextHandle(), ltype: out.nextHandle(), layer: out.nextHandle(), style: out.nextHandle(),
+    view: out.nextHandle(), ucs: out.nextHandle(), appid: out.nextHandle(), dimstyle: out.nextHandle(),
+    blockRecord: out.nextHandle(), rootDictionary: out.nextHandle(), groupDictionary: out.nextHandle(),
+    layoutDictionary: out.nextHandle(), modelLayout: out.nextHandle(), paperLayout: out.nextHandle(),
+    modelSpace: out.nextHandle(), paperSpace: out.nextHandle()
+  };
+  const blockRecords: Record<string, string> = {};
+  if (h) blockNames.forEach(name => { blockRecords[name] = out.nextHandle(); });
+
+  const bounds = calculateTotalBounds(entities, data.blocks);
+  const hasBounds = Number.isFinite(bounds.minX) && bounds.maxX >= bounds.minX;
+  const extMin = hasBounds ? { x: bounds.minX, y: bounds.minY } : { x: 0, y: 0 };
+  const extMax = hasBounds ? { x: bounds.maxX, y: bounds.maxY } : { x: 0, y: 0 };
+
+  // --- TABLES ---
+  out.pair(0, 'SECTION');
+  out.pair(2, 'TABLES');
+
+  writeTable(out, 'VPORT', h?.vport || '', 1, () => {
+    writeTableRecordStart(out, 'VPORT', h?.vport || '', 'AcDbViewportTableRecord');
+    out.pair(2, isR12 ? '*ACTIVE' : '*Active');
+    out.pair(70, 0);
+    out.pair(10, 0);
+    out.pair(20, 0);
+    out.pair(11, 1);
+    out.pair(21, 1);
+    out.pair(12, (extMin.x + extMax.x) / 2);
+    out.pair(22, (extMin.y + extMax.y) / 2);
+    out.pair(40, Math.max(extMax.y - extMin.y, (extMax.x - extMin.x) / 1.5, 1) * 1.1);
+    out.pair(41, 1.5);
+  });
+
+  const lineTypes = [
+    ...(isR12 ? [] : [{ name: 'ByBlock', description: '', pattern: [] as number[] }, { name: 'ByLayer', description: '', pattern: [] as number[] }]),
+    { name: isR12 ? 'CONTINUOUS' : 'Continuous', description: 'Solid line', pattern: [] as number[] },
+    ...lineTypeNames.map(name => {
+      const def = data.lineTypes?.[name.toUpperCase()];
+      return { name, description: def?.description || '', pattern: def?.pattern || [] };
+    })
+  ];
+  writeTable(out, 'LTYPE', h?.ltype || '', lineTypes.length, () => lineTypes.forEach(lt => {
+    writeTableRecordStart(out, 'LTYPE', h?.ltype || '', 'AcDbLinetypeTableRecord');
+    out.pair(2, encodeText(lt.name));
+    out.pair(70, 0);
+    out.pair(3, encodeText(lt.description));
+    out.pair(72, 65);
+    out.pair(73, lt.pattern.length);
+    out.pair(40, lt.pattern.reduce((sum, v) => sum + Math.abs(v), 0));
+    lt.pattern.forEach(v => {
+      out.pair(49, v);
+      if (!isR12) out.pair(74, 0);
+    });
+  }));
+
+  writeTable(out, 'LAYER', h?.layer || '', layerNames.length, () => layerNames.forEach(name => {
+    const def = data.layerDictionary[name];
+    const aci = getLayerAci(name, data, options.layerColors);
+    writeTableRecordStart(out, 'LAYER', h?.layer || '', 'AcDbLayerTableRecord');
+    out.pair(2, encodeText(name));
+    out.pair(70, (def?.frozen ? 1 : 0) | (def?.locked ? 4 : 0));
+    out.pair(62, def?.off ? -aci : aci);
+    const lineType = def?.lineType && !/^CONTINUOUS$/i.test(def.lineType) ? def.lineType : (isR12 ? 'CONTINUOUS' : 'Continuous');
+    out.pair(6, encodeText(lineType));
+    if (isR12) return;
+    if (def?.plot === false) out.pair(290, 0);
+    out.pair(370, def?.lineWeight ?? LINEWEIGHT_DEFAULT);
+  }));
+
+  const styles = [{ name: isR12 ? 'STANDARD' : 'Standard', fontFile: 'txt', bigFontFile: '', fixedHeight: 0, widthFactor: 1, obliqueAngle: 0 },
+    ...styleNames.map(name => {
+      const def = data.textStyles?.[name.toUpperCase()];
+      return { name, fontFile: def?.fontFile || 'txt', bigFontFile: def?.bigFontFile || '', fixedHeight: def?.fixedHeight || 0, widthFactor: def?.widthFactor || 1, obliqueAngle: def?.obliqueAngle || 0 };
+    })];
+  writeTable(out, 'STYLE', h?.style || '', styles.length, () => styles.forEach(style => {
+    writeTableRecordStart(out, 'STYLE', h?.style || '', 'AcDbTextStyleTableRecord');
+    out.pair(2, encodeText(style.name));
+    out.pair(70, 0);
+    out.pair(40, style.fixedHeight);
+    out.pair(41, style.widthFactor);
+    out.pair(50, style.obliqueAngle);
+    out.pair(71, 0);
+    out.pair(42, 2.5);
+    out.pair(3, encodeText(style.fontFile));
+    out.pair(4, encodeText(style.bigFontFile));
+  }));
+
+  if (h) {
+    writeTable(out, 'VIEW', h.view, 0, () => {});
+    writeTable(out, 'UCS', h.ucs, 0, () => {});
+  }
+
+  writeTable(out, 'APPID', h?.appid || '', appNames.length, () => appNames.forEach(name => {
+    writeTableRecordStart(out, 'APPID', h?.appid || '', 'AcDbRegAppTableRecord');
+    out.pair(2, encodeText(name));
+    out.pair(70, 0);
+  }));
+
+  if (h) {
+    writeTable(out, 'DIMSTYLE', h.dimstyle, 1, () => {
+      // DIMSTYLE records carry their handle in group 105
+      writeTableRecordStart(out, 'DIMSTYLE', h.dimstyle, 'AcDbDimStyleTableRecord', 105);
+      out.pair(2, 'Standard');
+      out.pair(70, 0);
+    }, 'AcDbDimStyleTable');
+
+    const records: [string, string, string?][] = [
+      ['*Model_Space', h.modelSpace, h.modelLayout],
+      ['*Paper_Space', h.paperSpace, h.paperLayout],
+      ...blockNames.map(name => [name, blockRecords[name]] as [string, string])
+    ];
+    writeTable(out, 'BLOCK_RECORD', h.blockRecord, records.length, () => records.forEach(([name, handle, layout]) => {
+      out.pair(0, 'BLOCK_RECORD');
+      out.pair(5, handle);
+      out.pair(330, h.blockRecord);
+      out.pair(100, 'AcDbSymbolTableRecord');
+      out.pair(100, 'AcDbBlockTableRecord');
+      out.pair(2, encodeText(name));
+      if (layout) out.pair(340, layout);
+    }));
+  }
+  out.pair(0, 'ENDSEC');
+
+  // --- BLOCKS ---
+  out.pair(0, 'SECTION');
+  out.pair(2, 'BLOCKS');
+  const writeBlock = (name: string, owner: string, content: DxfEntity[], base: Point) => {
+    const hasAttdefs = content.some(e => e.type === EntityType.ATTDEF && !e.constant);
+    const blockStart: DxfEntity = { type: EntityType.UNKNOWN, layer: '0' };
+    writeEntityStart(out, 'BLOCK', blockStart, owner);
+    if (!isR12) out.pair(100, 'AcDbBlockBegin');
+    out.pair(2, encodeText(name));
+    out.pair(70, (name.startsWith('*') ? 1 : 0) | (hasAttdefs ? 2 : 0));
+    out.point(10, base);
+    out.pair(3, encodeText(name));
+    if (!isR12) out.pair(1, '');
+    content.forEach(ent => writeEntity(out, ent, { data, owner }));
+    writeEntityStart(out, 'ENDBLK', blockStart, owner);
+    if (!isR12) out.pair(100, 'AcDbBlockEnd');
+  };
+  if (h) {
+    writeBlock('*Model_Space', h.modelSpace, [], { x: 0, y: 0 });
+    writeBlock('*Paper_Space', h.paperSpace, [], { x: 0, y: 0 });
+  }
+  blockNames.forEach(name => {
+    writeBlock(name, blockRecords[name] || '', data.blocks[name], data.blockBasePoints[name] || { x: 0, y: 0 });
+  });
+  out.pair(0, 'ENDSEC');
+
+  // --- ENTITIES ---
+  out.pair(0, 'SECTION');
+  out.pair(2, 'ENTITIES');
+  entities.forEach(ent => writeEntity(out, ent, { data, owner: h?.modelSpace || '' }));
+  out.pair(0, 'ENDSEC');
+
+  // --- OBJECTS --- (the minimal dictionary tree R2000 readers expect)
+  if (h) {
+    out.pair(0, 'SECTION');
+    out.pair(2, 'OBJECTS');
+    const writeDictionary = (handle: string, owner: string, entries: [string, string][]) => {
+      out.pair(0, 'DICTIONARY');
+      out.pair(5, handle);
+      out.pair(330, owner);
+      out.pair(100, 'AcDbDictionary');
+      out.pair(281, 1);
+      entries.forEach(([name, entry]) => {
+        out.pair(3, name);
+        out.pair(350, entry);
+      });
+    };
+    writeDictionary(h.rootDictionary, '0', [['ACAD_GROUP', h.groupDictionary], ['ACAD_LAYOUT', h.layoutDictionary]]);
+    writeDictionary(h.groupDictionary, h.rootDictionary, []);
+    writeDictionary(h.layoutDictionary, h.rootDictionary, [['Layout1', h.paperLayout], ['Model', h.modelLayout]]);
+    writeLayout(out, h.modelLayout, h.layoutDictionary, 'Model', 0, h.modelSpace);
+    writeLayout(out, h.paperLayout, h.layoutDictionary, 'Layout1', 1, h.paperSpace);
+    out.pair(0, 'ENDSEC');
+  }
+  out.pair(0, 'EOF');
+
+  // --- HEADER --- (written last for the handle seed)
+  const head = createDxfOutput(version);
+  const variable = (name: string, code: number, value: string | number) => {
+    head.pair(9, name);
+    head.pair(code, value);
+  };
+  head.pair(0, 'SECTION');
+  head.pair(2, 'HEADER');
+  variable('$ACADVER', 1, DXF_WRITER_VERSIONS[version].acadVersion);
+  if (!isR12) variable('$DWGCODEPAGE', 3, 'ANSI_1252');
+  head.pair(9, '$INSBASE');
+  head.point(10, { x: 0, y: 0 });
+  head.pair(9, '$EXTMIN');
+  head.point(10, extMin);
+  head.pair(9, '$EXTMAX');
+  head.point(10, extMax);
+  variable('$LTSCALE', 40, data.header?.ltScale ?? 1);
+  variable('$CLAYER', 8, '0');
+  if (isR12) {
+    variable('$HANDLING', 70, 0);
+  } else {
+    if (data.header?.insUnits !== undefined) variable('$INSUNITS', 70, data.header.insUnits);
+    if (data.header?.measurement !== undefined) variable('$MEASUREMENT', 70, data.header.measurement);
+    variable('$HANDSEED', 5, out.handleSeed());
+  }
+  head.pair(0, 'ENDSEC');
+
+  return head.lines.concat(out.lines).join('\n') + '\n';
+};
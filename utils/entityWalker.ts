@@ -0,0 +1,286 @@
+import { DxfData, DxfEntity, DxfLayout, EntityType, LayerColors, Point, PolylineVertex } from '../types';
+import { getHatchPathPoints } from './geometryUtils';
+import { getDimensionText } from './dimensionUtils';
+import { isDrawnText } from './attributeUtils';
+import { getEntityLinePattern, resolveLineTypeName, toCanvasDash } from './lineTypeUtils';
+import { resolveLineWeightMm, resolveTransparency } from './plotStyleUtils';
+import { TextLayout, TextMeasure, getTextLayout, getTextStyle, getStyleFontFamily } from './textUtils';
+import { ViewportTransform, getLayoutEntities, getLayoutViewports, getModelSpaceEntities, getViewportClipPath, getViewportFrozenLayers, getViewportTransform } from './layoutUtils';
+import { MIN_PATTERN_PX, getLineDash, resolveEntityColor } from './renderUtils';
+
+// One placement of a block: translate(origin) rotate(rotation) scale(scale) translate(-basePoint)
+export interface BlockPlacement {
+    origin: Point;
+    rotation: number; // Degrees, counterclockwise
+    scale: Point;
+    basePoint: Point;
+}
+
+// Geometry in the current drawing coordinates; angles and ellipse parameters are radians, counterclockwise
+export type DrawShape =
+    | { type: 'path', paths: PolylineVertex[][], closed: boolean } // Bulged vertices are circular arcs
+    | { type: 'circle', center: Point, radius: number }
+    | { type: 'arc', center: Point, radius: number, start: number, end: number }
+    | { type: 'ellipse', center: Point, majorAxis: Point, ratio: number, start: number, end: number };
+
+export interface DrawStyle {
+    layer: string;          // Layer the output belongs to (layer 0 content takes its block's layer)
+    color: string;
+    alpha: number;          // Opacity, with pattern hatches already tinted down
+    lineWeightMm?: number;  // Plotted lineweight (370); undefined is the backend's thin default
+    pattern?: number[];     // LTYPE pattern in drawing units
+    lineType?: string;      // Resolved linetype name, for the preset dashes when there is no pattern
+    scaleAcc: number;       // Block and viewport scale the entity is drawn at
+}
+
+/**
+ * Output side of the entity walk: the canvas, PDF and SVG exporters each implement it. Nested
+ * placements and viewports are callbacks so a backend can scope its transform and clip to them.
+ */
+export interface DrawBackend {
+    // Text measure in the font the backend draws; undefined estimates the width
+    measureText(fontFamily: string): TextMeasure | undefined;
+    withPlacement(placement: BlockPlacement, draw: () => void): void;
+    // `clip` is in paper space, the view maps model space onto it
+    withViewport(clip: Point[], view: ViewportTransform, draw: () => void): void;
+    stroke(shape: DrawShape, style: DrawStyle): void;
+    fill(shape: DrawShape, style: DrawStyle, evenOdd?: boolean): void;
+    text(layout: TextLayout, style: DrawStyle): void;
+}
+
+export interface EntityWalkOptions {
+    data: DxfData;
+    activeLayers: Set<string>;
+    layerColors: LayerColors;
+    filledLayers?: Set<string>;
+    onWhite: boolean; // Print colors (color 7 flips to black) on a white sheet
+}
+
+// Center, radius, start angle and signed sweep (radians) of a polyline bulge segment
+export const getBulgeArc = (p1: Point, p2: Point, bulge: number) => {
+    const sweep = 4 * Math.atan(bulge);
+    const chord = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+    // The center lies on the chord's perpendicular bisector, on the left for a counterclockwise bulge
+    const mid = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+    const offset = (chord / 2) / Math.tan(sweep / 2);
+    const nx = -(p2.y - p1.y) / chord;
+    const ny = (p2.x - p1.x) / chord;
+    const center = { x: mid.x + nx * offset, y: mid.y + ny * offset };
+    return { center, radius, start: Math.atan2(p1.y - center.y, p1.x - center.x), sweep };
+};
+
+/**
+ * Dash array in screen pixels for a view drawn at `screenScale` pixels per drawing unit. LTYPE
+ * patterns too fine for the zoom would render solid, so they are stretched to stay readable;
+ * unknown linetype names fall back to the screen-space presets.
+ */
+export const getScreenDash = (style: DrawStyle, screenScale: number, lineWidthPx: number): number[] => {
+    if (style.pattern) {
+        const patternPx = style.pattern.reduce((sum, v) => sum + Math.abs(v), 0) * screenScale;
+        const stretch = patternPx > 0 && patternPx < MIN_PATTERN_PX ? MIN_PATTERN_PX / patternPx : 1;
+        return toCanvasDash(style.pattern.map(v => v * stretch * screenScale), lineWidthPx);
+    }
+    return getLineDash(style.lineType, screenScale).map(v => v * screenScale);
+};
+
+/**
+ * Walks the drawing the way every renderer shows it and hands the primitives to a backend:
+ * INSERTs (with MINSERT grids) recurse into their blocks, layer 0 content takes the layer of the
+ * block it sits in, dimension blocks are drawn in place, and color, lineweight, linetype and
+ * transparency are resolved with BYBLOCK values passed down from the enclosing INSERT.
+ */
+export const createEntityWalker = (backend: DrawBackend, { data, activeLayers, layerColors, filledLayers, onWhite }: EntityWalkOptions) => {
+    // Layers drawn by the passes below; a viewport narrows this down by its own frozen layers
+    let visibleLayers = activeLayers;
+
+    const resolveColor = (ent: DxfEntity, layer: string) => resolveEntityColor(ent, layerColors[layer] || '#e2e8f0', onWhite);
+
+    // Lineweight (hundredths of mm) an INSERT hands down to its BYBLOCK children
+    const blockLineWeight = (ent: DxfEntity, effectiveLayer: string, contextLineWeight?: number) =>
+        Math.round(resolveLineWeightMm(ent, data, effectiveLayer, contextLineWeight) * 100);
+
+    // Calls `draw` inside each placement of an INSERT (MINSERT grids repeat it)
+    const forEachPlacement = (ent: DxfEntity, draw: () => void) => {
+        const basePoint = data.blockBasePoints[ent.blockName!] || { x: 0, y: 0 };
+        const scale = { x: ent.scale?.x || 1, y: ent.scale?.y || 1 };
+        for (let r = 0; r < (ent.rowCount || 1); r++) {
+            for (let c = 0; c < (ent.columnCount || 1); c++) {
+                const origin = { x: ent.start!.x + c * (ent.columnSpacing || 0), y: ent.start!.y + r * (ent.rowSpacing || 0) };
+                backend.withPlacement({ origin, rotation: ent.rotation || 0, scale, basePoint }, draw);
+            }
+        }
+    };
+
+    const layoutText = (ent: DxfEntity) =>
+        getTextLayout(ent, data.textStyles, backend.measureText(getStyleFontFamily(getTextStyle(ent, data.textStyles))));
+
+    // A. Fills of closed outlines on the layers marked as filled
+    const drawFills = (entities: DxfEntity[], contextLayer = '0') => {
+        for (const ent of entities) {
+            const effectiveLayer = ent.layer === '0' ? contextLayer : ent.layer;
+            const isLayerActive = visibleLayers.has(effectiveLayer);
+
+            // Traverse Blocks even if layer is hidden (to find nested items)
+            if (ent.type === EntityType.INSERT && ent.start && ent.blockName && data.blocks[ent.blockName]) {
+                forEachPlacement(ent, () => drawFills(data.blocks[ent.blockName!], effectiveLayer));
+                continue;
+            }
+
+            // Dimension blocks (e.g. *D56) hold their arrows in drawing coordinates
+            if (ent.type === EntityType.DIMENSION && ent.blockName && data.blocks[ent.blockName]) {
+                if (isLayerActive) drawFills(data.blocks[ent.blockName], effectiveLayer);
+                continue;
+            }
+
+            if (!isLayerActive || !filledLayers?.has(effectiveLayer)) continue;
+
+            const style: DrawStyle = { layer: effectiveLayer, color: resolveColor(ent, effectiveLayer), alpha: 1, scaleAcc: 1 };
+            if (ent.type === EntityType.LWPOLYLINE && ent.vertices && ent.vertices.length > 2 && ent.closed) {
+                backend.fill({ type: 'path', paths: [ent.vertices], closed: true }, style);
+            } else if (ent.type === EntityType.CIRCLE && ent.center && ent.radius) {
+                backend.fill({ type: 'circle', center: ent.center, radius: ent.radius }, style);
+            }
+        }
+    };
+
+    // B. Strokes - Lines, Arcs, Text, and Outlines of Polygons
+    // contextLineType / contextLineWeight: resolved values of the enclosing INSERT, used by BYBLOCK children
+    const drawStrokes = (entities: DxfEntity[], scaleAcc = 1, contextLayer = '0', contextLineType?: string, contextLineWeight?: number) => {
+        for (const ent of entities) {
+            const effectiveLayer = ent.layer === '0' ? contextLayer : ent.layer;
+            const isLayerActive = visibleLayers.has(effectiveLayer);
+
+            if (ent.type === EntityType.INSERT && ent.start && ent.blockName && data.blocks[ent.blockName]) {
+                const lineType = resolveLineTypeName(ent, data, effectiveLayer, contextLineType);
+                const lineWeight = blockLineWeight(ent, effectiveLayer, contextLineWeight);
+                forEachPlacement(ent, () => drawStrokes(data.blocks[ent.blockName!], scaleAcc * (ent.scale?.x || 1), effectiveLayer, lineType, lineWeight));
+                continue;
+            }
+
+            // Dimension blocks hold their graphics in drawing coordinates
+            if (ent.type === EntityType.DIMENSION && ent.blockName && data.blocks[ent.blockName]) {
+                if (isLayerActive) {
+                    drawStrokes(data.blocks[ent.blockName], scaleAcc, effectiveLayer, resolveLineTypeName(ent, data, effectiveLayer, contextLineType), blockLineWeight(ent, effectiveLayer, contextLineWeight));
+                }
+                continue;
+            }
+
+            if (!isLayerActive) continue;
+
+            const style: DrawStyle = {
+                layer: effectiveLayer,
+                color: resolveColor(ent, effectiveLayer),
+                alpha: 1 - resolveTransparency(ent, data, effectiveLayer),
+                lineWeightMm: resolveLineWeightMm(ent, data, effectiveLayer, contextLineWeight),
+                pattern: getEntityLinePattern(ent, data, effectiveLayer, contextLineType) || undefined,
+                lineType: resolveLineTypeName(ent, data, effectiveLayer, contextLineType),
+                scaleAcc
+            };
+
+            if (ent.type === EntityType.LINE && ent.start && ent.end) {
+                backend.stroke({ type: 'path', paths: [[ent.start, ent.end]], closed: false }, style);
+            }
+            else if (ent.type === EntityType.LWPOLYLINE && ent.vertices && ent.vertices.length > 1) {
+                backend.stroke({ type: 'path', paths: [ent.vertices], closed: !!ent.closed }, style);
+            }
+            else if (ent.type === EntityType.CIRCLE && ent.center && ent.radius) {
+                backend.stroke({ type: 'circle', center: ent.center, radius: ent.radius }, style);
+            }
+            else if (ent.type === EntityType.ARC && ent.center && ent.radius) {
+                const start = (ent.startAngle || 0) * Math.PI / 180;
+                let end = (ent.endAngle || 0) * Math.PI / 180;
+                if (end <= start) end += 2 * Math.PI;
+                backend.stroke({ type: 'arc', center: ent.center, radius: ent.radius, start, end }, style);
+            }
+            else if ((ent.type === EntityType.LEADER || ent.type === EntityType.MULTILEADER) && (ent.leaderLines || ent.text)) {
+                const lines = (ent.leaderLines || []).filter(line => line.length >= 2);
+                if (lines.length > 0) backend.stroke({ type: 'path', paths: lines, closed: false }, style);
+                // Arrowheads: a small filled dot sized to the text height
+                const dot = (ent.radius || 10) * 0.3;
+                ent.leaderLines?.forEach(line => {
+                    if (line.length > 0) backend.fill({ type: 'circle', center: line[0], radius: dot }, style);
+                });
+                // MLEADER text location is the top-left corner of the MTEXT box
+                if (ent.type === EntityType.MULTILEADER && ent.start && ent.text) {
+                    const layout = layoutText(ent);
+                    if (layout) backend.text(layout, style);
+                }
+            }
+            else if (isDrawnText(ent) && ent.start && ent.text) {
+                // Wrapping and aligned/fit text use the font that is actually drawn
+                const layout = layoutText(ent);
+                if (layout) backend.text(layout, style);
+            }
+            else if (ent.type === EntityType.HATCH && ent.boundaryPaths && ent.boundaryPaths.length > 0) {
+                const paths = ent.boundaryPaths.map(path => getHatchPathPoints(path)).filter(pts => pts.length >= 2);
+                // Islands are cut out by the even-odd rule. Pattern hatches are shown as a light tint
+                // since line patterns are not expanded.
+                if (paths.length > 0) {
+                    backend.fill({ type: 'path', paths, closed: true }, { ...style, alpha: ent.solidFill ? style.alpha : style.alpha * 0.25 }, true);
+                }
+            }
+            else if (ent.type === EntityType.ELLIPSE && ent.center && ent.majorAxis) {
+                const start = ent.startParam ?? 0;
+                let end = ent.endParam ?? 2 * Math.PI;
+                if (end <= start) end += 2 * Math.PI;
+                backend.stroke({ type: 'ellipse', center: ent.center, majorAxis: ent.majorAxis, ratio: ent.ratio ?? 1, start, end }, style);
+            }
+            else if ((ent.type === EntityType.SOLID || ent.type === EntityType.TRACE) && ent.corners && ent.corners.length > 2) {
+                backend.fill({ type: 'path', paths: [ent.corners], closed: true }, style);
+            }
+            else if (ent.type === EntityType.FACE3D && ent.corners && ent.corners.length > 2) {
+                // 3D faces are shown as their (wireframe) outline in plan
+                backend.stroke({ type: 'path', paths: [ent.corners], closed: true }, style);
+            }
+            // Fallback for Dimensions without blocks (or failed block load)
+            else if (ent.type === EntityType.DIMENSION) {
+                if (ent.measureStart && ent.measureEnd) {
+                    backend.stroke({ type: 'path', paths: [[ent.measureStart, ent.measureEnd]], closed: false }, style);
+                }
+                const textPos = ent.textMidpoint || ent.end;
+                const dimText = getDimensionText(ent);
+                if (textPos && dimText) {
+                    backend.text({
+                        anchor: textPos,
+                        rotation: ent.startAngle || 0,
+                        height: 2.5,
+                        widthFactor: 1,
+                        obliqueAngle: 0,
+                        hAlign: 'center',
+                        vAlign: 'bottom',
+                        lines: [dimText],
+                        lineHeight: 2.5,
+                        fontFamily: 'monospace'
+                    }, style);
+                }
+            }
+        }
+    };
+
+    // C. A Layout - each viewport's clipped and scaled model space window, then paper space on top
+    const drawLayout = (sheet: DxfLayout) => {
+        const modelEntities = getModelSpaceEntities(data);
+        const paperEntities = getLayoutEntities(data, sheet);
+
+        getLayoutViewports(data, sheet).forEach(vp => {
+            const view = getViewportTransform(vp);
+            const clip = getViewportClipPath(vp, paperEntities);
+            if (!view || clip.length < 3) return;
+
+            const frozen = getViewportFrozenLayers(vp, data);
+            visibleLayers = frozen.size > 0 ? new Set([...activeLayers].filter(l => !frozen.has(l))) : activeLayers;
+            backend.withViewport(clip, view, () => drawStrokes(modelEntities, view.scale));
+            visibleLayers = activeLayers;
+
+            // Frame, unless its layer is hidden (a common way to keep frames off the plot)
+            if (activeLayers.has(vp.layer)) {
+                backend.stroke({ type: 'path', paths: [clip], closed: true }, { layer: vp.layer, color: resolveColor(vp, vp.layer), alpha: 1, scaleAcc: 1 });
+            }
+        });
+
+        drawStrokes(paperEntities);
+    };
+
+    return { drawFills, drawStrokes, drawLayout };
+};
@@ -1,5 +1,7 @@
 
-import { DxfEntity, EntityType, Point, Bounds } from '../types';
+import { DxfEntity, DxfHeader, EntityType, Point, Bounds, PolylineVertex, HatchBoundaryPath, HatchEdge } from '../types';
+import { getTextBoxCorners, getTextLayout } from './textUtils';
+import { isDrawnText } from './attributeUtils';
 
 export const distance = (p1: Point, p2: Point): number => {
     return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
@@ -47,6 +49,131 @@ export const distancePointToInfiniteLine = (p: Point, lStart: Point, lEnd: Point
     return numerator / denominator;
 };
 
+// --- CURVE TESSELLATION HELPERS ---
+
+const segmentsForSweep = (sweepRad: number) => Math.max(8, Math.ceil(Math.abs(sweepRad) / (Math.PI / 18)));
+
+// Points along an arc from startRad to endRad (radians). Sweep direction follows the sign of (endRad - startRad).
+export const getArcPoints = (center: Point, radius: number, startRad: number, endRad: number): Point[] => {
+    const segments = segmentsForSweep(endRad - startRad);
+    const pts: Point[] = [];
+    for (let i = 0; i <= segments; i++) {
+        const a = startRad + (endRad - startRad) * (i / segments);
+        pts.push({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius });
+    }
+    return pts;
+};
+
+// Points along an ellipse. majorAxis is relative to center, params are in radians.
+export const getEllipsePoints = (center: Point, majorAxis: Point, ratio: number, startParam: number, endParam: number): Point[] => {
+    const minor = { x: -majorAxis.y * ratio, y: majorAxis.x * ratio };
+    const segments = segmentsForSweep(endParam - startParam) * 2;
+    const pts: Point[] = [];
+    for (let i = 0; i <= segments; i++) {
+        const t = startParam + (endParam - startParam) * (i / segments);
+        const c = Math.cos(t);
+        const sn = Math.sin(t);
+        pts.push({ x: center.x + majorAxis.x * c + minor.x * sn, y: center.y + majorAxis.y * c + minor.y * sn });
+    }
+    return pts;
+};
+
+// Expands bulge (group 42) arc segments of a polyline into straight segments.
+export const getPolylinePoints = (vertices: PolylineVertex[], closed: boolean): Point[] => {
+    const pts: Point[] = [];
+    const count = vertices.length;
+    if (count === 0) return pts;
+    const segCount = closed ? count : count - 1;
+
+    pts.push({ x: vertices[0].x, y: vertices[0].y });
+    for (let i = 0; i < segCount; i++) {
+        const p1 = vertices[i];
+        const p2 = vertices[(i + 1) % count];
+        if (p1.bulge && Math.abs(p1.bulge) > 1e-9) {
+            const chord = distance(p1, p2);
+            if (chord > 0) {
+                const sweep = 4 * Math.atan(p1.bulge);
+                const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+                const mid = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+                // Distance from chord midpoint to arc center, positioned left of the chord for CCW (positive) bulges
+                const h = Math.sqrt(Math.max(0, radius * radius - (chord / 2) * (chord / 2)));
+                const dir = { x: (p2.x - p1.x) / chord, y: (p2.y - p1.y) / chord };
+                const side = (Math.abs(sweep) > Math.PI ? -1 : 1) * Math.sign(p1.bulge);
+                const center = { x: mid.x - dir.y * h * side, y: mid.y + dir.x * h * side };
+                const a1 = Math.atan2(p1.y - center.y, p1.x - center.x);
+                const arc = getArcPoints(center, radius, a1, a1 + sweep);
+                for (let k = 1; k < arc.length - 1; k++) pts.push(arc[k]);
+            }
+        }
+        pts.push({ x: p2.x, y: p2.y });
+    }
+    return pts;
+};
+
+const getHatchEdgePoints = (edge: HatchEdge): Point[] => {
+    switch (edge.type) {
+        case 'LINE':
+            return edge.start && edge.end ? [edge.start, edge.end] : [];
+        case 'ARC': {
+            if (!edge.center || !edge.radius) return [];
+            let start = (edge.startAngle || 0) * Math.PI / 180;
+            let end = (edge.endAngle || 0) * Math.PI / 180;
+            if (edge.ccw === false) {
+                // Clockwise edges store the angles of the mirrored arc
+                start = -start;
+                end = -end;
+                if (end > start) end -= 2 * Math.PI;
+            } else if (end < start) {
+                end += 2 * Math.PI;
+            }
+            return getArcPoints(edge.center, edge.radius, start, end);
+        }
+        case 'ELLIPSE': {
+            if (!edge.center || !edge.majorAxis) return [];
+            let start = (edge.startAngle || 0) * Math.PI / 180;
+            let end = (edge.endAngle || 0) * Math.PI / 180;
+            if (edge.ccw === false) {
+                start = -start;
+                end = -end;
+                if (end > start) end -= 2 * Math.PI;
+            } else if (end < start) {
+                end += 2 * Math.PI;
+            }
+            return getEllipsePoints(edge.center, edge.majorAxis, edge.ratio ?? 1, start, end);
+        }
+        case 'SPLINE':
+            // Approximate with fit points when present, otherwise the control polygon
+            if (edge.fitPoints && edge.fitPoints.length > 1) return edge.fitPoints;
+            return edge.controlPoints || [];
+        default:
+            return [];
+    }
+};
+
+// Flattens a hatch boundary loop into a closed ring of points
+export const getHatchPathPoints = (path: HatchBoundaryPath): Point[] => {
+    if (path.isPolyline) {
+        return getPolylinePoints(path.vertices || [], true);
+    }
+    const pts: Point[] = [];
+    (path.edges || []).forEach(edge => {
+        getHatchEdgePoints(edge).forEach(p => {
+            const last = pts[pts.length - 1];
+            if (!last || Math.abs(last.x - p.x) > 1e-9 || Math.abs(last.y - p.y) > 1e-9) pts.push(p);
+        });
+    });
+    return pts;
+};
+
+// Flattens an ELLIPSE entity; a missing or full parameter range yields the closed ellipse
+export const getEllipseEntityPoints = (entity: DxfEntity): Point[] => {
+    if (!entity.center || !entity.majorAxis) return [];
+    const start = entity.startParam ?? 0;
+    let end = entity.endParam ?? 2 * Math.PI;
+    if (end <= start) end += 2 * Math.PI;
+    return getEllipsePoints(entity.center, entity.majorAxis, entity.ratio ?? 1, start, end);
+};
+
 export const getEntityBounds = (entity: DxfEntity): Bounds | null => {
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     const update = (p: Point) => {
@@ -64,21 +191,28 @@ export const getEntityBounds = (entity: DxfEntity): Bounds | null => {
     } else if ((entity.type === EntityType.CIRCLE || entity.type === EntityType.ARC) && entity.center && entity.radius) {
         update({ x: entity.center.x - entity.radius, y: entity.center.y - entity.radius });
         update({ x: entity.center.x + entity.radius, y: entity.center.y + entity.radius });
-    } else if ((entity.type === EntityType.TEXT || entity.type === EntityType.MTEXT || entity.type === EntityType.INSERT) && entity.start) {
+    } else if ((isDrawnText(entity) || entity.type === EntityType.INSERT) && entity.start) {
         // Basic point bounds for text/insert if full geometry not available
         update(entity.start);
-        // Rough estimate for text bounds if not provided
-        if ((entity.type === EntityType.TEXT || entity.type === EntityType.MTEXT) && entity.text && entity.radius) {
-            // radius acts as height for TEXT
-            const h = entity.radius;
-            const w = entity.text.length * h * 0.6;
-            // Assume horizontal for bound estimation
-            update({ x: entity.start.x + w, y: entity.start.y + h });
+        // Text box from the alignment rules, with estimated glyph widths
+        if (entity.type !== EntityType.INSERT && entity.text) {
+            const layout = getTextLayout(entity);
+            if (layout) getTextBoxCorners(layout).forEach(update);
         }
     } else if (entity.type === EntityType.DIMENSION) {
         if (entity.measureStart) update(entity.measureStart);
         if (entity.measureEnd) update(entity.measureEnd);
         if (entity.end) update(entity.end);
+        if (entity.definitionPoint) update(entity.definitionPoint);
+    } else if (entity.type === EntityType.HATCH && entity.boundaryPaths) {
+        entity.boundaryPaths.forEach(path => getHatchPathPoints(path).forEach(update));
+    } else if (entity.type === EntityType.ELLIPSE) {
+        getEllipseEntityPoints(entity).forEach(update);
+    } else if ((entity.type === EntityType.SOLID || entity.type === EntityType.TRACE || entity.type === EntityType.FACE3D) && entity.corners) {
+        entity.corners.forEach(update);
+    } else if (entity.type === EntityType.LEADER || entity.type === EntityType.MULTILEADER) {
+        entity.leaderLines?.forEach(line => line.forEach(update));
+        if (entity.start) update(entity.start);
     } else {
         return null;
     }
@@ -164,6 +298,26 @@ export const calculateLength = (entity: DxfEntity): number => {
             }
             return 0;
 
+        case EntityType.ELLIPSE: {
+            const pts = getEllipseEntityPoints(entity);
+            let len = 0;
+            for (let i = 0; i < pts.length - 1; i++) len += distance(pts[i], pts[i + 1]);
+            return len;
+        }
+
+        case EntityType.SOLID:
+        case EntityType.TRACE:
+        case EntityType.FACE3D:
+            // Perimeter of the filled outline
+            if (entity.corners && entity.corners.length > 1) {
+                let len = 0;
+                for (let i = 0; i < entity.corners.length; i++) {
+                    len += distance(entity.corners[i], entity.corners[(i + 1) % entity.corners.length]);
+                }
+                return len;
+            }
+            return 0;
+
         default:
             return 0;
     }
@@ -288,7 +442,7 @@ const subtractIntervals = (start: number, end: number, blockers: [number, number
 };
 // -----------------------
 
-const hasAxisBetween = (l1: DxfEntity, l2: DxfEntity, axisLines: DxfEntity[], gap: number): boolean => {
+const hasAxisBetween = (l1: DxfEntity, l2: DxfEntity, axisLines: DxfEntity[], gap: number, unitScale = 1): boolean => {
     if (!l1.start || !l1.end || axisLines.length === 0) return false;
 
     const mid1 = { x: (l1.start.x + l1.end.x) / 2, y: (l1.start.y + l1.end.y) / 2 };
@@ -298,7 +452,7 @@ const hasAxisBetween = (l1: DxfEntity, l2: DxfEntity, axisLines: DxfEntity[], ga
     if (len1 === 0) return false;
     const u1 = { x: v1.x / len1, y: v1.y / len1 };
 
-    const tolerance = 200; // Relaxed tolerance for offset/near checks
+    const tolerance = 200 * unitScale; // Relaxed tolerance for offset/near checks
 
     for (const axis of axisLines) {
         if (!axis.start || !axis.end) continue;
@@ -323,7 +477,7 @@ const hasAxisBetween = (l1: DxfEntity, l2: DxfEntity, axisLines: DxfEntity[], ga
         const overlapStart = Math.max(0, minA);
         const overlapEnd = Math.min(len1, maxA);
 
-        if (overlapEnd - overlapStart > 50) {
+        if (overlapEnd - overlapStart > 50 * unitScale) {
             return true;
         }
     }
@@ -336,7 +490,8 @@ const createPolygonFromPair = (
     layer: string,
     obstacles: DxfEntity[],
     mode: 'BEAM' | 'WALL',
-    gap: number
+    gap: number,
+    unitScale = 1
 ): DxfEntity[] => {
     if (!l1.start || !l1.end || !l2.start || !l2.end) return [];
 
@@ -358,7 +513,7 @@ const createPolygonFromPair = (
     const tMinUnion = Math.min(Math.min(tA1, tA2), Math.min(tB1, tB2));
     const tMaxUnion = Math.max(Math.max(tA1, tA2), Math.max(tB1, tB2));
 
-    if (tMaxOverlap - tMinOverlap < 50) return [];
+    if (tMaxOverlap - tMinOverlap < 50 * unitScale) return [];
 
     const projL2Start = { x: l1.start.x + u.x * tB1, y: l1.start.y + u.y * tB1 };
     const vPerp = { x: l2.start.x - projL2Start.x, y: l2.start.y - projL2Start.y };
@@ -377,8 +532,8 @@ const createPolygonFromPair = (
         const vLen = Math.sqrt(vPerp.x * vPerp.x + vPerp.y * vPerp.y);
         const vUnit = { x: vPerp.x / vLen, y: vPerp.y / vLen };
         // The beam occupies V-range: [0, vLen] (approx, assuming simple parallel)
-        const beamVMin = -1; // Tolerance
-        const beamVMax = vLen + 1; // Tolerance
+        const beamVMin = -1 * unitScale; // Tolerance
+        const beamVMax = vLen + 1 * unitScale; // Tolerance
 
         for (const obs of obstacles) {
             let vertices: Point[] = [];
@@ -466,7 +621,7 @@ const createPolygonFromPair = (
             const startT = interval[0];
             const endT = interval[1];
 
-            if (endT - startT < 200) continue;
+            if (endT - startT < 200 * unitScale) continue;
 
             const pStartBase = { x: l1.start.x + u.x * startT, y: l1.start.y + u.y * startT };
             const pEndBase = { x: l1.start.x + u.x * endT, y: l1.start.y + u.y * endT };
@@ -498,7 +653,8 @@ export const findParallelPolygons = (
     axisLines: DxfEntity[] = [],
     textEntities: DxfEntity[] = [],
     mode: 'BEAM' | 'WALL' = 'BEAM',
-    validWidths: Set<number> = new Set()
+    validWidths: Set<number> = new Set(),
+    unitScale = 1 // Drawing units per mm; tolerance and validWidths are in drawing units
 ): DxfEntity[] => {
     const polygons: DxfEntity[] = [];
     const used = new Set<number>();
@@ -512,7 +668,7 @@ export const findParallelPolygons = (
         const { l: l1, i: i, len: len1 } = sortedLines[idxA];
         if (used.has(i)) continue;
         if (l1.type !== EntityType.LINE || !l1.start || !l1.end) continue;
-        if (len1 < 50) continue;
+        if (len1 < 50 * unitScale) continue;
 
         const v1 = { x: l1.end.x - l1.start.x, y: l1.end.y - l1.start.y };
 
@@ -521,7 +677,7 @@ export const findParallelPolygons = (
             if (used.has(j)) continue;
             if (l2.type !== EntityType.LINE || !l2.start || !l2.end) continue;
 
-            if (Math.min(len1, len2) < 200) continue;
+            if (Math.min(len1, len2) < 200 * unitScale) continue;
 
             const v2 = { x: l2.end.x - l2.start.x, y: l2.end.y - l2.start.y };
             const dot = (v1.x * v2.x + v1.y * v2.y) / (len1 * len2);
@@ -530,7 +686,7 @@ export const findParallelPolygons = (
             const l2Center = { x: (l2.start.x + l2.end.x) / 2, y: (l2.start.y + l2.end.y) / 2 };
             const dist = distancePointToLine(l2Center, l1.start, l1.end);
 
-            if (dist > tolerance || dist < 10) continue;
+            if (dist > tolerance || dist < 10 * unitScale) continue;
 
             const u = { x: v1.x / len1, y: v1.y / len1 };
             const getT = (p: Point) => (p.x - l1.start!.x) * u.x + (p.y - l1.start!.y) * u.y;
@@ -544,7 +700,7 @@ export const findParallelPolygons = (
             const overlapMax = Math.min(len1, tMaxB);
             const overlapLen = overlapMax - overlapMin;
 
-            if (overlapLen < 50) continue;
+            if (overlapLen < 50 * unitScale) continue;
 
             let isValid = false;
             const gap = dist;
@@ -553,24 +709,24 @@ export const findParallelPolygons = (
                 // For walls, we strictly respect validWidths if they exist (auto-detected)
                 if (validWidths.size > 0) {
                     for (const w of validWidths) {
-                        if (Math.abs(gap - w) <= 10) { // Tolerance 10mm
+                        if (Math.abs(gap - w) <= 10 * unitScale) { // Tolerance 10mm
                             isValid = true;
                             break;
                         }
                     }
                 } else {
-                    if (gap >= 100 && gap <= 500) isValid = true;
+                    if (gap >= 100 * unitScale && gap <= 500 * unitScale) isValid = true;
                 }
 
                 if (isValid) {
-                    const axisFound = hasAxisBetween(l1, l2, axisLines, gap);
+                    const axisFound = hasAxisBetween(l1, l2, axisLines, gap, unitScale);
                     if (!axisFound) isValid = false;
                 }
             } else {
                 // Beam Mode: STRICT WIDTH CHECKING
                 if (sortedWidths.length > 0) {
                     for (const w of sortedWidths) {
-                        if (Math.abs(gap - w) <= 15) { // 15mm tolerance for construction deviations
+                        if (Math.abs(gap - w) <= 15 * unitScale) { // 15mm tolerance for construction deviations
                             isValid = true;
 
                             // Axis check logic:
@@ -586,12 +742,12 @@ export const findParallelPolygons = (
                     }
                 } else {
                     // Fallback only if no text annotations found (should be rare)
-                    if (gap >= 200 && gap <= 1200) isValid = true;
+                    if (gap >= 200 * unitScale && gap <= 1200 * unitScale) isValid = true;
                 }
             }
 
             if (isValid) {
-                const resultEntities = createPolygonFromPair(l1, l2, resultLayer, obstacles, mode, gap);
+                const resultEntities = createPolygonFromPair(l1, l2, resultLayer, obstacles, mode, gap, unitScale);
                 if (resultEntities.length > 0) {
                     polygons.push(...resultEntities);
                     used.add(j);
@@ -603,6 +759,15 @@ export const findParallelPolygons = (
     return polygons;
 };
 
+// $EXTMIN/$EXTMAX, or null when missing or still at the "empty drawing" defaults (+-1e20)
+export const getHeaderExtents = (header?: DxfHeader): Bounds | null => {
+    if (!header?.extMin || !header.extMax) return null;
+    const b = { minX: header.extMin.x, minY: header.extMin.y, maxX: header.extMax.x, maxY: header.extMax.y };
+    const valid = [b.minX, b.minY, b.maxX, b.maxY].every(v => Number.isFinite(v) && Math.abs(v) < 1e19);
+    if (!valid || b.maxX <= b.minX || b.maxY <= b.minY) return null;
+    return b;
+};
+
 export const calculateTotalBounds = (
     entities: DxfEntity[],
     blocks: Record<string, DxfEntity[]>,
@@ -646,12 +811,21 @@ export const calculateTotalBounds = (
             } else if ((ent.type === EntityType.CIRCLE || ent.type === EntityType.ARC) && ent.center && ent.radius) {
                 transformAndCheck(ent.center.x - ent.radius, ent.center.y - ent.radius);
                 transformAndCheck(ent.center.x + ent.radius, ent.center.y + ent.radius);
-            } else if ((ent.type === EntityType.TEXT || ent.type === EntityType.MTEXT || ent.type === EntityType.ATTRIB) && ent.start) {
+            } else if (isDrawnText(ent) && ent.start) {
                 transformAndCheck(ent.start.x, ent.start.y);
             } else if (ent.type === EntityType.DIMENSION) {
                 if (ent.measureStart) transformAndCheck(ent.measureStart.x, ent.measureStart.y);
                 if (ent.measureEnd) transformAndCheck(ent.measureEnd.x, ent.measureEnd.y);
                 if (ent.end) transformAndCheck(ent.end.x, ent.end.y);
+            } else if (ent.type === EntityType.HATCH && ent.boundaryPaths) {
+                ent.boundaryPaths.forEach(path => getHatchPathPoints(path).forEach(p => transformAndCheck(p.x, p.y)));
+            } else if (ent.type === EntityType.ELLIPSE) {
+                getEllipseEntityPoints(ent).forEach(p => transformAndCheck(p.x, p.y));
+            } else if ((ent.type === EntityType.SOLID || ent.type === EntityType.TRACE || ent.type === EntityType.FACE3D) && ent.corners) {
+                ent.corners.forEach(p => transformAndCheck(p.x, p.y));
+            } else if (ent.type === EntityType.LEADER || ent.type === EntityType.MULTILEADER) {
+                ent.leaderLines?.forEach(line => line.forEach(p => transformAndCheck(p.x, p.y)));
+                if (ent.start) transformAndCheck(ent.start.x, ent.start.y);
             }
         }
 
@@ -775,10 +949,10 @@ export const findTitleForBounds = (
     texts: DxfEntity[],
     lines: DxfEntity[],
     layerFilter: string = '',
-    maxMargin = 25000
+    maxMargin = 25000,
+    step = 500 // Ring step size in drawing units (500mm)
 ): { title: string | null, scannedBounds: Bounds[] } => {
     // Search in expanding rings to find the *nearest* title
-    const step = 500; // Step size in CAD units (mm)
     const scannedBounds: Bounds[] = [];
 
     // Start from the first expanded ring (skip margin 0 to avoid searching inside the original box)
@@ -831,7 +1005,7 @@ export const findTitleForBounds = (
         const validTitles: DxfEntity[] = [];
 
         for (const txt of candidates) {
-            const h = txt.radius || 300;
+            const h = txt.radius || step * 0.6; // Missing height: assume 300mm
             const w = (txt.text!.length) * h * 0.7;
             const txtBounds = {
                 minX: txt.start!.x,
@@ -917,7 +1091,7 @@ export const parseViewportTitle = (title: string): { prefix: string, index: numb
     return null;
 };
 
-export const getGridIntersections = (box: Bounds, axisLines: DxfEntity[]): Point[] => {
+export const getGridIntersections = (box: Bounds, axisLines: DxfEntity[], unitScale = 1): Point[] => {
     // Filter horizontal and vertical axis lines inside box
     const hLines: DxfEntity[] = [];
     const vLines: DxfEntity[] = [];
@@ -932,8 +1106,8 @@ export const getGridIntersections = (box: Bounds, axisLines: DxfEntity[]): Point
         const dx = Math.abs(l.end.x - l.start.x);
         const dy = Math.abs(l.end.y - l.start.y);
 
-        if (dx > dy && dy < 10) hLines.push(l); // Horizontal
-        else if (dy > dx && dx < 10) vLines.push(l); // Vertical
+        if (dx > dy && dy < 10 * unitScale) hLines.push(l); // Horizontal
+        else if (dy > dx && dx < 10 * unitScale) vLines.push(l); // Vertical
     });
 
     const intersections: Point[] = [];
@@ -953,8 +1127,9 @@ export const getGridIntersections = (box: Bounds, axisLines: DxfEntity[]): Point
             const vMinY = Math.min(v.start!.y, v.end!.y);
             const vMaxY = Math.max(v.start!.y, v.end!.y);
 
-            if (vx >= hMinX - 100 && vx <= hMaxX + 100 &&
-                hy >= vMinY - 100 && hy <= vMaxY + 100) {
+            const slack = 100 * unitScale;
+            if (vx >= hMinX - slack && vx <= hMaxX + slack &&
+                hy >= vMinY - slack && hy <= vMaxY + slack) {
                 intersections.push({ x: vx, y: hy });
             }
         }
@@ -962,7 +1137,7 @@ export const getGridIntersections = (box: Bounds, axisLines: DxfEntity[]): Point
     return intersections;
 };
 
-export const calculateMergeVector = (basePoints: Point[], targetPoints: Point[]): Point | null => {
+export const calculateMergeVector = (basePoints: Point[], targetPoints: Point[], unitScale = 1): Point | null => {
     if (basePoints.length === 0 || targetPoints.length === 0) return null;
 
     const diffCounts = new Map<string, number>();
@@ -973,9 +1148,9 @@ export const calculateMergeVector = (basePoints: Point[], targetPoints: Point[])
     // Brute force matching: try aligning every target point to every base point
     for (const t of targetPoints) {
         for (const b of basePoints) {
-            const dx = Math.round(b.x - t.x);
-            const dy = Math.round(b.y - t.y);
-            // Quantize to avoid float errors (tolerance 50)
+            const dx = Math.round((b.x - t.x) / unitScale);
+            const dy = Math.round((b.y - t.y) / unitScale);
+            // Quantize to avoid float errors (tolerance 50mm)
             const key = `${Math.round(dx / 50)}_${Math.round(dy / 50)}`;
 
             const current = (diffCounts.get(key) || 0) + 1;
@@ -1010,9 +1185,23 @@ export const findParallelPolygonsBeam = (
     axisLines: DxfEntity[],
     textEntities: DxfEntity[],
     validWidths: Set<number>,
-    rawLines?: DxfEntity[]
+    rawLines?: DxfEntity[],
+    unitScale = 1
 ): DxfEntity[] => {
-    return findParallelPolygons(lines, tolerance, resultLayer, obstacles, axisLines, textEntities, 'BEAM', validWidths);
+    return findParallelPolygons(lines, tolerance, resultLayer, obstacles, axisLines, textEntities, 'BEAM', validWidths, unitScale);
+};
+
+// Ray-casting test (even-odd rule)
+export const isPointInPolygon = (p: Point, polygon: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
 };
 
 export const findLayersAtPoint = (
@@ -1054,6 +1243,25 @@ export const findLayersAtPoint = (
                 const r = ent.radius * s;
                 const d = Math.sqrt(Math.pow(p.x - c.x, 2) + Math.pow(p.y - c.y, 2));
                 if (Math.abs(d - r) <= tolerance) hit = true;
+            } else if (ent.type === EntityType.ELLIPSE) {
+                const pts = getEllipseEntityPoints(ent).map(t);
+                for (let i = 0; i < pts.length - 1; i++) {
+                    if (distancePointToLine(p, pts[i], pts[i + 1]) <= tolerance) { hit = true; break; }
+                }
+            } else if ((ent.type === EntityType.SOLID || ent.type === EntityType.TRACE || ent.type === EntityType.FACE3D) && ent.corners && ent.corners.length > 2) {
+                // Filled: hit anywhere inside the outline or near its edges
+                const corners = ent.corners.map(t);
+                if (isPointInPolygon(p, corners)) hit = true;
+                for (let i = 0; !hit && i < corners.length; i++) {
+                    if (distancePointToLine(p, corners[i], corners[(i + 1) % corners.length]) <= tolerance) hit = true;
+                }
+            } else if ((ent.type === EntityType.LEADER || ent.type === EntityType.MULTILEADER) && ent.leaderLines) {
+                ent.leaderLines.forEach(line => {
+                    const pts = line.map(t);
+                    for (let i = 0; !hit && i < pts.length - 1; i++) {
+                        if (distancePointToLine(p, pts[i], pts[i + 1]) <= tolerance) hit = true;
+                    }
+                });
             } else if (ent.type === EntityType.INSERT && ent.blockName && blocks[ent.blockName]) {
                 const bBase = blockBasePoints[ent.blockName] || { x: 0, y: 0 };
 
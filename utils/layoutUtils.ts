@@ -0,0 +1,203 @@
+
+import { Bounds, DxfData, DxfEntity, DxfLayout, EntityType, Point } from '../types';
+import { calculateTotalBounds, getArcPoints, getPolylinePoints } from './geometryUtils';
+import { extractEntities } from './dxfHelpers';
+
+// Paper space block of the active layout; its entities are written to ENTITIES instead
+const ACTIVE_PAPER_SPACE = '*PAPER_SPACE';
+
+// Maps a viewport's model space window onto the sheet
+export interface ViewportTransform {
+  paperCenter: Point;
+  modelCenter: Point;
+  scale: number;    // Paper units per model unit
+  rotation: number; // View twist in degrees, applied to the model before scaling
+}
+
+export const getModelSpaceEntities = (data: DxfData): DxfEntity[] =>
+  data.entities.filter(e => e.paperSpace !== 1);
+
+export const getLayoutEntities = (data: DxfData, layout: DxfLayout): DxfEntity[] => {
+  if (layout.blockName?.toUpperCase() === ACTIVE_PAPER_SPACE) return data.entities.filter(e => e.paperSpace === 1);
+  return (layout.blockName && data.blocks[layout.blockName]) || [];
+};
+
+/**
+ * Viewports that show model space on a layout. The layout's own paper space view (id 1),
+ * switched off and degenerate viewports are left out.
+ */
+export const getLayoutViewports = (data: DxfData, layout: DxfLayout): DxfEntity[] =>
+  getLayoutEntities(data, layout).filter(e =>
+    e.type === EntityType.VIEWPORT &&
+    e.viewportId !== 1 &&
+    e.viewportStatus !== 0 &&
+    !!e.viewportWidth && !!e.viewportHeight && !!e.viewHeight
+  );
+
+export const getViewportTransform = (vp: DxfEntity): ViewportTransform | null => {
+  if (!vp.center || !vp.viewportHeight || !vp.viewHeight) return null;
+  // The view center is stored relative to the target point
+  const target = vp.viewTarget || { x: 0, y: 0 };
+  const viewCenter = vp.viewCenter || { x: 0, y: 0 };
+  return {
+    paperCenter: vp.center,
+    modelCenter: { x: target.x + viewCenter.x, y: target.y + viewCenter.y },
+    scale: vp.viewportHeight / vp.viewHeight,
+    rotation: vp.twistAngle || 0
+  };
+};
+
+export const modelToPaper = (p: Point, t: ViewportTransform): Point => {
+  const rad = t.rotation * Math.PI / 180;
+  const dx = (p.x - t.modelCenter.x) * t.scale;
+  const dy = (p.y - t.modelCenter.y) * t.scale;
+  return {
+    x: t.paperCenter.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: t.paperCenter.y + dx * Math.sin(rad) + dy * Math.cos(rad)
+  };
+};
+
+export const paperToModel = (p: Point, t: ViewportTransform): Point => {
+  const rad = -t.rotation * Math.PI / 180;
+  const dx = (p.x - t.paperCenter.x) / t.scale;
+  const dy = (p.y - t.paperCenter.y) / t.scale;
+  return {
+    x: t.modelCenter.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: t.modelCenter.y + dx * Math.sin(rad) + dy * Math.cos(rad)
+  };
+};
+
+// Viewport rectangle on the sheet
+export const getViewportPaperBounds = (vp: DxfEntity): Bounds | null => {
+  if (!vp.center || !vp.viewportWidth || !vp.viewportHeight) return null;
+  return {
+    minX: vp.center.x - vp.viewportWidth / 2,
+    minY: vp.center.y - vp.viewportHeight / 2,
+    maxX: vp.center.x + vp.viewportWidth / 2,
+    maxY: vp.center.y + vp.viewportHeight / 2
+  };
+};
+
+// Model space area a viewport shows (for twisted views, the axis-aligned box around it)
+export const getViewportModelBounds = (vp: DxfEntity): Bounds | null => {
+  const paper = getViewportPaperBounds(vp);
+  const t = getViewportTransform(vp);
+  if (!paper || !t) return null;
+  const corners = [
+    { x: paper.minX, y: paper.minY },
+    { x: paper.maxX, y: paper.minY },
+    { x: paper.maxX, y: paper.maxY },
+    { x: paper.minX, y: paper.maxY }
+  ].map(p => paperToModel(p, t));
+  return {
+    minX: Math.min(...corners.map(p => p.x)),
+    minY: Math.min(...corners.map(p => p.y)),
+    maxX: Math.max(...corners.map(p => p.x)),
+    maxY: Math.max(...corners.map(p => p.y))
+  };
+};
+
+/**
+ * Outline the viewport is clipped to, in paper units: its clipping boundary entity (340) when
+ * it has one, otherwise its rectangle.
+ */
+export const getViewportClipPath = (vp: DxfEntity, layoutEntities: DxfEntity[]): Point[] => {
+  const boundary = vp.clipBoundaryHandle ? layoutEntities.find(e => e.handle === vp.clipBoundaryHandle) : undefined;
+  if (boundary?.type === EntityType.LWPOLYLINE && boundary.vertices && boundary.vertices.length > 2) {
+    return getPolylinePoints(boundary.vertices, true);
+  }
+  if (boundary?.type === EntityType.CIRCLE && boundary.center && boundary.radius) {
+    return getArcPoints(boundary.center, boundary.radius, 0, 2 * Math.PI);
+  }
+  const b = getViewportPaperBounds(vp);
+  if (!b) return [];
+  return [
+    { x: b.minX, y: b.minY },
+    { x: b.maxX, y: b.minY },
+    { x: b.maxX, y: b.maxY },
+    { x: b.minX, y: b.maxY }
+  ];
+};
+
+// Layers frozen in this viewport only (VP freeze), by name
+export const getViewportFrozenLayers = (vp: DxfEntity, data: DxfData): Set<string> => {
+  const handles = new Set(vp.frozenLayerHandles || []);
+  const result = new Set<string>();
+  if (handles.size === 0) return result;
+  Object.values(data.layerDictionary).forEach(layer => {
+    if (layer.handle && handles.has(layer.handle)) result.add(layer.name);
+  });
+  return result;
+};
+
+// Extent of a layout: its sheet limits, paper space geometry and viewports
+export const getLayoutBounds = (data: DxfData, layout: DxfLayout): Bounds => {
+  const boxes: Bounds[] = [];
+  const { limitsMin, limitsMax } = layout;
+  if (limitsMin && limitsMax && limitsMax.x > limitsMin.x && limitsMax.y > limitsMin.y) {
+    boxes.push({ minX: limitsMin.x, minY: limitsMin.y, maxX: limitsMax.x, maxY: limitsMax.y });
+  }
+  const drawn = getLayoutEntities(data, layout).filter(e => e.type !== EntityType.VIEWPORT);
+  if (drawn.length > 0) boxes.push(calculateTotalBounds(drawn, data.blocks));
+  getLayoutViewports(data, layout).forEach(vp => {
+    const b = getViewportPaperBounds(vp);
+    if (b) boxes.push(b);
+  });
+
+  if (boxes.length === 0) return { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+  return {
+    minX: Math.min(...boxes.map(b => b.minX)),
+    minY: Math.min(...boxes.map(b => b.minY)),
+    maxX: Math.max(...boxes.map(b => b.maxX)),
+    maxY: Math.max(...boxes.map(b => b.maxY))
+  };
+};
+
+const distanceToBounds = (p: Point, b: Bounds): number =>
+  Math.hypot(Math.max(b.minX - p.x, 0, p.x - b.maxX), Math.max(b.minY - p.y, 0, p.y - b.maxY));
+
+/**
+ * Paper space text and lines of all layouts, mapped into model space through the viewport they
+ * are closest to. Sheet titles usually sit under their viewport, so once mapped they land next to
+ * the model space area that viewport shows.
+ */
+export const projectPaperSpaceToModel = (data: DxfData, targetLayers: string[]): DxfEntity[] => {
+  const result: DxfEntity[] = [];
+
+  (data.layouts || []).forEach(layout => {
+    const viewports = getLayoutViewports(data, layout)
+      .map(vp => ({ paper: getViewportPaperBounds(vp), transform: getViewportTransform(vp) }))
+      .filter((v): v is { paper: Bounds, transform: ViewportTransform } => !!v.paper && !!v.transform);
+    if (viewports.length === 0) return;
+
+    extractEntities(targetLayers, getLayoutEntities(data, layout), data.blocks, data.blockBasePoints, true).forEach(ent => {
+      const isText = ent.type === EntityType.TEXT || ent.type === EntityType.MTEXT;
+      const isLine = ent.type === EntityType.LINE || ent.type === EntityType.LWPOLYLINE;
+      const anchor = ent.start || ent.vertices?.[0];
+      if ((!isText && !isLine) || !anchor) return;
+
+      let nearest = viewports[0];
+      viewports.forEach(v => {
+        if (distanceToBounds(anchor, v.paper) < distanceToBounds(anchor, nearest.paper)) nearest = v;
+      });
+      const t = nearest.transform;
+      const map = (p: Point) => paperToModel(p, t);
+
+      result.push({
+        ...ent,
+        paperSpace: 0,
+        start: ent.start && map(ent.start),
+        end: ent.end && map(ent.end),
+        center: ent.center && map(ent.center),
+        alignPoint: ent.alignPoint && map(ent.alignPoint),
+        vertices: ent.vertices?.map(v => ({ ...map(v), bulge: v.bulge })),
+        radius: ent.radius !== undefined ? ent.radius / t.scale : undefined,
+        textHeight: ent.textHeight !== undefined ? ent.textHeight / t.scale : undefined,
+        referenceWidth: ent.referenceWidth !== undefined ? ent.referenceWidth / t.scale : undefined,
+        startAngle: ent.startAngle !== undefined ? ent.startAngle - t.rotation : undefined
+      });
+    });
+  });
+
+  return result;
+};
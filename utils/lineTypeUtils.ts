@@ -0,0 +1,54 @@
+
+import { DxfData, DxfEntity } from '../types';
+
+/**
+ * Resolves BYLAYER/BYBLOCK to a concrete linetype name.
+ * `blockLineType` is the resolved linetype of the enclosing INSERT, if any.
+ */
+export const resolveLineTypeName = (
+  ent: DxfEntity,
+  data: DxfData,
+  effectiveLayer: string,
+  blockLineType?: string
+): string | undefined => {
+  const lt = ent.lineType?.toUpperCase();
+  if (lt === 'BYBLOCK') return blockLineType;
+  if (!lt || lt === 'BYLAYER') return data.layerDictionary[effectiveLayer]?.lineType;
+  return ent.lineType;
+};
+
+/**
+ * Dash pattern of an entity in drawing units, scaled by $LTSCALE and the entity's own scale (group 48).
+ * Returns [] for continuous lines and null when the linetype is not in the LTYPE table.
+ */
+export const getEntityLinePattern = (
+  ent: DxfEntity,
+  data: DxfData,
+  effectiveLayer: string,
+  blockLineType?: string
+): number[] | null => {
+  const name = resolveLineTypeName(ent, data, effectiveLayer, blockLineType);
+  if (!name || name.toUpperCase() === 'CONTINUOUS') return [];
+  const lineType = data.lineTypes?.[name.toUpperCase()];
+  if (!lineType) return null;
+  const scale = (data.header?.ltScale ?? 1) * (ent.lineTypeScale ?? 1);
+  return lineType.pattern.map(v => v * scale);
+};
+
+/**
+ * Converts a DXF pattern into a canvas dash array (alternating dash/gap lengths).
+ * Dots become dashes of `dotLength`.
+ */
+export const toCanvasDash = (pattern: number[], dotLength: number): number[] => {
+  const dash: number[] = [];
+  pattern.forEach(v => {
+    const isGap = v < 0;
+    const len = v === 0 ? dotLength : Math.abs(v);
+    // Even slots are dashes, odd slots gaps; merge runs of the same kind
+    const slotIsGap = dash.length % 2 === 1;
+    if (dash.length > 0 && slotIsGap !== isGap) dash[dash.length - 1] += len;
+    else if (dash.length === 0 && isGap) dash.push(0, len);
+    else dash.push(len);
+  });
+  return dash.some(v => v > 0) && dash.length > 1 ? dash : [];
+};
@@ -0,0 +1,538 @@
+import { jsPDF, GState } from 'jspdf';
+import { Bounds, DxfData, DxfLayout, LayerColors, Point, PolylineVertex, ViewportRegion } from '../types';
+import { toCanvasDash } from './lineTypeUtils';
+import { TextLayout, estimateTextWidth, getTextBlockTop } from './textUtils';
+import { getModelSpaceEntities } from './layoutUtils';
+import { getLineDash } from './renderUtils';
+import { DrawBackend, DrawShape, createEntityWalker, getBulgeArc } from './entityWalker';
+import { UnitContext } from './units';
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0' | 'LETTER' | 'TABLOID';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+// Portrait sheet sizes in mm
+export const PAPER_SIZES: Record<PaperSize, { label: string, width: number, height: number }> = {
+  A4: { label: 'ISO A4', width: 210, height: 297 },
+  A3: { label: 'ISO A3', width: 297, height: 420 },
+  A2: { label: 'ISO A2', width: 420, height: 594 },
+  A1: { label: 'ISO A1', width: 594, height: 841 },
+  A0: { label: 'ISO A0', width: 841, height: 1189 },
+  LETTER: { label: 'ANSI A (Letter)', width: 215.9, height: 279.4 },
+  TABLOID: { label: 'ANSI B (Tabloid)', width: 279.4, height: 431.8 }
+};
+
+// Plot scale denominators offered (1:N); 0 fits the drawing to the sheet
+export const PLOT_SCALES = [0, 1, 2, 5, 10, 20, 25, 50, 100, 150, 200, 250, 500, 1000, 2000];
+
+export interface PdfPlotOptions {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  scale: number;             // N of a 1:N plot (1 mm on paper = N real mm); 0 fits the drawing to the sheet
+  margin?: number;           // mm on every side, defaults to 10
+  showLineWeights?: boolean; // Plot lineweights (370); otherwise every line is drawn thin
+  title?: string;            // Printed with the scale in the bottom margin
+}
+
+interface PdfDrawingOptions {
+  data: DxfData;
+  activeLayers: Set<string>;
+  layerColors: LayerColors;
+  filledLayers?: Set<string>;
+  units: UnitContext;
+  plot: PdfPlotOptions;
+  layout?: DxfLayout; // Paper space layout to plot instead of model space
+}
+
+interface PdfRenderOptions extends PdfDrawingOptions {
+  bounds: Bounds; // Drawing area to plot, centered on the sheet
+}
+
+interface PdfSheetSetOptions extends PdfDrawingOptions {
+  regions: ViewportRegion[];
+  fileName: string;
+}
+
+export interface PdfPlotResult {
+  pdf: jsPDF;
+  scale: number; // N of the 1:N scale actually used
+  fits: boolean; // False when the drawing is larger than the sheet at the requested scale (it is cropped)
+}
+
+export interface PdfSheetSetResult {
+  pdf: jsPDF;
+  cropped: string[]; // Titles of the regions that do not fit their sheet at the requested scale
+}
+
+// Rectangle on the sheet, mm from the top-left corner
+interface SheetArea { x: number, y: number, width: number, height: number }
+
+// Affine map from drawing coordinates to the sheet (mm, y down): x' = a x + c y + e, y' = b x + d y + f
+interface Affine { a: number, b: number, c: number, d: number, e: number, f: number }
+
+const multiply = (m: Affine, n: Affine): Affine => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+  e: m.a * n.e + m.c * n.f + m.e,
+  f: m.b * n.e + m.d * n.f + m.f
+});
+
+const apply = (m: Affine, p: Point): Point => ({ x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f });
+
+// Direction only (no translation)
+const applyVector = (m: Affine, v: Point): Point => ({ x: m.a * v.x + m.c * v.y, y: m.b * v.x + m.d * v.y });
+
+const translation = (x: number, y: number): Affine => ({ a: 1, b: 0, c: 0, d: 1, e: x, f: y });
+
+// INSERT placement, in the order the canvas renderer applies it
+const insertTransform = (origin: Point, rotationDeg: number, scale: Point, basePoint: Point): Affine => {
+  const rad = rotationDeg * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const rotateScale: Affine = { a: cos * scale.x, b: sin * scale.x, c: -sin * scale.y, d: cos * scale.y, e: 0, f: 0 };
+  return multiply(multiply(translation(origin.x, origin.y), rotateScale), translation(-basePoint.x, -basePoint.y));
+};
+
+// Line width when lineweights are off, and the floor when they are on (mm)
+const THIN_LINE_MM = 0.1;
+const MIN_LINE_MM = 0.05;
+
+// Preset dashes for linetypes missing from the LTYPE table: a 2.5 mm base dash (see getLineDash)
+const PRESET_DASH_SCALE = 4;
+
+const PT_PER_MM = 72 / 25.4;
+
+// The standard PDF fonts only cover Latin-1; other text is drawn as an image
+const LATIN1_RE = /^[\x20-\xFF]*$/;
+
+// Raster resolution for such text (about 300 dpi)
+const RASTER_PX_PER_MM = 12;
+
+// Built-in font that matches the canvas font family
+const getPdfFont = (fontFamily: string) => /monospace/.test(fontFamily) ? 'courier' : 'helvetica';
+
+/**
+ * Draws a line of text as a transparent image, for characters the built-in fonts lack.
+ * `p` is the left end of the baseline on the sheet; `angle` is counterclockwise in degrees.
+ */
+const drawRasterText = (pdf: jsPDF, text: string, p: Point, angle: number, sizeMm: number, horizontalScale: number, color: string, fontFamily: string) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const fontPx = sizeMm * RASTER_PX_PER_MM;
+  ctx.font = `${fontPx}px ${fontFamily}`;
+  const ascent = Math.ceil(fontPx);
+  const descent = Math.ceil(fontPx * 0.3);
+  canvas.width = Math.max(1, Math.ceil(ctx.measureText(text).width * horizontalScale) + 2);
+  canvas.height = ascent + descent;
+  // Resizing resets the context
+  ctx.font = `${fontPx}px ${fontFamily}`;
+  ctx.fillStyle = color;
+  ctx.scale(horizontalScale, 1);
+  ctx.fillText(text, 0, ascent);
+
+  const width = canvas.width / RASTER_PX_PER_MM;
+  const height = canvas.height / RASTER_PX_PER_MM;
+  const below = descent / RASTER_PX_PER_MM;
+  // addImage rotates about the bottom-left corner, which sits below the baseline start
+  const rad = angle * Math.PI / 180;
+  const corner = { x: p.x + Math.sin(rad) * below, y: p.y + Math.cos(rad) * below };
+  pdf.addImage(canvas, 'PNG', corner.x, corner.y - height, width, height, undefined, undefined, angle);
+};
+
+export const getPageSize = (plot: Pick<PdfPlotOptions, 'paperSize' | 'orientation'>) => {
+  const paper = PAPER_SIZES[plot.paperSize];
+  return plot.orientation === 'landscape'
+    ? { width: paper.height, height: paper.width }
+    : { width: paper.width, height: paper.height };
+};
+
+const createPlotDocument = (plot: PdfPlotOptions) => {
+  const paper = PAPER_SIZES[plot.paperSize];
+  return new jsPDF({
+    orientation: plot.orientation === 'landscape' ? 'l' : 'p',
+    unit: 'mm',
+    format: [paper.width, paper.height]
+  });
+};
+
+const getScaleLabel = (plot: PdfPlotOptions, scale: number) =>
+  plot.scale > 0 ? `1:${plot.scale}` : `Fit (about 1:${Math.round(scale)})`;
+
+/**
+ * Plots the model space, or a layout, into an area of the current PDF page as vector graphics:
+ * lines and curves become PDF paths (arcs as Bezier curves) and text stays text. The entities are
+ * walked by the same entity walker as on screen, in print colors. With `clipToBounds` nothing
+ * outside `bounds` is drawn, even when the area has room for it.
+ */
+const plotOnPage = (
+  pdf: jsPDF,
+  area: SheetArea,
+  bounds: Bounds,
+  { data, activeLayers, layerColors, filledLayers, units, plot, layout }: PdfDrawingOptions,
+  clipToBounds = false
+): { scale: number, fits: boolean } => {
+  // Paper mm per drawing unit
+  const dataWidth = Math.max(bounds.maxX - bounds.minX, 1e-9);
+  const dataHeight = Math.max(bounds.maxY - bounds.minY, 1e-9);
+  const k = plot.scale > 0
+    ? units.toMm(1) / plot.scale
+    : Math.min(area.width / dataWidth, area.height / dataHeight);
+  const scale = units.toMm(1) / k;
+  const fits = dataWidth * k <= area.width + 1e-6 && dataHeight * k <= area.height + 1e-6;
+
+  // Drawing center onto the area center, y flipped
+  const midX = (bounds.minX + bounds.maxX) / 2;
+  const midY = (bounds.minY + bounds.maxY) / 2;
+  const centerX = area.x + area.width / 2;
+  const centerY = area.y + area.height / 2;
+  const sheet: Affine = { a: k, b: 0, c: 0, d: -k, e: centerX - midX * k, f: centerY + midY * k };
+
+  pdf.setLineCap('round');
+  pdf.setLineJoin('round');
+
+  // One GState per opacity level; `passAlpha` composites a whole pass (the fills) at once
+  const gStates = new Map<number, GState>();
+  let currentAlpha = 1;
+  let passAlpha = 1;
+  const setAlpha = (alpha: number) => {
+    const a = Math.round(Math.min(1, Math.max(0, alpha * passAlpha)) * 100) / 100;
+    if (a === currentAlpha) return;
+    if (!gStates.has(a)) gStates.set(a, new GState({ opacity: a, 'stroke-opacity': a }));
+    pdf.setGState(gStates.get(a)!);
+    currentAlpha = a;
+  };
+
+  // Style operators are only written when they change, which keeps large drawings small
+  let currentColor = '';
+  let currentWidth = -1;
+  let currentDash = '';
+  const setStyle = (color: string, lineWidth: number, dash: number[]) => {
+    if (color !== currentColor) {
+      pdf.setDrawColor(color);
+      pdf.setFillColor(color);
+      currentColor = color;
+    }
+    if (lineWidth !== currentWidth) {
+      pdf.setLineWidth(lineWidth);
+      currentWidth = lineWidth;
+    }
+    const dashKey = dash.join(',');
+    if (dashKey !== currentDash) {
+      pdf.setLineDashPattern(dash, 0);
+      currentDash = dashKey;
+    }
+  };
+
+  // Runs `draw` inside a saved graphics state; the style cache is rolled back with it
+  const withGraphicsState = (draw: () => void) => {
+    const saved = { currentAlpha, currentColor, currentWidth, currentDash };
+    pdf.saveGraphicsState();
+    draw();
+    pdf.restoreGraphicsState();
+    ({ currentAlpha, currentColor, currentWidth, currentDash } = saved);
+  };
+
+  // --- PATH BUILDING (sheet coordinates) ---
+
+  /**
+   * Elliptical arc center + cos(t) * u + sin(t) * v for t from t0 over `sweep` radians, as cubic
+   * Beziers of at most 90 degrees. Affine maps keep Beziers exact, so blocks may scale unevenly.
+   */
+  const traceArc = (m: Affine, center: Point, u: Point, v: Point, t0: number, sweep: number, startPath: boolean) => {
+    const at = (t: number) => ({ x: center.x + Math.cos(t) * u.x + Math.sin(t) * v.x, y: center.y + Math.cos(t) * u.y + Math.sin(t) * v.y });
+    const tangent = (t: number) => ({ x: -Math.sin(t) * u.x + Math.cos(t) * v.x, y: -Math.sin(t) * u.y + Math.cos(t) * v.y });
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+    const step = sweep / segments;
+    const handle = 4 / 3 * Math.tan(step / 4);
+
+    const start = apply(m, at(t0));
+    if (startPath) pdf.moveTo(start.x, start.y);
+    else pdf.lineTo(start.x, start.y);
+    for (let i = 0; i < segments; i++) {
+      const a = t0 + i * step;
+      const b = a + step;
+      const p0 = at(a);
+      const p3 = at(b);
+      const d0 = tangent(a);
+      const d1 = tangent(b);
+      const c1 = apply(m, { x: p0.x + d0.x * handle, y: p0.y + d0.y * handle });
+      const c2 = apply(m, { x: p3.x - d1.x * handle, y: p3.y - d1.y * handle });
+      const end = apply(m, p3);
+      pdf.curveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+    }
+  };
+
+  // Polyline with its bulges as arcs
+  const traceBulgedPolyline = (m: Affine, vertices: PolylineVertex[], closed: boolean) => {
+    const count = closed ? vertices.length : vertices.length - 1;
+    const first = apply(m, vertices[0]);
+    pdf.moveTo(first.x, first.y);
+    for (let i = 0; i < count; i++) {
+      const p1 = vertices[i];
+      const p2 = vertices[(i + 1) % vertices.length];
+      if (p1.bulge && (p1.x !== p2.x || p1.y !== p2.y)) {
+        const arc = getBulgeArc(p1, p2, p1.bulge);
+        traceArc(m, arc.center, { x: arc.radius, y: 0 }, { x: 0, y: arc.radius }, arc.start, arc.sweep, false);
+      } else {
+        const q = apply(m, p2);
+        pdf.lineTo(q.x, q.y);
+      }
+    }
+    if (closed) pdf.close();
+  };
+
+  const traceShape = (m: Affine, shape: DrawShape) => {
+    switch (shape.type) {
+      case 'path':
+        shape.paths.forEach(vertices => traceBulgedPolyline(m, vertices, shape.closed));
+        break;
+      case 'circle':
+        traceArc(m, shape.center, { x: shape.radius, y: 0 }, { x: 0, y: shape.radius }, 0, 2 * Math.PI, true);
+        pdf.close();
+        break;
+      case 'arc':
+        traceArc(m, shape.center, { x: shape.radius, y: 0 }, { x: 0, y: shape.radius }, shape.start, shape.end - shape.start, true);
+        break;
+      case 'ellipse': {
+        const minor = { x: -shape.majorAxis.y * shape.ratio, y: shape.majorAxis.x * shape.ratio };
+        traceArc(m, shape.center, shape.majorAxis, minor, shape.start, shape.end - shape.start, true);
+        break;
+      }
+    }
+  };
+
+  // --- TEXT ---
+
+  const drawTextLayout = (m: Affine, layout: TextLayout, color: string) => {
+    const font = getPdfFont(layout.fontFamily);
+    pdf.setFont(font, 'normal');
+    // Baseline direction and the text's up direction on the sheet
+    const rad = layout.rotation * Math.PI / 180;
+    const along = { x: Math.cos(rad), y: Math.sin(rad) };
+    const up = { x: -Math.sin(rad), y: Math.cos(rad) };
+    const alongSheet = applyVector(m, along);
+    const upSheet = applyVector(m, up);
+    const alongScale = Math.hypot(alongSheet.x, alongSheet.y);
+    const upScale = Math.hypot(upSheet.x, upSheet.y);
+    if (alongScale === 0 || upScale === 0) return;
+    // Counterclockwise as seen on the sheet (its y axis points down)
+    const angle = Math.atan2(-alongSheet.y, alongSheet.x) * 180 / Math.PI;
+    const sizeMm = layout.height * upScale;
+    const horizontalScale = layout.widthFactor * alongScale / upScale;
+    pdf.setFontSize(sizeMm * PT_PER_MM);
+    pdf.setTextColor(color);
+
+    const top = getTextBlockTop(layout);
+    const alignFactor = layout.hAlign === 'center' ? 0.5 : layout.hAlign === 'right' ? 1 : 0;
+    layout.lines.forEach((line, i) => {
+      if (!line) return;
+      const vector = LATIN1_RE.test(line);
+      const width = (vector ? pdf.getStringUnitWidth(line) : estimateTextWidth(line, 1)) * layout.height * layout.widthFactor;
+      // Text space has y pointing down from the block top
+      const baseline = top + layout.height + i * layout.lineHeight;
+      const start = {
+        x: layout.anchor.x - along.x * width * alignFactor - up.x * baseline,
+        y: layout.anchor.y - along.y * width * alignFactor - up.y * baseline
+      };
+      const p = apply(m, start);
+      if (vector) pdf.text(line, p.x, p.y, { angle, baseline: 'alphabetic', horizontalScale });
+      else drawRasterText(pdf, line, p, angle, sizeMm, horizontalScale, color, layout.fontFamily);
+    });
+  };
+
+  // --- BACKEND ---
+
+  // Drawing coordinates to the sheet; blocks and viewports compose onto it
+  let m = sheet;
+  const withMatrix = (inner: Affine, draw: () => void) => {
+    const outer = m;
+    m = multiply(m, inner);
+    draw();
+    m = outer;
+  };
+
+  const backend: DrawBackend = {
+    measureText: fontFamily => (text, height) => {
+      if (!LATIN1_RE.test(text)) return estimateTextWidth(text, height);
+      pdf.setFont(getPdfFont(fontFamily), 'normal');
+      return pdf.getStringUnitWidth(text) * height;
+    },
+    withPlacement: ({ origin, rotation, scale, basePoint }, draw) =>
+      withMatrix(insertTransform(origin, rotation, scale, basePoint), draw),
+    withViewport: (clip, view, draw) => withGraphicsState(() => {
+      traceBulgedPolyline(m, clip, true);
+      pdf.clip();
+      pdf.discardPath();
+      const placement = insertTransform(view.paperCenter, view.rotation, { x: view.scale, y: view.scale }, view.modelCenter);
+      withMatrix(placement, draw);
+    }),
+    stroke: (shape, style) => {
+      const lineWidth = plot.showLineWeights && style.lineWeightMm !== undefined
+        ? Math.max(MIN_LINE_MM, style.lineWeightMm)
+        : THIN_LINE_MM;
+      // Linetype patterns are in drawing units, so they plot at scale
+      const dash = style.pattern
+        ? toCanvasDash(style.pattern.map(v => v * k * Math.abs(style.scaleAcc)), lineWidth)
+        : getLineDash(style.lineType, PRESET_DASH_SCALE);
+      setAlpha(style.alpha);
+      setStyle(style.color, lineWidth, dash);
+      traceShape(m, shape);
+      pdf.stroke();
+    },
+    fill: (shape, style, evenOdd = false) => {
+      setAlpha(style.alpha);
+      if (style.color !== currentColor) {
+        pdf.setDrawColor(style.color);
+        pdf.setFillColor(style.color);
+        currentColor = style.color;
+      }
+      traceShape(m, shape);
+      if (evenOdd) pdf.fillEvenOdd();
+      else pdf.fill();
+    },
+    text: (layout, style) => {
+      setAlpha(style.alpha);
+      drawTextLayout(m, layout, style.color);
+    }
+  };
+
+  // --- EXECUTION ---
+
+  const walker = createEntityWalker(backend, { data, activeLayers, layerColors, filledLayers, onWhite: true });
+
+  // Everything outside the area (and the bounds, if asked) is cut off
+  let clip = area;
+  if (clipToBounds) {
+    const left = Math.max(area.x, centerX - dataWidth * k / 2);
+    const top = Math.max(area.y, centerY - dataHeight * k / 2);
+    const right = Math.min(area.x + area.width, centerX + dataWidth * k / 2);
+    const bottom = Math.min(area.y + area.height, centerY + dataHeight * k / 2);
+    clip = { x: left, y: top, width: right - left, height: bottom - top };
+  }
+  withGraphicsState(() => {
+    pdf.rect(clip.x, clip.y, clip.width, clip.height, null);
+    pdf.clip();
+    pdf.discardPath();
+
+    if (layout) {
+      walker.drawLayout(layout);
+      return;
+    }
+    const modelEntities = getModelSpaceEntities(data);
+    if (filledLayers && filledLayers.size > 0) {
+      passAlpha = 0.4;
+      walker.drawFills(modelEntities);
+      passAlpha = 1;
+    }
+    walker.drawStrokes(modelEntities);
+  });
+
+  return { scale, fits };
+};
+
+// Single line of sheet text; characters the built-in fonts lack are drawn as an image
+export const drawSheetText = (pdf: jsPDF, text: string, x: number, y: number, sizePt: number, color = '#000000', bold = false) => {
+  if (LATIN1_RE.test(text)) {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setFontSize(sizePt);
+    pdf.setTextColor(color);
+    pdf.text(text, x, y, { baseline: 'alphabetic' });
+  } else {
+    drawRasterText(pdf, text, { x, y }, 0, sizePt / PT_PER_MM, 1, color, `${bold ? 'bold ' : ''}sans-serif`);
+  }
+};
+
+// Width in mm of a line drawn by drawSheetText
+export const getSheetTextWidth = (pdf: jsPDF, text: string, sizePt: number, bold = false) => {
+  if (!LATIN1_RE.test(text)) return estimateTextWidth(text, sizePt / PT_PER_MM);
+  pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+  return pdf.getStringUnitWidth(text) * sizePt / PT_PER_MM;
+};
+
+// Drops characters until a line of sheet text fits `width` mm, marking the cut
+export const fitSheetText = (pdf: jsPDF, text: string, width: number, sizePt: number, bold = false) => {
+  if (getSheetTextWidth(pdf, text, sizePt, bold) <= width) return text;
+  let cut = text;
+  while (cut.length > 0 && getSheetTextWidth(pdf, `${cut}...`, sizePt, bold) > width) cut = cut.slice(0, -1);
+  return cut ? `${cut}...` : '';
+};
+
+/**
+ * Plots the model space onto one PDF sheet, centered in the margins, with the file name, scale
+ * and sheet size noted in the bottom margin.
+ */
+export const renderDxfToPdf = (options: PdfRenderOptions): PdfPlotResult => {
+  const { plot } = options;
+  const page = getPageSize(plot);
+  const margin = plot.margin ?? 10;
+  const pdf = createPlotDocument(plot);
+  const area = { x: margin, y: margin, width: page.width - margin * 2, height: page.height - margin * 2 };
+  const { scale, fits } = plotOnPage(pdf, area, options.bounds, options);
+
+  const caption = [plot.title, `Scale ${getScaleLabel(plot, scale)}`, `${PAPER_SIZES[plot.paperSize].label} ${plot.orientation}`].filter(Boolean).join('  |  ');
+  drawSheetText(pdf, caption, margin, page.height - margin / 2, 8);
+
+  return { pdf, scale, fits };
+};
+
+// Height of the title strip along the bottom of each sheet (mm)
+const TITLE_STRIP_HEIGHT = 14;
+
+// Regions are padded so dimensions and labels just outside the axis grid stay on the sheet
+const REGION_PADDING = 0.05;
+
+/**
+ * One sheet per split region: the region's floor plan above a title strip with the region
+ * title, file name, scale, date and sheet number.
+ */
+export const renderSheetSetToPdf = (options: PdfSheetSetOptions): PdfSheetSetResult => {
+  const { plot, regions, fileName } = options;
+  const paper = PAPER_SIZES[plot.paperSize];
+  const page = getPageSize(plot);
+  const margin = plot.margin ?? 10;
+  const frame = { x: margin, y: margin, width: page.width - margin * 2, height: page.height - margin * 2 };
+  const stripTop = frame.y + frame.height - TITLE_STRIP_HEIGHT;
+  const area = { x: frame.x + 2, y: frame.y + 2, width: frame.width - 4, height: stripTop - frame.y - 4 };
+  const date = new Date().toISOString().slice(0, 10);
+
+  const pdf = createPlotDocument(plot);
+  const cropped: string[] = [];
+
+  regions.forEach((region, i) => {
+    if (i > 0) pdf.addPage([paper.width, paper.height], plot.orientation === 'landscape' ? 'l' : 'p');
+
+    const { minX, minY, maxX, maxY } = region.bounds;
+    const pad = Math.max(maxX - minX, maxY - minY) * REGION_PADDING;
+    const bounds = { minX: minX - pad, minY: minY - pad, maxX: maxX + pad, maxY: maxY + pad };
+    const { scale, fits } = plotOnPage(pdf, area, bounds, options, true);
+    if (!fits) cropped.push(region.title);
+
+    // Sheet frame and title strip
+    pdf.setDrawColor('#000000');
+    pdf.setLineDashPattern([], 0);
+    pdf.setLineWidth(0.35);
+    pdf.rect(frame.x, frame.y, frame.width, frame.height);
+    pdf.line(frame.x, stripTop, frame.x + frame.width, stripTop);
+
+    const cells = [
+      { label: 'Title', value: region.title, width: 0.4, size: 12, bold: true },
+      { label: 'File', value: fileName, width: 0.24, size: 8, bold: false },
+      { label: 'Scale', value: getScaleLabel(plot, scale), width: 0.14, size: 8, bold: false },
+      { label: 'Date', value: date, width: 0.11, size: 8, bold: false },
+      { label: 'Sheet', value: `${i + 1} / ${regions.length}`, width: 0.11, size: 8, bold: false }
+    ];
+    let x = frame.x;
+    cells.forEach((cell, c) => {
+      if (c > 0) pdf.line(x, stripTop, x, frame.y + frame.height);
+      // Long titles and file names are cut to their cell, 2 mm in from each side
+      const value = fitSheetText(pdf, cell.value, frame.width * cell.width - 4, cell.size, cell.bold);
+      drawSheetText(pdf, cell.label, x + 2, stripTop + 3.5, 6, '#64748b');
+      drawSheetText(pdf, value, x + 2, stripTop + TITLE_STRIP_HEIGHT - 3, cell.size, '#000000', cell.bold);
+      x += frame.width * cell.width;
+    });
+  });
+
+  return { pdf, cropped };
+};
@@ -0,0 +1,37 @@
+
+import { DxfData, DxfEntity } from '../types';
+
+export const LINEWEIGHT_BYLAYER = -1;
+export const LINEWEIGHT_BYBLOCK = -2;
+export const LINEWEIGHT_DEFAULT = -3;
+
+// AutoCAD's default lineweight when $LWDEFAULT is absent: 0.25 mm
+const DEFAULT_LINEWEIGHT = 25;
+
+// Monitor resolution CAD assumes when displaying lineweights (96 dpi)
+export const SCREEN_PX_PER_MM = 96 / 25.4;
+
+export const trueColorToHex = (rgb: number): string =>
+  `#${(rgb & 0xFFFFFF).toString(16).padStart(6, '0').toUpperCase()}`;
+
+/**
+ * Plotted lineweight of an entity in mm. BYLAYER/BYBLOCK and "default" are resolved through
+ * the layer, the enclosing INSERT (`blockLineWeight`, in hundredths of mm) and $LWDEFAULT.
+ */
+export const resolveLineWeightMm = (
+  ent: DxfEntity,
+  data: DxfData,
+  effectiveLayer: string,
+  blockLineWeight?: number
+): number => {
+  const defaultWeight = data.header?.lineWeightDefault ?? DEFAULT_LINEWEIGHT;
+  let weight = ent.lineWeight ?? LINEWEIGHT_BYLAYER;
+  if (weight === LINEWEIGHT_BYBLOCK) weight = blockLineWeight ?? LINEWEIGHT_DEFAULT;
+  if (weight === LINEWEIGHT_BYLAYER) weight = data.layerDictionary[effectiveLayer]?.lineWeight ?? LINEWEIGHT_DEFAULT;
+  if (weight < 0) weight = defaultWeight;
+  return weight / 100;
+};
+
+// Transparency 0 (opaque) .. 1 (clear); entities without their own value use the layer's
+export const resolveTransparency = (ent: DxfEntity, data: DxfData, effectiveLayer: string): number =>
+  ent.transparency ?? data.layerDictionary[effectiveLayer]?.transparency ?? 0;
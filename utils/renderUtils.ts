@@ -1,4 +1,8 @@
-import { DxfData, DxfEntity, EntityType, LayerColors, Bounds, SearchResult } from '../types';
+import { DxfData, DxfEntity, DxfLayout, LayerColors, SearchResult } from '../types';
+import { trueColorToHex } from './plotStyleUtils';
+import { TextLayout, getTextBlockTop } from './textUtils';
+import { getModelSpaceEntities } from './layoutUtils';
+import { DrawBackend, DrawShape, createEntityWalker, getBulgeArc, getScreenDash } from './entityWalker';
 
 interface RenderOptions {
     ctx: CanvasRenderingContext2D;
@@ -12,6 +16,10 @@ interface RenderOptions {
     isPdfExport?: boolean;
     highlights?: SearchResult[];
     activeHighlightIndex?: number;
+    // When set, lines are drawn with their plotted lineweight (370) at this many pixels per mm
+    lineWeightPxPerMm?: number;
+    // Paper space layout to draw instead of model space
+    layout?: DxfLayout;
 }
 
 // ACI (AutoCAD Color Index) palette - model space defaults (AutoCAD 2020).
@@ -55,9 +63,30 @@ export const aciToHex = (aci: number): string => {
     return '#FFFFFF';
 };
 
+// Nearest ACI (1-255) to a hex color, e.g. for writing viewer colors back to a DXF layer table
+export const hexToAci = (hex: string): number => {
+    const rgb = parseInt(hex.replace('#', ''), 16);
+    if (Number.isNaN(rgb)) return 7;
+    const r = (rgb >> 16) & 0xFF, g = (rgb >> 8) & 0xFF, b = rgb & 0xFF;
+    let best = 7;
+    let bestDist = Infinity;
+    for (let i = 1; i < 256; i++) {
+        const c = ACI_TABLE[i];
+        const dist = (((c >> 16) & 0xFF) - r) ** 2 + (((c >> 8) & 0xFF) - g) ** 2 + ((c & 0xFF) - b) ** 2;
+        if (dist < bestDist) {
+            bestDist = dist;
+            best = i;
+        }
+    }
+    return best;
+};
+
+// Shortest on-screen repeat (px) of a linetype pattern
+export const MIN_PATTERN_PX = 12;
+
 // Helper: Get Dash Array for standard linetypes
 // Scaled by 1/k to ensure dashes remain visible on screen regardless of zoom (Paper Space feel)
-const getLineDash = (lineType: string | undefined, scale: number): number[] => {
+export const getLineDash = (lineType: string | undefined, scale: number): number[] => {
     if (!lineType) return [];
 
     const lt = lineType.toUpperCase();
@@ -76,6 +105,152 @@ const getLineDash = (lineType: string | undefined, scale: number): number[] => {
     return [];
 };
 
+/**
+ * Color an entity is drawn in: its own (true color over ACI) or else its layer's.
+ * On white paper, white (color 7) flips to black and the light primaries are darkened to stay readable.
+ */
+export const resolveEntityColor = (ent: DxfEntity, layerColor: string, onWhite: boolean): string => {
+    let finalColor = layerColor;
+
+    // Explicit Entity Color (Overrides Layer); a true color wins over its ACI approximation
+    if (ent.trueColor !== undefined) {
+        finalColor = trueColorToHex(ent.trueColor);
+    } else if (ent.color !== undefined && ent.color !== 256 && ent.color !== 0) {
+        finalColor = aciToHex(ent.color);
+    }
+
+    // Handle Color 7 Flip
+    // If color is White (#FFFFFF) and background is White (PDF), flip to Black
+    // If color is White (#FFFFFF) and background is Dark (Screen), keep White
+    if (onWhite) {
+        const c = finalColor.toLowerCase();
+        if (c === '#ffffff' || c === '#fff') finalColor = '#000000';
+        else if (c === '#ffff00') finalColor = '#eab308'; // Yellow hard to read on white
+        else if (c === '#00ffff') finalColor = '#0891b2'; // Cyan hard to read on white
+        else if (c === '#00ff00') finalColor = '#16a34a'; // Green hard to read on white
+    }
+    return finalColor;
+};
+
+// Draws a resolved text layout in drawing coordinates (the canvas y axis points up here)
+const drawTextLayout = (ctx: CanvasRenderingContext2D, layout: TextLayout) => {
+    ctx.save();
+    ctx.translate(layout.anchor.x, layout.anchor.y);
+    ctx.scale(1, -1);
+    ctx.rotate(-layout.rotation * Math.PI / 180);
+    // Text space has y pointing down, so a right lean shifts upper parts towards +x
+    if (layout.obliqueAngle) ctx.transform(1, 0, -Math.tan(layout.obliqueAngle * Math.PI / 180), 1, 0, 0);
+    ctx.scale(layout.widthFactor, 1);
+    ctx.font = `${layout.height}px ${layout.fontFamily}`;
+    ctx.textAlign = layout.hAlign;
+    if (layout.vAlign === 'baseline') {
+        ctx.textBaseline = 'alphabetic';
+        layout.lines.forEach((line, i) => ctx.fillText(line, 0, i * layout.lineHeight));
+    } else {
+        ctx.textBaseline = 'top';
+        const top = getTextBlockTop(layout);
+        layout.lines.forEach((line, i) => ctx.fillText(line, 0, top + i * layout.lineHeight));
+    }
+    ctx.restore();
+};
+
+// Traces a walker shape as the current canvas path
+const traceShape = (ctx: CanvasRenderingContext2D, shape: DrawShape) => {
+    switch (shape.type) {
+        case 'path':
+            shape.paths.forEach(vertices => {
+                ctx.moveTo(vertices[0].x, vertices[0].y);
+                const count = shape.closed ? vertices.length : vertices.length - 1;
+                for (let i = 0; i < count; i++) {
+                    const p1 = vertices[i];
+                    const p2 = vertices[(i + 1) % vertices.length];
+                    if (p1.bulge && (p1.x !== p2.x || p1.y !== p2.y)) {
+                        const arc = getBulgeArc(p1, p2, p1.bulge);
+                        ctx.arc(arc.center.x, arc.center.y, arc.radius, arc.start, arc.start + arc.sweep, arc.sweep < 0);
+                    } else {
+                        ctx.lineTo(p2.x, p2.y);
+                    }
+                }
+                if (shape.closed) ctx.closePath();
+            });
+            break;
+        case 'circle':
+            ctx.moveTo(shape.center.x + shape.radius, shape.center.y);
+            ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, 2 * Math.PI);
+            break;
+        case 'arc':
+            ctx.arc(shape.center.x, shape.center.y, shape.radius, shape.start, shape.end);
+            break;
+        case 'ellipse': {
+            const rx = Math.hypot(shape.majorAxis.x, shape.majorAxis.y);
+            const rotation = Math.atan2(shape.majorAxis.y, shape.majorAxis.x);
+            ctx.ellipse(shape.center.x, shape.center.y, rx, rx * shape.ratio, rotation, shape.start, shape.end);
+            break;
+        }
+    }
+};
+
+/**
+ * Canvas side of the entity walk. The context already holds the view transform (drawing units,
+ * y up); blocks and viewports nest as canvas transforms, so line widths and dashes are divided
+ * back down to screen pixels.
+ */
+const createCanvasBackend = (
+    ctx: CanvasRenderingContext2D,
+    { k, baseLineWidth, lineWeightPxPerMm }: { k: number, baseLineWidth: number, lineWeightPxPerMm?: number }
+): DrawBackend => ({
+    measureText: fontFamily => (text, h) => {
+        ctx.font = `${h}px ${fontFamily}`;
+        return ctx.measureText(text).width;
+    },
+    withPlacement: ({ origin, rotation, scale, basePoint }, draw) => {
+        ctx.save();
+        ctx.translate(origin.x, origin.y);
+        if (rotation) ctx.rotate(rotation * Math.PI / 180);
+        ctx.scale(scale.x, scale.y);
+        ctx.translate(-basePoint.x, -basePoint.y);
+        draw();
+        ctx.restore();
+    },
+    withViewport: (clip, view, draw) => {
+        ctx.save();
+        ctx.beginPath();
+        traceShape(ctx, { type: 'path', paths: [clip], closed: true });
+        ctx.clip();
+        ctx.translate(view.paperCenter.x, view.paperCenter.y);
+        ctx.rotate(view.rotation * Math.PI / 180);
+        ctx.scale(view.scale, view.scale);
+        ctx.translate(-view.modelCenter.x, -view.modelCenter.y);
+        draw();
+        ctx.restore();
+    },
+    stroke: (shape, style) => {
+        const screenScale = k * Math.abs(style.scaleAcc);
+        const widthPx = lineWeightPxPerMm && style.lineWeightMm !== undefined
+            ? Math.max(1, style.lineWeightMm * lineWeightPxPerMm)
+            : baseLineWidth;
+        ctx.strokeStyle = style.color;
+        ctx.globalAlpha = style.alpha;
+        ctx.lineWidth = widthPx / screenScale;
+        ctx.setLineDash(getScreenDash(style, screenScale, widthPx).map(v => v / screenScale));
+        ctx.beginPath();
+        traceShape(ctx, shape);
+        ctx.stroke();
+    },
+    fill: (shape, style, evenOdd = false) => {
+        ctx.fillStyle = style.color;
+        ctx.globalAlpha = style.alpha;
+        ctx.beginPath();
+        traceShape(ctx, shape);
+        ctx.fill(evenOdd ? 'evenodd' : 'nonzero');
+    },
+    text: (layout, style) => {
+        ctx.fillStyle = style.color;
+        ctx.globalAlpha = style.alpha;
+        drawTextLayout(ctx, layout);
+    }
+});
+
 export const renderDxfToCanvas = ({
     ctx,
     data,
@@ -87,7 +262,9 @@ export const renderDxfToCanvas = ({
     height,
     isPdfExport = false,
     highlights,
-    activeHighlightIndex
+    activeHighlightIndex,
+    lineWeightPxPerMm,
+    layout
 }: RenderOptions) => {
     // 1. Background Setup
     if (isPdfExport) {
@@ -106,226 +283,21 @@ export const renderDxfToCanvas = ({
         ctxToUse.lineJoin = 'round';
     };
 
-    const targetPixelWidth = isPdfExport ? 2 : 1;
-    const baseLineWidth = targetPixelWidth / transform.k;
-
-    // 4. Color Logic
-    // Resolves logic: Entity Color > Layer Color
-    // Handles 7 (White/Black) flip
-    const resolveColor = (ent: DxfEntity, layerColor: string) => {
-        let finalColor = layerColor;
-
-        // Explicit Entity Color (Overrides Layer)
-        if (ent.color !== undefined && ent.color !== 256 && ent.color !== 0) {
-            finalColor = aciToHex(ent.color);
-        }
-
-        // Handle Color 7 Flip
-        // If color is White (#FFFFFF) and background is White (PDF), flip to Black
-        // If color is White (#FFFFFF) and background is Dark (Screen), keep White
-        if (isPdfExport) {
-            const c = finalColor.toLowerCase();
-            if (c === '#ffffff' || c === '#fff') finalColor = '#000000';
-            else if (c === '#ffff00') finalColor = '#eab308'; // Yellow hard to read on white
-            else if (c === '#00ffff') finalColor = '#0891b2'; // Cyan hard to read on white
-            else if (c === '#00ff00') finalColor = '#16a34a'; // Green hard to read on white
-        }
-        return finalColor;
-    };
-
-    // --- RENDER FUNCTIONS ---
-
-    // A. Draw Stencils (Fills) - Draws OPAQUE shapes for composition
-    const drawFillsRecursive = (currCtx: CanvasRenderingContext2D, entities: DxfEntity[], contextLayer: string) => {
-        for (const ent of entities) {
-            const effectiveLayer = ent.layer === '0' ? contextLayer : ent.layer;
-            const isLayerActive = activeLayers.has(effectiveLayer);
-
-            // Traverse Blocks even if layer is hidden (to find nested items)
-            if (ent.type === EntityType.INSERT && ent.start && ent.blockName && data.blocks[ent.blockName]) {
-                const basePoint = data.blockBasePoints[ent.blockName] || { x: 0, y: 0 };
-                const rows = ent.rowCount || 1;
-                const cols = ent.columnCount || 1;
-                const rSpace = ent.rowSpacing || 0;
-                const cSpace = ent.columnSpacing || 0;
-
-                const drawBlock = (ox: number, oy: number) => {
-                    currCtx.save();
-                    currCtx.translate(ent.start!.x + ox, ent.start!.y + oy);
-                    if (ent.rotation) currCtx.rotate(ent.rotation * Math.PI / 180);
-                    currCtx.scale(ent.scale?.x || 1, ent.scale?.y || 1);
-                    currCtx.translate(-basePoint.x, -basePoint.y);
-                    drawFillsRecursive(currCtx, data.blocks[ent.blockName!], effectiveLayer);
-                    currCtx.restore();
-                };
-
-                if (rows === 1 && cols === 1) {
-                    drawBlock(0, 0);
-                } else {
-                    for (let r = 0; r < rows; r++) {
-                        for (let c = 0; c < cols; c++) {
-                            drawBlock(c * cSpace, r * rSpace);
-                        }
-                    }
-                }
-                continue;
-            }
-
-            // Handle Dimension Blocks (e.g. *D56) which contain arrows (filled solids)
-            if (ent.type === EntityType.DIMENSION && ent.blockName && data.blocks[ent.blockName]) {
-                // Dimensions in DXF usually have absolute coordinates in their anonymous blocks.
-                // We render them without entity-level transforms, just passing the layer context.
-                if (isLayerActive) {
-                    drawFillsRecursive(currCtx, data.blocks[ent.blockName], effectiveLayer);
-                }
-                continue;
-            }
-
-            if (!isLayerActive) continue;
-
-            // Only draw filled polygons if the layer is marked as FILLED
-            if (filledLayers && filledLayers.has(effectiveLayer)) {
-                const color = resolveColor(ent, layerColors[effectiveLayer] || '#e2e8f0');
-                if (ent.type === EntityType.LWPOLYLINE && ent.vertices && ent.closed) {
-                    currCtx.fillStyle = color;
-                    currCtx.beginPath();
-                    currCtx.moveTo(ent.vertices[0].x, ent.vertices[0].y);
-                    for (let i = 1; i < ent.vertices.length; i++) {
-                        currCtx.lineTo(ent.vertices[i].x, ent.vertices[i].y);
-                    }
-                    currCtx.closePath();
-                    currCtx.fill();
-                } else if (ent.type === EntityType.CIRCLE && ent.center && ent.radius) {
-                    currCtx.fillStyle = color;
-                    currCtx.beginPath();
-                    currCtx.arc(ent.center.x, ent.center.y, ent.radius, 0, 2 * Math.PI);
-                    currCtx.fill();
-                }
-            }
-        }
-    };
-
-    // B. Draw Strokes - Draws Lines, Arcs, Text, and Outlines of Polygons
-    const drawStrokesRecursive = (currCtx: CanvasRenderingContext2D, entities: DxfEntity[], contextLayer: string, scaleAcc: number) => {
-        for (const ent of entities) {
-            const effectiveLayer = ent.layer === '0' ? contextLayer : ent.layer;
-            const isLayerActive = activeLayers.has(effectiveLayer);
-
-            // Allow strokes for all active layers (even filled ones) to ensure outlines (rectangles) are visible for beams/columns
-
-            if (ent.type === EntityType.INSERT && ent.start && ent.blockName && data.blocks[ent.blockName]) {
-                const basePoint = data.blockBasePoints[ent.blockName] || { x: 0, y: 0 };
-                const rows = ent.rowCount || 1;
-                const cols = ent.columnCount || 1;
-                const rSpace = ent.rowSpacing || 0;
-                const cSpace = ent.columnSpacing || 0;
-                const scaleX = ent.scale?.x || 1;
-
-                const drawBlock = (ox: number, oy: number) => {
-                    currCtx.save();
-                    currCtx.translate(ent.start!.x + ox, ent.start!.y + oy);
-                    if (ent.rotation) currCtx.rotate(ent.rotation * Math.PI / 180);
-                    currCtx.scale(ent.scale?.x || 1, ent.scale?.y || 1);
-                    currCtx.translate(-basePoint.x, -basePoint.y);
-                    drawStrokesRecursive(currCtx, data.blocks[ent.blockName!], effectiveLayer, scaleAcc * scaleX);
-                    currCtx.restore();
-                };
-
-                if (rows === 1 && cols === 1) {
-                    drawBlock(0, 0);
-                } else {
-                    for (let r = 0; r < rows; r++) {
-                        for (let c = 0; c < cols; c++) {
-                            drawBlock(c * cSpace, r * rSpace);
-                        }
-                    }
-                }
-                continue;
-            }
-
-            // Handle Dimension Blocks (e.g. *D56) containing lines, text, ticks
-            if (ent.type === EntityType.DIMENSION && ent.blockName && data.blocks[ent.blockName]) {
-                if (isLayerActive) {
-                    // Render the anonymous block content directly (usually WCS)
-                    drawStrokesRecursive(currCtx, data.blocks[ent.blockName], effectiveLayer, scaleAcc);
-                }
-                continue; // Skip manual fallback drawing
-            }
-
-            if (!isLayerActive) continue;
-
-            const color = resolveColor(ent, layerColors[effectiveLayer] || '#e2e8f0');
-            currCtx.strokeStyle = color;
-            currCtx.fillStyle = color;
-            currCtx.lineWidth = baseLineWidth / Math.abs(scaleAcc);
-
-            currCtx.beginPath();
-
-            if (ent.type === EntityType.LINE && ent.start && ent.end) {
-                currCtx.moveTo(ent.start.x, ent.start.y);
-                currCtx.lineTo(ent.end.x, ent.end.y);
-                currCtx.stroke();
-            }
-            else if (ent.type === EntityType.LWPOLYLINE && ent.vertices && ent.vertices.length > 0) {
-                currCtx.moveTo(ent.vertices[0].x, ent.vertices[0].y);
-                for (let i = 1; i < ent.vertices.length; i++) {
-                    currCtx.lineTo(ent.vertices[i].x, ent.vertices[i].y);
-                }
-                if (ent.closed) currCtx.closePath();
-                currCtx.stroke();
-            }
-            else if (ent.type === EntityType.CIRCLE && ent.center && ent.radius) {
-                currCtx.arc(ent.center.x, ent.center.y, ent.radius, 0, 2 * Math.PI);
-                currCtx.stroke();
-            }
-            else if (ent.type === EntityType.ARC && ent.center && ent.radius) {
-                const start = (ent.startAngle || 0) * Math.PI / 180;
-                const end = (ent.endAngle || 0) * Math.PI / 180;
-                currCtx.arc(ent.center.x, ent.center.y, ent.radius, start, end);
-                currCtx.stroke();
-            }
-            else if ((ent.type === EntityType.TEXT || ent.type === EntityType.MTEXT || ent.type === EntityType.ATTRIB) && ent.start && ent.text) {
-                currCtx.save();
-                currCtx.translate(ent.start.x, ent.start.y);
-                currCtx.scale(1, -1);
-                const angle = (ent.startAngle || 0) * Math.PI / 180;
-                currCtx.rotate(-angle);
-                const h = ent.radius || 10;
-                currCtx.font = `${h}px monospace`;
-                // Text is filled (solid), not stroked usually
-                const lines = ent.text.split('\n');
-                lines.forEach((line, i) => currCtx.fillText(line, 0, i * h * 1.25));
-                currCtx.restore();
-            }
-            // Fallback for Dimensions without blocks (or failed block load)
-            else if (ent.type === EntityType.DIMENSION) {
-                if (ent.measureStart && ent.measureEnd) {
-                    currCtx.moveTo(ent.measureStart.x, ent.measureStart.y);
-                    currCtx.lineTo(ent.measureEnd.x, ent.measureEnd.y);
-                    currCtx.stroke();
-                }
-                if (ent.end && ent.text) {
-                    currCtx.save();
-                    currCtx.translate(ent.end.x, ent.end.y);
-                    currCtx.scale(1, -1);
-                    const angle = (ent.startAngle || 0) * Math.PI / 180;
-                    currCtx.rotate(-angle);
-                    const h = 2.5;
-                    currCtx.font = `${h}px monospace`;
-                    currCtx.textAlign = 'center';
-                    currCtx.textBaseline = 'bottom';
-                    currCtx.fillText(ent.text, 0, 0);
-                    currCtx.restore();
-                }
-            }
-        }
-    };
+    // Line width in screen pixels; the white export background gets a heavier line
+    const baseLineWidth = isPdfExport ? 2 : 1;
 
+    // Entity Color > Layer Color, with the 7 (White/Black) flip on the white export background
+    const walkOptions = { data, activeLayers, layerColors, filledLayers, onWhite: isPdfExport };
+    const walkOn = (target: CanvasRenderingContext2D) =>
+        createEntityWalker(createCanvasBackend(target, { k: transform.k, baseLineWidth, lineWeightPxPerMm }), walkOptions);
 
     // --- EXECUTION ---
 
+    // Paper space entities only show up on their layout
+    const modelEntities = getModelSpaceEntities(data);
+
     // 1. Fill Pass (Off-screen buffer)
-    if (filledLayers && filledLayers.size > 0) {
+    if (!layout && filledLayers && filledLayers.size > 0) {
         const offCanvas = document.createElement('canvas');
         offCanvas.width = width;
         offCanvas.height = height;
@@ -333,7 +305,7 @@ export const renderDxfToCanvas = ({
 
         if (offCtx) {
             applyTransform(offCtx);
-            drawFillsRecursive(offCtx, data.entities, '0');
+            walkOn(offCtx).drawFills(modelEntities);
 
             ctx.save();
             ctx.globalAlpha = 0.4;
@@ -345,10 +317,21 @@ export const renderDxfToCanvas = ({
     // 2. Stroke Pass (Main Canvas)
     ctx.save();
     applyTransform(ctx);
-    drawStrokesRecursive(ctx, data.entities, '0', 1.0);
+    if (layout) {
+        // The sheet, then its viewports and paper space
+        if (layout.limitsMin && layout.limitsMax) {
+            ctx.fillStyle = isPdfExport ? '#FFFFFF' : '#1e293b'; // Slate 800
+            ctx.fillRect(layout.limitsMin.x, layout.limitsMin.y, layout.limitsMax.x - layout.limitsMin.x, layout.limitsMax.y - layout.limitsMin.y);
+        }
+        walkOn(ctx).drawLayout(layout);
+    } else {
+        walkOn(ctx).drawStrokes(modelEntities);
+    }
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
 
-    // 3. Highlight Pass (Search Results)
-    if (highlights && highlights.length > 0) {
+    // 3. Highlight Pass (Search Results, model space only)
+    if (!layout && highlights && highlights.length > 0) {
         highlights.forEach((h, i) => {
             const isActive = i === activeHighlightIndex;
             ctx.save();
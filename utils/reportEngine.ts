@@ -0,0 +1,599 @@
+import { jsPDF } from 'jspdf';
+import { ReportUnitSystem, REPORT_UNIT_SYSTEMS, formatReportArea, formatReportLength, formatReportVolume } from './units';
+import { PAPER_SIZES, PaperOrientation, PaperSize, drawSheetText, fitSheetText, getPageSize, getSheetTextWidth } from './pdfExport';
+import { SpreadsheetSheet } from './spreadsheetExport';
+
+// --- Data ---
+
+export type ReportFieldKind = 'text' | 'integer' | 'number' | 'length' | 'area' | 'volume';
+
+export interface ReportFieldDef {
+  label: string;
+  kind: ReportFieldKind; // length values are mm, areas mm2, volumes mm3; all print in the report units
+}
+
+export type ReportValue = string | number;
+
+export interface ReportDataset {
+  fields: Record<string, ReportFieldDef>;
+  rows: Record<string, ReportValue>[];
+}
+
+// --- Templates (plain JSON, so layouts can be shared and imported without code changes) ---
+
+export type ReportAggregate = 'sum' | 'count' | 'min' | 'max' | 'avg' | 'distinct';
+export type ReportFilterOp = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'empty' | 'notEmpty';
+
+export interface ReportColumn {
+  field: string;
+  label?: string;              // Defaults to the field label
+  width?: number;              // Relative width; defaults to 3 for text and 2 for numbers
+  aggregate?: ReportAggregate; // Value on summary, subtotal and total rows
+}
+
+export interface ReportFilter {
+  field: string;
+  op: ReportFilterOp;
+  value?: ReportValue;
+}
+
+export interface ReportSort {
+  field: string;
+  desc?: boolean;
+}
+
+export interface ReportSection {
+  title?: string;
+  text?: string;            // Paragraph under the title
+  filters?: ReportFilter[]; // All must match
+  groupBy?: string[];       // Nested groups, outermost first
+  summarize?: boolean;      // One row per innermost group instead of the detail rows; needs groupBy
+  sort?: ReportSort[];      // Within groups; a group field listed here sets that group's order
+  columns: ReportColumn[];
+  subtotals?: boolean;
+  grandTotal?: boolean;
+  pageBreakBefore?: boolean;
+}
+
+// Left, center and right text of the page header or footer
+export interface ReportPageText {
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+/**
+ * Text anywhere in a template may use placeholders: {project}, {date}, {template}, {units},
+ * {count} (dataset rows), {sum:field} and, in headers and footers, {page} and {pages}.
+ */
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string;
+  subtitle?: string;
+  paper?: { size: PaperSize, orientation: PaperOrientation };
+  header?: ReportPageText;
+  footer?: ReportPageText;
+  sections: ReportSection[];
+}
+
+export interface ReportContext {
+  project: string;
+  units: ReportUnitSystem;
+  date?: string;
+}
+
+// --- Laid out report, shared by the renderers ---
+
+export interface ReportCell {
+  text: string;
+  value?: number; // Numeric value in report units, for spreadsheets
+}
+
+export type ReportRowKind = 'group' | 'row' | 'subtotal' | 'total';
+
+export interface ReportRow {
+  kind: ReportRowKind;
+  level: number;       // Group depth
+  cells: ReportCell[]; // Group rows carry one cell with the group title
+  labelIndex?: number; // Subtotal and total rows: cell holding the row label
+}
+
+export interface ReportTableColumn {
+  label: string;
+  width: number;
+  align: 'left' | 'right';
+}
+
+export interface ReportBlock {
+  title: string;
+  text: string;
+  pageBreakBefore: boolean;
+  columns: ReportTableColumn[];
+  rows: ReportRow[];
+}
+
+export interface ReportDocument {
+  name: string;
+  title: string;
+  subtitle: string;
+  paper: { size: PaperSize, orientation: PaperOrientation };
+  header: ReportPageText;
+  footer: ReportPageText;
+  values: Record<string, string>; // Placeholder values; {page} and {pages} are added per page
+  blocks: ReportBlock[];
+}
+
+const AGGREGATES: ReportAggregate[] = ['sum', 'count', 'min', 'max', 'avg', 'distinct'];
+const FILTER_OPS: ReportFilterOp[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'empty', 'notEmpty'];
+const NUMERIC_KINDS: ReportFieldKind[] = ['integer', 'number', 'length', 'area', 'volume'];
+
+const isEmpty = (v: ReportValue | undefined) => v === undefined || v === null || v === '';
+
+const compareValues = (a: ReportValue | undefined, b: ReportValue | undefined) => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) ? (isEmpty(b) ? 0 : 1) : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const formatValue = (value: ReportValue | undefined, kind: ReportFieldKind, units: ReportUnitSystem): ReportCell => {
+  if (isEmpty(value)) return { text: '' };
+  const n = Number(value);
+  switch (kind) {
+    case 'length': {
+      const text = formatReportLength(n, units);
+      return { text, value: Number(text) };
+    }
+    case 'area': {
+      const text = formatReportArea(n, units);
+      return { text, value: Number(text) };
+    }
+    case 'volume': {
+      const text = formatReportVolume(n, units);
+      return { text, value: Number(text) };
+    }
+    case 'integer':
+      return { text: String(Math.round(n)), value: Math.round(n) };
+    case 'number': {
+      const v = Math.round(n * 1000) / 1000;
+      return { text: String(v), value: v };
+    }
+    default:
+      return { text: String(value) };
+  }
+};
+
+const unitSymbol = (kind: ReportFieldKind, units: ReportUnitSystem) =>
+  kind === 'length' || kind === 'area' || kind === 'volume' ? REPORT_UNIT_SYSTEMS[units][kind].symbol : '';
+
+export const fillPlaceholders = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+(?::\w+)?)\}/g, (match, key: string) => values[key] ?? match);
+
+const matchesFilter = (row: Record<string, ReportValue>, filter: ReportFilter) => {
+  const v = row[filter.field];
+  switch (filter.op) {
+    case 'empty': return isEmpty(v);
+    case 'notEmpty': return !isEmpty(v);
+    case 'eq': return String(v ?? '') === String(filter.value ?? '');
+    case 'ne': return String(v ?? '') !== String(filter.value ?? '');
+    case 'gt': return Number(v) > Number(filter.value);
+    case 'gte': return Number(v) >= Number(filter.value);
+    case 'lt': return Number(v) < Number(filter.value);
+    case 'lte': return Number(v) <= Number(filter.value);
+  }
+};
+
+/** Problems that would stop a template from rendering against these fields; empty when valid. */
+export const validateReportTemplate = (value: unknown, fields: Record<string, ReportFieldDef>): string[] => {
+  const errors: string[] = [];
+  const t = value as ReportTemplate;
+  if (!t || typeof t !== 'object') return ['Template must be a JSON object.'];
+  if (typeof t.id !== 'string' || !t.id) errors.push('Missing "id".');
+  if (typeof t.name !== 'string' || !t.name) errors.push('Missing "name".');
+  if (typeof t.title !== 'string') errors.push('Missing "title".');
+  if (t.paper && !PAPER_SIZES[t.paper.size]) errors.push(`Unknown paper size "${t.paper.size}".`);
+  if (!Array.isArray(t.sections) || t.sections.length === 0) return [...errors, 'Template needs at least one section.'];
+
+  const checkField = (field: unknown, where: string) => {
+    if (typeof field !== 'string' || !fields[field]) errors.push(`${where}: unknown field "${field}".`);
+  };
+  // Optional lists; entries that are not objects are reported and skipped
+  const entries = <T>(items: T[] | undefined, where: string): T[] => {
+    if (items === undefined) return [];
+    if (!Array.isArray(items)) {
+      errors.push(`${where} must be a list.`);
+      return [];
+    }
+    const objects = items.filter(item => item && typeof item === 'object');
+    if (objects.length < items.length) errors.push(`${where} entries must be objects.`);
+    return objects;
+  };
+  t.sections.forEach((section, i) => {
+    const where = `Section ${i + 1}`;
+    if (!section || typeof section !== 'object') {
+      errors.push(`${where}: must be an object.`);
+      return;
+    }
+    if (!Array.isArray(section.columns) || section.columns.length === 0) {
+      errors.push(`${where}: needs at least one column.`);
+      return;
+    }
+    entries(section.columns, `${where} columns`).forEach(c => {
+      checkField(c.field, where);
+      if (c.aggregate && !AGGREGATES.includes(c.aggregate)) errors.push(`${where}: unknown aggregate "${c.aggregate}".`);
+    });
+    const groupBy = Array.isArray(section.groupBy) ? section.groupBy : [];
+    if (section.groupBy !== undefined && !Array.isArray(section.groupBy)) errors.push(`${where} groupBy must be a list.`);
+    groupBy.forEach(f => checkField(f, `${where} groupBy`));
+    // Summary rows are one per innermost group, so there has to be one
+    if (section.summarize && groupBy.length === 0) errors.push(`${where}: "summarize" needs at least one groupBy field.`);
+    entries(section.sort, `${where} sort`).forEach(s => checkField(s.field, `${where} sort`));
+    entries(section.filters, `${where} filters`).forEach(f => {
+      checkField(f.field, `${where} filter`);
+      if (!FILTER_OPS.includes(f.op)) errors.push(`${where}: unknown filter "${f.op}".`);
+    });
+  });
+  return errors;
+};
+
+/**
+ * Applies a template to a dataset: filters, sorts and groups each section's rows and computes the
+ * summary, subtotal and total rows. The result is format independent; the renderers below only
+ * place it on paper, in HTML or in worksheets.
+ */
+export const layoutReport = (template: ReportTemplate, dataset: ReportDataset, context: ReportContext): ReportDocument => {
+  const { units } = context;
+  const fieldDef = (field: string): ReportFieldDef => dataset.fields[field] || { label: field, kind: 'text' };
+
+  const values: Record<string, string> = {
+    project: context.project,
+    date: context.date ?? new Date().toISOString().slice(0, 10),
+    template: template.name,
+    units: REPORT_UNIT_SYSTEMS[units].label,
+    count: String(dataset.rows.length)
+  };
+  Object.entries(dataset.fields).forEach(([field, def]) => {
+    if (!NUMERIC_KINDS.includes(def.kind)) return;
+    const sum = dataset.rows.reduce((s, r) => s + (Number(r[field]) || 0), 0);
+    const symbol = unitSymbol(def.kind, units);
+    values[`sum:${field}`] = formatValue(sum, def.kind, units).text + (symbol ? ` ${symbol}` : '');
+  });
+
+  const blocks = template.sections.map((section): ReportBlock => {
+    const groupBy = section.groupBy || [];
+    const columns = section.columns;
+    const kinds = columns.map(c => (c.aggregate === 'count' ? 'integer' : c.aggregate === 'distinct' ? 'text' : fieldDef(c.field).kind));
+
+    const tableColumns = columns.map((c, i): ReportTableColumn => {
+      const def = fieldDef(c.field);
+      const symbol = unitSymbol(kinds[i], units);
+      const label = c.label ?? (c.aggregate === 'count' ? 'Count' : def.label);
+      return {
+        label: symbol ? `${label} (${symbol})` : label,
+        width: c.width ?? (NUMERIC_KINDS.includes(kinds[i]) ? 2 : 3),
+        align: NUMERIC_KINDS.includes(kinds[i]) ? 'right' : 'left'
+      };
+    });
+
+    // Group fields first (in the sort's direction when it names them), then the section sort
+    const sortKeys: ReportSort[] = [
+      ...groupBy.map(field => ({ field, desc: section.sort?.find(s => s.field === field)?.desc })),
+      ...(section.sort || []).filter(s => !groupBy.includes(s.field))
+    ];
+    const rows = dataset.rows
+      .filter(r => (section.filters || []).every(f => matchesFilter(r, f)))
+      .sort((a, b) => {
+        for (const key of sortKeys) {
+          const diff = compareValues(a[key.field], b[key.field]);
+          if (diff !== 0) return key.desc ? -diff : diff;
+        }
+        return 0;
+      });
+
+    const aggregate = (column: ReportColumn, kind: ReportFieldKind, group: Record<string, ReportValue>[]): ReportCell => {
+      const present = group.map(r => r[column.field]).filter(v => !isEmpty(v));
+      const numbers = present.map(Number).filter(n => !isNaN(n));
+      const def = fieldDef(column.field);
+      switch (column.aggregate) {
+        case 'count': return formatValue(group.length, 'integer', units);
+        case 'distinct': return { text: [...new Set(present.map(v => formatValue(v, def.kind, units).text))].join('; ') };
+        case 'sum': return formatValue(numbers.reduce((s, n) => s + n, 0), kind, units);
+        case 'min': return numbers.length ? formatValue(Math.min(...numbers), kind, units) : { text: '' };
+        case 'max': return numbers.length ? formatValue(Math.max(...numbers), kind, units) : { text: '' };
+        case 'avg': return numbers.length ? formatValue(numbers.reduce((s, n) => s + n, 0) / numbers.length, kind, units) : { text: '' };
+        default: return { text: '' };
+      }
+    };
+
+    // Aggregate row; the label goes into the first column without an aggregate
+    const totalsRow = (kind: ReportRowKind, level: number, label: string, group: Record<string, ReportValue>[]): ReportRow => {
+      const labelIndex = columns.findIndex(c => !c.aggregate);
+      return {
+        kind,
+        level,
+        labelIndex: labelIndex >= 0 ? labelIndex : undefined,
+        cells: columns.map((c, i) => (c.aggregate ? aggregate(c, kinds[i], group) : { text: i === labelIndex ? label : '' }))
+      };
+    };
+
+    const out: ReportRow[] = [];
+    const emit = (group: Record<string, ReportValue>[], level: number) => {
+      if (level === groupBy.length) {
+        group.forEach(r => out.push({ kind: 'row', level, cells: columns.map(c => formatValue(r[c.field], fieldDef(c.field).kind, units)) }));
+        return;
+      }
+      const field = groupBy[level];
+      const groups = new Map<string, Record<string, ReportValue>[]>();
+      group.forEach(r => {
+        const key = String(r[field] ?? '');
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r);
+      });
+      groups.forEach((members, key) => {
+        const title = key ? formatValue(members[0][field], fieldDef(field).kind, units).text : '(none)';
+        if (section.summarize && level === groupBy.length - 1) {
+          // Group keys, aggregates, and any value the whole group shares
+          out.push({
+            kind: 'row',
+            level,
+            cells: columns.map((c, i) => {
+              if (c.aggregate) return aggregate(c, kinds[i], members);
+              const shared = members[0][c.field];
+              return members.every(r => r[c.field] === shared) ? formatValue(shared, fieldDef(c.field).kind, units) : { text: '' };
+            })
+          });
+          return;
+        }
+        out.push({ kind: 'group', level, cells: [{ text: title }] });
+        emit(members, level + 1);
+        if (section.subtotals) out.push(totalsRow('subtotal', level, `${title} Subtotal`, members));
+      });
+    };
+    emit(rows, 0);
+    if (section.grandTotal) out.push(totalsRow('total', 0, 'Total', rows));
+
+    return {
+      title: fillPlaceholders(section.title || '', values),
+      text: fillPlaceholders(section.text || '', values),
+      pageBreakBefore: !!section.pageBreakBefore,
+      columns: tableColumns,
+      rows: out
+    };
+  });
+
+  return {
+    name: template.name,
+    title: fillPlaceholders(template.title, values),
+    subtitle: fillPlaceholders(template.subtitle || '', values),
+    paper: template.paper || { size: 'A4', orientation: 'portrait' },
+    header: template.header || {},
+    footer: template.footer || {},
+    values,
+    blocks
+  };
+};
+
+// --- PDF ---
+
+const PDF_MARGIN = 15;
+const PDF_TABLE_PT = 8.5;
+const PDF_ROW_HEIGHT = 5;
+const PDF_INDENT = 3;
+
+// Subtotal and total labels run on, left aligned, into the empty cells after them
+const getLabelSpan = (row: ReportRow, index: number) => {
+  if (row.labelIndex !== index) return 1;
+  let span = 1;
+  while (index + span < row.cells.length && !row.cells[index + span].text) span++;
+  return span;
+};
+
+export const renderReportToPdf = (doc: ReportDocument): jsPDF => {
+  const page = getPageSize({ paperSize: doc.paper.size, orientation: doc.paper.orientation });
+  const paper = PAPER_SIZES[doc.paper.size];
+  const pdf = new jsPDF({ orientation: doc.paper.orientation === 'landscape' ? 'l' : 'p', unit: 'mm', format: [paper.width, paper.height] });
+  const left = PDF_MARGIN;
+  const contentWidth = page.width - PDF_MARGIN * 2;
+  const top = PDF_MARGIN + 3;
+  const bottom = page.height - PDF_MARGIN;
+  let y = top;
+
+  const newPage = () => {
+    pdf.addPage([paper.width, paper.height], doc.paper.orientation === 'landscape' ? 'l' : 'p');
+    y = top;
+  };
+
+  drawSheetText(pdf, doc.title, left, y + 4, 16, '#000000', true);
+  y += 10;
+  if (doc.subtitle) {
+    drawSheetText(pdf, doc.subtitle, left, y + 2, 11);
+    y += 8;
+  }
+
+  doc.blocks.forEach((block, blockIndex) => {
+    const total = block.columns.reduce((s, c) => s + c.width, 0) || 1;
+    const widths = block.columns.map(c => c.width / total * contentWidth);
+    const xs = widths.map((_, i) => left + widths.slice(0, i).reduce((s, w) => s + w, 0));
+
+    const drawCell = (text: string, i: number, bold: boolean, indent = 0, span = 1, isLabel = false) => {
+      const width = widths.slice(i, i + span).reduce((s, w) => s + w, 0) - 2 - indent;
+      const fitted = fitSheetText(pdf, text, width, PDF_TABLE_PT, bold);
+      const x = block.columns[i].align === 'right' && !isLabel
+        ? xs[i] + widths[i] - 1 - getSheetTextWidth(pdf, fitted, PDF_TABLE_PT, bold)
+        : xs[i] + 1 + indent;
+      drawSheetText(pdf, fitted, x, y, PDF_TABLE_PT, '#000000', bold);
+    };
+    const drawHeader = () => {
+      y += PDF_ROW_HEIGHT - 1;
+      block.columns.forEach((c, i) => drawCell(c.label, i, true));
+      pdf.setDrawColor(0);
+      pdf.setLineWidth(0.3);
+      pdf.line(left, y + 1.5, left + contentWidth, y + 1.5);
+      y += 1.5;
+    };
+
+    // Title, text and the first rows stay together
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    const textLines = block.text ? block.text.split('\n').flatMap(line => pdf.splitTextToSize(line, contentWidth) as string[]) : [];
+    const needed = (block.title ? 9 : 0) + textLines.length * 4.5 + PDF_ROW_HEIGHT * 3;
+    if ((block.pageBreakBefore && blockIndex > 0) || y + needed > bottom) newPage();
+    else if (blockIndex > 0) y += 6;
+
+    if (block.title) {
+      drawSheetText(pdf, block.title, left, y + 4, 12, '#000000', true);
+      y += 8;
+    }
+    textLines.forEach(line => {
+      drawSheetText(pdf, line, left, y + 3, 9, '#333333');
+      y += 4.5;
+    });
+    drawHeader();
+
+    block.rows.forEach(row => {
+      if (y + PDF_ROW_HEIGHT > bottom) {
+        newPage();
+        drawHeader();
+      }
+      y += PDF_ROW_HEIGHT;
+      const bold = row.kind !== 'row';
+      if (row.kind === 'group') {
+        if (row.level === 0) {
+          pdf.setFillColor(235, 238, 242);
+          pdf.rect(left, y - PDF_ROW_HEIGHT + 1.3, contentWidth, PDF_ROW_HEIGHT, 'F');
+        }
+        drawSheetText(pdf, fitSheetText(pdf, row.cells[0].text, contentWidth - 2, PDF_TABLE_PT, true), left + 1 + row.level * PDF_INDENT, y, PDF_TABLE_PT, '#000000', true);
+        return;
+      }
+      if (row.kind === 'subtotal' || row.kind === 'total') {
+        pdf.setDrawColor(row.kind === 'total' ? 0 : 150);
+        pdf.setLineWidth(row.kind === 'total' ? 0.3 : 0.1);
+        pdf.line(left, y - PDF_ROW_HEIGHT + 1.3, left + contentWidth, y - PDF_ROW_HEIGHT + 1.3);
+      }
+      row.cells.forEach((cell, i) => {
+        if (!cell.text) return;
+        drawCell(cell.text, i, bold, i === 0 ? row.level * PDF_INDENT : 0, getLabelSpan(row, i), row.labelIndex === i);
+      });
+    });
+  });
+
+  // Headers and footers once the page count is known
+  const pages = pdf.getNumberOfPages();
+  const drawPageText = (text: ReportPageText, baseline: number, pageNumber: number) => {
+    const values = { ...doc.values, page: String(pageNumber), pages: String(pages) };
+    const place = (value: string | undefined, align: 'left' | 'center' | 'right') => {
+      if (!value) return;
+      const filled = fillPlaceholders(value, values);
+      const width = getSheetTextWidth(pdf, filled, 8);
+      const x = align === 'left' ? left : align === 'right' ? left + contentWidth - width : left + (contentWidth - width) / 2;
+      drawSheetText(pdf, filled, x, baseline, 8, '#666666');
+    };
+    place(text.left, 'left');
+    place(text.center, 'center');
+    place(text.right, 'right');
+  };
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    drawPageText(doc.header, PDF_MARGIN - 5, i);
+    drawPageText(doc.footer, page.height - PDF_MARGIN + 8, i);
+  }
+  return pdf;
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Standalone HTML page that prints on the template's paper. Browsers number printed pages
+ * themselves, so header and footer parts using {page} or {pages} are left out.
+ */
+export const renderReportToHtml = (doc: ReportDocument): string => {
+  const page = getPageSize({ paperSize: doc.paper.size, orientation: doc.paper.orientation });
+  const pageText = (text: ReportPageText, tag: string) => {
+    const aligns = ['left', 'center', 'right'] as const;
+    const parts = aligns.map(align => {
+      const value = text[align];
+      return value && !/\{pages?\}/.test(value) ? escapeHtml(fillPlaceholders(value, doc.values)) : '';
+    });
+    if (parts.every(p => !p)) return '';
+    return `<${tag} class="page-text">${parts.map((p, i) => `<span class="${aligns[i]}">${p}</span>`).join('')}</${tag}>`;
+  };
+
+  const blocks = doc.blocks.map(block => {
+    const total = block.columns.reduce((s, c) => s + c.width, 0) || 1;
+    const colgroup = block.columns.map(c => `<col style="width:${(c.width / total * 100).toFixed(2)}%">`).join('');
+    const head = block.columns.map(c => `<th class="${c.align}">${escapeHtml(c.label)}</th>`).join('');
+    const body = block.rows.map(row => {
+      if (row.kind === 'group') {
+        return `<tr class="group level-${row.level}"><td colspan="${block.columns.length}" style="padding-left:${0.4 + row.level}em">${escapeHtml(row.cells[0].text)}</td></tr>`;
+      }
+      const cells: string[] = [];
+      for (let i = 0; i < row.cells.length;) {
+        const span = getLabelSpan(row, i);
+        const align = row.labelIndex === i ? 'left' : block.columns[i].align;
+        const attrs = (span > 1 ? ` colspan="${span}"` : '') + (i === 0 && row.level > 0 ? ` style="padding-left:${0.4 + row.level}em"` : '');
+        cells.push(`<td class="${align}"${attrs}>${escapeHtml(row.cells[i].text)}</td>`);
+        i += span;
+      }
+      return `<tr class="${row.kind}">${cells.join('')}</tr>`;
+    }).join('\n');
+    return `<section${block.pageBreakBefore ? ' class="page-break"' : ''}>` +
+      (block.title ? `<h2>${escapeHtml(block.title)}</h2>` : '') +
+      (block.text ? block.text.split('\n').map(line => `<p>${escapeHtml(line)}</p>`).join('') : '') +
+      `<table><colgroup>${colgroup}</colgroup><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table></section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>
+@page { size: ${page.width}mm ${page.height}mm; margin: ${PDF_MARGIN}mm; }
+body { font-family: Helvetica, Arial, sans-serif; font-size: 9pt; color: #000; margin: 0 auto; max-width: ${page.width - PDF_MARGIN * 2}mm; }
+h1 { font-size: 16pt; margin: 0 0 2mm; }
+h2 { font-size: 12pt; margin: 6mm 0 2mm; }
+.subtitle { font-size: 11pt; margin: 0 0 4mm; }
+p { margin: 0 0 1mm; color: #333; }
+table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+th, td { padding: 0.6mm 1mm; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+th { border-bottom: 0.3mm solid #000; text-align: left; }
+.right { text-align: right; }
+tr.group td { font-weight: bold; }
+tr.group.level-0 td { background: #ebeef2; }
+tr.subtotal td { font-weight: bold; border-top: 0.1mm solid #999; }
+tr.total td { font-weight: bold; border-top: 0.3mm solid #000; }
+.page-text { display: flex; justify-content: space-between; color: #666; font-size: 8pt; }
+.page-text span { flex: 1; }
+.page-text .center { text-align: center; }
+.page-text .right { text-align: right; }
+.page-break { break-before: page; }
+@media print { thead { display: table-header-group; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+${pageText(doc.header, 'header')}
+<h1>${escapeHtml(doc.title)}</h1>
+${doc.subtitle ? `<div class="subtitle">${escapeHtml(doc.subtitle)}</div>` : ''}
+${blocks}
+${pageText(doc.footer, 'footer')}
+</body>
+</html>
+`;
+};
+
+// --- Spreadsheet ---
+
+/** One worksheet per section, with group, subtotal and total rows as printed. */
+export const renderReportToSheets = (doc: ReportDocument): SpreadsheetSheet[] =>
+  doc.blocks.map((block, i) => ({
+    name: block.title || `Section ${i + 1}`,
+    headers: block.columns.map(c => c.label),
+    rows: block.rows.map(row => row.cells.map(cell => cell.value ?? (cell.text || null))),
+    widths: block.columns.map(c => Math.max(8, Math.min(40, c.width * 6)))
+  }));
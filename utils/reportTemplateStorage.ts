@@ -0,0 +1,82 @@
+import { ReportFieldDef, ReportTemplate, validateReportTemplate } from './reportEngine';
+import { downloadBlob } from './download';
+
+const STORAGE_KEY = 'DXF_VISTA_REPORT_TEMPLATES';
+
+// Templates imported by the user, as stored; built-in ones live with their domain
+const readStoredReportTemplates = (): ReportTemplate[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error("Failed to load report templates", e);
+        return [];
+    }
+};
+
+/**
+ * Stored templates that still render against the report's fields. Edited storage or a field
+ * renamed since the import would otherwise only fail when the report is run; such templates stay
+ * stored but are not offered.
+ */
+export const getStoredReportTemplates = (fields: Record<string, ReportFieldDef>): ReportTemplate[] =>
+    readStoredReportTemplates().filter(template => {
+        const errors = validateReportTemplate(template, fields);
+        if (errors.length > 0) console.warn(`Skipping stored report template: ${errors.join(' ')}`);
+        return errors.length === 0;
+    });
+
+const saveStoredReportTemplates = (templates: ReportTemplate[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    } catch (e) {
+        console.error("Failed to save report templates", e);
+    }
+};
+
+export const removeStoredReportTemplate = (id: string, fields: Record<string, ReportFieldDef>): ReportTemplate[] => {
+    saveStoredReportTemplates(readStoredReportTemplates().filter(t => t?.id !== id));
+    return getStoredReportTemplates(fields);
+};
+
+// Downloads a template as a starting point for a custom layout
+export const exportReportTemplateToJson = (template: ReportTemplate) => {
+    downloadBlob(new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' }), `report_template_${template.id}.json`);
+};
+
+/**
+ * Reads a template file, checks it against the report's fields and stores it; a stored template
+ * with the same id is replaced, built-in ids are refused.
+ */
+export const importReportTemplateFromJson = (
+    file: File,
+    fields: Record<string, ReportFieldDef>,
+    builtInIds: string[],
+    onComplete: (templates: ReportTemplate[], imported: ReportTemplate) => void
+) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+        try {
+            const json = e.target?.result as string;
+            if (!json) return;
+
+            const template = JSON.parse(json) as ReportTemplate;
+            const errors = validateReportTemplate(template, fields);
+            if (errors.length === 0 && builtInIds.includes(template.id)) {
+                errors.push(`Template id "${template.id}" belongs to a built-in template; give the copy a new id.`);
+            }
+            if (errors.length > 0) {
+                alert(`Invalid report template:\n${errors.join('\n')}`);
+                return;
+            }
+
+            saveStoredReportTemplates([...readStoredReportTemplates().filter(t => t?.id !== template.id), template]);
+            onComplete(getStoredReportTemplates(fields), template);
+        } catch (err) {
+            alert("Failed to parse report template file.");
+            console.error(err);
+        }
+    };
+    reader.readAsText(file);
+};
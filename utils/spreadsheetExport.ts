@@ -0,0 +1,223 @@
+// Minimal CSV and XLSX writers for tabular reports; no dependencies, runs in the browser or a worker
+
+export type SpreadsheetCell = string | number | null;
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  rows: SpreadsheetCell[][];
+  widths?: number[]; // Column widths in characters
+  footerRows?: number; // Trailing rows (totals) kept out of the filter range
+}
+
+// --- CSV ---
+
+const csvField = (value: SpreadsheetCell): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 with CRLF rows and a BOM, so Excel opens UTF-8 (CJK beam codes) correctly. */
+export const writeCsv = (sheet: SpreadsheetSheet): string =>
+  '\uFEFF' + [sheet.headers, ...sheet.rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// --- ZIP (stored, no compression) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const zipStored = (files: { name: string, data: Uint8Array }[], date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const entries = files.map(f => ({ name: encoder.encode(f.name), data: f.data, crc: crc32(f.data), offset: 0 }));
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.name.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  // Shared tail of the local and central headers: version, flags, method, time, date, crc, sizes, name length
+  const writeCommon = (e: typeof entries[number]) => {
+    view.setUint16(pos, 20, true);
+    view.setUint16(pos + 2, 0x0800, true); // UTF-8 names
+    view.setUint16(pos + 4, 0, true);      // Stored
+    view.setUint16(pos + 6, dosTime, true);
+    view.setUint16(pos + 8, dosDate, true);
+    view.setUint32(pos + 10, e.crc, true);
+    view.setUint32(pos + 14, e.data.length, true);
+    view.setUint32(pos + 18, e.data.length, true);
+    view.setUint16(pos + 22, e.name.length, true);
+    view.setUint16(pos + 24, 0, true);     // Extra field length
+    pos += 26;
+  };
+
+  entries.forEach(e => {
+    e.offset = pos;
+    view.setUint32(pos, 0x04034B50, true);
+    pos += 4;
+    writeCommon(e);
+    out.set(e.name, pos);
+    pos += e.name.length;
+    out.set(e.data, pos);
+    pos += e.data.length;
+  });
+
+  const centralStart = pos;
+  entries.forEach(e => {
+    view.setUint32(pos, 0x02014B50, true);
+    view.setUint16(pos + 4, 20, true);     // Version made by
+    pos += 6;
+    writeCommon(e);
+    view.setUint16(pos, 0, true);          // Comment length
+    view.setUint16(pos + 2, 0, true);      // Disk number
+    view.setUint16(pos + 4, 0, true);      // Internal attributes
+    view.setUint32(pos + 6, 0, true);      // External attributes
+    view.setUint32(pos + 10, e.offset, true);
+    pos += 14;
+    out.set(e.name, pos);
+    pos += e.name.length;
+  });
+
+  view.setUint32(pos, 0x06054B50, true);
+  view.setUint16(pos + 8, entries.length, true);
+  view.setUint16(pos + 10, entries.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+};
+
+// --- XLSX (SpreadsheetML) ---
+
+const xmlEscape = (text: string) => text
+  // Control characters are not allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  return name;
+};
+
+// Excel rejects sheet names over 31 characters, with []:*?/\ or duplicated
+const sheetNames = (sheets: SpreadsheetSheet[]) => {
+  const used = new Set<string>();
+  return sheets.map((s, i) => {
+    const base = (s.name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${i + 1}`).slice(0, 31);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// Header and data rows, A1-style, for the autoFilter and its defined name
+const filterRange = (sheet: SpreadsheetSheet, absolute = false) => {
+  const $ = absolute ? '$' : '';
+  return `${$}A${$}1:${$}${columnName(sheet.headers.length - 1)}${$}${sheet.rows.length - (sheet.footerRows || 0) + 1}`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const worksheetXml = (sheet: SpreadsheetSheet): string => {
+  const cell = (value: SpreadsheetCell, ref: string, style: number) => {
+    const s = style ? ` s="${style}"` : '';
+    if (value === null || value === '') return '';
+    if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+  };
+  const rows = [sheet.headers, ...sheet.rows].map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => cell(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0)).join('')}</row>`
+  );
+  const widths = sheet.headers.map((header, c) => sheet.widths?.[c] ?? Math.min(40, Math.max(8, header.length + 2)));
+  return XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}">` +
+    // Header row stays visible while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths.map((w, c) => `<col min="${c + 1}" max="${c + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>` +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    (sheet.headers.length > 0 ? `<autoFilter ref="${filterRange(sheet)}"/>` : '') +
+    '</worksheet>';
+};
+
+/** Workbook with one worksheet per sheet; header rows are bold, frozen and filterable. */
+export const writeXlsx = (sheets: SpreadsheetSheet[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const names = sheetNames(sheets);
+  const files: { name: string, data: string }[] = [
+    {
+      name: '[Content_Types].xml',
+      data: XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: XML_HEADER +
+        `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+        names.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets>' +
+        // Filters need their hidden defined name, or Excel repairs the file
+        '<definedNames>' +
+        sheets.map((s, i) => s.headers.length > 0
+          ? `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${xmlEscape(names[i].replace(/'/g, "''"))}'!${filterRange(s, true)}</definedName>`
+          : '').join('') +
+        '</definedNames></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      data: XML_HEADER +
+        `<styleSheet xmlns="${MAIN_NS}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>'
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: worksheetXml(sheet) }))
+  ];
+  return zipStored(files.map(f => ({ name: f.name, data: encoder.encode(f.data) })));
+};
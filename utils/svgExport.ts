@@ -0,0 +1,276 @@
+import { DxfData, DxfLayout, LayerColors, Point, PolylineVertex, SearchResult } from '../types';
+import { TextLayout, getTextBlockTop } from './textUtils';
+import { getModelSpaceEntities } from './layoutUtils';
+import { DrawBackend, DrawShape, createEntityWalker, getScreenDash } from './entityWalker';
+
+interface SvgRenderOptions {
+    data: DxfData;
+    activeLayers: Set<string>;
+    layerColors: LayerColors;
+    filledLayers?: Set<string>;
+    transform: { k: number, x: number, y: number }; // Same view as renderDxfToCanvas: screen = world * k + offset, y up
+    width: number;
+    height: number;
+    whiteBackground?: boolean; // Print colors (color 7 flips to black) on a white sheet
+    highlights?: SearchResult[];
+    activeHighlightIndex?: number;
+    // When set, lines are drawn with their plotted lineweight (370) at this many pixels per mm
+    lineWeightPxPerMm?: number;
+    // Paper space layout to draw instead of model space
+    layout?: DxfLayout;
+}
+
+// Numbers are rounded to keep the file small; drawing coordinates rarely need more
+const num = (v: number) => {
+    const r = Math.round(v * 1e4) / 1e4;
+    return Object.is(r, -0) ? '0' : String(r);
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Layer names may hold spaces and symbols that are not allowed in an XML id
+const toLayerId = (layer: string, used: Set<string>) => {
+    let id = layer.replace(/[^\w\-.\u00B7\u00C0-\uFFFF]/g, '_');
+    if (!/^[A-Za-z_\u00C0-\uFFFF]/.test(id)) id = `_${id}`;
+    let unique = id;
+    for (let n = 2; used.has(unique); n++) unique = `${id}_${n}`;
+    used.add(unique);
+    return unique;
+};
+
+const pointsPath = (pts: Point[], closed: boolean) =>
+    pts.map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x)} ${num(p.y)}`).join('') + (closed ? 'Z' : '');
+
+// Polyline path with its bulges as circular arcs
+const polylinePath = (vertices: PolylineVertex[], closed: boolean) => {
+    let d = `M${num(vertices[0].x)} ${num(vertices[0].y)}`;
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < count; i++) {
+        const p1 = vertices[i];
+        const p2 = vertices[(i + 1) % vertices.length];
+        if (p1.bulge && (p1.x !== p2.x || p1.y !== p2.y)) {
+            const sweep = 4 * Math.atan(p1.bulge);
+            const radius = Math.hypot(p2.x - p1.x, p2.y - p1.y) / (2 * Math.sin(Math.abs(sweep) / 2));
+            // Drawing space has y up, so a counterclockwise (positive) bulge is SVG's positive-angle sweep
+            d += `A${num(radius)} ${num(radius)} 0 ${Math.abs(sweep) > Math.PI ? 1 : 0} ${p1.bulge > 0 ? 1 : 0} ${num(p2.x)} ${num(p2.y)}`;
+        } else if (i < vertices.length - 1) {
+            d += `L${num(p2.x)} ${num(p2.y)}`;
+        }
+        // A straight closing segment is drawn by Z
+    }
+    return closed ? d + 'Z' : d;
+};
+
+// Elliptical arc from parameter start to end (radians, counterclockwise)
+const ellipseArcPath = (center: Point, majorAxis: Point, ratio: number, start: number, end: number) => {
+    const rx = Math.hypot(majorAxis.x, majorAxis.y);
+    const ry = rx * ratio;
+    const rotation = Math.atan2(majorAxis.y, majorAxis.x);
+    const at = (t: number) => ({
+        x: center.x + Math.cos(t) * majorAxis.x - Math.sin(t) * majorAxis.y * ratio,
+        y: center.y + Math.cos(t) * majorAxis.y + Math.sin(t) * majorAxis.x * ratio
+    });
+    const p1 = at(start);
+    const p2 = at(end);
+    const large = end - start > Math.PI ? 1 : 0;
+    return `M${num(p1.x)} ${num(p1.y)}A${num(rx)} ${num(ry)} ${num(rotation * 180 / Math.PI)} ${large} 1 ${num(p2.x)} ${num(p2.y)}`;
+};
+
+/**
+ * Text in the same placement as the canvas renderer: drawing space is flipped back to y down
+ * around the anchor, then rotated, slanted and stretched.
+ */
+const textLayoutSvg = (layout: TextLayout, color: string, extra = '') => {
+    const transforms = [
+        `translate(${num(layout.anchor.x)} ${num(layout.anchor.y)})`,
+        'scale(1 -1)',
+        layout.rotation ? `rotate(${num(-layout.rotation)})` : '',
+        layout.obliqueAngle ? `skewX(${num(-layout.obliqueAngle)})` : '',
+        layout.widthFactor !== 1 ? `scale(${num(layout.widthFactor)} 1)` : ''
+    ].filter(Boolean).join(' ');
+    const anchor = layout.hAlign === 'center' ? 'middle' : layout.hAlign === 'right' ? 'end' : 'start';
+    const baseline = layout.vAlign === 'baseline';
+    const top = baseline ? 0 : getTextBlockTop(layout);
+    const spans = layout.lines
+        .map((line, i) => `<tspan x="0" y="${num(top + i * layout.lineHeight)}">${escapeXml(line)}</tspan>`)
+        .join('');
+    return `<text transform="${transforms}" font-size="${num(layout.height)}" font-family="${escapeXml(layout.fontFamily)}" ` +
+        `text-anchor="${anchor}" dominant-baseline="${baseline ? 'alphabetic' : 'text-before-edge'}" fill="${color}"${extra} xml:space="preserve">${spans}</text>`;
+};
+
+// SVG element of a walker shape with the given paint attributes
+const shapeElement = (shape: DrawShape, paint: string): string => {
+    switch (shape.type) {
+        case 'path': {
+            const [first] = shape.paths;
+            if (shape.paths.length === 1 && first.length === 2 && !shape.closed && !first[0].bulge) {
+                return `<line x1="${num(first[0].x)}" y1="${num(first[0].y)}" x2="${num(first[1].x)}" y2="${num(first[1].y)}" ${paint}/>`;
+            }
+            return `<path d="${shape.paths.map(vertices => polylinePath(vertices, shape.closed)).join('')}" ${paint}/>`;
+        }
+        case 'circle':
+            return `<circle cx="${num(shape.center.x)}" cy="${num(shape.center.y)}" r="${num(shape.radius)}" ${paint}/>`;
+        case 'arc':
+            return `<path d="${ellipseArcPath(shape.center, { x: shape.radius, y: 0 }, 1, shape.start, shape.end)}" ${paint}/>`;
+        case 'ellipse': {
+            if (shape.end - shape.start < 2 * Math.PI - 1e-9) {
+                return `<path d="${ellipseArcPath(shape.center, shape.majorAxis, shape.ratio, shape.start, shape.end)}" ${paint}/>`;
+            }
+            const rx = Math.hypot(shape.majorAxis.x, shape.majorAxis.y);
+            const rotation = Math.atan2(shape.majorAxis.y, shape.majorAxis.x) * 180 / Math.PI;
+            return `<ellipse cx="0" cy="0" rx="${num(rx)}" ry="${num(rx * shape.ratio)}" transform="translate(${num(shape.center.x)} ${num(shape.center.y)}) rotate(${num(rotation)})" ${paint}/>`;
+        }
+    }
+};
+
+/**
+ * Renders the drawing as an SVG document with the same entity walk as renderDxfToCanvas: the same
+ * colors, filled layer stencils, block recursion, linetypes, layouts and search highlights. Output
+ * is grouped by layer into <g> elements whose ids are the layer names (also marked as Inkscape
+ * layers); blocks keep their placement as nested transforms.
+ */
+export const renderDxfToSvg = ({
+    data,
+    activeLayers,
+    layerColors,
+    filledLayers,
+    transform,
+    width,
+    height,
+    whiteBackground = false,
+    highlights,
+    activeHighlightIndex,
+    lineWeightPxPerMm,
+    layout
+}: SvgRenderOptions): string => {
+    // Line widths and dashes are in screen pixels (non-scaling strokes), as on the canvas
+    const baseLineWidth = whiteBackground ? 2 : 1;
+
+    // Text is measured like the canvas measures it, when a canvas is available
+    const measureCtx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+
+    // Output per layer. Nested groups (blocks, viewports) collect into a fresh set of buffers and
+    // are wrapped per layer, so every layer group holds only its own content.
+    let buffers = new Map<string, string[]>();
+    const emit = (layer: string, svg: string) => {
+        let parts = buffers.get(layer);
+        if (!parts) buffers.set(layer, parts = []);
+        parts.push(svg);
+    };
+    const wrapped = (open: string, close: string, draw: () => void) => {
+        const outer = buffers;
+        buffers = new Map();
+        draw();
+        const inner = buffers;
+        buffers = outer;
+        inner.forEach((parts, layer) => emit(layer, open + parts.join('') + close));
+    };
+
+    const defs: string[] = [];
+    const opacity = (alpha: number) => alpha < 1 ? ` opacity="${num(alpha)}"` : '';
+
+    const backend: DrawBackend = {
+        measureText: fontFamily => measureCtx
+            ? (text, h) => {
+                measureCtx.font = `${h}px ${fontFamily}`;
+                return measureCtx.measureText(text).width;
+            }
+            : undefined,
+        withPlacement: ({ origin, rotation, scale, basePoint }, draw) => {
+            const placement = [
+                `translate(${num(origin.x)} ${num(origin.y)})`,
+                rotation ? `rotate(${num(rotation)})` : '',
+                scale.x !== 1 || scale.y !== 1 ? `scale(${num(scale.x)} ${num(scale.y)})` : '',
+                basePoint.x || basePoint.y ? `translate(${num(-basePoint.x)} ${num(-basePoint.y)})` : ''
+            ].filter(Boolean).join(' ');
+            wrapped(`<g transform="${placement}">`, '</g>', draw);
+        },
+        withViewport: (clip, view, draw) => {
+            const clipId = `viewport-clip-${defs.length + 1}`;
+            defs.push(`<clipPath id="${clipId}" clipPathUnits="userSpaceOnUse"><path d="${pointsPath(clip, true)}"/></clipPath>`);
+            const viewTransform = `translate(${num(view.paperCenter.x)} ${num(view.paperCenter.y)}) rotate(${num(view.rotation)}) ` +
+                `scale(${num(view.scale)}) translate(${num(-view.modelCenter.x)} ${num(-view.modelCenter.y)})`;
+            wrapped(`<g clip-path="url(#${clipId})"><g transform="${viewTransform}">`, '</g></g>', draw);
+        },
+        stroke: (shape, style) => {
+            const lineWidth = lineWeightPxPerMm && style.lineWeightMm !== undefined
+                ? Math.max(1, style.lineWeightMm * lineWeightPxPerMm)
+                : baseLineWidth;
+            const dash = getScreenDash(style, transform.k * Math.abs(style.scaleAcc), lineWidth);
+            const paint = `fill="none" stroke="${style.color}" stroke-width="${num(lineWidth)}"` +
+                (dash.length > 0 ? ` stroke-dasharray="${dash.map(num).join(' ')}"` : '') +
+                ` vector-effect="non-scaling-stroke"${opacity(style.alpha)}`;
+            emit(style.layer, shapeElement(shape, paint));
+        },
+        fill: (shape, style, evenOdd = false) => {
+            emit(style.layer, shapeElement(shape, `fill="${style.color}"${evenOdd ? ' fill-rule="evenodd"' : ''}${opacity(style.alpha)}`));
+        },
+        text: (layout, style) => emit(style.layer, textLayoutSvg(layout, style.color, opacity(style.alpha)))
+    };
+
+    // --- EXECUTION ---
+
+    const walker = createEntityWalker(backend, { data, activeLayers, layerColors, filledLayers, onWhite: whiteBackground });
+
+    // Paper space entities only show up on their layout
+    const modelEntities = getModelSpaceEntities(data);
+
+    // 1. Fill Pass, composited at 40% per layer like the canvas stencil buffer
+    if (!layout && filledLayers && filledLayers.size > 0) {
+        wrapped('<g opacity="0.4">', '</g>', () => walker.drawFills(modelEntities));
+    }
+
+    // 2. Stroke Pass
+    if (layout) walker.drawLayout(layout);
+    else walker.drawStrokes(modelEntities);
+
+    // Layer groups in the drawing's layer order
+    const usedIds = new Set<string>();
+    const layerOrder = [...data.layers, ...[...buffers.keys()].filter(l => !data.layers.includes(l))];
+    const layerGroups = layerOrder
+        .filter(layer => buffers.has(layer))
+        .map(layer => `<g id="${toLayerId(layer, usedIds)}" inkscape:groupmode="layer" inkscape:label="${escapeXml(layer)}" stroke-linecap="round" stroke-linejoin="round">` +
+            buffers.get(layer)!.join('') + '</g>');
+
+    // 3. Highlight Pass (Search Results, model space only)
+    let highlightGroup = '';
+    if (!layout && highlights && highlights.length > 0) {
+        const boxes = highlights.map((h, i) => {
+            const isActive = i === activeHighlightIndex;
+            const w = h.bounds.maxX - h.bounds.minX;
+            const hVal = h.bounds.maxY - h.bounds.minY;
+            // Box from the insertion point in the text's rotated space
+            const rotation = h.rotation ? ` rotate(${num(h.rotation)})` : '';
+            const fill = isActive ? 'rgba(255, 165, 0, 0.7)' : 'rgba(255, 255, 0, 0.35)'; // Orange for active, Yellow for others
+            const outline = isActive ? ' stroke="#ef4444" stroke-width="2" vector-effect="non-scaling-stroke"' : '';
+            return `<rect x="0" y="0" width="${num(w)}" height="${num(hVal)}" transform="translate(${num(h.bounds.minX)} ${num(h.bounds.minY)})${rotation}" fill="${fill}"${outline}/>`;
+        });
+        highlightGroup = `<g id="search-highlights">${boxes.join('')}</g>`;
+    }
+
+    // Sheet behind a layout's viewports
+    let sheetRect = '';
+    if (layout?.limitsMin && layout.limitsMax) {
+        sheetRect = `<rect x="${num(layout.limitsMin.x)}" y="${num(layout.limitsMin.y)}" width="${num(layout.limitsMax.x - layout.limitsMin.x)}" ` +
+            `height="${num(layout.limitsMax.y - layout.limitsMin.y)}" fill="${whiteBackground ? '#FFFFFF' : '#1e293b'}"/>`;
+    }
+
+    // World to screen: the canvas view transform, y flipped
+    const view = `matrix(${num(transform.k)} 0 0 ${num(-transform.k)} ${num(transform.x)} ${num(height - transform.y)})`;
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+            `width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+        defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+        `<rect width="100%" height="100%" fill="${whiteBackground ? '#FFFFFF' : '#0f172a'}"/>`,
+        `<g transform="${view}">`,
+        sheetRect,
+        ...layerGroups,
+        highlightGroup,
+        '</g>',
+        '</svg>',
+        ''
+    ].filter(line => line !== '').join('\n');
+};
@@ -0,0 +1,211 @@
+
+import { DxfEntity, DxfTextStyle, EntityType, Point } from '../types';
+
+export type TextHAlign = 'left' | 'center' | 'right';
+export type TextVAlign = 'baseline' | 'bottom' | 'middle' | 'top';
+
+// Text width in drawing units at a given height, before the width factor
+export type TextMeasure = (text: string, height: number) => number;
+
+export interface TextLayout {
+  anchor: Point;        // Point the alignment refers to
+  rotation: number;     // Baseline direction in degrees
+  height: number;
+  widthFactor: number;  // Horizontal stretch (fit text folds its stretch in here)
+  obliqueAngle: number; // Slant in degrees, positive leans right
+  hAlign: TextHAlign;
+  vAlign: TextVAlign;   // For multi-line MTEXT this positions the whole block
+  lines: string[];
+  lineHeight: number;   // Baseline-to-baseline distance
+  fontFamily: string;
+}
+
+// CAD line spacing: 5/3 of the text height at factor 1
+const LINE_SPACING = 5 / 3;
+
+const DEFAULT_TEXT_HEIGHT = 10;
+
+const H_ALIGNS: TextHAlign[] = ['left', 'center', 'right'];
+const V_ALIGNS: TextVAlign[] = ['baseline', 'bottom', 'middle', 'top'];
+
+// MTEXT attachment 1-9: rows top/middle/bottom, columns left/center/right
+const ATTACHMENT_V_ALIGNS: TextVAlign[] = ['top', 'middle', 'bottom'];
+
+// Full-width ranges: Hangul Jamo, CJK, Hangul syllables, compatibility ideographs, full-width forms
+const WIDE_CHARS = '\\u1100-\\u115F\\u2E80-\\uA4CF\\uAC00-\\uD7A3\\uF900-\\uFAFF\\uFE30-\\uFE4F\\uFF00-\\uFF60\\uFFE0-\\uFFE6';
+const WIDE_CHAR_RE = new RegExp(`[${WIDE_CHARS}]`);
+// Wrap tokens: single wide characters, whitespace runs, and runs of other characters
+const WRAP_TOKEN_RE = new RegExp(`[${WIDE_CHARS}]|\\s+|[^\\s${WIDE_CHARS}]+`, 'g');
+
+const isWideChar = (ch: string) => WIDE_CHAR_RE.test(ch);
+
+/**
+ * Width estimate without font metrics: CJK characters are square, others roughly 0.7 of the height
+ * (close to the common SHX fonts).
+ */
+export const estimateTextWidth: TextMeasure = (text, height) => {
+  let units = 0;
+  for (const ch of text) units += isWideChar(ch) ? 1 : 0.7;
+  return units * height;
+};
+
+export const getTextStyle = (ent: DxfEntity, styles?: Record<string, DxfTextStyle>): DxfTextStyle | undefined =>
+  ent.textStyle ? styles?.[ent.textStyle.toUpperCase()] : undefined;
+
+// TrueType fonts map to their family name; SHX fonts have no browser equivalent
+export const getStyleFontFamily = (style?: DxfTextStyle): string => {
+  const file = style?.fontFile?.trim();
+  const match = file && /^(?:.*[\\/])?([^\\/]+)\.(ttf|ttc|otf)$/i.exec(file);
+  return match ? `"${match[1]}", sans-serif` : 'monospace';
+};
+
+// Height as drawn: the entity's own height, else the style's fixed height
+export const getTextHeight = (ent: DxfEntity, styles?: Record<string, DxfTextStyle>): number => {
+  const height = ent.textHeight ?? ent.radius;
+  if (height) return height;
+  return getTextStyle(ent, styles)?.fixedHeight || DEFAULT_TEXT_HEIGHT;
+};
+
+/**
+ * Greedy word wrap to `maxWidth`. Latin text breaks at spaces, CJK text between any two characters.
+ */
+const wrapLine = (line: string, maxWidth: number, measure: (s: string) => number): string[] => {
+  if (measure(line) <= maxWidth) return [line];
+  const tokens = line.match(WRAP_TOKEN_RE) || [];
+  const result: string[] = [];
+  let current = '';
+  tokens.forEach(token => {
+    const candidate = current + token;
+    if (current && measure(candidate.trimEnd()) > maxWidth) {
+      result.push(current.trimEnd());
+      current = /^\s+$/.test(token) ? '' : token;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current.trim() || result.length === 0) result.push(current.trimEnd());
+  return result;
+};
+
+/**
+ * Resolves where and how a TEXT/MTEXT/ATTRIB entity is drawn, following CAD placement rules:
+ * - TEXT is anchored at its alignment point (11/21) unless it is left/baseline aligned;
+ *   aligned/fit text is stretched between the two points.
+ * - MTEXT is anchored at its insertion point by the attachment point and wrapped to the
+ *   reference rectangle width.
+ * `measure` should return widths at width factor 1; the renderer passes real font metrics.
+ */
+export const getTextLayout = (
+  ent: DxfEntity,
+  styles?: Record<string, DxfTextStyle>,
+  measure: TextMeasure = estimateTextWidth
+): TextLayout | null => {
+  if (!ent.start || ent.text === undefined) return null;
+
+  const style = getTextStyle(ent, styles);
+  let height = getTextHeight(ent, styles);
+  let widthFactor = ent.widthFactor || style?.widthFactor || 1;
+  const obliqueAngle = ent.obliqueAngle ?? style?.obliqueAngle ?? 0;
+  const fontFamily = getStyleFontFamily(style);
+  let rotation = ent.startAngle || 0;
+
+  if (ent.type === EntityType.MTEXT || ent.type === EntityType.MULTILEADER) {
+    // MULTILEADER text has no attachment point of its own and hangs from its top-left corner
+    const attachment = Math.min(Math.max(ent.attachmentPoint || 1, 1), 9) - 1;
+    const lineWidth = (s: string) => measure(s, height) * widthFactor;
+    const paragraphs = ent.text.split('\n');
+    const lines = ent.referenceWidth && ent.referenceWidth > 0
+      ? paragraphs.flatMap(p => wrapLine(p, ent.referenceWidth!, lineWidth))
+      : paragraphs;
+    return {
+      anchor: ent.start,
+      rotation,
+      height,
+      widthFactor,
+      obliqueAngle,
+      hAlign: H_ALIGNS[attachment % 3],
+      vAlign: ATTACHMENT_V_ALIGNS[Math.floor(attachment / 3)],
+      lines,
+      lineHeight: height * LINE_SPACING * (ent.lineSpacing || 1),
+      fontFamily
+    };
+  }
+
+  const hCode = ent.hAlign || 0;
+  const vCode = ent.vAlign || 0;
+  let anchor = ent.start;
+  let hAlign: TextHAlign = 'left';
+  let vAlign: TextVAlign = 'baseline';
+
+  if ((hCode === 3 || hCode === 5) && ent.alignPoint) {
+    // Aligned (3) scales the whole text to fit between the points, fit (5) only stretches it
+    const dx = ent.alignPoint.x - ent.start.x;
+    const dy = ent.alignPoint.y - ent.start.y;
+    const length = Math.hypot(dx, dy);
+    const natural = measure(ent.text, height) * widthFactor;
+    if (length > 0 && natural > 0) {
+      rotation = Math.atan2(dy, dx) * 180 / Math.PI;
+      if (hCode === 3) height *= length / natural;
+      else widthFactor *= length / natural;
+    }
+  } else if (hCode === 4) {
+    // "Middle" centers on the alignment point in both directions
+    anchor = ent.alignPoint || ent.start;
+    hAlign = 'center';
+    vAlign = 'middle';
+  } else {
+    if (hCode !== 0 || vCode !== 0) anchor = ent.alignPoint || ent.start;
+    hAlign = H_ALIGNS[hCode] || 'left';
+    vAlign = V_ALIGNS[vCode] || 'baseline';
+  }
+
+  return {
+    anchor,
+    rotation,
+    height,
+    widthFactor,
+    obliqueAngle,
+    hAlign,
+    vAlign,
+    lines: [ent.text],
+    lineHeight: height * LINE_SPACING,
+    fontFamily
+  };
+};
+
+/**
+ * Offset from the anchor to the top of the first line, measured downwards along the text's y axis.
+ */
+export const getTextBlockTop = (layout: TextLayout): number => {
+  const blockHeight = (layout.lines.length - 1) * layout.lineHeight + layout.height;
+  switch (layout.vAlign) {
+    case 'top': return 0;
+    case 'middle': return -blockHeight / 2;
+    case 'bottom': return -blockHeight;
+    // Baseline: the first line sits on the anchor
+    default: return -layout.height;
+  }
+};
+
+/**
+ * Corners of the text box (counter-clockwise from bottom-left) in drawing coordinates.
+ */
+export const getTextBoxCorners = (layout: TextLayout, measure: TextMeasure = estimateTextWidth): Point[] => {
+  const width = Math.max(0, ...layout.lines.map(l => measure(l, layout.height))) * layout.widthFactor;
+  const blockHeight = (layout.lines.length - 1) * layout.lineHeight + layout.height;
+  const left = layout.hAlign === 'left' ? 0 : layout.hAlign === 'center' ? -width / 2 : -width;
+  // Local y points up here, so the block spans [top - blockHeight, top]
+  const top = -getTextBlockTop(layout);
+  const rad = layout.rotation * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    { x: left, y: top - blockHeight },
+    { x: left + width, y: top - blockHeight },
+    { x: left + width, y: top },
+    { x: left, y: top }
+  ].map(p => ({
+    x: layout.anchor.x + p.x * cos - p.y * sin,
+    y: layout.anchor.y + p.x * sin + p.y * cos
+  }));
+};
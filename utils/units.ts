@@ -0,0 +1,97 @@
+
+import { DxfHeader, ProjectFile } from '../types';
+
+// $INSUNITS codes -> metres per drawing unit
+const INSUNITS_TO_METERS: Record<number, number> = {
+  1: 0.0254,      // Inches
+  2: 0.3048,      // Feet
+  3: 1609.344,    // Miles
+  4: 0.001,       // Millimeters
+  5: 0.01,        // Centimeters
+  6: 1,           // Meters
+  7: 1000,        // Kilometers
+  8: 0.0000000254, // Microinches
+  9: 0.0000254,   // Mils
+  10: 0.9144,     // Yards
+  11: 1e-10,      // Angstroms
+  12: 1e-9,       // Nanometers
+  13: 1e-6,       // Microns
+  14: 0.1,        // Decimeters
+  15: 10,         // Decameters
+  16: 100,        // Hectometers
+  17: 1e9,        // Gigameters
+  18: 149597870700, // Astronomical units
+  21: 1200 / 3937 // US survey feet
+};
+
+export const INSUNITS_NAMES: Record<number, string> = {
+  1: 'in', 2: 'ft', 3: 'mi', 4: 'mm', 5: 'cm', 6: 'm', 7: 'km', 10: 'yd', 14: 'dm', 21: 'ft (US)'
+};
+
+/**
+ * Resolves the effective $INSUNITS code. Unitless drawings fall back to $MEASUREMENT
+ * (metric -> mm, imperial -> in); without any header we keep assuming millimetres.
+ */
+export const getDrawingUnits = (header?: DxfHeader): number => {
+  if (header?.insUnits && INSUNITS_TO_METERS[header.insUnits]) return header.insUnits;
+  if (header?.measurement === 0) return 1;
+  return 4;
+};
+
+/**
+ * Converts between real-world tolerances and drawing units.
+ * Structure services express their thresholds in millimetres and run them through `fromMm`,
+ * so the same heuristics work on mm, cm and m drawings.
+ */
+export interface UnitContext {
+  insUnits: number;
+  name: string;
+  toMeters: number;                  // Metres per drawing unit
+  fromMm: (mm: number) => number;    // Real-world millimetres -> drawing units
+  toMm: (value: number) => number;   // Drawing units -> real-world millimetres
+}
+
+export const createUnitContext = (insUnits: number): UnitContext => {
+  const toMeters = INSUNITS_TO_METERS[insUnits] ?? 0.001;
+  const perMm = 0.001 / toMeters;
+  return {
+    insUnits,
+    name: INSUNITS_NAMES[insUnits] || `units(${insUnits})`,
+    toMeters,
+    fromMm: (mm: number) => mm * perMm,
+    toMm: (value: number) => value / perMm
+  };
+};
+
+// The user's override wins over the header
+export const getProjectUnits = (project: ProjectFile): UnitContext =>
+  createUnitContext(project.drawingUnits ?? getDrawingUnits(project.data.header));
+
+// --- REPORT UNITS ---
+
+export type ReportUnitSystem = 'MM' | 'M' | 'FT';
+
+interface ReportUnitDef {
+  label: string;
+  length: { symbol: string, mm: number }; // mm per report unit
+  area: { symbol: string, mm2: number };
+  volume: { symbol: string, mm3: number };
+}
+
+// Section sizes read best in mm while quantities are priced per m3, hence the mixed metric default
+export const REPORT_UNIT_SYSTEMS: Record<ReportUnitSystem, ReportUnitDef> = {
+  MM: { label: 'Metric (mm / m3)', length: { symbol: 'mm', mm: 1 }, area: { symbol: 'm2', mm2: 1e6 }, volume: { symbol: 'm3', mm3: 1e9 } },
+  M: { label: 'Metric (m / m3)', length: { symbol: 'm', mm: 1000 }, area: { symbol: 'm2', mm2: 1e6 }, volume: { symbol: 'm3', mm3: 1e9 } },
+  FT: { label: 'Imperial (ft / ft3)', length: { symbol: 'ft', mm: 304.8 }, area: { symbol: 'ft2', mm2: 304.8 ** 2 }, volume: { symbol: 'ft3', mm3: 304.8 ** 3 } }
+};
+
+export const toReportLength = (mm: number, system: ReportUnitSystem): number => mm / REPORT_UNIT_SYSTEMS[system].length.mm;
+export const toReportArea = (mm2: number, system: ReportUnitSystem): number => mm2 / REPORT_UNIT_SYSTEMS[system].area.mm2;
+export const toReportVolume = (mm3: number, system: ReportUnitSystem): number => mm3 / REPORT_UNIT_SYSTEMS[system].volume.mm3;
+
+export const formatReportLength = (mm: number, system: ReportUnitSystem): string => {
+  const v = toReportLength(mm, system);
+  return system === 'MM' ? Math.round(v).toString() : v.toFixed(3);
+};
+export const formatReportArea = (mm2: number, system: ReportUnitSystem): string => toReportArea(mm2, system).toFixed(3);
+export const formatReportVolume = (mm3: number, system: ReportUnitSystem): string => toReportVolume(mm3, system).toFixed(3);